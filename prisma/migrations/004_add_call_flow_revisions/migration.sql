@@ -0,0 +1,23 @@
+-- Create CallFlowRevision table for immutable flow config history
+CREATE TABLE "CallFlowRevision" (
+    "id" TEXT NOT NULL,
+    "callFlowId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "flowType" "FlowType" NOT NULL,
+    "config" JSONB NOT NULL,
+    "note" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CallFlowRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CallFlowRevision_callFlowId_version_key" ON "CallFlowRevision"("callFlowId", "version");
+CREATE INDEX "CallFlowRevision_callFlowId_idx" ON "CallFlowRevision"("callFlowId");
+CREATE INDEX "CallFlowRevision_tenantId_idx" ON "CallFlowRevision"("tenantId");
+
+-- AddForeignKey
+ALTER TABLE "CallFlowRevision" ADD CONSTRAINT "CallFlowRevision_callFlowId_fkey" FOREIGN KEY ("callFlowId") REFERENCES "CallFlow"("id") ON DELETE CASCADE ON UPDATE CASCADE;
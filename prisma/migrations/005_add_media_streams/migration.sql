@@ -0,0 +1,3 @@
+-- Per-tenant toggle for the real-time media stream voice pipeline
+ALTER TABLE "ReceptionistConfig"
+ADD COLUMN "enableMediaStreams" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,22 @@
+-- Create CallIntent table for per-tenant intent classification
+CREATE TABLE "CallIntent" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "examples" TEXT[],
+    "action" TEXT NOT NULL DEFAULT 'answer',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CallIntent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CallIntent_tenantId_name_key" ON "CallIntent"("tenantId", "name");
+CREATE INDEX "CallIntent_tenantId_idx" ON "CallIntent"("tenantId");
+
+-- AddForeignKey
+ALTER TABLE "CallIntent" ADD CONSTRAINT "CallIntent_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- Per-tenant language model selection; NULL uses the platform default
+ALTER TABLE "ReceptionistConfig"
+ADD COLUMN "llmProvider" TEXT,
+ADD COLUMN "llmModel" TEXT;
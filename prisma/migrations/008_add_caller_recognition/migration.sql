@@ -0,0 +1,9 @@
+-- Link transfer targets to team members so returning callers can reach their owner
+ALTER TABLE "TransferTarget" ADD COLUMN "userId" TEXT;
+
+CREATE INDEX "TransferTarget_userId_idx" ON "TransferTarget"("userId");
+
+ALTER TABLE "TransferTarget" ADD CONSTRAINT "TransferTarget_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "ReceptionistConfig"
+ADD COLUMN "routeReturningCallers" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,56 @@
+-- Two-way SMS: one conversation per tenant number and participant
+CREATE TYPE "SmsConversationStatus" AS ENUM ('OPEN', 'CLOSED');
+CREATE TYPE "SmsDirection" AS ENUM ('INBOUND', 'OUTBOUND');
+
+CREATE TABLE "SmsConversation" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "twilioNumberId" TEXT NOT NULL,
+    "contactId" TEXT,
+    "assignedToId" TEXT,
+    "participantNumber" TEXT NOT NULL,
+    "status" "SmsConversationStatus" NOT NULL DEFAULT 'OPEN',
+    "aiAutoReply" BOOLEAN NOT NULL DEFAULT true,
+    "optedOut" BOOLEAN NOT NULL DEFAULT false,
+    "unreadCount" INTEGER NOT NULL DEFAULT 0,
+    "lastMessageAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastMessagePreview" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SmsConversation_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "SmsMessage" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "direction" "SmsDirection" NOT NULL,
+    "body" TEXT NOT NULL,
+    "twilioSid" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'received',
+    "error" TEXT,
+    "sentById" TEXT,
+    "isAutoReply" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SmsMessage_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "SmsConversation_twilioNumberId_participantNumber_key" ON "SmsConversation"("twilioNumberId", "participantNumber");
+CREATE INDEX "SmsConversation_tenantId_idx" ON "SmsConversation"("tenantId");
+CREATE INDEX "SmsConversation_contactId_idx" ON "SmsConversation"("contactId");
+CREATE INDEX "SmsConversation_assignedToId_idx" ON "SmsConversation"("assignedToId");
+CREATE INDEX "SmsConversation_lastMessageAt_idx" ON "SmsConversation"("lastMessageAt");
+CREATE UNIQUE INDEX "SmsMessage_twilioSid_key" ON "SmsMessage"("twilioSid");
+CREATE INDEX "SmsMessage_conversationId_createdAt_idx" ON "SmsMessage"("conversationId", "createdAt");
+
+ALTER TABLE "SmsConversation" ADD CONSTRAINT "SmsConversation_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "SmsConversation" ADD CONSTRAINT "SmsConversation_twilioNumberId_fkey" FOREIGN KEY ("twilioNumberId") REFERENCES "TwilioNumber"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "SmsConversation" ADD CONSTRAINT "SmsConversation_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "Contact"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "SmsConversation" ADD CONSTRAINT "SmsConversation_assignedToId_fkey" FOREIGN KEY ("assignedToId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "SmsMessage" ADD CONSTRAINT "SmsMessage_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "SmsConversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "SmsMessage" ADD CONSTRAINT "SmsMessage_sentById_fkey" FOREIGN KEY ("sentById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "ReceptionistConfig"
+ADD COLUMN "smsAutoReplyEnabled" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,46 @@
+-- Missed-call and after-hours SMS text-back
+CREATE TYPE "TextBackTrigger" AS ENUM ('MISSED_CALL', 'AFTER_HOURS');
+
+CREATE TABLE "TextBackRule" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "trigger" "TextBackTrigger" NOT NULL,
+    "template" TEXT NOT NULL,
+    "quietHoursStart" TEXT,
+    "quietHoursEnd" TEXT,
+    "dedupeMinutes" INTEGER NOT NULL DEFAULT 1440,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TextBackRule_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "TextBackLog" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "callSessionId" TEXT NOT NULL,
+    "toNumber" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "error" TEXT,
+    "scheduledAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TextBackLog_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "TextBackRule_tenantId_trigger_idx" ON "TextBackRule"("tenantId", "trigger");
+CREATE UNIQUE INDEX "TextBackLog_callSessionId_key" ON "TextBackLog"("callSessionId");
+CREATE INDEX "TextBackLog_tenantId_toNumber_createdAt_idx" ON "TextBackLog"("tenantId", "toNumber", "createdAt");
+
+ALTER TABLE "TextBackRule" ADD CONSTRAINT "TextBackRule_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "TextBackLog" ADD CONSTRAINT "TextBackLog_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "TextBackRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "TextBackLog" ADD CONSTRAINT "TextBackLog_callSessionId_fkey" FOREIGN KEY ("callSessionId") REFERENCES "CallSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Thread text-back replies to the lead
+ALTER TABLE "SmsConversation" ADD COLUMN "leadId" TEXT;
+CREATE INDEX "SmsConversation_leadId_idx" ON "SmsConversation"("leadId");
+ALTER TABLE "SmsConversation" ADD CONSTRAINT "SmsConversation_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "Lead"("id") ON DELETE SET NULL ON UPDATE CASCADE;
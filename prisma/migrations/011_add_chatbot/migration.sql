@@ -0,0 +1,71 @@
+-- Website chatbot widget
+CREATE TYPE "ChatConversationStatus" AS ENUM ('AI', 'HANDOFF', 'CLOSED');
+CREATE TYPE "ChatSender" AS ENUM ('VISITOR', 'AI', 'AGENT', 'SYSTEM');
+
+CREATE TABLE "ChatbotConfig" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "title" TEXT NOT NULL DEFAULT 'Chat with us',
+    "greeting" TEXT NOT NULL DEFAULT 'Hi! How can we help you today?',
+    "primaryColor" TEXT NOT NULL DEFAULT '#3498db',
+    "textColor" TEXT NOT NULL DEFAULT '#ffffff',
+    "position" TEXT NOT NULL DEFAULT 'right',
+    "allowedOrigins" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "handoffEmail" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChatbotConfig_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "ChatConversation" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "visitorId" TEXT NOT NULL,
+    "status" "ChatConversationStatus" NOT NULL DEFAULT 'AI',
+    "leadId" TEXT,
+    "assignedToId" TEXT,
+    "visitorName" TEXT,
+    "visitorEmail" TEXT,
+    "pageUrl" TEXT,
+    "unreadCount" INTEGER NOT NULL DEFAULT 0,
+    "lastMessageAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastMessagePreview" TEXT,
+    "handoffAt" TIMESTAMP(3),
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChatConversation_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "ChatMessage" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "sender" "ChatSender" NOT NULL,
+    "body" TEXT NOT NULL,
+    "sentById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChatMessage_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "ChatbotConfig_tenantId_key" ON "ChatbotConfig"("tenantId");
+CREATE UNIQUE INDEX "ChatConversation_tenantId_visitorId_key" ON "ChatConversation"("tenantId", "visitorId");
+CREATE INDEX "ChatConversation_tenantId_status_idx" ON "ChatConversation"("tenantId", "status");
+CREATE INDEX "ChatConversation_leadId_idx" ON "ChatConversation"("leadId");
+CREATE INDEX "ChatConversation_lastMessageAt_idx" ON "ChatConversation"("lastMessageAt");
+CREATE INDEX "ChatMessage_conversationId_createdAt_idx" ON "ChatMessage"("conversationId", "createdAt");
+
+ALTER TABLE "ChatbotConfig" ADD CONSTRAINT "ChatbotConfig_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ChatConversation" ADD CONSTRAINT "ChatConversation_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ChatConversation" ADD CONSTRAINT "ChatConversation_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "Lead"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "ChatConversation" ADD CONSTRAINT "ChatConversation_assignedToId_fkey" FOREIGN KEY ("assignedToId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "ChatMessage" ADD CONSTRAINT "ChatMessage_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "ChatConversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ChatMessage" ADD CONSTRAINT "ChatMessage_sentById_fkey" FOREIGN KEY ("sentById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Answering chats handed off by the AI
+INSERT INTO "Permission" ("id", "resource", "action", "description") VALUES
+('perm_chatbot_respond', 'chatbot', 'respond', 'Reply to website chats handed off to the team')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,87 @@
+-- Email campaigns to CRM contact segments
+CREATE TYPE "EmailCampaignStatus" AS ENUM ('DRAFT', 'SCHEDULED', 'SENDING', 'SENT', 'CANCELED');
+CREATE TYPE "EmailRecipientStatus" AS ENUM ('QUEUED', 'SENDING', 'SENT', 'SKIPPED', 'FAILED');
+
+ALTER TABLE "Contact" ADD COLUMN "emailOptOut" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Contact" ADD COLUMN "emailOptOutAt" TIMESTAMP(3);
+
+CREATE TABLE "EmailTemplate" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmailTemplate_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "EmailSegment" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmailSegment_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "EmailCampaign" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "templateId" TEXT,
+    "segmentId" TEXT,
+    "status" "EmailCampaignStatus" NOT NULL DEFAULT 'DRAFT',
+    "scheduledAt" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "sendRate" INTEGER NOT NULL DEFAULT 60,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmailCampaign_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "EmailRecipient" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "contactId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "status" "EmailRecipientStatus" NOT NULL DEFAULT 'QUEUED',
+    "error" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "openedAt" TIMESTAMP(3),
+    "openCount" INTEGER NOT NULL DEFAULT 0,
+    "clickedAt" TIMESTAMP(3),
+    "clickCount" INTEGER NOT NULL DEFAULT 0,
+    "unsubscribedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmailRecipient_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "EmailTemplate_tenantId_name_key" ON "EmailTemplate"("tenantId", "name");
+CREATE INDEX "EmailTemplate_tenantId_idx" ON "EmailTemplate"("tenantId");
+CREATE UNIQUE INDEX "EmailSegment_tenantId_name_key" ON "EmailSegment"("tenantId", "name");
+CREATE INDEX "EmailSegment_tenantId_idx" ON "EmailSegment"("tenantId");
+CREATE INDEX "EmailCampaign_tenantId_status_idx" ON "EmailCampaign"("tenantId", "status");
+CREATE UNIQUE INDEX "EmailRecipient_token_key" ON "EmailRecipient"("token");
+CREATE UNIQUE INDEX "EmailRecipient_campaignId_contactId_key" ON "EmailRecipient"("campaignId", "contactId");
+CREATE INDEX "EmailRecipient_campaignId_status_idx" ON "EmailRecipient"("campaignId", "status");
+CREATE INDEX "EmailRecipient_contactId_idx" ON "EmailRecipient"("contactId");
+
+ALTER TABLE "EmailTemplate" ADD CONSTRAINT "EmailTemplate_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "EmailSegment" ADD CONSTRAINT "EmailSegment_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "EmailCampaign" ADD CONSTRAINT "EmailCampaign_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "EmailCampaign" ADD CONSTRAINT "EmailCampaign_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "EmailTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "EmailCampaign" ADD CONSTRAINT "EmailCampaign_segmentId_fkey" FOREIGN KEY ("segmentId") REFERENCES "EmailSegment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "EmailCampaign" ADD CONSTRAINT "EmailCampaign_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "EmailRecipient" ADD CONSTRAINT "EmailRecipient_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "EmailCampaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "EmailRecipient" ADD CONSTRAINT "EmailRecipient_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "Contact"("id") ON DELETE CASCADE ON UPDATE CASCADE;
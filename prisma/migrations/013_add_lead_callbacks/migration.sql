@@ -0,0 +1,34 @@
+-- Outbound callback queue for leads
+CREATE TYPE "CallbackMode" AS ENUM ('STAFF', 'REMINDER');
+CREATE TYPE "CallbackStatus" AS ENUM ('PENDING', 'DIALING', 'COMPLETED', 'FAILED', 'CANCELED');
+
+CREATE TABLE "CallbackRequest" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "leadId" TEXT NOT NULL,
+    "mode" "CallbackMode" NOT NULL DEFAULT 'STAFF',
+    "transferTargetId" TEXT,
+    "script" TEXT,
+    "status" "CallbackStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastAttemptAt" TIMESTAMP(3),
+    "lastOutcome" TEXT,
+    "callSid" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CallbackRequest_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "CallbackRequest_tenantId_status_idx" ON "CallbackRequest"("tenantId", "status");
+CREATE INDEX "CallbackRequest_leadId_idx" ON "CallbackRequest"("leadId");
+CREATE INDEX "CallbackRequest_callSid_idx" ON "CallbackRequest"("callSid");
+
+ALTER TABLE "CallbackRequest" ADD CONSTRAINT "CallbackRequest_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "CallbackRequest" ADD CONSTRAINT "CallbackRequest_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "Lead"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "CallbackRequest" ADD CONSTRAINT "CallbackRequest_transferTargetId_fkey" FOREIGN KEY ("transferTargetId") REFERENCES "TransferTarget"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "CallbackRequest" ADD CONSTRAINT "CallbackRequest_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
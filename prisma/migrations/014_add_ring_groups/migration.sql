@@ -0,0 +1,10 @@
+-- Ring strategies, fallback and whisper per department
+CREATE TYPE "RingStrategy" AS ENUM ('SEQUENTIAL', 'SIMULTANEOUS', 'ROUND_ROBIN');
+CREATE TYPE "TransferFallback" AS ENUM ('NO_ANSWER_FLOW', 'VOICEMAIL', 'LEAD_CAPTURE');
+
+ALTER TABLE "Department" ADD COLUMN "ringStrategy" "RingStrategy" NOT NULL DEFAULT 'SEQUENTIAL';
+ALTER TABLE "Department" ADD COLUMN "ringTimeout" INTEGER NOT NULL DEFAULT 20;
+ALTER TABLE "Department" ADD COLUMN "fallback" "TransferFallback" NOT NULL DEFAULT 'NO_ANSWER_FLOW';
+ALTER TABLE "Department" ADD COLUMN "whisperEnabled" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "Department" ADD COLUMN "whisperMessage" TEXT;
+ALTER TABLE "Department" ADD COLUMN "lastTargetId" TEXT;
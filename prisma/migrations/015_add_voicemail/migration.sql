@@ -0,0 +1,38 @@
+-- Voicemail inbox with transcription and notifications
+CREATE TYPE "VoicemailTranscriptionStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED');
+
+ALTER TYPE "ActivityType" ADD VALUE 'VOICEMAIL' BEFORE 'CUSTOM';
+
+ALTER TABLE "ReceptionistConfig" ADD COLUMN "voicemailEmailNotify" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "ReceptionistConfig" ADD COLUMN "voicemailSmsNumbers" TEXT;
+
+CREATE TABLE "Voicemail" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "callSessionId" TEXT NOT NULL,
+    "contactId" TEXT,
+    "assignedToId" TEXT,
+    "recordingSid" TEXT NOT NULL,
+    "recordingUrl" TEXT NOT NULL,
+    "duration" INTEGER,
+    "fromNumber" TEXT NOT NULL,
+    "transcript" TEXT,
+    "transcriptionStatus" "VoicemailTranscriptionStatus" NOT NULL DEFAULT 'PENDING',
+    "listenedAt" TIMESTAMP(3),
+    "notifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Voicemail_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "Voicemail_recordingSid_key" ON "Voicemail"("recordingSid");
+CREATE INDEX "Voicemail_tenantId_listenedAt_idx" ON "Voicemail"("tenantId", "listenedAt");
+CREATE INDEX "Voicemail_callSessionId_idx" ON "Voicemail"("callSessionId");
+CREATE INDEX "Voicemail_contactId_idx" ON "Voicemail"("contactId");
+CREATE INDEX "Voicemail_assignedToId_idx" ON "Voicemail"("assignedToId");
+
+ALTER TABLE "Voicemail" ADD CONSTRAINT "Voicemail_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "Voicemail" ADD CONSTRAINT "Voicemail_callSessionId_fkey" FOREIGN KEY ("callSessionId") REFERENCES "CallSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "Voicemail" ADD CONSTRAINT "Voicemail_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "Contact"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Voicemail" ADD CONSTRAINT "Voicemail_assignedToId_fkey" FOREIGN KEY ("assignedToId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
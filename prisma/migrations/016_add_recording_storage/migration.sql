@@ -0,0 +1,8 @@
+-- Recording storage off Twilio and per-tenant retention
+ALTER TABLE "Recording" ADD COLUMN "storageKey" TEXT;
+ALTER TABLE "Recording" ADD COLUMN "size" INTEGER;
+ALTER TABLE "Recording" ADD COLUMN "storedAt" TIMESTAMP(3);
+
+CREATE INDEX "Recording_createdAt_idx" ON "Recording"("createdAt");
+
+ALTER TABLE "ReceptionistConfig" ADD COLUMN "recordingRetentionDays" INTEGER;
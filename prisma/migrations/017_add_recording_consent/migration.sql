@@ -0,0 +1,32 @@
+-- Recording consent, per-number overrides and the do-not-call list
+ALTER TABLE "ReceptionistConfig" ADD COLUMN "recordingDisclosure" TEXT;
+ALTER TABLE "ReceptionistConfig" ADD COLUMN "discloseToAllCallers" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "ReceptionistConfig" ADD COLUMN "recordTwoPartyCallers" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "ReceptionistConfig" ADD COLUMN "recordingOptOutDigit" TEXT DEFAULT '9';
+
+-- The disclosure is now spoken separately, so drop it from greetings that
+-- still have the old default sentence
+ALTER TABLE "ReceptionistConfig" ALTER COLUMN "greetingMessage" SET DEFAULT 'Thank you for calling. You are speaking with an automated assistant. How can I help you today?';
+UPDATE "ReceptionistConfig"
+SET "greetingMessage" = replace("greetingMessage", ' This call may be recorded for quality assurance.', '')
+WHERE "greetingMessage" LIKE '% This call may be recorded for quality assurance.%';
+
+ALTER TABLE "TwilioNumber" ADD COLUMN "recordCalls" BOOLEAN;
+ALTER TABLE "TwilioNumber" ADD COLUMN "recordingDisclosure" TEXT;
+
+CREATE TABLE "BlockedCaller" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "phoneNumber" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BlockedCaller_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "BlockedCaller_tenantId_phoneNumber_key" ON "BlockedCaller"("tenantId", "phoneNumber");
+CREATE INDEX "BlockedCaller_tenantId_idx" ON "BlockedCaller"("tenantId");
+
+ALTER TABLE "BlockedCaller" ADD CONSTRAINT "BlockedCaller_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "BlockedCaller" ADD CONSTRAINT "BlockedCaller_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
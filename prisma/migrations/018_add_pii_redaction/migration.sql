@@ -0,0 +1,11 @@
+-- PII redaction settings and encrypted originals
+ALTER TABLE "ReceptionistConfig" ADD COLUMN "redactPii" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "ReceptionistConfig" ADD COLUMN "redactionPatterns" TEXT;
+ALTER TABLE "ReceptionistConfig" ADD COLUMN "keepPiiOriginals" BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE "Transcript" ADD COLUMN "encryptedOriginal" TEXT;
+ALTER TABLE "Voicemail" ADD COLUMN "encryptedTranscript" TEXT;
+
+INSERT INTO "Permission" ("id", "resource", "action", "description") VALUES
+('perm_voice_view_pii', 'voice', 'view_pii', 'View unredacted call and voicemail transcripts')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,4 @@
+-- Embeddings for hybrid FAQ and knowledge base search. Existing rows are
+-- embedded by the reindex endpoint.
+ALTER TABLE "FAQ" ADD COLUMN "embedding" vector(1536);
+ALTER TABLE "KnowledgeBaseEntry" ADD COLUMN "embedding" vector(1536);
@@ -0,0 +1,33 @@
+-- Uploaded documents, chunked into WebsiteContent next to crawled pages
+CREATE TYPE "DocumentStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED');
+
+CREATE TABLE "KnowledgeDocument" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "title" TEXT,
+    "format" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "status" "DocumentStatus" NOT NULL DEFAULT 'PENDING',
+    "chunkCount" INTEGER NOT NULL DEFAULT 0,
+    "errorMessage" TEXT,
+    "processedAt" TIMESTAMP(3),
+    "uploadedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "KnowledgeDocument_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "KnowledgeDocument_tenantId_idx" ON "KnowledgeDocument"("tenantId");
+CREATE INDEX "KnowledgeDocument_status_idx" ON "KnowledgeDocument"("status");
+
+ALTER TABLE "KnowledgeDocument" ADD CONSTRAINT "KnowledgeDocument_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "KnowledgeDocument" ADD CONSTRAINT "KnowledgeDocument_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Chunks belong to either a website or a document; deleting either removes them
+ALTER TABLE "WebsiteContent" ALTER COLUMN "websiteSourceId" DROP NOT NULL;
+ALTER TABLE "WebsiteContent" ADD COLUMN "documentId" TEXT;
+CREATE INDEX "WebsiteContent_documentId_idx" ON "WebsiteContent"("documentId");
+ALTER TABLE "WebsiteContent" ADD CONSTRAINT "WebsiteContent_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "KnowledgeDocument"("id") ON DELETE CASCADE ON UPDATE CASCADE;
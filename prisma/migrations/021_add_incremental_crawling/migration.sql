@@ -0,0 +1,34 @@
+-- Incremental, robots-aware crawling with include/exclude patterns and
+-- weekly refreshes
+ALTER TABLE "WebsiteSource" ADD COLUMN "includePatterns" TEXT;
+ALTER TABLE "WebsiteSource" ADD COLUMN "excludePatterns" TEXT;
+ALTER TABLE "WebsiteSource" ADD COLUMN "weeklyRefresh" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "WebsiteSource" ADD COLUMN "pagesChanged" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "WebsiteSource" ADD COLUMN "pagesRemoved" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "WebsiteSource" ADD COLUMN "crawlState" JSONB;
+
+CREATE TABLE "WebsitePage" (
+    "id" TEXT NOT NULL,
+    "websiteSourceId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "title" TEXT,
+    "etag" TEXT,
+    "lastModified" TEXT,
+    "contentHash" TEXT,
+    "links" TEXT[],
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WebsitePage_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "WebsitePage_websiteSourceId_url_key" ON "WebsitePage"("websiteSourceId", "url");
+CREATE INDEX "WebsitePage_websiteSourceId_idx" ON "WebsitePage"("websiteSourceId");
+
+ALTER TABLE "WebsitePage" ADD CONSTRAINT "WebsitePage_websiteSourceId_fkey" FOREIGN KEY ("websiteSourceId") REFERENCES "WebsiteSource"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Chunks from crawls before this have no page; the next crawl replaces them
+ALTER TABLE "WebsiteContent" ADD COLUMN "pageId" TEXT;
+CREATE INDEX "WebsiteContent_pageId_idx" ON "WebsiteContent"("pageId");
+ALTER TABLE "WebsiteContent" ADD CONSTRAINT "WebsiteContent_pageId_fkey" FOREIGN KEY ("pageId") REFERENCES "WebsitePage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- Approximate nearest-neighbour index for website and document search
+-- (HNSW needs pgvector 0.5+). Prisma can't express it, so it only lives
+-- here. FAQs and knowledge base entries are scored in full and don't need one.
+CREATE INDEX "WebsiteContent_embedding_idx" ON "WebsiteContent" USING hnsw ("embedding" vector_cosine_ops);
+
+-- Per-tenant search tuning
+ALTER TABLE "ReceptionistConfig" ADD COLUMN "vectorSearchLimit" INTEGER NOT NULL DEFAULT 8;
+ALTER TABLE "ReceptionistConfig" ADD COLUMN "vectorMinSimilarity" DOUBLE PRECISION;
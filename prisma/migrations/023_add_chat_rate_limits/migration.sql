@@ -0,0 +1,8 @@
+-- Where visitor messages and handoff requests came from, so the public
+-- chat API can be rate limited per IP as well as per visitor
+ALTER TABLE "ChatConversation" ADD COLUMN "ipAddress" TEXT;
+ALTER TABLE "ChatMessage" ADD COLUMN "ipAddress" TEXT;
+
+CREATE INDEX "ChatConversation_ipAddress_handoffAt_idx" ON "ChatConversation"("ipAddress", "handoffAt");
+CREATE INDEX "ChatConversation_tenantId_handoffAt_idx" ON "ChatConversation"("tenantId", "handoffAt");
+CREATE INDEX "ChatMessage_ipAddress_createdAt_idx" ON "ChatMessage"("ipAddress", "createdAt");
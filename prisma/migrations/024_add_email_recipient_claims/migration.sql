@@ -0,0 +1,6 @@
+-- When a batch claimed each recipient, so claims left by a crashed batch
+-- can be handed to the next one
+ALTER TABLE "EmailRecipient" ADD COLUMN "claimedAt" TIMESTAMP(3);
+
+-- Recipients already stuck mid-send are reclaimed by the next batch
+UPDATE "EmailRecipient" SET "claimedAt" = CURRENT_TIMESTAMP WHERE "status" = 'SENDING';
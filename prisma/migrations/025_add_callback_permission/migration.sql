@@ -0,0 +1,12 @@
+-- Queuing, retrying and canceling callbacks places outbound calls, so it
+-- needs its own permission rather than voice:view
+INSERT INTO "Permission" ("id", "resource", "action", "description") VALUES
+('perm_voice_callbacks', 'voice', 'callbacks', 'Queue, retry and cancel lead callbacks')
+ON CONFLICT DO NOTHING;
+
+-- Roles that could already configure the receptionist keep managing callbacks
+INSERT INTO "RolePermission" ("id", "roleId", "permissionId")
+SELECT gen_random_uuid()::text, "roleId", 'perm_voice_callbacks'
+FROM "RolePermission"
+WHERE "permissionId" = 'perm_voice_configure'
+ON CONFLICT DO NOTHING;
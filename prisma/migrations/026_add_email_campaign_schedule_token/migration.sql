@@ -0,0 +1,3 @@
+-- Batch jobs carry the token their campaign was scheduled under, so jobs
+-- queued before a cancel don't send once the campaign is rescheduled
+ALTER TABLE "EmailCampaign" ADD COLUMN "scheduleToken" TEXT;
@@ -25,7 +25,7 @@ async function main() {
     update: {},
     create: {
       tenantId: demoTenant.id,
-      greetingMessage: 'Thank you for calling Demo Business. This call may be recorded for quality assurance. You are speaking with an automated assistant. How can I help you today?',
+      greetingMessage: 'Thank you for calling Demo Business. You are speaking with an automated assistant. How can I help you today?',
       personality: 'professional, friendly, and helpful',
       transferPrompt: 'Let me connect you with our team. Please hold for a moment.',
       leadCapturePrompt: 'I would be happy to have someone call you back. Can I please get your name and phone number?',
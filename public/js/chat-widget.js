@@ -0,0 +1,268 @@
+// Website chat widget for AI Voice Receptionist
+//
+// <script src="https://your-app/chat/widget.js" data-tenant="your-slug" async></script>
+
+(function() {
+  const script = document.currentScript;
+  const slug = script && script.getAttribute('data-tenant');
+  if (!slug || window.__receptionistChatLoaded) return;
+  window.__receptionistChatLoaded = true;
+
+  const apiBase = new URL(script.src).origin + '/chat/' + encodeURIComponent(slug);
+  const storageKey = 'receptionist-chat-visitor-' + slug;
+  const POLL_INTERVAL = 5000;
+
+  let config = null;
+  let status = 'AI';
+  let lastMessageId = null;
+  let pollTimer = null;
+  let loaded = false;
+  const seen = new Set();
+
+  function getVisitorId() {
+    let id = null;
+    try {
+      id = localStorage.getItem(storageKey);
+    } catch (e) {}
+
+    if (!id) {
+      const bytes = new Uint8Array(16);
+      crypto.getRandomValues(bytes);
+      id = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+      try {
+        localStorage.setItem(storageKey, id);
+      } catch (e) {}
+    }
+    return id;
+  }
+
+  const visitorId = getVisitorId();
+
+  function api(path, options) {
+    return fetch(apiBase + path, options).then(response => {
+      return response.json().catch(() => ({})).then(data => {
+        if (!response.ok) throw new Error(data.error || 'Something went wrong');
+        return data;
+      });
+    });
+  }
+
+  function post(path, body) {
+    return api(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(Object.assign({ visitorId: visitorId, pageUrl: location.href }, body)),
+    });
+  }
+
+  // ============================================
+  // UI
+  // ============================================
+
+  function build() {
+    const host = document.createElement('div');
+    const root = host.attachShadow({ mode: 'open' });
+    const side = config.position === 'left' ? 'left' : 'right';
+
+    root.innerHTML = `
+      <style>
+        :host { all: initial; }
+        [hidden] { display: none !important; }
+        * { box-sizing: border-box; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; font-size: 14px; }
+        .launcher { position: fixed; bottom: 20px; ${side}: 20px; width: 56px; height: 56px; border-radius: 50%; border: none; cursor: pointer;
+          background: ${config.primaryColor}; color: ${config.textColor}; box-shadow: 0 4px 12px rgba(0,0,0,0.2); font-size: 24px; z-index: 2147483646; }
+        .panel { position: fixed; bottom: 88px; ${side}: 20px; width: 340px; max-width: calc(100vw - 40px); height: 480px; max-height: calc(100vh - 120px);
+          background: #fff; border-radius: 12px; box-shadow: 0 8px 24px rgba(0,0,0,0.2); display: none; flex-direction: column; overflow: hidden; z-index: 2147483647; }
+        .panel.open { display: flex; }
+        .header { background: ${config.primaryColor}; color: ${config.textColor}; padding: 12px 16px; display: flex; justify-content: space-between; align-items: center; }
+        .header strong { font-size: 16px; }
+        .header button { background: none; border: none; color: inherit; cursor: pointer; font-size: 18px; }
+        .messages { flex: 1; overflow-y: auto; padding: 12px; display: flex; flex-direction: column; gap: 8px; background: #fafafa; }
+        .msg { max-width: 80%; padding: 8px 12px; border-radius: 12px; white-space: pre-wrap; word-wrap: break-word; line-height: 1.4; }
+        .msg.visitor { align-self: flex-end; background: ${config.primaryColor}; color: ${config.textColor}; }
+        .msg.bot { align-self: flex-start; background: #eee; color: #222; }
+        .msg.system { align-self: center; background: none; color: #777; font-size: 12px; font-style: italic; text-align: center; }
+        .msg .author { display: block; font-size: 11px; color: #777; margin-bottom: 2px; }
+        .typing { align-self: flex-start; color: #999; font-size: 12px; }
+        .handoff-link { padding: 6px 12px; text-align: center; border-top: 1px solid #eee; }
+        .handoff-link button { background: none; border: none; color: ${config.primaryColor}; cursor: pointer; text-decoration: underline; font-size: 12px; }
+        form { display: flex; gap: 8px; padding: 10px; border-top: 1px solid #eee; }
+        form.handoff { flex-direction: column; }
+        input, textarea { flex: 1; padding: 8px; border: 1px solid #ddd; border-radius: 8px; resize: none; color: #222; background: #fff; }
+        form button { padding: 8px 14px; border: none; border-radius: 8px; cursor: pointer; background: ${config.primaryColor}; color: ${config.textColor}; }
+        .error { color: #c0392b; font-size: 12px; padding: 0 12px 6px; }
+      </style>
+      <button class="launcher" aria-label="Open chat">&#128172;</button>
+      <div class="panel" role="dialog">
+        <div class="header">
+          <strong></strong>
+          <button class="close" aria-label="Close chat">&times;</button>
+        </div>
+        <div class="messages"></div>
+        <div class="error"></div>
+        <div class="handoff-link"><button type="button">Talk to a person</button></div>
+        <form class="handoff" hidden>
+          <input name="name" placeholder="Your name" maxlength="100">
+          <input name="email" type="email" placeholder="Email (so we can reply)" maxlength="200">
+          <input name="reason" placeholder="What do you need help with?" maxlength="500">
+          <button type="submit">Request a person</button>
+        </form>
+        <form class="compose">
+          <textarea name="message" rows="1" placeholder="Type a message..." maxlength="2000"></textarea>
+          <button type="submit">Send</button>
+        </form>
+      </div>
+    `;
+
+    document.body.appendChild(host);
+
+    const ui = {
+      launcher: root.querySelector('.launcher'),
+      panel: root.querySelector('.panel'),
+      messages: root.querySelector('.messages'),
+      error: root.querySelector('.error'),
+      handoffLink: root.querySelector('.handoff-link'),
+      handoffForm: root.querySelector('form.handoff'),
+      compose: root.querySelector('form.compose'),
+    };
+    root.querySelector('.header strong').textContent = config.title;
+
+    ui.launcher.addEventListener('click', () => toggle(ui));
+    root.querySelector('.close').addEventListener('click', () => toggle(ui, false));
+
+    ui.handoffLink.querySelector('button').addEventListener('click', () => {
+      ui.handoffForm.hidden = !ui.handoffForm.hidden;
+    });
+
+    ui.handoffForm.addEventListener('submit', e => {
+      e.preventDefault();
+      const field = name => ui.handoffForm.querySelector('[name="' + name + '"]').value;
+      post('/handoff', {
+        name: field('name'),
+        email: field('email'),
+        reason: field('reason'),
+      }).then(result => {
+        ui.handoffForm.hidden = true;
+        showError(ui, '');
+        applyResult(ui, result);
+      }).catch(error => showError(ui, error.message));
+    });
+
+    ui.compose.addEventListener('submit', e => {
+      e.preventDefault();
+      send(ui);
+    });
+
+    ui.compose.message.addEventListener('keydown', e => {
+      if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        send(ui);
+      }
+    });
+  }
+
+  function toggle(ui, open) {
+    const isOpen = open === undefined ? !ui.panel.classList.contains('open') : open;
+    ui.panel.classList.toggle('open', isOpen);
+
+    if (isOpen && !loaded) {
+      loaded = true;
+      addMessage(ui, { id: 'greeting', sender: 'AI', body: config.greeting });
+      api('/messages?visitorId=' + visitorId)
+        .then(result => applyResult(ui, result))
+        .catch(() => {});
+    }
+    if (isOpen) ui.compose.message.focus();
+    schedulePoll(ui);
+  }
+
+  function send(ui) {
+    const input = ui.compose.message;
+    const text = input.value.trim();
+    if (!text) return;
+
+    input.value = '';
+    showError(ui, '');
+    // Only the AI answers right away
+    const typing = document.createElement('div');
+    if (status !== 'HANDOFF') {
+      typing.className = 'typing';
+      typing.textContent = 'Typing...';
+      ui.messages.appendChild(typing);
+      scrollDown(ui);
+    }
+
+    post('/messages', { message: text })
+      .then(result => applyResult(ui, result))
+      .catch(error => {
+        input.value = text;
+        showError(ui, error.message);
+      })
+      .then(() => typing.remove());
+  }
+
+  function applyResult(ui, result) {
+    (result.messages || []).forEach(message => addMessage(ui, message));
+    if (result.status) status = result.status;
+    ui.handoffLink.hidden = status === 'HANDOFF';
+    if (status === 'HANDOFF') ui.handoffForm.hidden = true;
+    schedulePoll(ui);
+  }
+
+  function addMessage(ui, message) {
+    if (seen.has(message.id)) return;
+    seen.add(message.id);
+    if (message.id !== 'greeting') lastMessageId = message.id;
+
+    const el = document.createElement('div');
+    el.className = 'msg ' + (message.sender === 'VISITOR' ? 'visitor' : message.sender === 'SYSTEM' ? 'system' : 'bot');
+
+    if (message.sender === 'AGENT' && message.sentBy && message.sentBy.firstName) {
+      const author = document.createElement('span');
+      author.className = 'author';
+      author.textContent = message.sentBy.firstName;
+      el.appendChild(author);
+    }
+    el.appendChild(document.createTextNode(message.body));
+
+    ui.messages.appendChild(el);
+    scrollDown(ui);
+  }
+
+  // Team replies arrive by polling while a person has the chat
+  function schedulePoll(ui) {
+    clearTimeout(pollTimer);
+    if (status !== 'HANDOFF' || !ui.panel.classList.contains('open')) return;
+
+    pollTimer = setTimeout(() => {
+      api('/messages?visitorId=' + visitorId + (lastMessageId ? '&after=' + lastMessageId : ''))
+        .then(result => applyResult(ui, result))
+        .catch(() => schedulePoll(ui));
+    }, POLL_INTERVAL);
+  }
+
+  function showError(ui, text) {
+    ui.error.textContent = text;
+  }
+
+  function scrollDown(ui) {
+    ui.messages.scrollTop = ui.messages.scrollHeight;
+  }
+
+  function start() {
+    api('/config')
+      .then(result => {
+        config = result;
+        build();
+      })
+      .catch(() => {
+        // Chat is off or this site isn't allowed; show nothing
+      });
+  }
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', start);
+  } else {
+    start();
+  }
+})();
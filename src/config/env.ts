@@ -13,8 +13,24 @@ const envSchema = z.object({
   TWILIO_ACCOUNT_SID: z.string().min(1),
   TWILIO_AUTH_TOKEN: z.string().min(1),
   
-  OPENAI_API_KEY: z.string().min(1),
+  // LLM provider: openai, local (any OpenAI-compatible server) or mock (no network)
+  LLM_PROVIDER: z.enum(['openai', 'local', 'mock']).default('openai'),
+  OPENAI_API_KEY: z.string().min(1).optional(),
   OPENAI_MODEL: z.string().default('gpt-4-turbo-preview'),
+  EMBEDDING_MODEL: z.string().default('text-embedding-ada-002'),
+  LOCAL_LLM_BASE_URL: z.string().url().optional(),
+  LOCAL_LLM_API_KEY: z.string().optional(),
+  LOCAL_LLM_MODEL: z.string().optional(),
+  LOCAL_EMBEDDING_MODEL: z.string().optional(),
+  
+  // Call recording storage: local disk, or any S3-compatible store (AWS, MinIO...)
+  STORAGE_DRIVER: z.enum(['local', 's3']).default('local'),
+  STORAGE_LOCAL_PATH: z.string().default('./storage'),
+  S3_ENDPOINT: z.string().url().optional(),   // unset for AWS; MinIO e.g. http://localhost:9000
+  S3_REGION: z.string().default('us-east-1'),
+  S3_BUCKET: z.string().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
   
   EMAIL_HOST: z.string().min(1),
   EMAIL_PORT: z.string().default('587'),
@@ -23,9 +39,25 @@ const envSchema = z.object({
   EMAIL_FROM: z.string().min(1),
   
   SESSION_SECRET: z.string().min(32),
+  // Encrypts unredacted transcripts; derived from SESSION_SECRET when unset
+  PII_ENCRYPTION_KEY: z.string().min(32).optional(),
   
   DEFAULT_ADMIN_EMAIL: z.string().email().optional(),
   DEFAULT_ADMIN_PASSWORD: z.string().optional(),
+}).superRefine((value, ctx) => {
+  if (value.LLM_PROVIDER === 'openai' && !value.OPENAI_API_KEY) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['OPENAI_API_KEY'], message: 'Required when LLM_PROVIDER is openai' });
+  }
+  if (value.LLM_PROVIDER === 'local' && !value.LOCAL_LLM_BASE_URL) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['LOCAL_LLM_BASE_URL'], message: 'Required when LLM_PROVIDER is local' });
+  }
+  if (value.STORAGE_DRIVER === 's3') {
+    for (const key of ['S3_BUCKET', 'S3_ACCESS_KEY_ID', 'S3_SECRET_ACCESS_KEY'] as const) {
+      if (!value[key]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: 'Required when STORAGE_DRIVER is s3' });
+      }
+    }
+  }
 });
 
 const parseEnv = () => {
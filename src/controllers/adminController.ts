@@ -8,6 +8,9 @@ import {
   deleteHolidayForTenant,
   saveBusinessHoursForTenant,
 } from '../services/tenant/scheduleService';
+import { llmService } from '../services/ai/llmService';
+import { LLM_PROVIDERS } from '../services/ai/providers/llmProvider';
+import { env } from '../config/env';
 
 /**
  * Admin Dashboard
@@ -180,6 +183,8 @@ export async function getTenant(req: Request, res: Response) {
       user: req.user,
       tenant,
       timezones,
+      llmProviders: LLM_PROVIDERS.map(name => ({ name, configured: llmService.isConfigured(name) })),
+      defaultLlmProvider: env.LLM_PROVIDER,
     });
   } catch (error) {
     console.error('Get tenant error:', error);
@@ -328,11 +333,20 @@ export async function updateTenantReceptionistConfig(req: Request, res: Response
     const menuOptionDelayMs = Number.isFinite(delaySeconds)
       ? Math.max(0, Math.min(60, delaySeconds)) * 1000
       : 2000;
+    const enableMediaStreams = req.body.enableMediaStreams === 'on';
+
+    // Blank means the platform default
+    const llmProvider = (LLM_PROVIDERS as readonly string[]).includes(req.body.llmProvider)
+      ? req.body.llmProvider
+      : null;
+    const llmModel = typeof req.body.llmModel === 'string' && req.body.llmModel.trim()
+      ? req.body.llmModel.trim()
+      : null;
 
     await prisma.receptionistConfig.upsert({
       where: { tenantId },
-      update: { menuOptionDelayMs },
-      create: { tenantId, menuOptionDelayMs },
+      update: { menuOptionDelayMs, enableMediaStreams, llmProvider, llmModel },
+      create: { tenantId, menuOptionDelayMs, enableMediaStreams, llmProvider, llmModel },
     });
 
     res.redirect(`/admin/tenants/${tenantId}#receptionist-config`);
@@ -460,6 +474,31 @@ export async function getFAQsPage(req: Request, res: Response) {
   }
 }
 
+/**
+ * Intent Management Page
+ */
+export async function getIntentsPage(req: Request, res: Response) {
+  try {
+    const { tenantId } = req.params;
+
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+    });
+
+    if (!tenant) {
+      return res.status(404).send('Tenant not found');
+    }
+
+    res.render('admin/intents', {
+      user: req.user,
+      tenant,
+    });
+  } catch (error) {
+    console.error('Intents page error:', error);
+    res.status(500).send('Error loading intents page');
+  }
+}
+
 /**
  * Knowledge Base Management Page
  */
@@ -582,9 +621,16 @@ export async function getTestKnowledgePage(req: Request, res: Response) {
       return res.status(404).send('Tenant not found');
     }
 
+    const flows = await prisma.callFlow.findMany({
+      where: { tenantId },
+      select: { id: true, name: true, flowType: true, isActive: true },
+      orderBy: [{ flowType: 'asc' }, { priority: 'desc' }],
+    });
+
     res.render('admin/test-knowledge', {
       user: req.user,
       tenant,
+      flows,
     });
   } catch (error) {
     console.error('Test knowledge page error:', error);
@@ -0,0 +1,149 @@
+import { Request, Response } from 'express';
+import { CallbackMode } from '@prisma/client';
+import {
+  callbackService,
+  CALLBACK_MERGE_FIELDS,
+  CALLBACK_RETRY_MINUTES,
+  DEFAULT_REMINDER_SCRIPT,
+  MAX_CALLBACK_ATTEMPTS,
+} from '../services/lead/callbackService';
+import { getTenantTimezone, zonedTimeToUtc } from '../services/tenant/scheduleService';
+import { prisma } from '../db/prisma';
+
+const STATUSES = ['PENDING', 'DIALING', 'COMPLETED', 'FAILED', 'CANCELED'];
+
+function redirectWithError(res: Response, message: string, leadId?: string) {
+  const lead = leadId ? `leadId=${encodeURIComponent(leadId)}&` : '';
+  res.redirect(`/tenant/callbacks?${lead}error=${encodeURIComponent(message)}`);
+}
+
+export class CallbackController {
+  /**
+   * Callback queue plus the form to schedule a new one
+   */
+  async getCallbacksPage(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const status = STATUSES.includes(req.query.status as string) ? (req.query.status as string) : '';
+
+      const [callbacks, leads, transferTargets, timezone] = await Promise.all([
+        prisma.callbackRequest.findMany({
+          where: { tenantId, ...(status && { status: status as any }) },
+          include: {
+            lead: { select: { id: true, name: true, phone: true, reason: true } },
+            transferTarget: { select: { name: true } },
+          },
+          orderBy: [{ nextAttemptAt: 'asc' }],
+          take: 200,
+        }),
+        prisma.lead.findMany({
+          where: { tenantId, phone: { not: null }, status: { notIn: ['CONVERTED', 'CLOSED'] } },
+          select: { id: true, name: true, phone: true, callbackPreference: true },
+          orderBy: { createdAt: 'desc' },
+          take: 200,
+        }),
+        prisma.transferTarget.findMany({
+          where: { tenantId, isActive: true },
+          orderBy: { priority: 'asc' },
+        }),
+        getTenantTimezone(tenantId),
+      ]);
+
+      // A lead linked from the leads page may be older than the newest 200
+      const leadId = (req.query.leadId as string) || '';
+      if (leadId && !leads.some(l => l.id === leadId)) {
+        const lead = await prisma.lead.findFirst({
+          where: { id: leadId, tenantId },
+          select: { id: true, name: true, phone: true, callbackPreference: true },
+        });
+        if (lead) leads.unshift(lead);
+      }
+
+      res.render('tenant/callbacks', {
+        user: req.user,
+        tenant: req.tenant,
+        permissions: req.userPermissions || [],
+        callbacks,
+        leads,
+        transferTargets,
+        leadId,
+        status,
+        statuses: STATUSES,
+        timezone,
+        mergeFields: CALLBACK_MERGE_FIELDS,
+        retryMinutes: CALLBACK_RETRY_MINUTES,
+        maxAttempts: MAX_CALLBACK_ATTEMPTS,
+        defaultScript: DEFAULT_REMINDER_SCRIPT,
+        outcomeLabel: (outcome: string | null) => callbackService.outcomeLabel(outcome),
+        error: req.query.error as string,
+      });
+    } catch (error) {
+      console.error('Error rendering callbacks:', error);
+      res.status(500).send('Failed to load callbacks');
+    }
+  }
+
+  async queueCallback(req: Request, res: Response) {
+    const leadId = String(req.body.leadId || '');
+
+    try {
+      const tenantId = req.tenant!.id;
+      const mode: CallbackMode = req.body.mode === 'REMINDER' ? 'REMINDER' : 'STAFF';
+
+      if (!leadId) {
+        return redirectWithError(res, 'Pick a lead to call back');
+      }
+
+      let scheduledAt: Date | null = null;
+      if (req.body.when === 'later') {
+        scheduledAt = zonedTimeToUtc(String(req.body.scheduledAt || ''), await getTenantTimezone(tenantId));
+        if (!scheduledAt) {
+          return redirectWithError(res, 'Pick a date and time for the callback', leadId);
+        }
+      }
+
+      await callbackService.queue(tenantId, leadId, {
+        mode,
+        transferTargetId: req.body.transferTargetId || null,
+        script: req.body.script || null,
+        scheduledAt,
+        maxAttempts: parseInt(req.body.maxAttempts, 10) || undefined,
+        createdById: req.user!.id,
+      });
+
+      res.redirect('/tenant/callbacks');
+    } catch (error: any) {
+      console.error('Error queueing callback:', error);
+      redirectWithError(res, error.message || 'Failed to queue callback', leadId);
+    }
+  }
+
+  async cancelCallback(req: Request, res: Response) {
+    try {
+      await callbackService.cancel(req.params.id, req.tenant!.id);
+      res.redirect('/tenant/callbacks');
+    } catch (error: any) {
+      console.error('Error canceling callback:', error);
+      redirectWithError(res, error.message || 'Failed to cancel callback');
+    }
+  }
+
+  async retryCallback(req: Request, res: Response) {
+    try {
+      await callbackService.retryNow(req.params.id, req.tenant!.id);
+      res.redirect('/tenant/callbacks');
+    } catch (error: any) {
+      console.error('Error retrying callback:', error);
+      redirectWithError(res, error.message || 'Failed to retry callback');
+    }
+  }
+}
+
+export const callbackController = new CallbackController();
+
+export const {
+  getCallbacksPage,
+  queueCallback,
+  cancelCallback,
+  retryCallback,
+} = callbackController;
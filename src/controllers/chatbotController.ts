@@ -0,0 +1,275 @@
+import { Request, Response } from 'express';
+import { ChatbotConfig } from '@prisma/client';
+import { chatbotService } from '../services/chatbot/chatbotService';
+import { prisma } from '../db/prisma';
+import { env } from '../config/env';
+
+// Random id the widget generates and keeps in localStorage
+const VISITOR_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+function cleanText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, 500) : undefined;
+}
+
+function cleanPageUrl(value: unknown): string | undefined {
+  return typeof value === 'string' && /^https?:\/\//.test(value) ? value.slice(0, 500) : undefined;
+}
+
+export class ChatbotController {
+  // ============================================
+  // PUBLIC WIDGET API (/chat/:slug)
+  // ============================================
+
+  async getWidgetConfig(req: Request, res: Response) {
+    const config: ChatbotConfig = res.locals.chatbotConfig;
+    res.json(chatbotService.getPublicConfig(config));
+  }
+
+  async getMessages(req: Request, res: Response) {
+    try {
+      const visitorId = req.query.visitorId as string;
+      if (!VISITOR_ID_PATTERN.test(visitorId || '')) {
+        return res.status(400).json({ error: 'Invalid visitor id' });
+      }
+
+      const result = await chatbotService.getMessages(req.tenant!.id, visitorId, req.query.after as string);
+      res.json(result);
+    } catch (error) {
+      console.error('Chat messages error:', error);
+      res.status(500).json({ error: 'Failed to load messages' });
+    }
+  }
+
+  async postMessage(req: Request, res: Response) {
+    const { visitorId, message, pageUrl } = req.body;
+
+    if (!VISITOR_ID_PATTERN.test(visitorId || '')) {
+      return res.status(400).json({ error: 'Invalid visitor id' });
+    }
+    if (typeof message !== 'string' || !message.trim()) {
+      return res.status(400).json({ error: 'Message is required' });
+    }
+
+    try {
+      if (await chatbotService.isRateLimited(req.tenant!.id, visitorId, req.ip)) {
+        return res.status(429).json({ error: 'Too many messages. Please wait a moment.' });
+      }
+
+      const result = await chatbotService.handleVisitorMessage(
+        req.tenant!.id,
+        visitorId,
+        message,
+        cleanPageUrl(pageUrl),
+        req.ip
+      );
+      res.json(result);
+    } catch (error) {
+      console.error('Chat message error:', error);
+      res.status(500).json({ error: 'Failed to send message' });
+    }
+  }
+
+  async requestHandoff(req: Request, res: Response) {
+    const { visitorId, name, email, phone, reason, pageUrl } = req.body;
+
+    if (!VISITOR_ID_PATTERN.test(visitorId || '')) {
+      return res.status(400).json({ error: 'Invalid visitor id' });
+    }
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(String(email).trim())) {
+      return res.status(400).json({ error: 'Invalid email address' });
+    }
+
+    try {
+      if (await chatbotService.isHandoffRateLimited(req.ip)) {
+        return res.status(429).json({ error: 'Too many requests. Please try again later.' });
+      }
+
+      const result = await chatbotService.requestHandoff(
+        req.tenant!.id,
+        visitorId,
+        {
+          name: cleanText(name),
+          email: cleanText(email),
+          phone: cleanText(phone),
+          reason: cleanText(reason),
+        },
+        cleanPageUrl(pageUrl),
+        req.ip
+      );
+      res.json(result);
+    } catch (error) {
+      console.error('Chat handoff error:', error);
+      res.status(500).json({ error: 'Failed to reach the team' });
+    }
+  }
+
+  // ============================================
+  // DASHBOARD
+  // ============================================
+
+  async getConfigPage(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const config = await chatbotService.getConfig(tenantId);
+
+      res.render('tenant/chatbot/config', {
+        user: req.user,
+        tenant: req.tenant,
+        permissions: req.userPermissions || [],
+        config,
+        baseUrl: env.BASE_URL,
+        success: req.query.success === '1',
+        error: req.query.error as string,
+      });
+    } catch (error) {
+      console.error('Error rendering chatbot config:', error);
+      res.status(500).send('Failed to load chatbot configuration');
+    }
+  }
+
+  async updateConfig(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const { title, greeting, primaryColor, textColor, position, handoffEmail } = req.body;
+
+      const origins = String(req.body.allowedOrigins || '')
+        .split(/[\s,]+/)
+        .filter(Boolean);
+      const allowedOrigins = origins.map(origin => chatbotService.normalizeOrigin(origin));
+
+      let error: string | null = null;
+      if (!title?.trim() || !greeting?.trim()) {
+        error = 'Title and greeting are required';
+      } else if (!chatbotService.isValidColor(primaryColor) || !chatbotService.isValidColor(textColor)) {
+        error = 'Colors must be hex values like #3498db';
+      } else if (allowedOrigins.some(origin => !origin)) {
+        error = 'Allowed sites must be full URLs like https://example.com';
+      } else if (req.body.isEnabled === 'on' && allowedOrigins.length === 0) {
+        error = 'Add the websites the widget will run on before enabling it';
+      }
+
+      if (error) {
+        return res.redirect(`/tenant/chatbot/config?error=${encodeURIComponent(error)}`);
+      }
+
+      const data = {
+        isEnabled: req.body.isEnabled === 'on',
+        title: title.trim(),
+        greeting: greeting.trim(),
+        primaryColor,
+        textColor,
+        position: position === 'left' ? 'left' : 'right',
+        allowedOrigins: [...new Set(allowedOrigins as string[])],
+        handoffEmail: handoffEmail?.trim() || null,
+      };
+
+      await prisma.chatbotConfig.upsert({
+        where: { tenantId },
+        update: data,
+        create: { tenantId, ...data },
+      });
+
+      res.redirect('/tenant/chatbot/config?success=1');
+    } catch (error) {
+      console.error('Error updating chatbot config:', error);
+      res.status(500).send('Failed to update chatbot configuration');
+    }
+  }
+
+  /**
+   * Inbox: chat list, with the selected chat on the right
+   */
+  async getConversationsPage(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const filters = {
+        status: (req.query.status as string) ?? 'OPEN',
+        assignedToId: req.query.assigned === 'me' ? req.user!.id : (req.query.assigned as string) || undefined,
+        search: req.query.search as string,
+      };
+
+      const [conversations, conversation, users] = await Promise.all([
+        chatbotService.listConversations(tenantId, filters),
+        req.params.id ? chatbotService.getConversation(req.params.id, tenantId) : null,
+        prisma.user.findMany({
+          where: { tenantId, isActive: true },
+          select: { id: true, firstName: true, lastName: true, email: true },
+          orderBy: { firstName: 'asc' },
+        }),
+      ]);
+
+      if (req.params.id && !conversation) {
+        return res.status(404).send('Conversation not found');
+      }
+
+      res.render('tenant/chatbot/conversations', {
+        user: req.user,
+        tenant: req.tenant,
+        permissions: req.userPermissions || [],
+        conversations,
+        conversation,
+        users,
+        status: filters.status,
+        assigned: (req.query.assigned as string) || '',
+        search: filters.search || '',
+        error: req.query.error as string,
+      });
+    } catch (error) {
+      console.error('Error rendering chat conversations:', error);
+      res.status(500).send('Failed to load conversations');
+    }
+  }
+
+  async replyToConversation(req: Request, res: Response) {
+    const { id } = req.params;
+
+    try {
+      await chatbotService.reply(id, req.tenant!.id, req.user!.id, String(req.body.body || ''));
+      res.redirect(`/tenant/chatbot/conversations/${id}`);
+    } catch (error: any) {
+      console.error('Error sending chat reply:', error);
+      res.redirect(`/tenant/chatbot/conversations/${id}?error=${encodeURIComponent(error.message || 'Failed to send')}`);
+    }
+  }
+
+  async assignConversation(req: Request, res: Response) {
+    try {
+      await chatbotService.assign(req.params.id, req.tenant!.id, req.body.assignedToId || null);
+      res.redirect(`/tenant/chatbot/conversations/${req.params.id}`);
+    } catch (error) {
+      console.error('Error assigning chat conversation:', error);
+      res.status(500).send('Failed to assign conversation');
+    }
+  }
+
+  /**
+   * Close the chat, or hand it back to the AI
+   */
+  async updateConversationStatus(req: Request, res: Response) {
+    try {
+      const status = req.body.status === 'CLOSED' ? 'CLOSED' : req.body.status === 'HANDOFF' ? 'HANDOFF' : 'AI';
+
+      await chatbotService.setStatus(req.params.id, req.tenant!.id, status);
+
+      res.redirect(`/tenant/chatbot/conversations/${req.params.id}`);
+    } catch (error) {
+      console.error('Error updating chat conversation:', error);
+      res.status(500).send('Failed to update conversation');
+    }
+  }
+}
+
+export const chatbotController = new ChatbotController();
+
+export const {
+  getWidgetConfig,
+  getMessages: getChatMessages,
+  postMessage: postChatMessage,
+  requestHandoff: requestChatHandoff,
+  getConfigPage,
+  updateConfig,
+  getConversationsPage,
+  replyToConversation,
+  assignConversation,
+  updateConversationStatus,
+} = chatbotController;
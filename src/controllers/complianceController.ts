@@ -0,0 +1,183 @@
+import { Request, Response } from 'express';
+import {
+  consentService,
+  DEFAULT_RECORDING_DISCLOSURE,
+  TWO_PARTY_CONSENT_AREA_CODES,
+} from '../services/call/consentService';
+import { redactionService } from '../services/call/redactionService';
+import { validateFlowConfig } from '../services/call/flowValidator';
+import { getTenantTimezone } from '../services/tenant/scheduleService';
+import { prisma } from '../db/prisma';
+
+const OPT_OUT_DIGITS = /^[0-9*#]$/;
+
+function redirectWithError(res: Response, message: string) {
+  res.redirect(`/tenant/compliance?error=${encodeURIComponent(message)}`);
+}
+
+export class ComplianceController {
+  /**
+   * Recording consent settings, per-number overrides, the do-not-call list
+   * and recent consent events
+   */
+  async getCompliancePage(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+
+      const [config, numbers, blockedCallers, events, timezone] = await Promise.all([
+        prisma.receptionistConfig.findUnique({ where: { tenantId } }),
+        prisma.twilioNumber.findMany({ where: { tenantId }, orderBy: { phoneNumber: 'asc' } }),
+        consentService.listBlocked(tenantId),
+        consentService.recentEvents(tenantId),
+        getTenantTimezone(tenantId),
+      ]);
+
+      res.render('tenant/compliance', {
+        user: req.user,
+        tenant: req.tenant,
+        permissions: req.userPermissions || [],
+        config,
+        numbers,
+        blockedCallers,
+        events,
+        timezone,
+        defaultDisclosure: DEFAULT_RECORDING_DISCLOSURE,
+        twoPartyStates: Object.keys(TWO_PARTY_CONSENT_AREA_CODES),
+        error: req.query.error as string,
+      });
+    } catch (error) {
+      console.error('Error rendering compliance settings:', error);
+      res.status(500).send('Failed to load compliance settings');
+    }
+  }
+
+  async updateRecordingSettings(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const optOutDigit = String(req.body.recordingOptOutDigit || '').trim();
+
+      if (optOutDigit && !OPT_OUT_DIGITS.test(optOutDigit)) {
+        return redirectWithError(res, 'The opt-out key must be a single digit, * or #');
+      }
+
+      // A flow menu option on the same key would never be reached, and nine
+      // appointment times can't all get a key
+      if (optOutDigit) {
+        const flows = await prisma.callFlow.findMany({ where: { tenantId }, select: { name: true, config: true } });
+        for (const flow of flows) {
+          const issue = validateFlowConfig(flow.config, { optOutDigit }).errors.find(error => error.code === 'reserved_digit');
+          if (issue) {
+            return redirectWithError(res, `The call flow "${flow.name}": ${issue.message}. Pick another opt-out key or change the flow first.`);
+          }
+        }
+      }
+
+      const data = {
+        enableRecording: req.body.enableRecording === 'on',
+        recordingDisclosure: String(req.body.recordingDisclosure || '').trim() || null,
+        discloseToAllCallers: req.body.discloseToAllCallers === 'on',
+        recordTwoPartyCallers: req.body.recordTwoPartyCallers === 'on',
+        recordingOptOutDigit: optOutDigit || null,
+      };
+
+      await prisma.receptionistConfig.upsert({
+        where: { tenantId },
+        update: data,
+        create: { tenantId, ...data },
+      });
+
+      res.redirect('/tenant/compliance');
+    } catch (error: any) {
+      console.error('Error updating recording settings:', error);
+      redirectWithError(res, error.message || 'Failed to save recording settings');
+    }
+  }
+
+  async updateRedactionSettings(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const redactionPatterns = String(req.body.redactionPatterns || '').trim();
+
+      try {
+        redactionService.parsePatterns(redactionPatterns);
+      } catch (error: any) {
+        return redirectWithError(res, error.message);
+      }
+
+      const data = {
+        redactPii: req.body.redactPii === 'on',
+        redactionPatterns: redactionPatterns || null,
+        keepPiiOriginals: req.body.keepPiiOriginals === 'on',
+      };
+
+      await prisma.receptionistConfig.upsert({
+        where: { tenantId },
+        update: data,
+        create: { tenantId, ...data },
+      });
+
+      res.redirect('/tenant/compliance#redaction');
+    } catch (error: any) {
+      console.error('Error updating redaction settings:', error);
+      redirectWithError(res, error.message || 'Failed to save redaction settings');
+    }
+  }
+
+  async updateNumberSettings(req: Request, res: Response) {
+    try {
+      const recordCalls = req.body.recordCalls === 'on' ? true : req.body.recordCalls === 'off' ? false : null;
+
+      const result = await prisma.twilioNumber.updateMany({
+        where: { id: req.params.numberId, tenantId: req.tenant!.id },
+        data: {
+          recordCalls,
+          recordingDisclosure: String(req.body.recordingDisclosure || '').trim() || null,
+        },
+      });
+      if (result.count === 0) {
+        return redirectWithError(res, 'Phone number not found');
+      }
+
+      res.redirect('/tenant/compliance');
+    } catch (error: any) {
+      console.error('Error updating number recording settings:', error);
+      redirectWithError(res, error.message || 'Failed to save number settings');
+    }
+  }
+
+  async addBlockedCaller(req: Request, res: Response) {
+    try {
+      await consentService.block(
+        req.tenant!.id,
+        String(req.body.phoneNumber || ''),
+        String(req.body.reason || '').trim() || null,
+        req.user!.id
+      );
+      res.redirect('/tenant/compliance#blocked');
+    } catch (error: any) {
+      console.error('Error blocking caller:', error);
+      redirectWithError(res, error.message || 'Failed to block number');
+    }
+  }
+
+  async removeBlockedCaller(req: Request, res: Response) {
+    try {
+      await consentService.unblock(req.params.id, req.tenant!.id);
+      res.redirect('/tenant/compliance#blocked');
+    } catch (error: any) {
+      console.error('Error unblocking caller:', error);
+      redirectWithError(res, error.message || 'Failed to unblock number');
+    }
+  }
+}
+
+export const complianceController = new ComplianceController();
+
+export const {
+  getCompliancePage,
+  updateRecordingSettings,
+  updateRedactionSettings,
+  updateNumberSettings,
+  addBlockedCaller,
+  removeBlockedCaller,
+} = complianceController;
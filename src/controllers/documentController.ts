@@ -0,0 +1,169 @@
+import { Request, Response } from 'express';
+import { KnowledgeDocument } from '@prisma/client';
+import { documentService } from '../services/knowledge/documentService';
+import prisma from '../db/prisma';
+
+function hasTenantAccess(req: Request, tenantId: string): boolean {
+  return req.user?.role === 'SUPER_ADMIN' || req.user?.tenantId === tenantId;
+}
+
+function serialize(document: KnowledgeDocument) {
+  return {
+    id: document.id,
+    fileName: document.fileName,
+    title: document.title,
+    format: document.format,
+    size: document.size,
+    status: document.status,
+    chunks: document.chunkCount,
+    errorMessage: document.errorMessage,
+    processedAt: document.processedAt,
+    createdAt: document.createdAt,
+  };
+}
+
+/**
+ * Upload a document (multipart field "file")
+ * POST /api/tenants/:tenantId/documents
+ */
+export async function uploadDocument(req: Request, res: Response) {
+  try {
+    const { tenantId } = req.params;
+
+    if (!hasTenantAccess(req, tenantId)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'A file is required' });
+    }
+
+    try {
+      documentService.validate(req.file.originalname, req.file.size);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const document = await documentService.upload({
+      tenantId,
+      fileName: req.file.originalname,
+      data: req.file.buffer,
+      uploadedById: req.user?.id,
+    });
+
+    res.json({
+      message: 'Document uploaded and queued for processing',
+      document: serialize(document),
+    });
+  } catch (error) {
+    console.error('Error uploading document:', error);
+    res.status(500).json({ error: 'Failed to upload document' });
+  }
+}
+
+/**
+ * Get all documents for a tenant
+ * GET /api/tenants/:tenantId/documents
+ */
+export async function listDocuments(req: Request, res: Response) {
+  try {
+    const { tenantId } = req.params;
+
+    if (!hasTenantAccess(req, tenantId)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const documents = await prisma.knowledgeDocument.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({ documents: documents.map(serialize) });
+  } catch (error) {
+    console.error('Error listing documents:', error);
+    res.status(500).json({ error: 'Failed to fetch documents' });
+  }
+}
+
+/**
+ * Get processing status for a document
+ * GET /api/tenants/:tenantId/documents/:documentId
+ */
+export async function getDocumentStatus(req: Request, res: Response) {
+  try {
+    const { tenantId, documentId } = req.params;
+
+    if (!hasTenantAccess(req, tenantId)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const document = await prisma.knowledgeDocument.findFirst({
+      where: { id: documentId, tenantId },
+    });
+
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    res.json(serialize(document));
+  } catch (error) {
+    console.error('Error getting document status:', error);
+    res.status(500).json({ error: 'Failed to fetch document status' });
+  }
+}
+
+/**
+ * Extract, chunk and embed a document again
+ * POST /api/tenants/:tenantId/documents/:documentId/reprocess
+ */
+export async function reprocessDocument(req: Request, res: Response) {
+  try {
+    const { tenantId, documentId } = req.params;
+
+    if (!hasTenantAccess(req, tenantId)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    try {
+      await documentService.reprocess(documentId, tenantId);
+    } catch (error: any) {
+      if (error.message === 'Document not found') {
+        return res.status(404).json({ error: error.message });
+      }
+      throw error;
+    }
+
+    res.json({ message: 'Document queued for reprocessing' });
+  } catch (error) {
+    console.error('Error reprocessing document:', error);
+    res.status(500).json({ error: 'Failed to reprocess document' });
+  }
+}
+
+/**
+ * Delete a document and all its chunks
+ * DELETE /api/tenants/:tenantId/documents/:documentId
+ */
+export async function deleteDocument(req: Request, res: Response) {
+  try {
+    const { tenantId, documentId } = req.params;
+
+    if (!hasTenantAccess(req, tenantId)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    try {
+      await documentService.delete(documentId, tenantId);
+    } catch (error: any) {
+      if (error.message === 'Document not found') {
+        return res.status(404).json({ error: error.message });
+      }
+      throw error;
+    }
+
+    res.json({ message: 'Document deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting document:', error);
+    res.status(500).json({ error: 'Failed to delete document' });
+  }
+}
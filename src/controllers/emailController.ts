@@ -0,0 +1,546 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import {
+  campaignService,
+  EMAIL_MERGE_FIELDS,
+  MIN_SEND_RATE,
+  MAX_SEND_RATE,
+  TRACKING_PIXEL,
+  CampaignInput,
+  SegmentFilters,
+} from '../services/email/campaignService';
+import { getTenantTimezone, zonedTimeToUtc } from '../services/tenant/scheduleService';
+import { prisma } from '../db/prisma';
+
+const LIFECYCLES = ['LEAD', 'MQL', 'SQL', 'OPPORTUNITY', 'CUSTOMER', 'LOST'];
+const RATINGS = ['HOT', 'WARM', 'COLD'];
+
+// Fills merge fields in the campaign preview
+const SAMPLE_CONTACT = { firstName: 'Jane', lastName: 'Doe', fullName: 'Jane Doe', email: 'jane@example.com' };
+
+/**
+ * Multi-selects post a string for one value and an array for several
+ */
+function toArray(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : value ? [value] : [];
+  return values.map(v => String(v).trim()).filter(Boolean);
+}
+
+function parseSegmentFilters(body: any): SegmentFilters {
+  return {
+    lifecycles: toArray(body.lifecycles).filter(v => LIFECYCLES.includes(v)),
+    ratings: toArray(body.ratings).filter(v => RATINGS.includes(v)),
+    tagIds: toArray(body.tagIds),
+    sources: toArray(body.sources),
+    ownerIds: toArray(body.ownerIds),
+  };
+}
+
+function parseCampaignInput(body: any): CampaignInput {
+  return {
+    name: String(body.name || ''),
+    subject: String(body.subject || ''),
+    body: String(body.body || ''),
+    templateId: body.templateId || null,
+    segmentId: body.segmentId || null,
+    sendRate: parseInt(body.sendRate, 10),
+  };
+}
+
+function validateCampaign(input: CampaignInput): string | null {
+  if (!input.name.trim() || !input.subject.trim() || !input.body.trim()) {
+    return 'Name, subject and body are required';
+  }
+  if (isNaN(input.sendRate!) || input.sendRate! < MIN_SEND_RATE || input.sendRate! > MAX_SEND_RATE) {
+    return `Send rate must be between ${MIN_SEND_RATE} and ${MAX_SEND_RATE} emails per minute`;
+  }
+  return null;
+}
+
+async function loadCampaignFormOptions(tenantId: string) {
+  const [templates, segments] = await Promise.all([
+    prisma.emailTemplate.findMany({ where: { tenantId }, orderBy: { name: 'asc' } }),
+    prisma.emailSegment.findMany({ where: { tenantId }, orderBy: { name: 'asc' } }),
+  ]);
+  return { templates, segments };
+}
+
+export class EmailController {
+  // ============================================
+  // PUBLIC TRACKING (/email)
+  // ============================================
+
+  async trackOpen(req: Request, res: Response) {
+    try {
+      await campaignService.recordOpen(req.params.token);
+    } catch (error) {
+      console.error('Email open tracking error:', error);
+    }
+
+    // Loaded from the reader's mail client, not our site
+    res.set({
+      'Content-Type': 'image/gif',
+      'Cache-Control': 'no-store, no-cache, must-revalidate',
+      'Cross-Origin-Resource-Policy': 'cross-origin',
+    });
+    res.send(TRACKING_PIXEL);
+  }
+
+  async trackClick(req: Request, res: Response) {
+    try {
+      const url = await campaignService.recordClick(
+        req.params.token,
+        String(req.query.url || ''),
+        String(req.query.sig || '')
+      );
+
+      if (!url) {
+        return res.status(400).send('Invalid link');
+      }
+      res.redirect(url);
+    } catch (error) {
+      console.error('Email click tracking error:', error);
+      res.status(500).send('Failed to open link');
+    }
+  }
+
+  /**
+   * Ask before unsubscribing so link scanners don't opt people out
+   */
+  async getUnsubscribePage(req: Request, res: Response) {
+    try {
+      const recipient = await campaignService.findRecipient(req.params.token);
+      if (!recipient) {
+        return res.status(404).send('Link not found');
+      }
+
+      res.render('email/unsubscribe', {
+        token: recipient.token,
+        email: recipient.email,
+        businessName: recipient.campaign.tenant.name,
+        done: !!recipient.unsubscribedAt,
+      });
+    } catch (error) {
+      console.error('Error rendering unsubscribe page:', error);
+      res.status(500).send('Failed to load page');
+    }
+  }
+
+  /**
+   * Form submit from the page above, or a mail client's one-click unsubscribe
+   */
+  async unsubscribe(req: Request, res: Response) {
+    try {
+      const result = await campaignService.unsubscribe(req.params.token);
+      if (!result) {
+        return res.status(404).send('Link not found');
+      }
+
+      res.render('email/unsubscribe', {
+        token: req.params.token,
+        email: result.email,
+        businessName: result.businessName,
+        done: true,
+      });
+    } catch (error) {
+      console.error('Email unsubscribe error:', error);
+      res.status(500).send('Failed to unsubscribe');
+    }
+  }
+
+  // ============================================
+  // CAMPAIGNS
+  // ============================================
+
+  async getCampaignsPage(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const status = (req.query.status as string) || '';
+
+      const [campaigns, timezone] = await Promise.all([
+        prisma.emailCampaign.findMany({
+          where: { tenantId, ...(status && { status: status as any }) },
+          include: { segment: { select: { name: true } } },
+          orderBy: { createdAt: 'desc' },
+        }),
+        getTenantTimezone(tenantId),
+      ]);
+      const stats = await campaignService.getStats(campaigns.map(c => c.id));
+
+      res.render('tenant/email/campaigns', {
+        user: req.user,
+        tenant: req.tenant,
+        permissions: req.userPermissions || [],
+        campaigns,
+        stats,
+        status,
+        timezone,
+        error: req.query.error as string,
+      });
+    } catch (error) {
+      console.error('Error rendering email campaigns:', error);
+      res.status(500).send('Failed to load campaigns');
+    }
+  }
+
+  /**
+   * New campaign form (optionally started from a template), or edit a draft
+   */
+  async getCampaignFormPage(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const { templates, segments } = await loadCampaignFormOptions(tenantId);
+
+      let campaign: Partial<CampaignInput> & { id?: string } = { sendRate: 60 };
+      if (req.params.id) {
+        const existing = await prisma.emailCampaign.findFirst({ where: { id: req.params.id, tenantId } });
+        if (!existing) {
+          return res.status(404).send('Campaign not found');
+        }
+        if (existing.status !== 'DRAFT') {
+          return res.redirect(`/tenant/email/campaigns/${existing.id}`);
+        }
+        campaign = existing;
+      } else if (req.query.templateId) {
+        const template = templates.find(t => t.id === req.query.templateId);
+        if (template) {
+          campaign = { ...campaign, templateId: template.id, subject: template.subject, body: template.body };
+        }
+      }
+
+      res.render('tenant/email/campaign-form', {
+        user: req.user,
+        tenant: req.tenant,
+        permissions: req.userPermissions || [],
+        campaign,
+        templates,
+        segments,
+        mergeFields: EMAIL_MERGE_FIELDS,
+        minSendRate: MIN_SEND_RATE,
+        maxSendRate: MAX_SEND_RATE,
+        error: req.query.error as string,
+      });
+    } catch (error) {
+      console.error('Error rendering campaign form:', error);
+      res.status(500).send('Failed to load campaign');
+    }
+  }
+
+  async createCampaign(req: Request, res: Response) {
+    try {
+      const input = parseCampaignInput(req.body);
+      const error = validateCampaign(input);
+      if (error) {
+        return res.redirect(`/tenant/email/campaigns/new?error=${encodeURIComponent(error)}`);
+      }
+
+      const campaign = await campaignService.createCampaign(req.tenant!.id, req.user!.id, input);
+      res.redirect(`/tenant/email/campaigns/${campaign.id}`);
+    } catch (error: any) {
+      console.error('Error creating email campaign:', error);
+      res.redirect(`/tenant/email/campaigns/new?error=${encodeURIComponent(error.message || 'Failed to save')}`);
+    }
+  }
+
+  async updateCampaign(req: Request, res: Response) {
+    const { id } = req.params;
+
+    try {
+      const input = parseCampaignInput(req.body);
+      const error = validateCampaign(input);
+      if (error) {
+        return res.redirect(`/tenant/email/campaigns/${id}/edit?error=${encodeURIComponent(error)}`);
+      }
+
+      await campaignService.updateCampaign(id, req.tenant!.id, input);
+      res.redirect(`/tenant/email/campaigns/${id}`);
+    } catch (error: any) {
+      console.error('Error updating email campaign:', error);
+      res.redirect(`/tenant/email/campaigns/${id}/edit?error=${encodeURIComponent(error.message || 'Failed to save')}`);
+    }
+  }
+
+  /**
+   * Campaign stats, recent recipient activity and a preview
+   */
+  async getCampaignDetailPage(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const campaign = await prisma.emailCampaign.findFirst({
+        where: { id: req.params.id, tenantId },
+        include: {
+          segment: true,
+          template: { select: { id: true, name: true } },
+          createdBy: { select: { firstName: true, lastName: true, email: true } },
+        },
+      });
+
+      if (!campaign) {
+        return res.status(404).send('Campaign not found');
+      }
+
+      const [stats, recipients, timezone, audience] = await Promise.all([
+        campaignService.getStats([campaign.id]),
+        prisma.emailRecipient.findMany({
+          where: { campaignId: campaign.id },
+          include: { contact: { select: { id: true, fullName: true, firstName: true, lastName: true } } },
+          orderBy: [{ sentAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'asc' }],
+          take: 50,
+        }),
+        getTenantTimezone(tenantId),
+        campaign.segment
+          ? campaignService.countSegment(tenantId, campaign.segment.filters as SegmentFilters)
+          : 0,
+      ]);
+
+      const preview = campaignService.renderEmail(campaign, SAMPLE_CONTACT, req.tenant!.name, 'preview');
+
+      res.render('tenant/email/campaign-detail', {
+        user: req.user,
+        tenant: req.tenant,
+        permissions: req.userPermissions || [],
+        campaign,
+        stats: stats[campaign.id],
+        recipients,
+        audience,
+        preview,
+        timezone,
+        error: req.query.error as string,
+      });
+    } catch (error) {
+      console.error('Error rendering email campaign:', error);
+      res.status(500).send('Failed to load campaign');
+    }
+  }
+
+  async scheduleCampaign(req: Request, res: Response) {
+    const { id } = req.params;
+
+    try {
+      const tenantId = req.tenant!.id;
+      let scheduledAt: Date | null = null;
+
+      if (req.body.sendAt === 'later') {
+        scheduledAt = zonedTimeToUtc(String(req.body.scheduledAt || ''), await getTenantTimezone(tenantId));
+        if (!scheduledAt) {
+          return res.redirect(`/tenant/email/campaigns/${id}?error=${encodeURIComponent('Pick a date and time to send')}`);
+        }
+      }
+
+      await campaignService.scheduleCampaign(id, tenantId, scheduledAt);
+      res.redirect(`/tenant/email/campaigns/${id}`);
+    } catch (error: any) {
+      console.error('Error scheduling email campaign:', error);
+      res.redirect(`/tenant/email/campaigns/${id}?error=${encodeURIComponent(error.message || 'Failed to schedule')}`);
+    }
+  }
+
+  async cancelCampaign(req: Request, res: Response) {
+    const { id } = req.params;
+
+    try {
+      await campaignService.cancelCampaign(id, req.tenant!.id);
+      res.redirect(`/tenant/email/campaigns/${id}`);
+    } catch (error: any) {
+      console.error('Error canceling email campaign:', error);
+      res.redirect(`/tenant/email/campaigns/${id}?error=${encodeURIComponent(error.message || 'Failed to cancel')}`);
+    }
+  }
+
+  async deleteCampaign(req: Request, res: Response) {
+    const { id } = req.params;
+
+    try {
+      await campaignService.deleteCampaign(id, req.tenant!.id);
+      res.redirect('/tenant/email/campaigns');
+    } catch (error: any) {
+      console.error('Error deleting email campaign:', error);
+      res.redirect(`/tenant/email/campaigns/${id}?error=${encodeURIComponent(error.message || 'Failed to delete')}`);
+    }
+  }
+
+  // ============================================
+  // TEMPLATES
+  // ============================================
+
+  async getTemplatesPage(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const templates = await prisma.emailTemplate.findMany({
+        where: { tenantId },
+        orderBy: { name: 'asc' },
+      });
+
+      res.render('tenant/email/templates', {
+        user: req.user,
+        tenant: req.tenant,
+        permissions: req.userPermissions || [],
+        templates,
+        editing: templates.find(t => t.id === req.query.edit) || null,
+        mergeFields: EMAIL_MERGE_FIELDS,
+        error: req.query.error as string,
+      });
+    } catch (error) {
+      console.error('Error rendering email templates:', error);
+      res.status(500).send('Failed to load templates');
+    }
+  }
+
+  /**
+   * Create a template, or update one when an id is posted
+   */
+  async saveTemplate(req: Request, res: Response) {
+    const tenantId = req.tenant!.id;
+    const id = req.params.id;
+    const { name, subject, body } = req.body;
+    const back = id ? `/tenant/email/templates?edit=${id}&` : '/tenant/email/templates?';
+
+    if (!name?.trim() || !subject?.trim() || !body?.trim()) {
+      return res.redirect(`${back}error=${encodeURIComponent('Name, subject and body are required')}`);
+    }
+
+    try {
+      const data = { name: name.trim(), subject: subject.trim(), body };
+
+      if (id) {
+        const result = await prisma.emailTemplate.updateMany({ where: { id, tenantId }, data });
+        if (result.count === 0) {
+          return res.status(404).send('Template not found');
+        }
+      } else {
+        await prisma.emailTemplate.create({ data: { tenantId, ...data } });
+      }
+
+      res.redirect('/tenant/email/templates');
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return res.redirect(`${back}error=${encodeURIComponent('A template with that name already exists')}`);
+      }
+      console.error('Error saving email template:', error);
+      res.status(500).send('Failed to save template');
+    }
+  }
+
+  async deleteTemplate(req: Request, res: Response) {
+    try {
+      await prisma.emailTemplate.deleteMany({
+        where: { id: req.params.id, tenantId: req.tenant!.id },
+      });
+      res.redirect('/tenant/email/templates');
+    } catch (error) {
+      console.error('Error deleting email template:', error);
+      res.status(500).send('Failed to delete template');
+    }
+  }
+
+  // ============================================
+  // LISTS (SEGMENTS)
+  // ============================================
+
+  async getListsPage(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+
+      const [segments, tags, users, sources] = await Promise.all([
+        prisma.emailSegment.findMany({ where: { tenantId }, orderBy: { name: 'asc' } }),
+        prisma.tag.findMany({ where: { tenantId }, orderBy: { name: 'asc' } }),
+        prisma.user.findMany({
+          where: { tenantId, isActive: true },
+          select: { id: true, firstName: true, lastName: true, email: true },
+          orderBy: { firstName: 'asc' },
+        }),
+        prisma.contact.findMany({
+          where: { tenantId, source: { not: null } },
+          distinct: ['source'],
+          select: { source: true },
+          orderBy: { source: 'asc' },
+        }),
+      ]);
+
+      const counts = await Promise.all(
+        segments.map(segment => campaignService.countSegment(tenantId, segment.filters as SegmentFilters))
+      );
+
+      res.render('tenant/email/lists', {
+        user: req.user,
+        tenant: req.tenant,
+        permissions: req.userPermissions || [],
+        segments: segments.map((segment, i) => ({ ...segment, count: counts[i] })),
+        tags,
+        users,
+        sources: sources.map(s => s.source as string),
+        lifecycles: LIFECYCLES,
+        ratings: RATINGS,
+        error: req.query.error as string,
+      });
+    } catch (error) {
+      console.error('Error rendering email lists:', error);
+      res.status(500).send('Failed to load lists');
+    }
+  }
+
+  async createList(req: Request, res: Response) {
+    const name = String(req.body.name || '').trim();
+    if (!name) {
+      return res.redirect(`/tenant/email/lists?error=${encodeURIComponent('Name is required')}`);
+    }
+
+    try {
+      await prisma.emailSegment.create({
+        data: {
+          tenantId: req.tenant!.id,
+          name,
+          filters: parseSegmentFilters(req.body) as Prisma.InputJsonValue,
+        },
+      });
+      res.redirect('/tenant/email/lists');
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return res.redirect(`/tenant/email/lists?error=${encodeURIComponent('A list with that name already exists')}`);
+      }
+      console.error('Error creating email list:', error);
+      res.status(500).send('Failed to create list');
+    }
+  }
+
+  async deleteList(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const inUse = await prisma.emailCampaign.count({
+        where: { tenantId, segmentId: req.params.id, status: 'SCHEDULED' },
+      });
+      if (inUse > 0) {
+        return res.redirect(`/tenant/email/lists?error=${encodeURIComponent('A scheduled campaign is sending to this list')}`);
+      }
+
+      await prisma.emailSegment.deleteMany({ where: { id: req.params.id, tenantId } });
+      res.redirect('/tenant/email/lists');
+    } catch (error) {
+      console.error('Error deleting email list:', error);
+      res.status(500).send('Failed to delete list');
+    }
+  }
+}
+
+export const emailController = new EmailController();
+
+export const {
+  trackOpen,
+  trackClick,
+  getUnsubscribePage,
+  unsubscribe,
+  getCampaignsPage: getEmailCampaignsPage,
+  getCampaignFormPage: getEmailCampaignFormPage,
+  createCampaign: createEmailCampaign,
+  updateCampaign: updateEmailCampaign,
+  getCampaignDetailPage: getEmailCampaignDetailPage,
+  scheduleCampaign: scheduleEmailCampaign,
+  cancelCampaign: cancelEmailCampaign,
+  deleteCampaign: deleteEmailCampaign,
+  getTemplatesPage: getEmailTemplatesPage,
+  saveTemplate: saveEmailTemplate,
+  deleteTemplate: deleteEmailTemplate,
+  getListsPage: getEmailListsPage,
+  createList: createEmailList,
+  deleteList: deleteEmailList,
+} = emailController;
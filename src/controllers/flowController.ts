@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import prisma from '../db/prisma';
-import { FlowConfig } from '../services/call/flowExecutor';
+import { validateFlowConfig } from '../services/call/flowValidator';
+import { flowRevisionService } from '../services/call/flowRevisionService';
+import { consentService } from '../services/call/consentService';
 
 /**
  * Get all flows for a tenant
@@ -59,21 +61,27 @@ export async function createFlow(req: Request, res: Response) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
-    // Validate config structure
-    const flowConfig = config as FlowConfig;
-    if (!flowConfig.steps || !flowConfig.entryPoint) {
-      return res.status(400).json({ error: 'Invalid flow configuration' });
+    // Validate config structure and step graph
+    const validation = validateFlowConfig(config, { optOutDigit: await consentService.optOutDigit(tenantId) });
+    if (!validation.valid) {
+      return res.status(400).json({ error: 'Invalid flow configuration', details: validation.errors });
     }
 
-    const flow = await prisma.callFlow.create({
-      data: {
-        tenantId,
-        name,
-        flowType,
-        priority: priority || 0,
-        isActive: isActive !== undefined ? isActive : true,
-        config,
-      },
+    const flow = await prisma.$transaction(async (tx) => {
+      const created = await tx.callFlow.create({
+        data: {
+          tenantId,
+          name,
+          flowType,
+          priority: priority || 0,
+          isActive: isActive !== undefined ? isActive : true,
+          config,
+        },
+      });
+
+      await flowRevisionService.recordRevision(tx, created, req.user?.id);
+
+      return created;
     });
 
     res.status(201).json(flow);
@@ -102,21 +110,36 @@ export async function updateFlow(req: Request, res: Response) {
 
     // Validate config if provided
     if (config) {
-      const flowConfig = config as FlowConfig;
-      if (!flowConfig.steps || !flowConfig.entryPoint) {
-        return res.status(400).json({ error: 'Invalid flow configuration' });
+      const validation = validateFlowConfig(config, {
+        optOutDigit: await consentService.optOutDigit(existingFlow.tenantId),
+      });
+      if (!validation.valid) {
+        return res.status(400).json({ error: 'Invalid flow configuration', details: validation.errors });
       }
     }
 
-    const updatedFlow = await prisma.callFlow.update({
-      where: { id: flowId },
-      data: {
-        ...(name && { name }),
-        ...(flowType && { flowType }),
-        ...(priority !== undefined && { priority }),
-        ...(isActive !== undefined && { isActive }),
-        ...(config && { config }),
-      },
+    const updatedFlow = await prisma.$transaction(async (tx) => {
+      if (config) {
+        await flowRevisionService.ensureBaseline(tx, existingFlow);
+      }
+
+      const updated = await tx.callFlow.update({
+        where: { id: flowId },
+        data: {
+          ...(name && { name }),
+          ...(flowType && { flowType }),
+          ...(priority !== undefined && { priority }),
+          ...(isActive !== undefined && { isActive }),
+          ...(config && { config }),
+        },
+      });
+
+      // Only config saves create revisions; toggles and priority changes don't
+      if (config) {
+        await flowRevisionService.recordRevision(tx, updated, req.user?.id);
+      }
+
+      return updated;
     });
 
     res.json(updatedFlow);
@@ -186,15 +209,21 @@ export async function duplicateFlow(req: Request, res: Response) {
       return res.status(404).json({ error: 'Flow not found' });
     }
 
-    const duplicatedFlow = await prisma.callFlow.create({
-      data: {
-        tenantId: originalFlow.tenantId,
-        name: `${originalFlow.name} (Copy)`,
-        flowType: originalFlow.flowType,
-        priority: originalFlow.priority,
-        isActive: false, // Start as inactive
-        config: originalFlow.config as any,
-      },
+    const duplicatedFlow = await prisma.$transaction(async (tx) => {
+      const created = await tx.callFlow.create({
+        data: {
+          tenantId: originalFlow.tenantId,
+          name: `${originalFlow.name} (Copy)`,
+          flowType: originalFlow.flowType,
+          priority: originalFlow.priority,
+          isActive: false, // Start as inactive
+          config: originalFlow.config as any,
+        },
+      });
+
+      await flowRevisionService.recordRevision(tx, created, req.user?.id, `Duplicated from ${originalFlow.name}`);
+
+      return created;
     });
 
     res.status(201).json(duplicatedFlow);
@@ -203,3 +232,108 @@ export async function duplicateFlow(req: Request, res: Response) {
     res.status(500).json({ error: 'Failed to duplicate flow' });
   }
 }
+
+/**
+ * Validate a flow config without saving it
+ */
+export async function validateFlow(req: Request, res: Response) {
+  try {
+    const { config } = req.body;
+    const tenantId = req.body.tenantId || req.user?.tenantId;
+
+    const validation = validateFlowConfig(config, {
+      optOutDigit: tenantId ? await consentService.optOutDigit(tenantId) : null,
+    });
+
+    res.json(validation);
+  } catch (error) {
+    console.error('Validate flow error:', error);
+    res.status(500).json({ error: 'Failed to validate flow' });
+  }
+}
+
+/**
+ * List saved revisions of a flow
+ */
+export async function getFlowRevisions(req: Request, res: Response) {
+  try {
+    const { flowId } = req.params;
+
+    const flow = await prisma.callFlow.findUnique({
+      where: { id: flowId },
+    });
+
+    if (!flow) {
+      return res.status(404).json({ error: 'Flow not found' });
+    }
+
+    const revisions = await flowRevisionService.listRevisions(flowId);
+
+    res.json(revisions);
+  } catch (error) {
+    console.error('Get flow revisions error:', error);
+    res.status(500).json({ error: 'Failed to fetch flow revisions' });
+  }
+}
+
+/**
+ * Get a single revision including its config
+ */
+export async function getFlowRevision(req: Request, res: Response) {
+  try {
+    const { flowId, revisionId } = req.params;
+
+    const revision = await flowRevisionService.getRevision(flowId, revisionId);
+
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    res.json(revision);
+  } catch (error) {
+    console.error('Get flow revision error:', error);
+    res.status(500).json({ error: 'Failed to fetch flow revision' });
+  }
+}
+
+/**
+ * Diff a revision against the previous one, or against ?against=<revisionId>
+ */
+export async function diffFlowRevision(req: Request, res: Response) {
+  try {
+    const { flowId, revisionId } = req.params;
+    const against = req.query.against as string | undefined;
+
+    const diff = await flowRevisionService.diffRevision(flowId, revisionId, against);
+
+    if (!diff) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    res.json(diff);
+  } catch (error) {
+    console.error('Diff flow revision error:', error);
+    res.status(500).json({ error: 'Failed to diff flow revision' });
+  }
+}
+
+/**
+ * Roll a flow back to a previous revision
+ */
+export async function rollbackFlow(req: Request, res: Response) {
+  try {
+    const { flowId, revisionId } = req.params;
+
+    const result = await flowRevisionService.rollback(flowId, revisionId, req.user?.id);
+
+    if (!result.success) {
+      const status = result.details ? 400 : 404;
+      return res.status(status).json({ error: result.error, details: result.details });
+    }
+
+    res.json(result.flow);
+  } catch (error) {
+    console.error('Rollback flow error:', error);
+    res.status(500).json({ error: 'Failed to roll back flow' });
+  }
+}
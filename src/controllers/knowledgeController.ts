@@ -1,5 +1,13 @@
 import { Request, Response } from 'express';
 import prisma from '../db/prisma';
+import { DEFAULT_INTENTS, INTENT_ACTIONS, SYSTEM_INTENTS } from '../services/ai/intentClassifier';
+import { knowledgeSearchService } from '../services/ai/knowledgeSearchService';
+
+// A failed embedding only drops the entry to keyword search until the next
+// save or reindex, so it never fails the request
+function logEmbeddingError(error: unknown) {
+  console.error('Error refreshing knowledge embedding:', error);
+}
 
 /**
  * FAQ Management
@@ -50,6 +58,7 @@ export async function createFAQ(req: Request, res: Response) {
         category: category || null,
       },
     });
+    await knowledgeSearchService.refreshFAQ(faq.id).catch(logEmbeddingError);
 
     res.json({ success: true, faq });
   } catch (error) {
@@ -79,6 +88,7 @@ export async function updateFAQ(req: Request, res: Response) {
         isActive,
       },
     });
+    await knowledgeSearchService.refreshFAQ(faq.id).catch(logEmbeddingError);
 
     res.json({ success: true, faq });
   } catch (error) {
@@ -112,6 +122,25 @@ export async function deleteFAQ(req: Request, res: Response) {
  * Knowledge Base Management
  */
 
+// Embed FAQs and entries that have no embedding yet
+export async function reindexKnowledge(req: Request, res: Response) {
+  try {
+    const { tenantId } = req.params;
+
+    // Check access
+    if (req.user?.role !== 'SUPER_ADMIN' && req.user?.tenantId !== tenantId) {
+      return res.status(403).json({ success: false, error: 'Access denied' });
+    }
+
+    const result = await knowledgeSearchService.reindex(tenantId);
+
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Reindex knowledge error:', error);
+    res.status(500).json({ success: false, error: 'Failed to reindex knowledge' });
+  }
+}
+
 // List knowledge base entries
 export async function listKnowledge(req: Request, res: Response) {
   try {
@@ -158,6 +187,7 @@ export async function createKnowledge(req: Request, res: Response) {
         keywords: keywords ? keywords.split(',').map((k: string) => k.trim()) : [],
       },
     });
+    await knowledgeSearchService.refreshKnowledgeEntry(entry.id).catch(logEmbeddingError);
 
     res.json({ success: true, entry });
   } catch (error) {
@@ -189,6 +219,7 @@ export async function updateKnowledge(req: Request, res: Response) {
         priority,
       },
     });
+    await knowledgeSearchService.refreshKnowledgeEntry(entry.id).catch(logEmbeddingError);
 
     res.json({ success: true, entry });
   } catch (error) {
@@ -218,6 +249,157 @@ export async function deleteKnowledge(req: Request, res: Response) {
   }
 }
 
+/**
+ * Intent Management
+ */
+
+const INTENT_NAME_PATTERN = /^[a-z][a-z0-9_]{0,49}$/;
+
+function parseExamples(examples: unknown): string[] {
+  const list = Array.isArray(examples) ? examples : String(examples || '').split('\n');
+  return list.map(example => String(example).trim()).filter(Boolean);
+}
+
+// List intents
+export async function listIntents(req: Request, res: Response) {
+  try {
+    const { tenantId } = req.params;
+
+    // Check access
+    if (req.user?.role !== 'SUPER_ADMIN' && req.user?.tenantId !== tenantId) {
+      return res.status(403).json({ success: false, error: 'Access denied' });
+    }
+
+    const intents = await prisma.callIntent.findMany({
+      where: { tenantId },
+      orderBy: [{ order: 'asc' }, { name: 'asc' }],
+    });
+
+    res.json({
+      success: true,
+      intents,
+      // What callers are matched against while no intents are configured
+      defaults: intents.length === 0 ? DEFAULT_INTENTS : [],
+      systemIntents: SYSTEM_INTENTS,
+    });
+  } catch (error) {
+    console.error('List intents error:', error);
+    res.status(500).json({ success: false, error: 'Failed to load intents' });
+  }
+}
+
+// Create intent
+export async function createIntent(req: Request, res: Response) {
+  try {
+    const { tenantId } = req.params;
+    const { name, description, examples, action, order } = req.body;
+
+    // Check access
+    if (req.user?.role !== 'SUPER_ADMIN' && req.user?.tenantId !== tenantId) {
+      return res.status(403).json({ success: false, error: 'Access denied' });
+    }
+
+    if (!name || !description) {
+      return res.status(400).json({ success: false, error: 'Name and description required' });
+    }
+
+    if (!INTENT_NAME_PATTERN.test(name)) {
+      return res.status(400).json({ success: false, error: 'Name must be lowercase letters, numbers and underscores' });
+    }
+
+    if (action && !(INTENT_ACTIONS as readonly string[]).includes(action)) {
+      return res.status(400).json({ success: false, error: `Action must be one of: ${INTENT_ACTIONS.join(', ')}` });
+    }
+
+    const existing = await prisma.callIntent.findUnique({
+      where: { tenantId_name: { tenantId, name } },
+    });
+
+    if (existing) {
+      return res.status(400).json({ success: false, error: `An intent named "${name}" already exists` });
+    }
+
+    const intent = await prisma.callIntent.create({
+      data: {
+        tenantId,
+        name,
+        description,
+        examples: parseExamples(examples),
+        action: action || 'answer',
+        order: Number.isFinite(Number(order)) ? Number(order) : 0,
+      },
+    });
+
+    res.json({ success: true, intent });
+  } catch (error) {
+    console.error('Create intent error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ success: false, error: `Failed to create intent: ${errorMessage}` });
+  }
+}
+
+// Update intent
+export async function updateIntent(req: Request, res: Response) {
+  try {
+    const { tenantId, intentId } = req.params;
+    const { description, examples, action, isActive, order } = req.body;
+
+    // Check access
+    if (req.user?.role !== 'SUPER_ADMIN' && req.user?.tenantId !== tenantId) {
+      return res.status(403).json({ success: false, error: 'Access denied' });
+    }
+
+    if (action && !(INTENT_ACTIONS as readonly string[]).includes(action)) {
+      return res.status(400).json({ success: false, error: `Action must be one of: ${INTENT_ACTIONS.join(', ')}` });
+    }
+
+    const existing = await prisma.callIntent.findFirst({
+      where: { id: intentId, tenantId },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Intent not found' });
+    }
+
+    const intent = await prisma.callIntent.update({
+      where: { id: intentId },
+      data: {
+        description,
+        examples: examples !== undefined ? parseExamples(examples) : undefined,
+        action,
+        isActive,
+        order: order !== undefined && Number.isFinite(Number(order)) ? Number(order) : undefined,
+      },
+    });
+
+    res.json({ success: true, intent });
+  } catch (error) {
+    console.error('Update intent error:', error);
+    res.status(500).json({ success: false, error: 'Failed to update intent' });
+  }
+}
+
+// Delete intent
+export async function deleteIntent(req: Request, res: Response) {
+  try {
+    const { tenantId, intentId } = req.params;
+
+    // Check access
+    if (req.user?.role !== 'SUPER_ADMIN' && req.user?.tenantId !== tenantId) {
+      return res.status(403).json({ success: false, error: 'Access denied' });
+    }
+
+    await prisma.callIntent.deleteMany({
+      where: { id: intentId, tenantId },
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete intent error:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete intent' });
+  }
+}
+
 /**
  * Call Flow Management
  */
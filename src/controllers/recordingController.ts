@@ -0,0 +1,106 @@
+import { Request, Response } from 'express';
+import { Recording } from '@prisma/client';
+import { recordingStorageService } from '../services/storage/recordingStorageService';
+import { prisma } from '../db/prisma';
+
+async function streamRecording(res: Response, recording: Recording) {
+  const { stream, size } = await recordingStorageService.open(recording);
+
+  res.set({
+    'Content-Type': 'audio/mpeg',
+    'Cache-Control': 'private, no-store',
+    ...(size !== undefined && { 'Content-Length': String(size) }),
+  });
+
+  stream.on('error', (error) => {
+    console.error('Error streaming recording:', error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+}
+
+export class RecordingController {
+  // ============================================
+  // PUBLIC PLAYBACK (/recordings)
+  // ============================================
+
+  /**
+   * Expiring signed link, for sharing outside the app
+   */
+  async playSignedRecording(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      if (!recordingStorageService.isValidSignature(id, String(req.query.expires || ''), String(req.query.sig || ''))) {
+        return res.status(403).send('This link is invalid or has expired');
+      }
+
+      const recording = await prisma.recording.findUnique({ where: { id } });
+      if (!recording) {
+        return res.status(404).send('Recording not found');
+      }
+
+      await streamRecording(res, recording);
+    } catch (error) {
+      console.error('Error playing recording:', error);
+      res.status(500).send('Failed to load recording');
+    }
+  }
+
+  // ============================================
+  // TENANT (/tenant/recordings)
+  // ============================================
+
+  async playRecording(req: Request, res: Response) {
+    try {
+      const recording = await recordingStorageService.find(req.params.id, req.tenant!.id);
+      if (!recording) {
+        return res.status(404).send('Recording not found');
+      }
+
+      await streamRecording(res, recording);
+    } catch (error) {
+      console.error('Error playing recording:', error);
+      res.status(500).send('Failed to load recording');
+    }
+  }
+
+  /**
+   * A fresh signed link for the share button
+   */
+  async getRecordingLink(req: Request, res: Response) {
+    try {
+      const recording = await recordingStorageService.find(req.params.id, req.tenant!.id);
+      if (!recording) {
+        return res.status(404).json({ error: 'Recording not found' });
+      }
+
+      res.json(recordingStorageService.signedUrl(recording.id));
+    } catch (error) {
+      console.error('Error creating recording link:', error);
+      res.status(500).json({ error: 'Failed to create link' });
+    }
+  }
+
+  async deleteRecording(req: Request, res: Response) {
+    try {
+      await recordingStorageService.delete(req.params.id, req.tenant!.id, {
+        reason: 'manual',
+        userId: req.user!.id,
+        ipAddress: req.ip,
+      });
+      res.redirect('/tenant/calls');
+    } catch (error: any) {
+      console.error('Error deleting recording:', error);
+      res.redirect(`/tenant/calls?error=${encodeURIComponent(error.message || 'Failed to delete recording')}`);
+    }
+  }
+}
+
+export const recordingController = new RecordingController();
+
+export const {
+  playSignedRecording,
+  playRecording,
+  getRecordingLink,
+  deleteRecording,
+} = recordingController;
@@ -0,0 +1,273 @@
+import { Request, Response } from 'express';
+import { TextBackTrigger } from '@prisma/client';
+import { smsService } from '../services/sms/smsService';
+import {
+  textBackService,
+  TEXT_BACK_TRIGGERS,
+  TEXT_BACK_MERGE_FIELDS,
+} from '../services/sms/textBackService';
+import { prisma } from '../db/prisma';
+
+export class SMSController {
+  /**
+   * Inbox: conversation list, with the selected thread on the right
+   */
+  async getConversationsPage(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const filters = {
+        status: (req.query.status as string) ?? 'OPEN',
+        assignedToId: req.query.assigned === 'me' ? req.user!.id : (req.query.assigned as string) || undefined,
+        search: req.query.search as string,
+      };
+
+      const [conversations, conversation, users, config] = await Promise.all([
+        smsService.listConversations(tenantId, filters),
+        req.params.id ? smsService.getConversation(req.params.id, tenantId) : null,
+        prisma.user.findMany({
+          where: { tenantId, isActive: true },
+          select: { id: true, firstName: true, lastName: true, email: true },
+          orderBy: { firstName: 'asc' },
+        }),
+        prisma.receptionistConfig.findUnique({
+          where: { tenantId },
+          select: { smsAutoReplyEnabled: true },
+        }),
+      ]);
+
+      if (req.params.id && !conversation) {
+        return res.status(404).send('Conversation not found');
+      }
+
+      res.render('tenant/sms/conversations', {
+        user: req.user,
+        tenant: req.tenant,
+        permissions: req.userPermissions || [],
+        conversations,
+        conversation,
+        users,
+        autoReplyEnabled: config?.smsAutoReplyEnabled ?? false,
+        status: filters.status,
+        assigned: (req.query.assigned as string) || '',
+        search: filters.search || '',
+        error: req.query.error as string,
+      });
+    } catch (error) {
+      console.error('Error rendering SMS conversations:', error);
+      res.status(500).send('Failed to load conversations');
+    }
+  }
+
+  async replyToConversation(req: Request, res: Response) {
+    const tenantId = req.tenant!.id;
+    const { id } = req.params;
+    const body = String(req.body.body || '').trim();
+
+    try {
+      const conversation = await prisma.smsConversation.findFirst({ where: { id, tenantId } });
+      if (!conversation) {
+        return res.status(404).send('Conversation not found');
+      }
+
+      if (body) {
+        await smsService.sendMessage(id, body, { sentById: req.user!.id });
+      }
+
+      res.redirect(`/tenant/sms/conversations/${id}`);
+    } catch (error: any) {
+      console.error('Error sending SMS reply:', error);
+      res.redirect(`/tenant/sms/conversations/${id}?error=${encodeURIComponent(error.message || 'Failed to send')}`);
+    }
+  }
+
+  async assignConversation(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const userId = req.body.assignedToId || null;
+
+      await smsService.assign(req.params.id, tenantId, userId);
+
+      res.redirect(`/tenant/sms/conversations/${req.params.id}`);
+    } catch (error) {
+      console.error('Error assigning SMS conversation:', error);
+      res.status(500).send('Failed to assign conversation');
+    }
+  }
+
+  async updateConversationStatus(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const status = req.body.status === 'CLOSED' ? 'CLOSED' : 'OPEN';
+
+      await smsService.setStatus(req.params.id, tenantId, status);
+
+      res.redirect(`/tenant/sms/conversations/${req.params.id}`);
+    } catch (error) {
+      console.error('Error updating SMS conversation:', error);
+      res.status(500).send('Failed to update conversation');
+    }
+  }
+
+  async updateConversationAutoReply(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+
+      await smsService.setAutoReply(req.params.id, tenantId, req.body.aiAutoReply === 'on');
+
+      res.redirect(`/tenant/sms/conversations/${req.params.id}`);
+    } catch (error) {
+      console.error('Error updating SMS auto-reply:', error);
+      res.status(500).send('Failed to update conversation');
+    }
+  }
+
+  /**
+   * Tenant-wide switch for the AI auto-responder
+   */
+  async updateSmsSettings(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const smsAutoReplyEnabled = req.body.smsAutoReplyEnabled === 'on';
+
+      await prisma.receptionistConfig.upsert({
+        where: { tenantId },
+        update: { smsAutoReplyEnabled },
+        create: { tenantId, smsAutoReplyEnabled },
+      });
+
+      res.redirect('/tenant/sms/conversations');
+    } catch (error) {
+      console.error('Error updating SMS settings:', error);
+      res.status(500).send('Failed to update SMS settings');
+    }
+  }
+
+  /**
+   * Text-back rules, with the most recent sends
+   */
+  async getTextBackPage(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+
+      const [rules, logs, hasNumber] = await Promise.all([
+        prisma.textBackRule.findMany({
+          where: { tenantId },
+          orderBy: [{ trigger: 'asc' }, { createdAt: 'asc' }],
+        }),
+        prisma.textBackLog.findMany({
+          where: { tenantId },
+          include: { rule: { select: { name: true } } },
+          orderBy: { createdAt: 'desc' },
+          take: 25,
+        }),
+        prisma.twilioNumber.count({ where: { tenantId, status: 'ACTIVE' } }),
+      ]);
+
+      res.render('tenant/sms/text-back', {
+        user: req.user,
+        tenant: req.tenant,
+        permissions: req.userPermissions || [],
+        rules,
+        logs,
+        hasNumber: hasNumber > 0,
+        triggers: TEXT_BACK_TRIGGERS,
+        mergeFields: TEXT_BACK_MERGE_FIELDS,
+        error: req.query.error as string,
+      });
+    } catch (error) {
+      console.error('Error rendering text-back rules:', error);
+      res.status(500).send('Failed to load text-back rules');
+    }
+  }
+
+  async createTextBackRule(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const { name, trigger, template, quietHoursStart, quietHoursEnd } = req.body;
+      const dedupeMinutes = parseInt(req.body.dedupeMinutes, 10);
+
+      let error: string | null = null;
+      if (!name?.trim() || !template?.trim()) {
+        error = 'Name and message are required';
+      } else if (!TEXT_BACK_TRIGGERS.includes(trigger)) {
+        error = 'Invalid trigger';
+      } else if (!textBackService.isValidTime(quietHoursStart) || !textBackService.isValidTime(quietHoursEnd)) {
+        error = 'Quiet hours must be HH:MM';
+      } else if (!!quietHoursStart !== !!quietHoursEnd) {
+        error = 'Set both quiet hours start and end, or neither';
+      } else if (isNaN(dedupeMinutes) || dedupeMinutes < 0) {
+        error = 'Dedupe window must be zero or more minutes';
+      }
+
+      if (error) {
+        return res.redirect(`/tenant/sms/text-back?error=${encodeURIComponent(error)}`);
+      }
+
+      await prisma.textBackRule.create({
+        data: {
+          tenantId,
+          name: name.trim(),
+          trigger: trigger as TextBackTrigger,
+          template: template.trim(),
+          quietHoursStart: quietHoursStart || null,
+          quietHoursEnd: quietHoursEnd || null,
+          dedupeMinutes,
+        },
+      });
+
+      res.redirect('/tenant/sms/text-back');
+    } catch (error) {
+      console.error('Error creating text-back rule:', error);
+      res.status(500).send('Failed to create text-back rule');
+    }
+  }
+
+  async toggleTextBackRule(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const rule = await prisma.textBackRule.findFirst({ where: { id: req.params.id, tenantId } });
+
+      if (!rule) {
+        return res.status(404).send('Rule not found');
+      }
+
+      await prisma.textBackRule.update({
+        where: { id: rule.id },
+        data: { isActive: !rule.isActive },
+      });
+
+      res.redirect('/tenant/sms/text-back');
+    } catch (error) {
+      console.error('Error toggling text-back rule:', error);
+      res.status(500).send('Failed to update text-back rule');
+    }
+  }
+
+  async deleteTextBackRule(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+
+      await prisma.textBackRule.deleteMany({ where: { id: req.params.id, tenantId } });
+
+      res.redirect('/tenant/sms/text-back');
+    } catch (error) {
+      console.error('Error deleting text-back rule:', error);
+      res.status(500).send('Failed to delete text-back rule');
+    }
+  }
+}
+
+export const smsController = new SMSController();
+
+export const {
+  getConversationsPage,
+  replyToConversation,
+  assignConversation,
+  updateConversationStatus,
+  updateConversationAutoReply,
+  updateSmsSettings,
+  getTextBackPage,
+  createTextBackRule,
+  toggleTextBackRule,
+  deleteTextBackRule,
+} = smsController;
@@ -5,9 +5,23 @@ import {
   addHolidayForTenant,
   BusinessHourUpdate,
   deleteHolidayForTenant,
+  getTenantTimezone,
   saveBusinessHoursForTenant,
 } from '../services/tenant/scheduleService';
 import { getAllTimezones } from '../config/timezones';
+import { redactionService } from '../services/call/redactionService';
+import { knowledgeSearchService } from '../services/ai/knowledgeSearchService';
+import { DEFAULT_SEARCH_LIMIT } from '../services/ai/ragService';
+import {
+  DEFAULT_RING_TIMEOUT,
+  DEFAULT_WHISPER_MESSAGE,
+  MAX_RING_TIMEOUT,
+  MIN_RING_TIMEOUT,
+  WHISPER_MERGE_FIELDS,
+} from '../services/call/ringGroupService';
+
+const RING_STRATEGIES = ['SEQUENTIAL', 'SIMULTANEOUS', 'ROUND_ROBIN'] as const;
+const TRANSFER_FALLBACKS = ['NO_ANSWER_FLOW', 'VOICEMAIL', 'LEAD_CAPTURE'] as const;
 
 /**
  * Tenant Dashboard
@@ -132,6 +146,7 @@ export async function getCalls(req: Request, res: Response) {
         include: {
           lead: true,
           summary: true,
+          recordings: { select: { id: true }, orderBy: { createdAt: 'asc' } },
         },
       }),
       prisma.callSession.count({
@@ -142,6 +157,8 @@ export async function getCalls(req: Request, res: Response) {
     res.render('tenant/calls', {
       user: req.user,
       tenant: req.tenant,
+      permissions: req.userPermissions || [],
+      error: req.query.error as string,
       calls,
       pagination: {
         page,
@@ -201,8 +218,11 @@ export async function getCallDetail(req: Request, res: Response) {
     res.render('tenant/call-detail', {
       user: req.user,
       tenant: req.tenant,
+      permissions: req.userPermissions || [],
       call,
       transcriptTurns,
+      hasOriginal: !!call.transcript?.encryptedOriginal,
+      timezone: await getTenantTimezone(call.tenantId),
     });
   } catch (error) {
     console.error('Get call detail error:', error);
@@ -210,6 +230,34 @@ export async function getCallDetail(req: Request, res: Response) {
   }
 }
 
+/**
+ * Unredacted transcript turns, for users with voice:view_pii
+ */
+export async function getOriginalTranscript(req: Request, res: Response) {
+  try {
+    const transcript = await prisma.transcript.findFirst({
+      where: { callSessionId: req.params.id, callSession: { tenantId: req.tenant!.id } },
+    });
+
+    if (!transcript?.encryptedOriginal) {
+      return res.status(404).json({ error: 'No original transcript was kept for this call' });
+    }
+
+    await redactionService.logOriginalAccess({
+      tenantId: req.tenant!.id,
+      userId: req.user!.id,
+      resource: 'transcript',
+      resourceId: transcript.id,
+      ipAddress: req.ip,
+    });
+
+    res.json({ turns: JSON.parse(redactionService.decrypt(transcript.encryptedOriginal)) });
+  } catch (error) {
+    console.error('Get original transcript error:', error);
+    res.status(500).json({ error: 'Failed to load original transcript' });
+  }
+}
+
 /**
  * List leads
  */
@@ -344,6 +392,7 @@ export async function getSettings(req: Request, res: Response) {
       departments,
       transferTargets,
       knowledgeBase,
+      teamMembers,
     ] = await Promise.all([
       prisma.tenant.findUnique({ where: { id: tenantId } }),
       prisma.receptionistConfig.findUnique({ where: { tenantId } }),
@@ -355,16 +404,28 @@ export async function getSettings(req: Request, res: Response) {
         where: { tenantId },
         orderBy: { date: 'asc' },
       }),
-      prisma.department.findMany({ where: { tenantId } }),
+      prisma.department.findMany({
+        where: { tenantId },
+        include: { _count: { select: { transferTargets: true } } },
+        orderBy: { name: 'asc' },
+      }),
       prisma.transferTarget.findMany({
         where: { tenantId },
-        include: { department: true },
+        include: {
+          department: true,
+          user: { select: { firstName: true, lastName: true, email: true } },
+        },
         orderBy: { priority: 'asc' },
       }),
       prisma.knowledgeBaseEntry.findMany({
         where: { tenantId },
         orderBy: { priority: 'desc' },
       }),
+      prisma.user.findMany({
+        where: { tenantId, isActive: true },
+        select: { id: true, firstName: true, lastName: true, email: true },
+        orderBy: { firstName: 'asc' },
+      }),
     ]);
 
     const timezones = getAllTimezones();
@@ -378,7 +439,12 @@ export async function getSettings(req: Request, res: Response) {
       departments,
       transferTargets,
       knowledgeBase,
+      teamMembers,
       timezones,
+      defaultWhisperMessage: DEFAULT_WHISPER_MESSAGE,
+      whisperMergeFields: WHISPER_MERGE_FIELDS,
+      minRingTimeout: MIN_RING_TIMEOUT,
+      maxRingTimeout: MAX_RING_TIMEOUT,
     });
   } catch (error) {
     console.error('Get settings error:', error);
@@ -404,6 +470,13 @@ export async function updateReceptionistConfig(req: Request, res: Response) {
       fallbackMessage,
       endCallMessage,
       menuOptionDelaySeconds,
+      enableMediaStreams,
+      routeReturningCallers,
+      voicemailEmailNotify,
+      voicemailSmsNumbers,
+      recordingRetentionDays,
+      vectorSearchLimit,
+      vectorMinSimilarity,
     } = req.body;
 
     const delaySeconds = Number(menuOptionDelaySeconds);
@@ -411,6 +484,16 @@ export async function updateReceptionistConfig(req: Request, res: Response) {
       ? Math.max(0, Math.min(60, delaySeconds)) * 1000
       : 2000;
 
+    const retentionDays = parseInt(recordingRetentionDays, 10);
+    const recordingRetention = retentionDays > 0 ? Math.min(retentionDays, 3650) : null;
+
+    const searchLimit = parseInt(vectorSearchLimit, 10);
+    const minSimilarity = parseFloat(vectorMinSimilarity);
+    const searchSettings = {
+      vectorSearchLimit: searchLimit > 0 ? Math.min(searchLimit, 50) : DEFAULT_SEARCH_LIMIT,
+      vectorMinSimilarity: minSimilarity > 0 ? Math.min(minSimilarity, 1) : null,
+    };
+
     await prisma.receptionistConfig.upsert({
       where: { tenantId },
       update: {
@@ -421,6 +504,12 @@ export async function updateReceptionistConfig(req: Request, res: Response) {
         fallbackMessage,
         endCallMessage,
         menuOptionDelayMs,
+        enableMediaStreams: enableMediaStreams === 'on',
+        routeReturningCallers: routeReturningCallers === 'on',
+        voicemailEmailNotify: voicemailEmailNotify === 'on',
+        voicemailSmsNumbers: String(voicemailSmsNumbers || '').trim() || null,
+        recordingRetentionDays: recordingRetention,
+        ...searchSettings,
       },
       create: {
         tenantId,
@@ -431,6 +520,12 @@ export async function updateReceptionistConfig(req: Request, res: Response) {
         fallbackMessage,
         endCallMessage,
         menuOptionDelayMs,
+        enableMediaStreams: enableMediaStreams === 'on',
+        routeReturningCallers: routeReturningCallers === 'on',
+        voicemailEmailNotify: voicemailEmailNotify === 'on',
+        voicemailSmsNumbers: String(voicemailSmsNumbers || '').trim() || null,
+        recordingRetentionDays: recordingRetention,
+        ...searchSettings,
       },
     });
 
@@ -455,7 +550,7 @@ export async function addKnowledgeEntry(req: Request, res: Response) {
 
     const keywordsArray = keywords.split(',').map((k: string) => k.trim());
 
-    await prisma.knowledgeBaseEntry.create({
+    const entry = await prisma.knowledgeBaseEntry.create({
       data: {
         tenantId,
         category,
@@ -465,6 +560,9 @@ export async function addKnowledgeEntry(req: Request, res: Response) {
         isActive: true,
       },
     });
+    await knowledgeSearchService.refreshKnowledgeEntry(entry.id).catch(error => {
+      console.error('Error embedding knowledge entry:', error);
+    });
 
     res.redirect('/tenant/settings');
   } catch (error) {
@@ -483,14 +581,23 @@ export async function addTransferTarget(req: Request, res: Response) {
     }
 
     const tenantId = req.user.tenantId;
-    const { name, phoneNumber, departmentId, priority } = req.body;
+    const { name, phoneNumber, departmentId, priority, userId } = req.body;
+
+    // Only link team members and departments of this tenant
+    const user = userId
+      ? await prisma.user.findFirst({ where: { id: userId, tenantId }, select: { id: true } })
+      : null;
+    const department = departmentId
+      ? await prisma.department.findFirst({ where: { id: departmentId, tenantId }, select: { id: true } })
+      : null;
 
     await prisma.transferTarget.create({
       data: {
         tenantId,
         name,
         phoneNumber,
-        departmentId: departmentId || null,
+        departmentId: department?.id ?? null,
+        userId: user?.id ?? null,
         priority: parseInt(priority) || 1,
         isActive: true,
       },
@@ -503,6 +610,72 @@ export async function addTransferTarget(req: Request, res: Response) {
   }
 }
 
+/**
+ * Create or update a department and its ring group settings
+ */
+export async function saveDepartment(req: Request, res: Response) {
+  try {
+    if (!req.user || !req.user.tenantId) {
+      return res.status(403).send('Forbidden');
+    }
+
+    const tenantId = req.user.tenantId;
+    const { departmentId } = req.params;
+    const { name, description, ringStrategy, fallback, whisperEnabled, whisperMessage } = req.body;
+
+    if (!name || !name.trim()) {
+      return res.status(400).send('Department name is required');
+    }
+
+    const ringTimeout = parseInt(req.body.ringTimeout, 10) || DEFAULT_RING_TIMEOUT;
+
+    const data = {
+      name: name.trim(),
+      description: description?.trim() || null,
+      ringStrategy: RING_STRATEGIES.includes(ringStrategy) ? ringStrategy : 'SEQUENTIAL',
+      ringTimeout: Math.min(MAX_RING_TIMEOUT, Math.max(MIN_RING_TIMEOUT, ringTimeout)),
+      fallback: TRANSFER_FALLBACKS.includes(fallback) ? fallback : 'NO_ANSWER_FLOW',
+      whisperEnabled: whisperEnabled === 'on',
+      whisperMessage: whisperMessage?.trim() || null,
+    };
+
+    if (departmentId) {
+      const result = await prisma.department.updateMany({ where: { id: departmentId, tenantId }, data });
+      if (result.count === 0) {
+        return res.status(404).send('Department not found');
+      }
+    } else {
+      await prisma.department.create({ data: { tenantId, ...data } });
+    }
+
+    res.redirect('/tenant/settings#departments');
+  } catch (error) {
+    console.error('Save department error:', error);
+    res.status(500).send('Error saving department');
+  }
+}
+
+/**
+ * Delete a department; its transfer targets stay, without a department
+ */
+export async function deleteDepartment(req: Request, res: Response) {
+  try {
+    if (!req.user || !req.user.tenantId) {
+      return res.status(403).send('Forbidden');
+    }
+
+    const tenantId = req.user.tenantId;
+    const { departmentId } = req.params;
+
+    await prisma.department.deleteMany({ where: { id: departmentId, tenantId } });
+
+    res.redirect('/tenant/settings#departments');
+  } catch (error) {
+    console.error('Delete department error:', error);
+    res.status(500).send('Error deleting department');
+  }
+}
+
 /**
  * Update weekly business hours
  */
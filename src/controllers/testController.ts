@@ -1,5 +1,11 @@
 import { Request, Response } from 'express';
 import { searchFAQs, lookupKnowledgeBase, getBusinessHoursStatus, getKnowledgeStats } from '../services/ai/toolFunctions';
+import { callSimulator, SimulatedInput } from '../services/call/callSimulator';
+import { intentService, RegexIntentClassifier, SLOT_NAMES, SlotName } from '../services/ai/intentClassifier';
+import { knowledgeSearchService, MIN_MATCH_SCORE } from '../services/ai/knowledgeSearchService';
+
+// Closest entries shown on the test page, matched or not
+const CANDIDATE_LIMIT = 5;
 
 /**
  * Test FAQ Search
@@ -14,11 +20,15 @@ export async function testFAQSearch(req: Request, res: Response) {
     }
 
     const result = await searchFAQs(tenantId, query);
+    // Scores for the closest FAQs, including those under the threshold, show why one was picked
+    const candidates = await knowledgeSearchService.searchFAQs(tenantId, query, { threshold: 0, limit: CANDIDATE_LIMIT });
 
     res.json({
       success: true,
       query,
+      threshold: MIN_MATCH_SCORE,
       result,
+      candidates,
     });
   } catch (error) {
     console.error('Test FAQ search error:', error);
@@ -26,6 +36,48 @@ export async function testFAQSearch(req: Request, res: Response) {
   }
 }
 
+/**
+ * Test intent classification and slot extraction
+ */
+export async function testIntentClassification(req: Request, res: Response) {
+  try {
+    const { tenantId } = req.params;
+    const { text, expectedSlot } = req.body;
+
+    if (!text) {
+      return res.status(400).json({ success: false, error: 'Text required' });
+    }
+
+    if (expectedSlot && !(SLOT_NAMES as readonly string[]).includes(expectedSlot)) {
+      return res.status(400).json({ success: false, error: `expectedSlot must be one of: ${SLOT_NAMES.join(', ')}` });
+    }
+
+    const options = {
+      slots: [...SLOT_NAMES],
+      expectedSlot: expectedSlot as SlotName | undefined,
+    };
+
+    // Show the fallback alongside so differences are easy to spot
+    const result = await intentService.classify(tenantId, text, options);
+    const fallback = await new RegexIntentClassifier().classify({
+      tenantId,
+      text,
+      intents: await intentService.getIntents(tenantId),
+      ...options,
+    });
+
+    res.json({
+      success: true,
+      text,
+      result,
+      fallback,
+    });
+  } catch (error) {
+    console.error('Test intent classification error:', error);
+    res.status(500).json({ success: false, error: 'Failed to classify text' });
+  }
+}
+
 /**
  * Test Knowledge Base Search
  */
@@ -39,11 +91,14 @@ export async function testKnowledgeSearch(req: Request, res: Response) {
     }
 
     const result = await lookupKnowledgeBase(tenantId, query);
+    const candidates = await knowledgeSearchService.searchKnowledgeBase(tenantId, query, { threshold: 0, limit: CANDIDATE_LIMIT });
 
     res.json({
       success: true,
       query,
+      threshold: MIN_MATCH_SCORE,
       result,
+      candidates,
     });
   } catch (error) {
     console.error('Test knowledge search error:', error);
@@ -88,3 +143,49 @@ export async function getStats(req: Request, res: Response) {
     res.status(500).json({ success: false, error: 'Failed to get statistics' });
   }
 }
+
+/**
+ * Simulate a call through a flow without Twilio (dry run)
+ */
+export async function simulateCall(req: Request, res: Response) {
+  try {
+    const { tenantId } = req.params;
+    const { flowId, config, inputs, now, isOpen, fromNumber, maxTurns, webhookResponses } = req.body;
+
+    if (inputs !== undefined && !Array.isArray(inputs)) {
+      return res.status(400).json({ success: false, error: 'inputs must be an array of { digits } or { speech }' });
+    }
+
+    const clock = now ? new Date(now) : undefined;
+    if (clock && isNaN(clock.getTime())) {
+      return res.status(400).json({ success: false, error: 'now must be a valid date' });
+    }
+
+    const simulation = await callSimulator.simulate(tenantId, {
+      flowId,
+      config,
+      inputs: (inputs ?? []) as SimulatedInput[],
+      now: clock,
+      isOpen: typeof isOpen === 'boolean' ? isOpen : undefined,
+      fromNumber,
+      maxTurns: maxTurns ? parseInt(maxTurns, 10) : undefined,
+      webhookResponses,
+    });
+
+    if (!simulation.success) {
+      return res.status(400).json({
+        success: false,
+        error: simulation.error,
+        details: simulation.details,
+      });
+    }
+
+    res.json({
+      success: true,
+      result: simulation.result,
+    });
+  } catch (error) {
+    console.error('Simulate call error:', error);
+    res.status(500).json({ success: false, error: 'Failed to simulate call' });
+  }
+}
@@ -1,17 +1,30 @@
 import { Request, Response } from 'express';
+import { CallStatus, TextBackTrigger } from '@prisma/client';
 import prisma from '../db/prisma';
 import { callService } from '../services/call/callService';
 import { flowExecutor } from '../services/call/flowExecutor';
+import { flowSessionService } from '../services/call/flowSessionService';
 import { stateMachine } from '../services/ai/stateMachine';
-import { attemptTransfer } from '../services/ai/toolFunctions';
+import { getBusinessHoursStatus } from '../services/ai/toolFunctions';
+import { callerIdService } from '../services/crm/callerIdService';
+import { callActivityService } from '../services/crm/callActivityService';
+import { smsService } from '../services/sms/smsService';
+import { textBackService } from '../services/sms/textBackService';
+import { callbackService } from '../services/lead/callbackService';
+import { ringGroupService } from '../services/call/ringGroupService';
+import { voicemailService, VOICEMAIL_MAX_SECONDS } from '../services/voicemail/voicemailService';
+import { recordingStorageService } from '../services/storage/recordingStorageService';
+import { consentService, OPT_OUT_CONFIRMATION } from '../services/call/consentService';
 import { 
   createGreetingTwiML, 
   createGatherResponseTwiML,
-  createTransferTwiML,
-  createEndCallTwiML 
+  createEndCallTwiML,
+  prependSay,
 } from '../services/twilio/twimlBuilder';
 import { JobProcessor } from '../services/jobs/jobProcessor';
+import { mediaStreamServer } from '../services/voice/mediaStreamHandler';
 import { env } from '../config/env';
+import { CallerProfile } from '../types';
 
 /**
  * Handle incoming voice call
@@ -54,6 +67,50 @@ export async function handleIncomingCall(req: Request, res: Response) {
 
     console.log(`✅ Created call session: ${session.id}`);
 
+    // Numbers on the do-not-call list are turned away before anything else
+    if (await consentService.isBlocked(tenantId, From)) {
+      await callService.logCallEvent({
+        callSessionId: session.id,
+        eventType: 'caller_blocked',
+        data: JSON.stringify({ fromNumber: From, toNumber: To }),
+      });
+      res.type('text/xml');
+      return res.send('<Response><Reject/></Response>');
+    }
+
+    const config = twilioNumber.tenant?.receptionistConfig;
+
+    // Recording consent: the disclosure is spoken and recording started
+    // before whatever comes next
+    const recording = await consentService.startForCall(session.id, config || null, twilioNumber, From);
+    const disclose = (twiml: string) => consentService.beginCall(session.id, recording, twiml);
+
+    // Recognize returning callers from the CRM and past calls
+    const caller = await recognizeCaller(tenantId, session.id, From);
+    const conversation = caller
+      ? {
+          caller,
+          capturedData: {
+            phone: caller.phone,
+            ...(caller.name && { name: caller.name }),
+            ...(caller.email && { email: caller.email }),
+          },
+        }
+      : undefined;
+
+    if (conversation) {
+      await callService.mergeMetadata(session.id, { conversation });
+    }
+
+    // Known contacts can skip the receptionist and go straight to their owner
+    if (caller && config?.routeReturningCallers) {
+      const ownerTwiml = await routeToOwner(tenantId, session.id, CallSid, caller);
+      if (ownerTwiml) {
+        res.type('text/xml');
+        return res.send(await disclose(ownerTwiml));
+      }
+    }
+
     // Determine which flow to use
     const flowType = await flowExecutor.determineFlowType(tenantId, {
       isInitialCall: true,
@@ -66,32 +123,35 @@ export async function handleIncomingCall(req: Request, res: Response) {
 
     if (flow) {
       // Store current flow and step in session metadata
-      await prisma.callSession.update({
-        where: { id: session.id },
-        data: {
-          metadata: {
-            flowType,
-            currentStepId: flow.entryPoint,
-          } as any,
-        },
+      await callService.mergeMetadata(session.id, {
+        flowType,
+        currentStepId: flow.entryPoint,
       });
 
       // Execute the entry point step
       const twiml = await flowExecutor.executeStep(flow, flow.entryPoint, tenantId, CallSid);
       res.type('text/xml');
-      return res.send(twiml);
+      return res.send(await disclose(twiml));
     }
 
     // No flow configured - fall back to simple AI greeting
-    const config = twilioNumber.tenant?.receptionistConfig;
-    const greetingMessage = config?.greetingMessage || 
-      'Thank you for calling. This call may be recorded. How can I help you today?';
+    let greetingMessage = config?.greetingMessage || 
+      'Thank you for calling. How can I help you today?';
+
+    if (caller?.firstName) {
+      greetingMessage = `Hi ${caller.firstName}! ${greetingMessage}`;
+    }
+
+    if (config?.enableMediaStreams) {
+      res.type('text/xml');
+      return res.send(await disclose(mediaStreamServer.createTwiML(CallSid, greetingMessage)));
+    }
 
     const gatherUrl = `${env.BASE_URL}/twilio/gather`;
     const twiml = createGreetingTwiML(greetingMessage, gatherUrl);
 
     res.type('text/xml');
-    res.send(twiml);
+    res.send(await disclose(twiml));
   } catch (error) {
     console.error('Incoming call handler error:', error);
     res.type('text/xml');
@@ -99,15 +159,116 @@ export async function handleIncomingCall(req: Request, res: Response) {
   }
 }
 
+/**
+ * Start recording once the disclosure has played, then continue the call
+ */
+export async function handleRecordingConsent(req: Request, res: Response) {
+  try {
+    const { CallSid } = req.body;
+
+    const twiml = await consentService.disclosed(CallSid);
+
+    res.type('text/xml');
+    res.send(twiml || '<Response><Say>We are experiencing technical difficulties. Please try again later.</Say><Hangup/></Response>');
+  } catch (error) {
+    console.error('Recording consent handler error:', error);
+    res.type('text/xml');
+    res.send('<Response><Say>We are experiencing technical difficulties. Please try again later.</Say><Hangup/></Response>');
+  }
+}
+
+/**
+ * Look the caller up in the CRM and call history; never fails the call
+ */
+async function recognizeCaller(
+  tenantId: string,
+  callSessionId: string,
+  fromNumber: string
+): Promise<CallerProfile | null> {
+  try {
+    const caller = await callerIdService.identify(tenantId, fromNumber, callSessionId);
+
+    if (caller) {
+      await callService.logCallEvent({
+        callSessionId,
+        eventType: 'caller_identified',
+        data: JSON.stringify({
+          contactId: caller.contactId,
+          name: caller.name,
+          ownerId: caller.ownerId,
+          previousCalls: caller.previousCalls,
+        }),
+      });
+    }
+
+    return caller;
+  } catch (error) {
+    console.error('Caller recognition error:', error);
+    return null;
+  }
+}
+
+/**
+ * Dial the caller's account owner directly when we're open and the owner
+ * has a transfer target. Returns null to carry on with the normal greeting.
+ */
+async function routeToOwner(
+  tenantId: string,
+  callSessionId: string,
+  callSid: string,
+  caller: CallerProfile
+): Promise<string | null> {
+  try {
+    if (!caller.ownerId) {
+      return null;
+    }
+
+    const [target, hours] = await Promise.all([
+      callerIdService.getOwnerTransferTarget(tenantId, caller.ownerId),
+      getBusinessHoursStatus(tenantId),
+    ]);
+
+    if (!target || !hours.isOpen) {
+      return null;
+    }
+
+    await callService.logCallEvent({
+      callSessionId,
+      eventType: 'owner_routing',
+      state: 'TRANSFER_ATTEMPT',
+      data: JSON.stringify({ ownerId: caller.ownerId, target: target.name }),
+    });
+
+    const greeting = caller.firstName ? `Welcome back, ${caller.firstName}.` : 'Welcome back.';
+
+    // Falls back like a department transfer if the owner doesn't pick up
+    return ringGroupService.startTransfer({
+      tenantId,
+      callSid,
+      targets: [target],
+      reason: 'a returning caller',
+      message: `${greeting} Connecting you to ${caller.ownerName || target.name}.`,
+    });
+  } catch (error) {
+    console.error('Owner routing error:', error);
+    return null;
+  }
+}
+
 /**
  * Handle speech gather callback
  */
 export async function handleGather(req: Request, res: Response) {
   try {
-    const { CallSid, SpeechResult, Confidence } = req.body;
+    const { CallSid, SpeechResult, Confidence, Digits } = req.body;
 
     console.log(`🎤 Gather result for ${CallSid}: "${SpeechResult}" (confidence: ${Confidence})`);
 
+    if (await consentService.optOut(CallSid, Digits)) {
+      res.type('text/xml');
+      return res.send(createGatherResponseTwiML(`${OPT_OUT_CONFIRMATION} How can I help you?`, `${env.BASE_URL}/twilio/gather`));
+    }
+
     if (!SpeechResult || SpeechResult.trim() === '') {
       // No speech detected - retry
       const gatherUrl = `${env.BASE_URL}/twilio/gather`;
@@ -135,30 +296,19 @@ export async function handleGather(req: Request, res: Response) {
 
     // Save conversation turn
     await callService.saveTranscript(context.sessionId, context.conversationHistory);
+    await callService.saveConversationState(CallSid, context.metadata);
 
     // Update call state
     await callService.updateCallState(CallSid, aiResponse.nextState);
 
     // Log event
-    await callService.logCallEvent({
-      callSessionId: context.sessionId,
-      eventType: 'user_input',
-      state: context.state,
-      data: JSON.stringify({ input: SpeechResult, confidence: Confidence }),
-    });
-
-    await callService.logCallEvent({
-      callSessionId: context.sessionId,
-      eventType: 'ai_response',
-      state: aiResponse.nextState,
-      data: JSON.stringify({ message: aiResponse.message }),
-    });
+    await callService.logTurnEvents(context, SpeechResult, aiResponse, { confidence: Confidence });
 
     // Handle actions
     if (aiResponse.action) {
       switch (aiResponse.action.type) {
         case 'transfer':
-          return await handleTransferAction(req, res, context, aiResponse.message);
+          return await handleTransferAction(req, res, context, aiResponse.message, aiResponse.action.data);
         
         case 'end_call':
           const endTwiml = createEndCallTwiML(aiResponse.message);
@@ -176,7 +326,7 @@ export async function handleGather(req: Request, res: Response) {
           return res.send(endTwiml);
         
         case 'capture_lead':
-          // Lead capture is handled in state machine
+          // Lead already saved by the state machine or AI tool; keep talking
           break;
       }
     }
@@ -208,13 +358,20 @@ async function handleTransferAction(
   req: Request,
   res: Response,
   context: any,
-  message: string
+  message: string,
+  target?: { phoneNumber?: string; reason?: string; departmentId?: string }
 ) {
   try {
-    // Get transfer target
-    const transferNumber = await attemptTransfer(context.tenantId);
+    // Ring the department's group (or everyone) with its ring strategy
+    const twiml = await ringGroupService.startTransfer({
+      tenantId: context.tenantId,
+      callSid: context.callSid,
+      departmentId: target?.departmentId,
+      reason: target?.reason,
+      message,
+    });
 
-    if (!transferNumber) {
+    if (!twiml) {
       // No transfer target available
       const gatherUrl = `${env.BASE_URL}/twilio/gather`;
       const twiml = createGatherResponseTwiML(
@@ -228,13 +385,6 @@ async function handleTransferAction(
       return res.send(twiml);
     }
 
-    // Mark transfer attempt
-    await callService.markTransferAttempt(context.callSid, false);
-
-    // Create transfer TwiML
-    const statusCallbackUrl = `${env.BASE_URL}/twilio/transfer-status`;
-    const twiml = createTransferTwiML(message, transferNumber, statusCallbackUrl);
-
     res.type('text/xml');
     res.send(twiml);
   } catch (error) {
@@ -340,7 +490,7 @@ export async function handleIVR(req: Request, res: Response) {
         const voicemailPrompt = config.voicemailPrompt || 
           'Please leave a message after the beep, and we will get back to you soon.';
         twiml += `<Say>${voicemailPrompt}</Say>`;
-        twiml += '<Record maxLength=\"120\" transcribe=\"true\" playBeep=\"true\"/>';
+        twiml += `<Record maxLength=\"${VOICEMAIL_MAX_SECONDS}\" playBeep=\"true\" action=\"${env.BASE_URL}/twilio/voicemail-complete\" recordingStatusCallback=\"${env.BASE_URL}/twilio/voicemail-recording\"/>`;
         twiml += '<Say>Thank you for your message. Goodbye.</Say>';
         break;
 
@@ -379,8 +529,8 @@ export async function handleTransferStatus(req: Request, res: Response) {
 
     console.log(`📞 Transfer status for ${CallSid}: ${DialCallStatus}`);
 
-    const success = DialCallStatus === 'completed';
-    
+    const success = await ringGroupService.wasAnswered(CallSid, DialCallStatus, req.query.screened === '1');
+
     await callService.markTransferAttempt(CallSid, success);
 
     if (success) {
@@ -391,15 +541,9 @@ export async function handleTransferStatus(req: Request, res: Response) {
       res.type('text/xml');
       return res.send(twiml);
     } else {
-      // Transfer failed - capture lead
-      const gatherUrl = `${env.BASE_URL}/twilio/gather`;
-      const twiml = createGatherResponseTwiML(
-        "I couldn't connect you. May I take your name and phone number so someone can call you back?",
-        gatherUrl
-      );
-      
-      await callService.updateCallState(CallSid, 'LEAD_CAPTURE');
-      
+      // Ring the next person in the group, or fall back once everyone missed it
+      const twiml = await ringGroupService.nextHop(CallSid, DialCallStatus);
+
       res.type('text/xml');
       return res.send(twiml);
     }
@@ -410,6 +554,75 @@ export async function handleTransferStatus(req: Request, res: Response) {
   }
 }
 
+/**
+ * Handle the whisper played to a staff member before a transfer connects
+ */
+export async function handleTransferWhisper(req: Request, res: Response) {
+  try {
+    const callSid = (req.query.callSid as string) || req.body.ParentCallSid;
+
+    const twiml = await ringGroupService.whisperTwiML(callSid);
+
+    res.type('text/xml');
+    res.send(twiml);
+  } catch (error) {
+    console.error('Transfer whisper error:', error);
+    res.type('text/xml');
+    res.send('<Response></Response>');
+  }
+}
+
+/**
+ * Handle the staff member's key press after the transfer whisper
+ */
+export async function handleTransferAccept(req: Request, res: Response) {
+  try {
+    const callSid = (req.query.callSid as string) || req.body.ParentCallSid;
+
+    const twiml = await ringGroupService.acceptTwiML(callSid, req.body.Digits);
+
+    res.type('text/xml');
+    res.send(twiml);
+  } catch (error) {
+    console.error('Transfer accept error:', error);
+    res.type('text/xml');
+    res.send('<Response><Hangup/></Response>');
+  }
+}
+
+/**
+ * Handle the end of a voicemail recording
+ */
+export async function handleVoicemailComplete(req: Request, res: Response) {
+  res.type('text/xml');
+  res.send(createEndCallTwiML('Thank you for your message. Goodbye.'));
+}
+
+/**
+ * Handle voicemail recording status callback
+ */
+export async function handleVoicemailRecording(req: Request, res: Response) {
+  try {
+    const { CallSid, RecordingSid, RecordingUrl, RecordingDuration, RecordingStatus } = req.body;
+
+    console.log(`📼 Voicemail for ${CallSid}: ${RecordingSid} (${RecordingStatus})`);
+
+    if (RecordingSid && RecordingUrl && RecordingStatus === 'completed') {
+      await voicemailService.createFromRecording({
+        callSid: CallSid,
+        recordingSid: RecordingSid,
+        recordingUrl: RecordingUrl,
+        duration: parseInt(RecordingDuration || '0'),
+      });
+    }
+
+    res.sendStatus(200);
+  } catch (error) {
+    console.error('Voicemail recording error:', error);
+    res.sendStatus(500);
+  }
+}
+
 /**
  * Handle call status callback
  */
@@ -427,6 +640,14 @@ export async function handleCallStatus(req: Request, res: Response) {
       const session = await callService.getCallSessionByCallSid(CallSid);
       
       if (session) {
+        // Put the call on the caller's contact timeline right away; the
+        // summary job fills in the summary and sentiment later
+        try {
+          await callActivityService.logCall(session.id);
+        } catch (error) {
+          console.error('Call activity logging error:', error);
+        }
+
         // Schedule summary job
         await JobProcessor.createJob({
           type: 'summarize_call',
@@ -449,7 +670,15 @@ export async function handleCallStatus(req: Request, res: Response) {
             });
           }
         }
+
+        // Follow up by text when the caller hung up in the after-hours flow
+        if ((session.metadata as any)?.flowType === 'AFTER_HOURS' && !session.transferSuccess) {
+          await queueTextBack(session.id, 'AFTER_HOURS');
+        }
       }
+    } else if (MISSED_CALL_STATUSES[CallStatus]) {
+      const session = await callService.updateCallStatus(CallSid, MISSED_CALL_STATUSES[CallStatus], new Date());
+      await queueTextBack(session.id, 'MISSED_CALL');
     }
 
     res.sendStatus(200);
@@ -459,6 +688,75 @@ export async function handleCallStatus(req: Request, res: Response) {
   }
 }
 
+const MISSED_CALL_STATUSES: Record<string, CallStatus> = {
+  busy: 'BUSY',
+  'no-answer': 'NO_ANSWER',
+  canceled: 'CANCELED',
+};
+
+/**
+ * Queue the tenant's text-back rule for this call, if it has one. Never
+ * fails the status callback.
+ */
+async function queueTextBack(callSessionId: string, trigger: TextBackTrigger) {
+  try {
+    await textBackService.queueForCall(callSessionId, trigger);
+  } catch (error) {
+    console.error('Text-back queue error:', error);
+  }
+}
+
+/**
+ * Handle inbound SMS webhook
+ */
+export async function handleIncomingSms(req: Request, res: Response) {
+  try {
+    const { MessageSid, From, To, Body } = req.body;
+
+    console.log(`💬 Incoming SMS ${MessageSid} from ${From} to ${To}`);
+
+    const result = await smsService.handleInbound({
+      from: From,
+      to: To,
+      body: Body,
+      messageSid: MessageSid,
+    });
+
+    // Replies are sent through the API by the job, so Twilio gets an empty response
+    if (result?.autoReply) {
+      await JobProcessor.createJob({
+        type: 'sms_auto_reply',
+        payload: { conversationId: result.conversation.id, messageId: result.message.id },
+      });
+    }
+
+    res.type('text/xml');
+    res.send('<Response></Response>');
+  } catch (error) {
+    console.error('Incoming SMS error:', error);
+    res.type('text/xml');
+    res.send('<Response></Response>');
+  }
+}
+
+/**
+ * Handle outbound SMS delivery status callback
+ */
+export async function handleSmsStatus(req: Request, res: Response) {
+  try {
+    const { MessageSid, MessageStatus, ErrorCode } = req.body;
+
+    if (MessageSid && MessageStatus) {
+      await smsService.updateMessageStatus(MessageSid, MessageStatus, ErrorCode);
+    }
+
+    res.sendStatus(200);
+  } catch (error) {
+    console.error('SMS status error:', error);
+    res.sendStatus(500);
+  }
+}
+
 /**
  * Handle recording status callback
  */
@@ -472,12 +770,13 @@ export async function handleRecordingStatus(req: Request, res: Response) {
       const session = await callService.getCallSessionByCallSid(CallSid);
 
       if (session) {
-        await callService.saveRecording({
+        const recording = await callService.saveRecording({
           callSessionId: session.id,
           recordingSid: RecordingSid,
           url: RecordingUrl,
           duration: parseInt(RecordingDuration || '0'),
         });
+        await recordingStorageService.queueStore(recording.id);
       }
     }
 
@@ -488,6 +787,80 @@ export async function handleRecordingStatus(req: Request, res: Response) {
   }
 }
 
+/**
+ * Handle answer of an outbound lead callback (staff whisper or reminder script)
+ */
+export async function handleCallbackAnswer(req: Request, res: Response) {
+  try {
+    const twiml = await callbackService.answerTwiML(req.params.id);
+
+    res.type('text/xml');
+    res.send(twiml);
+  } catch (error) {
+    console.error('Callback answer error:', error);
+    res.type('text/xml');
+    res.send('<Response><Hangup/></Response>');
+  }
+}
+
+/**
+ * Handle the key press that bridges a callback to the other party
+ */
+export async function handleCallbackConnect(req: Request, res: Response) {
+  try {
+    const { Digits, From } = req.body;
+
+    const twiml = await callbackService.connectTwiML(req.params.id, Digits || '', From);
+
+    res.type('text/xml');
+    res.send(twiml);
+  } catch (error) {
+    console.error('Callback connect error:', error);
+    res.type('text/xml');
+    res.send('<Response><Hangup/></Response>');
+  }
+}
+
+/**
+ * Handle the result of a callback's bridged leg
+ */
+export async function handleCallbackDialStatus(req: Request, res: Response) {
+  try {
+    const { CallSid, DialCallStatus } = req.body;
+
+    console.log(`📞 Callback dial status for ${CallSid}: ${DialCallStatus}`);
+
+    const twiml = await callbackService.handleDialResult(req.params.id, DialCallStatus || '');
+
+    res.type('text/xml');
+    res.send(twiml);
+  } catch (error) {
+    console.error('Callback dial status error:', error);
+    res.type('text/xml');
+    res.send('<Response><Hangup/></Response>');
+  }
+}
+
+/**
+ * Handle status callback for an outbound lead callback
+ */
+export async function handleCallbackStatus(req: Request, res: Response) {
+  try {
+    const { CallSid, CallStatus } = req.body;
+
+    console.log(`📞 Callback status for ${CallSid}: ${CallStatus}`);
+
+    if (['completed', 'busy', 'no-answer', 'failed', 'canceled'].includes(CallStatus)) {
+      await callbackService.handleCallEnded(req.params.id, CallStatus);
+    }
+
+    res.sendStatus(200);
+  } catch (error) {
+    console.error('Callback status error:', error);
+    res.sendStatus(500);
+  }
+}
+
 /**
  * Handle flow menu digit gather
  */
@@ -522,92 +895,61 @@ export async function handleFlowGather(req: Request, res: Response) {
       return res.send('<Response><Say>Flow not found.</Say><Hangup/></Response>');
     }
 
-    // Handle the menu selection
-    const selection = await flowExecutor.handleMenuSelection(flow, currentStepId, Digits);
-
-    if (!selection) {
-      // Invalid selection
+    // The recording opt-out digit replays the menu instead of selecting from it
+    if (await consentService.optOut(CallSid, Digits)) {
+      const twiml = await flowExecutor.executeStep(flow, currentStepId, session.tenantId, CallSid);
       res.type('text/xml');
-      return res.send('<Response><Say>Invalid selection. Please try again.</Say><Hangup/></Response>');
+      return res.send(prependSay(twiml, OPT_OUT_CONFIRMATION));
     }
 
-    // Update session with selection
-    await prisma.callSession.update({
-      where: { id: session.id },
-      data: {
-        metadata: {
-          ...metadata,
-          lastSelection: Digits,
-          currentStepId: selection.target,
-        } as any,
-      },
-    });
+    const { twiml } = await flowSessionService.selectMenuOption(flow, session, Digits);
 
-    // Execute the action
-    let twiml: string;
-
-    switch (selection.action) {
-      case 'goto':
-        if (selection.target) {
-          // Update current step and execute it
-          await prisma.callSession.update({
-            where: { id: session.id },
-            data: {
-              metadata: {
-                ...metadata,
-                currentStepId: selection.target,
-              } as any,
-            },
-          });
-          twiml = await flowExecutor.executeStep(flow, selection.target, session.tenantId, CallSid);
-        } else {
-          twiml = '<Response><Say>Target step not found.</Say><Hangup/></Response>';
-        }
-        break;
+    res.type('text/xml');
+    res.send(twiml);
+  } catch (error) {
+    console.error('Flow gather error:', error);
+    res.type('text/xml');
+    res.send('<Response><Say>An error occurred. Goodbye.</Say><Hangup/></Response>');
+  }
+}
 
-      case 'transfer':
-        if (selection.phoneNumber) {
-          twiml = '<?xml version="1.0" encoding="UTF-8"?><Response>';
-          twiml += '<Say>Transferring your call now. Please hold.</Say>';
-          twiml += `<Dial timeout="30" action="${env.BASE_URL}/twilio/transfer-status" method="POST">`;
-          twiml += `<Number>${selection.phoneNumber}</Number>`;
-          twiml += '</Dial>';
-          twiml += '<Say>The call could not be completed.</Say>';
-          twiml += '<Hangup/></Response>';
-        } else {
-          twiml = '<Response><Say>Transfer number not configured.</Say><Hangup/></Response>';
-        }
-        break;
+/**
+ * Handle the caller's answer on a gather_info step
+ */
+export async function handleFlowGatherInfo(req: Request, res: Response) {
+  try {
+    const { CallSid, SpeechResult, Digits } = req.body;
 
-      case 'ai':
-        twiml = '<?xml version="1.0" encoding="UTF-8"?><Response>';
-        twiml += `<Gather input="speech" timeout="3" speechTimeout="auto" action="${env.BASE_URL}/twilio/gather" method="POST">`;
-        twiml += '<Say>How can I help you today?</Say>';
-        twiml += '</Gather>';
-        twiml += '<Say>I did not hear anything. Goodbye.</Say>';
-        twiml += '<Hangup/></Response>';
-        break;
+    console.log(`🗣️ Flow gather info for ${CallSid}: "${SpeechResult}"`);
 
-      case 'voicemail':
-        twiml = '<?xml version="1.0" encoding="UTF-8"?><Response>';
-        twiml += '<Say>Please leave a message after the beep.</Say>';
-        twiml += `<Record maxLength="120" transcribe="true" playBeep="true" transcribeCallback="${env.BASE_URL}/twilio/transcription"/>`;
-        twiml += '<Say>Thank you for your message. Goodbye.</Say>';
-        twiml += '<Hangup/></Response>';
-        break;
+    const session = await callService.getCallSessionByCallSid(CallSid);
 
-      case 'hangup':
-        twiml = '<Response><Say>Thank you for calling. Goodbye.</Say><Hangup/></Response>';
-        break;
+    if (!session || !session.metadata) {
+      res.type('text/xml');
+      return res.send('<Response><Say>Session error.</Say><Hangup/></Response>');
+    }
 
-      default:
-        twiml = '<Response><Say>Invalid action.</Say><Hangup/></Response>';
+    const metadata = session.metadata as any;
+    const flow = await flowExecutor.getActiveFlow(session.tenantId, metadata.flowType);
+
+    if (!flow) {
+      res.type('text/xml');
+      return res.send('<Response><Say>Flow not found.</Say><Hangup/></Response>');
     }
 
+    // The recording opt-out digit asks the question again
+    if (await consentService.optOut(CallSid, Digits)) {
+      const twiml = await flowExecutor.executeStep(flow, metadata.currentStepId, session.tenantId, CallSid);
+      res.type('text/xml');
+      return res.send(prependSay(twiml, OPT_OUT_CONFIRMATION));
+    }
+
+    const { twiml } = await flowSessionService.recordGatheredInfo(flow, session, SpeechResult || Digits || '');
+
     res.type('text/xml');
     res.send(twiml);
   } catch (error) {
-    console.error('Flow gather error:', error);
+    console.error('Flow gather info error:', error);
     res.type('text/xml');
     res.send('<Response><Say>An error occurred. Goodbye.</Say><Hangup/></Response>');
   }
@@ -646,23 +988,13 @@ export async function handleFlowStep(req: Request, res: Response) {
       return res.send('<Response><Say>Flow not found.</Say><Hangup/></Response>');
     }
 
-    // Update current step and question index if provided
-    const updatedMetadata: any = {
-      ...metadata,
-      currentStepId: stepId,
-    };
-    
-    if (questionIndex !== undefined) {
-      updatedMetadata.leadQuestionIndex = parseInt(questionIndex as string, 10);
-    }
-
-    await prisma.callSession.update({
-      where: { id: session.id },
-      data: { metadata: updatedMetadata },
-    });
-
-    // Execute the step
-    const twiml = await flowExecutor.executeStep(flow, stepId, session.tenantId, CallSid);
+    // Update current step and question index if provided, then execute the step
+    const { twiml } = await flowSessionService.enterStep(
+      flow,
+      session,
+      stepId,
+      questionIndex !== undefined ? parseInt(questionIndex as string, 10) : null
+    );
 
     res.type('text/xml');
     res.send(twiml);
@@ -673,13 +1005,14 @@ export async function handleFlowStep(req: Request, res: Response) {
   }
 }
 /**
- * Handle lead collection response (answer to a question)
+ * Run an action step (send_sms, webhook, set_variable, book_appointment)
  */
-export async function handleCollectLeadResponse(req: Request, res: Response) {
+export async function handleFlowAction(req: Request, res: Response) {
   try {
-    const { CallSid, SpeechResult } = req.body;
+    const { stepId } = req.params;
+    const { CallSid } = req.body;
 
-    console.log(`📝 Collecting lead response for ${CallSid}: "${SpeechResult}"`);
+    console.log(`⚙️ Running flow action ${stepId} for ${CallSid}`);
 
     const session = await callService.getCallSessionByCallSid(CallSid);
 
@@ -689,61 +1022,76 @@ export async function handleCollectLeadResponse(req: Request, res: Response) {
     }
 
     const metadata = session.metadata as any;
-    const flowType = metadata.flowType;
-    const currentStepId = metadata.currentStepId;
-    const questionIndex = metadata.leadQuestionIndex || 0;
+    const flow = await flowExecutor.getActiveFlow(session.tenantId, metadata.flowType);
 
-    if (!flowType || !currentStepId) {
+    if (!flow) {
       res.type('text/xml');
-      return res.send('<Response><Say>Flow error.</Say><Hangup/></Response>');
+      return res.send('<Response><Say>Flow not found.</Say><Hangup/></Response>');
     }
 
-    const flow = await flowExecutor.getActiveFlow(session.tenantId, flowType);
+    const result = await flowSessionService.runAction(flow, session, stepId);
 
-    if (!flow) {
+    res.type('text/xml');
+    res.send(result.twiml);
+  } catch (error) {
+    console.error('Flow action error:', error);
+    res.type('text/xml');
+    res.send('<Response><Say>An error occurred. Goodbye.</Say><Hangup/></Response>');
+  }
+}
+
+/**
+ * Handle the caller's pick from offered appointment slots
+ */
+export async function handleFlowAppointment(req: Request, res: Response) {
+  try {
+    const { CallSid, Digits } = req.body;
+
+    console.log(`📅 Appointment selection for ${CallSid}: Digit ${Digits}`);
+
+    const session = await callService.getCallSessionByCallSid(CallSid);
+
+    if (!session || !session.metadata) {
       res.type('text/xml');
-      return res.send('<Response><Say>Flow not found.</Say><Hangup/></Response>');
+      return res.send('<Response><Say>Session error.</Say><Hangup/></Response>');
     }
 
-    const step = flowExecutor.getStep(flow, currentStepId);
+    const metadata = session.metadata as any;
+    const flow = await flowExecutor.getActiveFlow(session.tenantId, metadata.flowType);
 
-    if (!step || step.type !== 'collect_lead') {
+    if (!flow) {
       res.type('text/xml');
-      return res.send('<Response><Say>Invalid step.</Say><Hangup/></Response>');
+      return res.send('<Response><Say>Flow not found.</Say><Hangup/></Response>');
     }
 
-    // Store the response temporarily for confirmation
-    const updatedMetadata = {
-      ...metadata,
-      pendingLeadResponse: SpeechResult,
-      leadQuestionIndex: questionIndex,
-    };
-
-    await prisma.callSession.update({
-      where: { id: session.id },
-      data: { metadata: updatedMetadata },
-    });
+    // The recording opt-out digit offers the same times again instead of booking one
+    if (await consentService.optOut(CallSid, Digits)) {
+      // Reloaded so the slots are saved over the opted-out recording state
+      const current = await callService.getCallSessionByCallSid(CallSid);
+      const { twiml } = await flowExecutor.performAction(flow, metadata.currentStepId, current!);
+      res.type('text/xml');
+      return res.send(prependSay(twiml, OPT_OUT_CONFIRMATION));
+    }
 
-    // Generate confirmation TwiML
-    const twiml = flowExecutor.generateConfirmLeadResponseTwiML(step, CallSid, questionIndex, SpeechResult);
+    const result = await flowExecutor.handleAppointmentSelection(flow, session, Digits);
 
     res.type('text/xml');
-    res.send(twiml);
+    res.send(result.twiml);
   } catch (error) {
-    console.error('Collect lead response error:', error);
+    console.error('Flow appointment error:', error);
     res.type('text/xml');
     res.send('<Response><Say>An error occurred. Goodbye.</Say><Hangup/></Response>');
   }
 }
 
 /**
- * Handle lead response confirmation
+ * Handle lead collection response (answer to a question)
  */
-export async function handleConfirmLeadResponse(req: Request, res: Response) {
+export async function handleCollectLeadResponse(req: Request, res: Response) {
   try {
-    const { CallSid, SpeechResult } = req.body;
+    const { CallSid, SpeechResult, Digits } = req.body;
 
-    console.log(`✅ Confirming lead response for ${CallSid}: "${SpeechResult}"`);
+    console.log(`📝 Collecting lead response for ${CallSid}: "${SpeechResult}"`);
 
     const session = await callService.getCallSessionByCallSid(CallSid);
 
@@ -753,166 +1101,83 @@ export async function handleConfirmLeadResponse(req: Request, res: Response) {
     }
 
     const metadata = session.metadata as any;
-    const flowType = metadata.flowType;
-    const currentStepId = metadata.currentStepId;
-    const questionIndex = metadata.leadQuestionIndex || 0;
-    const pendingResponse = metadata.pendingLeadResponse;
-
-    // Check if user confirmed
-    const confirmed = SpeechResult && 
-      (SpeechResult.toLowerCase().includes('yes') || 
-       SpeechResult.toLowerCase().includes('correct') ||
-       SpeechResult.toLowerCase().includes('right'));
-
-    if (!confirmed) {
-      // User said no, ask the question again
-      const flow = await flowExecutor.getActiveFlow(session.tenantId, flowType);
-      if (!flow) {
-        res.type('text/xml');
-        return res.send('<Response><Say>Flow not found.</Say><Hangup/></Response>');
-      }
-
-      const step = flowExecutor.getStep(flow, currentStepId);
-      if (!step) {
-        res.type('text/xml');
-        return res.send('<Response><Say>Step not found.</Say><Hangup/></Response>');
-      }
 
-      // Re-ask the same question
-      const twiml = flowExecutor.generateCollectLeadTwiML(step, CallSid, questionIndex);
+    if (!metadata.flowType || !metadata.currentStepId) {
       res.type('text/xml');
-      return res.send(twiml);
+      return res.send('<Response><Say>Flow error.</Say><Hangup/></Response>');
     }
 
-    // User confirmed - store the response
-    const leadResponses = metadata.leadResponses || [];
-    
-    const flow = await flowExecutor.getActiveFlow(session.tenantId, flowType);
+    const flow = await flowExecutor.getActiveFlow(session.tenantId, metadata.flowType);
+
     if (!flow) {
       res.type('text/xml');
       return res.send('<Response><Say>Flow not found.</Say><Hangup/></Response>');
     }
 
-    const step = flowExecutor.getStep(flow, currentStepId);
-    if (!step || !step.leadQuestions) {
-      res.type('text/xml');
-      return res.send('<Response><Say>Step error.</Say><Hangup/></Response>');
-    }
-
-    const sortedQuestions = [...step.leadQuestions].sort((a, b) => a.order - b.order);
-    const currentQuestion = sortedQuestions[questionIndex];
-
-    leadResponses.push({
-      questionId: currentQuestion.id,
-      label: currentQuestion.label,
-      question: currentQuestion.question,
-      answer: pendingResponse,
-      order: currentQuestion.order,
-    });
-
-    const nextQuestionIndex = questionIndex + 1;
-
-    // Check if all questions answered
-    if (nextQuestionIndex >= sortedQuestions.length) {
-      // Create the lead
-      await createLeadFromResponses(session, leadResponses);
-
-      // Update metadata
-      await prisma.callSession.update({
-        where: { id: session.id },
-        data: {
-          metadata: {
-            ...metadata,
-            leadResponses,
-            leadCaptured: true,
-            leadQuestionIndex: nextQuestionIndex,
-          },
-          leadCaptured: true,
-        },
-      });
-
-      // Generate completion TwiML
-      const twiml = flowExecutor.generateCollectLeadTwiML(step, CallSid, nextQuestionIndex);
+    // The recording opt-out digit asks the same question again
+    if (await consentService.optOut(CallSid, Digits)) {
+      const step = flowExecutor.getStep(flow, metadata.currentStepId);
+      const twiml = step
+        ? flowExecutor.generateCollectLeadTwiML(step, CallSid, metadata.leadQuestionIndex || 0)
+        : '<Response><Hangup/></Response>';
       res.type('text/xml');
-      return res.send(twiml);
+      return res.send(prependSay(twiml, OPT_OUT_CONFIRMATION));
     }
 
-    // Move to next question
-    await prisma.callSession.update({
-      where: { id: session.id },
-      data: {
-        metadata: {
-          ...metadata,
-          leadResponses,
-          leadQuestionIndex: nextQuestionIndex,
-          pendingLeadResponse: null,
-        },
-      },
-    });
+    // Hold the response for confirmation
+    const { twiml } = await flowSessionService.recordLeadResponse(flow, session, SpeechResult);
 
-    // Ask next question
-    const twiml = flowExecutor.generateCollectLeadTwiML(step, CallSid, nextQuestionIndex);
     res.type('text/xml');
     res.send(twiml);
   } catch (error) {
-    console.error('Confirm lead response error:', error);
+    console.error('Collect lead response error:', error);
     res.type('text/xml');
     res.send('<Response><Say>An error occurred. Goodbye.</Say><Hangup/></Response>');
   }
 }
 
 /**
- * Helper function to create a lead from collected responses
+ * Handle lead response confirmation
  */
-async function createLeadFromResponses(session: any, leadResponses: any[]) {
+export async function handleConfirmLeadResponse(req: Request, res: Response) {
   try {
-    // Create the lead
-    const lead = await prisma.lead.create({
-      data: {
-        tenantId: session.tenantId,
-        callSessionId: session.id,
-        phone: session.fromNumber,
-        source: 'voice_call_flow',
-        status: 'NEW',
-      },
-    });
+    const { CallSid, SpeechResult, Digits } = req.body;
 
-    // Create custom fields for each response
-    for (const response of leadResponses) {
-      await prisma.leadField.create({
-        data: {
-          leadId: lead.id,
-          label: response.label,
-          value: response.answer,
-          order: response.order,
-        },
-      });
+    console.log(`✅ Confirming lead response for ${CallSid}: "${SpeechResult}"`);
+
+    const session = await callService.getCallSessionByCallSid(CallSid);
+
+    if (!session || !session.metadata) {
+      res.type('text/xml');
+      return res.send('<Response><Say>Session error.</Say><Hangup/></Response>');
     }
 
-    console.log(`✅ Created lead ${lead.id} with ${leadResponses.length} custom fields`);
+    const metadata = session.metadata as any;
+    const flow = await flowExecutor.getActiveFlow(session.tenantId, metadata.flowType);
 
-    // Queue email notification
-    const tenant = await prisma.tenant.findUnique({
-      where: { id: session.tenantId },
-      include: { users: true },
-    });
+    if (!flow) {
+      res.type('text/xml');
+      return res.send('<Response><Say>Flow not found.</Say><Hangup/></Response>');
+    }
 
-    if (tenant && tenant.users && tenant.users.length > 0) {
-      const adminEmails = tenant.users.filter(u => u.role === 'TENANT_ADMIN').map(u => u.email);
-      
-      for (const email of adminEmails) {
-        await JobProcessor.createJob({
-          type: 'lead_notification',
-          payload: {
-            leadId: lead.id,
-          },
-        });
-      }
+    // The recording opt-out digit reads the answer back again
+    if (await consentService.optOut(CallSid, Digits)) {
+      const step = flowExecutor.getStep(flow, metadata.currentStepId);
+      const twiml = step
+        ? flowExecutor.generateConfirmLeadResponseTwiML(step, CallSid, metadata.leadQuestionIndex || 0, metadata.pendingLeadResponse || '')
+        : '<Response><Hangup/></Response>';
+      res.type('text/xml');
+      return res.send(prependSay(twiml, OPT_OUT_CONFIRMATION));
     }
 
-    return lead;
+    // Store the answer and ask the next question, or ask again if the caller said no
+    const { twiml } = await flowSessionService.confirmLeadResponse(flow, session, SpeechResult);
+
+    res.type('text/xml');
+    res.send(twiml);
   } catch (error) {
-    console.error('Error creating lead from responses:', error);
-    throw error;
+    console.error('Confirm lead response error:', error);
+    res.type('text/xml');
+    res.send('<Response><Say>An error occurred. Goodbye.</Say><Hangup/></Response>');
   }
 }
@@ -0,0 +1,178 @@
+import { Request, Response } from 'express';
+import { voicemailService, VoicemailFilters } from '../services/voicemail/voicemailService';
+import { getTenantTimezone } from '../services/tenant/scheduleService';
+import { redactionService } from '../services/call/redactionService';
+import { prisma } from '../db/prisma';
+
+const VIEWS = ['new', 'mine', 'all'];
+
+function sendAudio(res: Response, audio: Buffer) {
+  res.set({
+    'Content-Type': 'audio/mpeg',
+    'Content-Length': String(audio.length),
+    'Cache-Control': 'private, no-store',
+  });
+  res.send(audio);
+}
+
+export class VoicemailController {
+  // ============================================
+  // PUBLIC PLAYBACK (/voicemail)
+  // ============================================
+
+  /**
+   * Signed link from a notification email or text
+   */
+  async playSignedAudio(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      if (!voicemailService.isValidPlayback(id, String(req.query.expires || ''), String(req.query.sig || ''))) {
+        return res.status(403).send('This link is invalid or has expired');
+      }
+
+      const voicemail = await prisma.voicemail.findUnique({ where: { id } });
+      if (!voicemail) {
+        return res.status(404).send('Voicemail not found');
+      }
+
+      sendAudio(res, await voicemailService.getAudio(voicemail));
+    } catch (error) {
+      console.error('Error playing voicemail:', error);
+      res.status(500).send('Failed to load voicemail');
+    }
+  }
+
+  // ============================================
+  // INBOX (/tenant/voicemail)
+  // ============================================
+
+  async getInboxPage(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const view = VIEWS.includes(req.query.view as string) ? (req.query.view as VoicemailFilters['view']) : 'new';
+
+      const [voicemails, newCount, users, timezone] = await Promise.all([
+        voicemailService.list(tenantId, { view, userId: req.user!.id }),
+        voicemailService.countNew(tenantId),
+        prisma.user.findMany({
+          where: { tenantId, isActive: true },
+          select: { id: true, firstName: true, lastName: true, email: true },
+          orderBy: { firstName: 'asc' },
+        }),
+        getTenantTimezone(tenantId),
+      ]);
+
+      res.render('tenant/voicemail', {
+        user: req.user,
+        tenant: req.tenant,
+        permissions: req.userPermissions || [],
+        voicemails,
+        newCount,
+        users,
+        view,
+        timezone,
+        error: req.query.error as string,
+      });
+    } catch (error) {
+      console.error('Error rendering voicemail inbox:', error);
+      res.status(500).send('Failed to load voicemail');
+    }
+  }
+
+  /**
+   * Play from the inbox; playing marks it listened
+   */
+  async playAudio(req: Request, res: Response) {
+    try {
+      const tenantId = req.tenant!.id;
+      const voicemail = await voicemailService.find(req.params.id, tenantId);
+      if (!voicemail) {
+        return res.status(404).send('Voicemail not found');
+      }
+
+      const audio = await voicemailService.getAudio(voicemail);
+      await voicemailService.setListened(voicemail.id, tenantId, true);
+
+      sendAudio(res, audio);
+    } catch (error) {
+      console.error('Error playing voicemail:', error);
+      res.status(500).send('Failed to load voicemail');
+    }
+  }
+
+  async updateListened(req: Request, res: Response) {
+    try {
+      await voicemailService.setListened(req.params.id, req.tenant!.id, req.body.listened === 'true');
+      res.redirect(`/tenant/voicemail?view=${encodeURIComponent(req.body.view || 'new')}`);
+    } catch (error) {
+      console.error('Error updating voicemail:', error);
+      res.status(500).send('Failed to update voicemail');
+    }
+  }
+
+  /**
+   * Unredacted transcript, for users with voice:view_pii
+   */
+  async getOriginalTranscript(req: Request, res: Response) {
+    try {
+      const voicemail = await prisma.voicemail.findFirst({
+        where: { id: req.params.id, tenantId: req.tenant!.id },
+      });
+
+      if (!voicemail?.encryptedTranscript) {
+        return res.status(404).json({ error: 'No original transcript was kept for this voicemail' });
+      }
+
+      await redactionService.logOriginalAccess({
+        tenantId: req.tenant!.id,
+        userId: req.user!.id,
+        resource: 'voicemail',
+        resourceId: voicemail.id,
+        ipAddress: req.ip,
+      });
+
+      res.json({ transcript: redactionService.decrypt(voicemail.encryptedTranscript) });
+    } catch (error) {
+      console.error('Error loading original voicemail transcript:', error);
+      res.status(500).json({ error: 'Failed to load original transcript' });
+    }
+  }
+
+  async assignVoicemail(req: Request, res: Response) {
+    const view = encodeURIComponent(req.body.view || 'new');
+
+    try {
+      await voicemailService.assign(req.params.id, req.tenant!.id, req.body.assignedToId || null);
+      res.redirect(`/tenant/voicemail?view=${view}`);
+    } catch (error: any) {
+      console.error('Error assigning voicemail:', error);
+      res.redirect(`/tenant/voicemail?view=${view}&error=${encodeURIComponent(error.message || 'Failed to assign')}`);
+    }
+  }
+
+  async deleteVoicemail(req: Request, res: Response) {
+    try {
+      await voicemailService.delete(req.params.id, req.tenant!.id, {
+        reason: 'manual',
+        userId: req.user!.id,
+        ipAddress: req.ip,
+      });
+      res.redirect(`/tenant/voicemail?view=${encodeURIComponent(req.body.view || 'new')}`);
+    } catch (error) {
+      console.error('Error deleting voicemail:', error);
+      res.status(500).send('Failed to delete voicemail');
+    }
+  }
+}
+
+export const voicemailController = new VoicemailController();
+
+export const {
+  playSignedAudio,
+  getInboxPage: getVoicemailInboxPage,
+  playAudio: playVoicemailAudio,
+  updateListened: updateVoicemailListened,
+  getOriginalTranscript: getOriginalVoicemailTranscript,
+  assignVoicemail,
+  deleteVoicemail,
+} = voicemailController;
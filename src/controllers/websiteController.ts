@@ -1,8 +1,26 @@
 import { Request, Response } from 'express';
-import { websiteScraperService } from '../services/website/websiteScraperService';
+import { websiteScraperService, WebsiteSettings } from '../services/website/websiteScraperService';
 import { ragService } from '../services/ai/ragService';
 import prisma from '../db/prisma';
 
+/**
+ * Crawl settings present in the request body. Throws on an invalid URL
+ * pattern.
+ */
+function readSettings(body: any): WebsiteSettings {
+  const settings: WebsiteSettings = {};
+  if (body.includePatterns !== undefined) {
+    settings.includePatterns = websiteScraperService.parsePatterns(body.includePatterns);
+  }
+  if (body.excludePatterns !== undefined) {
+    settings.excludePatterns = websiteScraperService.parsePatterns(body.excludePatterns);
+  }
+  if (body.weeklyRefresh !== undefined) {
+    settings.weeklyRefresh = body.weeklyRefresh === true || body.weeklyRefresh === 'true';
+  }
+  return settings;
+}
+
 /**
  * Start scraping a website
  * POST /api/tenants/:tenantId/websites
@@ -23,6 +41,13 @@ export async function startWebsiteScrape(req: Request, res: Response) {
       return res.status(400).json({ error: 'Invalid URL format' });
     }
 
+    let settings: WebsiteSettings;
+    try {
+      settings = readSettings(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
     // Check if tenant exists
     const tenant = await prisma.tenant.findUnique({
       where: { id: tenantId },
@@ -33,7 +58,7 @@ export async function startWebsiteScrape(req: Request, res: Response) {
     }
 
     // Start scraping
-    const websiteSourceId = await websiteScraperService.scrapeWebsite(tenantId, url);
+    const websiteSourceId = await websiteScraperService.scrapeWebsite(tenantId, url, settings);
 
     res.json({
       message: 'Website scraping started',
@@ -73,6 +98,11 @@ export async function listWebsiteSources(req: Request, res: Response) {
         pagesScraped: s.pagesScraped,
         chunks: s._count.contents,
         lastScrapedAt: s.lastScrapedAt,
+        pagesChanged: s.pagesChanged,
+        pagesRemoved: s.pagesRemoved,
+        includePatterns: s.includePatterns,
+        excludePatterns: s.excludePatterns,
+        weeklyRefresh: s.weeklyRefresh,
         errorMessage: s.errorMessage,
         createdAt: s.createdAt,
       })),
@@ -116,6 +146,11 @@ export async function getWebsiteStatus(req: Request, res: Response) {
       pagesScraped: website.pagesScraped,
       chunks: website._count.contents,
       lastScrapedAt: website.lastScrapedAt,
+      pagesChanged: website.pagesChanged,
+      pagesRemoved: website.pagesRemoved,
+      includePatterns: website.includePatterns,
+      excludePatterns: website.excludePatterns,
+      weeklyRefresh: website.weeklyRefresh,
       errorMessage: website.errorMessage,
       createdAt: website.createdAt,
     });
@@ -125,6 +160,47 @@ export async function getWebsiteStatus(req: Request, res: Response) {
   }
 }
 
+/**
+ * Update crawl settings (URL patterns, weekly refresh). They apply from
+ * the next crawl.
+ * PUT /api/tenants/:tenantId/websites/:websiteId
+ */
+export async function updateWebsiteSettings(req: Request, res: Response) {
+  try {
+    const { tenantId, websiteId } = req.params;
+
+    const website = await prisma.websiteSource.findFirst({
+      where: {
+        id: websiteId,
+        tenantId,
+      },
+    });
+
+    if (!website) {
+      return res.status(404).json({ error: 'Website not found' });
+    }
+
+    let settings: WebsiteSettings;
+    try {
+      settings = readSettings(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const updated = await websiteScraperService.updateSettings(website.id, settings);
+
+    res.json({
+      message: 'Website settings updated',
+      includePatterns: updated.includePatterns,
+      excludePatterns: updated.excludePatterns,
+      weeklyRefresh: updated.weeklyRefresh,
+    });
+  } catch (error) {
+    console.error('Error updating website settings:', error);
+    res.status(500).json({ error: 'Failed to update website settings' });
+  }
+}
+
 /**
  * Delete a website source and all its content
  * DELETE /api/tenants/:tenantId/websites/:websiteId
@@ -175,8 +251,12 @@ export async function rescanWebsite(req: Request, res: Response) {
       return res.status(404).json({ error: 'Website not found' });
     }
 
-    // Start new scrape (will update existing source)
-    await websiteScraperService.scrapeWebsite(tenantId, website.url);
+    // Only pages that changed since the last crawl are re-embedded
+    const started = await websiteScraperService.startCrawl(website.id);
+
+    if (!started) {
+      return res.status(409).json({ error: 'A scan of this website is already running' });
+    }
 
     res.json({ message: 'Website re-scan started' });
   } catch (error) {
@@ -209,13 +289,21 @@ export async function getWebsiteStats(req: Request, res: Response) {
 export async function testSemanticSearch(req: Request, res: Response) {
   try {
     const { tenantId } = req.params;
-    const { query, limit = 5 } = req.body;
+    const { query, limit } = req.body;
 
     if (!query) {
       return res.status(400).json({ error: 'Search query is required' });
     }
 
-    const results = await ragService.semanticSearch(query, tenantId, limit);
+    // Same limit and threshold the AI gets, unless a limit is asked for
+    const settings = await ragService.getSearchSettings(tenantId);
+    const results = await ragService.semanticSearch(
+      query,
+      tenantId,
+      limit ?? settings.limit,
+      undefined,
+      settings.minSimilarity
+    );
 
     res.json({ results });
   } catch (error) {
@@ -3,7 +3,10 @@ import { env } from './config/env';
 import prisma from './db/prisma';
 import { jobProcessor } from './services/jobs/jobProcessor';
 import { emailService } from './services/jobs/emailService';
+import { recordingStorageService } from './services/storage/recordingStorageService';
+import { websiteScraperService } from './services/website/websiteScraperService';
 import { hashPassword } from './middleware/auth';
+import { mediaStreamServer } from './services/voice/mediaStreamHandler';
 
 async function start() {
   try {
@@ -44,6 +47,8 @@ async function start() {
 
     // Start job processor
     jobProcessor.start();
+    await recordingStorageService.scheduleRetention();
+    await websiteScraperService.scheduleRefresh();
 
     // Create Express server
     const app = createServer();
@@ -58,11 +63,15 @@ async function start() {
       console.log('🎉 AI Voice Receptionist is ready!');
     });
 
+    // Twilio Media Streams connect over WebSocket on the same port
+    mediaStreamServer.attach(server);
+
     // Graceful shutdown
     const shutdown = async () => {
       console.log('\n🛑 Shutting down gracefully...');
       
       jobProcessor.stop();
+      mediaStreamServer.close();
       
       server.close(() => {
         console.log('✅ HTTP server closed');
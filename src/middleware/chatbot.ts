@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction } from 'express';
+import { chatbotService } from '../services/chatbot/chatbotService';
+
+/**
+ * Public chat API guard; runs after loadTenantBySlug. Answers CORS
+ * preflights and only lets the widget in from the tenant's allowed sites.
+ */
+export async function loadChatbot(req: Request, res: Response, next: NextFunction) {
+  try {
+    const config = await chatbotService.getConfig(req.tenant!.id);
+
+    if (!config || !config.isEnabled) {
+      return res.status(404).json({ error: 'Chat is not available' });
+    }
+
+    const origin = req.headers.origin;
+    if (origin) {
+      if (!chatbotService.isOriginAllowed(config, origin)) {
+        return res.status(403).json({ error: 'Origin not allowed' });
+      }
+
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Access-Control-Max-Age', '600');
+      res.setHeader('Vary', 'Origin');
+    }
+
+    // Helmet defaults to same-origin, which blocks the widget on other sites
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+
+    if (req.method === 'OPTIONS') {
+      return res.sendStatus(204);
+    }
+
+    res.locals.chatbotConfig = config;
+    next();
+  } catch (error) {
+    console.error('Load chatbot error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -13,6 +13,7 @@ import {
   unassignNumber,
   getFAQsPage,
   getKnowledgePage,
+  getIntentsPage,
   getFlowsPage,
   getCreateFlowPage,
   getEditFlowPage,
@@ -23,6 +24,7 @@ import {
   deleteTenantHoliday,
   updateTenantReceptionistConfig,
 } from '../controllers/adminController';
+import { simulateCall } from '../controllers/testController';
 
 const router = express.Router();
 
@@ -54,10 +56,12 @@ router.post('/numbers/:id/delete', unassignNumber);
 // Knowledge Management - FAQ, Knowledge Base, Call Flows
 router.get('/tenants/:tenantId/faqs', getFAQsPage);
 router.get('/tenants/:tenantId/knowledge', getKnowledgePage);
+router.get('/tenants/:tenantId/intents', getIntentsPage);
 router.get('/tenants/:tenantId/flows', getFlowsPage);
 router.get('/tenants/:tenantId/flows/new', getCreateFlowPage);
 router.get('/tenants/:tenantId/flows/:flowId/edit', getEditFlowPage);
 router.get('/tenants/:tenantId/test', getTestKnowledgePage);
+router.post('/tenants/:tenantId/test/simulate-call', simulateCall);
 router.get('/tenants/:tenantId/analytics', getAnalyticsPage);
 
 export default router;
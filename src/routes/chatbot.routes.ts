@@ -0,0 +1,28 @@
+import express, { Request, Response } from 'express';
+import path from 'path';
+import { loadTenantBySlug } from '../middleware/tenant';
+import { loadChatbot } from '../middleware/chatbot';
+import {
+  getWidgetConfig,
+  getChatMessages,
+  postChatMessage,
+  requestChatHandoff,
+} from '../controllers/chatbotController';
+
+const router = express.Router();
+
+// Embeddable widget script; served here rather than from /public so other
+// sites may load it
+router.get('/widget.js', (req: Request, res: Response) => {
+  res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+  res.sendFile(path.join(__dirname, '../../public/js/chat-widget.js'));
+});
+
+// Public chat API, per tenant
+router.use('/:slug', loadTenantBySlug, loadChatbot);
+router.get('/:slug/config', getWidgetConfig);
+router.get('/:slug/messages', getChatMessages);
+router.post('/:slug/messages', postChatMessage);
+router.post('/:slug/handoff', requestChatHandoff);
+
+export default router;
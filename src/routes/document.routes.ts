@@ -0,0 +1,39 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import {
+  uploadDocument,
+  listDocuments,
+  getDocumentStatus,
+  reprocessDocument,
+  deleteDocument,
+} from '../controllers/documentController';
+import { MAX_DOCUMENT_BYTES } from '../services/knowledge/documentService';
+
+const router = Router({ mergeParams: true }); // Allow access to parent route params
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_DOCUMENT_BYTES, files: 1 },
+});
+
+// Upload errors (too large, wrong field) as JSON like the rest of the API
+function receiveFile(req: Request, res: Response, next: NextFunction) {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `Files can be at most ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`
+        : error.message;
+      return res.status(400).json({ error: message });
+    }
+    next(error);
+  });
+}
+
+// Document upload endpoints
+router.post('/', receiveFile, uploadDocument);
+router.get('/', listDocuments);
+router.get('/:documentId', getDocumentStatus);
+router.delete('/:documentId', deleteDocument);
+router.post('/:documentId/reprocess', reprocessDocument);
+
+export default router;
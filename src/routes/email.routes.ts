@@ -0,0 +1,17 @@
+import express from 'express';
+import {
+  trackOpen,
+  trackClick,
+  getUnsubscribePage,
+  unsubscribe,
+} from '../controllers/emailController';
+
+const router = express.Router();
+
+// Links and the open pixel in campaign emails; the token identifies the recipient
+router.get('/o/:token.gif', trackOpen);
+router.get('/c/:token', trackClick);
+router.get('/u/:token', getUnsubscribePage);
+router.post('/u/:token', unsubscribe);
+
+export default router;
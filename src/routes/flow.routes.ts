@@ -7,6 +7,11 @@ import {
   deleteFlow,
   toggleFlowStatus,
   duplicateFlow,
+  validateFlow,
+  getFlowRevisions,
+  getFlowRevision,
+  diffFlowRevision,
+  rollbackFlow,
 } from '../controllers/flowController';
 import { requireAuth } from '../middleware/auth';
 
@@ -25,5 +30,12 @@ router.delete('/flows/:flowId', deleteFlow);
 // Flow actions
 router.post('/flows/:flowId/toggle', toggleFlowStatus);
 router.post('/flows/:flowId/duplicate', duplicateFlow);
+router.post('/flows/validate', validateFlow);
+
+// Flow revisions
+router.get('/flows/:flowId/revisions', getFlowRevisions);
+router.get('/flows/:flowId/revisions/:revisionId', getFlowRevision);
+router.get('/flows/:flowId/revisions/:revisionId/diff', diffFlowRevision);
+router.post('/flows/:flowId/revisions/:revisionId/rollback', rollbackFlow);
 
 export default router;
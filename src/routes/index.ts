@@ -8,8 +8,13 @@ import knowledgeRoutes from './knowledge.routes';
 import flowRoutes from './flow.routes';
 import analyticsRoutes from './analytics.routes';
 import websiteRoutes from './website.routes';
+import documentRoutes from './document.routes';
 import crmRoutes from './crm.routes';
 import usersRoutes from './users.routes';
+import chatbotRoutes from './chatbot.routes';
+import emailRoutes from './email.routes';
+import voicemailRoutes from './voicemail.routes';
+import recordingRoutes from './recording.routes';
 
 const router = express.Router();
 
@@ -138,6 +143,18 @@ router.get('/db-status', requireAuth, async (req: Request, res: Response) => {
 // Twilio webhooks (public)
 router.use('/twilio', twilioRoutes);
 
+// Website chat widget and its API (public)
+router.use('/chat', chatbotRoutes);
+
+// Email campaign tracking and unsubscribe links (public)
+router.use('/email', emailRoutes);
+
+// Voicemail playback links from notifications (public, signed)
+router.use('/voicemail', voicemailRoutes);
+
+// Shared call recording links (public, signed)
+router.use('/recordings', recordingRoutes);
+
 // Protected routes
 router.use('/admin', adminRoutes);
 router.use('/tenant', tenantRoutes);
@@ -145,6 +162,7 @@ router.use('/api', requireAuth, knowledgeRoutes);
 router.use('/api', flowRoutes);
 router.use('/api/tenants/:tenantId/analytics', requireAuth, analyticsRoutes);
 router.use('/api/tenants/:tenantId/websites', requireAuth, websiteRoutes);
+router.use('/api/tenants/:tenantId/documents', requireAuth, documentRoutes);
 router.use('/api/crm', crmRoutes);
 router.use('/api/users', usersRoutes);
 
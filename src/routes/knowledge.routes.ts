@@ -8,14 +8,20 @@ import {
   createKnowledge,
   updateKnowledge,
   deleteKnowledge,
+  reindexKnowledge,
   listFlows,
   createFlow,
   updateFlow,
   deleteFlow,
+  listIntents,
+  createIntent,
+  updateIntent,
+  deleteIntent,
 } from '../controllers/knowledgeController';
 import {
   testFAQSearch,
   testKnowledgeSearch,
+  testIntentClassification,
   testBusinessHours,
   getStats,
 } from '../controllers/testController';
@@ -33,6 +39,13 @@ router.get('/tenant/:tenantId/knowledge', listKnowledge);
 router.post('/tenant/:tenantId/knowledge', createKnowledge);
 router.put('/tenant/:tenantId/knowledge/:entryId', updateKnowledge);
 router.delete('/tenant/:tenantId/knowledge/:entryId', deleteKnowledge);
+router.post('/tenant/:tenantId/knowledge/reindex', reindexKnowledge);
+
+// Intent routes
+router.get('/tenant/:tenantId/intents', listIntents);
+router.post('/tenant/:tenantId/intents', createIntent);
+router.put('/tenant/:tenantId/intents/:intentId', updateIntent);
+router.delete('/tenant/:tenantId/intents/:intentId', deleteIntent);
 
 // Call Flow routes
 router.get('/tenant/:tenantId/flows', listFlows);
@@ -43,6 +56,7 @@ router.delete('/tenant/:tenantId/flows/:flowId', deleteFlow);
 // Test/Debug routes
 router.post('/tenant/:tenantId/test/faq-search', testFAQSearch);
 router.post('/tenant/:tenantId/test/knowledge-search', testKnowledgeSearch);
+router.post('/tenant/:tenantId/test/classify-intent', testIntentClassification);
 router.get('/tenant/:tenantId/test/business-hours', testBusinessHours);
 router.get('/tenant/:tenantId/test/stats', getStats);
 
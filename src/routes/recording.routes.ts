@@ -0,0 +1,9 @@
+import express from 'express';
+import { playSignedRecording } from '../controllers/recordingController';
+
+const router = express.Router();
+
+// Expiring signed links to call recordings
+router.get('/:id/audio', playSignedRecording);
+
+export default router;
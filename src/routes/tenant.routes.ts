@@ -5,6 +5,7 @@ import {
   getDashboard,
   getCalls,
   getCallDetail,
+  getOriginalTranscript,
   getLeads,
   getLeadDetail,
   updateLead,
@@ -13,6 +14,8 @@ import {
   updateReceptionistConfig,
   addKnowledgeEntry,
   addTransferTarget,
+  saveDepartment,
+  deleteDepartment,
   getAnalytics,
   updateBusinessHours,
   addHoliday,
@@ -38,6 +41,69 @@ import {
   getTeamPage,
   getRolesPage,
 } from '../controllers/userManagementController';
+import {
+  getConversationsPage,
+  replyToConversation,
+  assignConversation,
+  updateConversationStatus,
+  updateConversationAutoReply,
+  updateSmsSettings,
+  getTextBackPage,
+  createTextBackRule,
+  toggleTextBackRule,
+  deleteTextBackRule,
+} from '../controllers/smsController';
+import {
+  getConfigPage as getChatbotConfigPage,
+  updateConfig as updateChatbotConfig,
+  getConversationsPage as getChatConversationsPage,
+  replyToConversation as replyToChatConversation,
+  assignConversation as assignChatConversation,
+  updateConversationStatus as updateChatConversationStatus,
+} from '../controllers/chatbotController';
+import {
+  getEmailCampaignsPage,
+  getEmailCampaignFormPage,
+  createEmailCampaign,
+  updateEmailCampaign,
+  getEmailCampaignDetailPage,
+  scheduleEmailCampaign,
+  cancelEmailCampaign,
+  deleteEmailCampaign,
+  getEmailTemplatesPage,
+  saveEmailTemplate,
+  deleteEmailTemplate,
+  getEmailListsPage,
+  createEmailList,
+  deleteEmailList,
+} from '../controllers/emailController';
+import {
+  getCallbacksPage,
+  queueCallback,
+  cancelCallback,
+  retryCallback,
+} from '../controllers/callbackController';
+import {
+  getVoicemailInboxPage,
+  playVoicemailAudio,
+  updateVoicemailListened,
+  getOriginalVoicemailTranscript,
+  assignVoicemail,
+  deleteVoicemail,
+} from '../controllers/voicemailController';
+import {
+  playRecording,
+  getRecordingLink,
+  deleteRecording,
+} from '../controllers/recordingController';
+import {
+  getCompliancePage,
+  updateRecordingSettings,
+  updateRedactionSettings,
+  updateNumberSettings,
+  addBlockedCaller,
+  removeBlockedCaller,
+} from '../controllers/complianceController';
 
 const router = express.Router();
 
@@ -53,6 +119,20 @@ router.get('/', (req, res) => res.redirect('/tenant/dashboard'));
 // Calls
 router.get('/calls', getCalls);
 router.get('/calls/:id', getCallDetail);
+router.get('/calls/:id/transcript/original', requirePermission('voice', 'view_pii'), getOriginalTranscript);
+
+// Call recordings
+router.get('/recordings/:id/audio', requirePermission('voice', 'view'), playRecording);
+router.get('/recordings/:id/link', requirePermission('voice', 'view'), getRecordingLink);
+router.post('/recordings/:id/delete', requirePermission('voice', 'configure'), deleteRecording);
+
+// Recording consent and do-not-call list
+router.get('/compliance', requirePermission('voice', 'configure'), getCompliancePage);
+router.post('/compliance/recording', requirePermission('voice', 'configure'), updateRecordingSettings);
+router.post('/compliance/redaction', requirePermission('voice', 'configure'), updateRedactionSettings);
+router.post('/compliance/numbers/:numberId', requirePermission('voice', 'configure'), updateNumberSettings);
+router.post('/compliance/blocked', requirePermission('voice', 'configure'), addBlockedCaller);
+router.post('/compliance/blocked/:id/delete', requirePermission('voice', 'configure'), removeBlockedCaller);
 
 // Leads
 router.get('/leads', getLeads);
@@ -60,6 +140,20 @@ router.get('/leads/:id', getLeadDetail);
 router.post('/leads/:id', updateLead);
 router.get('/leads/export/csv', exportLeads);
 
+// Lead Callbacks
+router.get('/callbacks', requirePermission('voice', 'view'), getCallbacksPage);
+router.post('/callbacks', requirePermission('voice', 'callbacks'), queueCallback);
+router.post('/callbacks/:id/cancel', requirePermission('voice', 'callbacks'), cancelCallback);
+router.post('/callbacks/:id/retry', requirePermission('voice', 'callbacks'), retryCallback);
+
+// Voicemail
+router.get('/voicemail', requirePermission('voice', 'view'), getVoicemailInboxPage);
+router.get('/voicemail/:id/audio', requirePermission('voice', 'view'), playVoicemailAudio);
+router.post('/voicemail/:id/listened', requirePermission('voice', 'view'), updateVoicemailListened);
+router.get('/voicemail/:id/transcript/original', requirePermission('voice', 'view_pii'), getOriginalVoicemailTranscript);
+router.post('/voicemail/:id/assign', requirePermission('voice', 'view'), assignVoicemail);
+router.post('/voicemail/:id/delete', requirePermission('voice', 'configure'), deleteVoicemail);
+
 // Analytics
 router.get('/analytics', getAnalytics);
 
@@ -68,6 +162,9 @@ router.get('/settings', getSettings);
 router.post('/settings/receptionist', updateReceptionistConfig);
 router.post('/settings/knowledge', addKnowledgeEntry);
 router.post('/settings/transfer-targets', addTransferTarget);
+router.post('/settings/departments', saveDepartment);
+router.post('/settings/departments/:departmentId', saveDepartment);
+router.post('/settings/departments/:departmentId/delete', deleteDepartment);
 router.post('/settings/business-hours', updateBusinessHours);
 router.post('/settings/holidays', addHoliday);
 router.post('/settings/holidays/:holidayId/delete', deleteHoliday);
@@ -94,32 +191,44 @@ router.get('/crm/tasks', requirePermission('crm', 'view'), getTasksPage);
 router.get('/settings/team', requirePermission('users', 'view'), getTeamPage);
 router.get('/settings/roles', requirePermission('users', 'manage'), getRolesPage);
 
-// Placeholder routes for future modules (SMS, Email, Chatbot)
-router.get('/sms/conversations', requirePermission('sms', 'view'), (req, res) => {
-  res.render('coming-soon', { 
-    user: req.user, 
-    tenant: req.tenant, 
-    module: 'SMS Conversations',
-    userPermissions: req.userPermissions || [],
-  });
-});
-
-router.get('/email/campaigns', requirePermission('email', 'view'), (req, res) => {
-  res.render('coming-soon', { 
-    user: req.user, 
-    tenant: req.tenant, 
-    module: 'Email Campaigns',
-    userPermissions: req.userPermissions || [],
-  });
-});
-
-router.get('/chatbot/config', requirePermission('chatbot', 'view'), (req, res) => {
-  res.render('coming-soon', { 
-    user: req.user, 
-    tenant: req.tenant, 
-    module: 'Chatbot Configuration',
-    userPermissions: req.userPermissions || [],
-  });
-});
+// SMS Routes
+router.get('/sms/conversations', requirePermission('sms', 'view'), getConversationsPage);
+router.get('/sms/conversations/:id', requirePermission('sms', 'view'), getConversationsPage);
+router.post('/sms/conversations/:id/reply', requirePermission('sms', 'send'), replyToConversation);
+router.post('/sms/conversations/:id/assign', requirePermission('sms', 'send'), assignConversation);
+router.post('/sms/conversations/:id/status', requirePermission('sms', 'send'), updateConversationStatus);
+router.post('/sms/conversations/:id/auto-reply', requirePermission('sms', 'configure'), updateConversationAutoReply);
+router.post('/sms/settings', requirePermission('sms', 'configure'), updateSmsSettings);
+router.get('/sms/text-back', requirePermission('sms', 'configure'), getTextBackPage);
+router.post('/sms/text-back', requirePermission('sms', 'configure'), createTextBackRule);
+router.post('/sms/text-back/:id/toggle', requirePermission('sms', 'configure'), toggleTextBackRule);
+router.post('/sms/text-back/:id/delete', requirePermission('sms', 'configure'), deleteTextBackRule);
+
+// Email Campaigns
+router.get('/email/campaigns', requirePermission('email', 'view'), getEmailCampaignsPage);
+router.get('/email/campaigns/new', requirePermission('email', 'send'), getEmailCampaignFormPage);
+router.post('/email/campaigns', requirePermission('email', 'send'), createEmailCampaign);
+router.get('/email/campaigns/:id', requirePermission('email', 'view'), getEmailCampaignDetailPage);
+router.get('/email/campaigns/:id/edit', requirePermission('email', 'send'), getEmailCampaignFormPage);
+router.post('/email/campaigns/:id', requirePermission('email', 'send'), updateEmailCampaign);
+router.post('/email/campaigns/:id/schedule', requirePermission('email', 'send'), scheduleEmailCampaign);
+router.post('/email/campaigns/:id/cancel', requirePermission('email', 'send'), cancelEmailCampaign);
+router.post('/email/campaigns/:id/delete', requirePermission('email', 'send'), deleteEmailCampaign);
+router.get('/email/templates', requirePermission('email', 'send'), getEmailTemplatesPage);
+router.post('/email/templates', requirePermission('email', 'send'), saveEmailTemplate);
+router.post('/email/templates/:id', requirePermission('email', 'send'), saveEmailTemplate);
+router.post('/email/templates/:id/delete', requirePermission('email', 'send'), deleteEmailTemplate);
+router.get('/email/lists', requirePermission('email', 'send'), getEmailListsPage);
+router.post('/email/lists', requirePermission('email', 'send'), createEmailList);
+router.post('/email/lists/:id/delete', requirePermission('email', 'send'), deleteEmailList);
+
+// Chatbot Module
+router.get('/chatbot/config', requirePermission('chatbot', 'view'), getChatbotConfigPage);
+router.post('/chatbot/config', requirePermission('chatbot', 'configure'), updateChatbotConfig);
+router.get('/chatbot/conversations', requirePermission('chatbot', 'view'), getChatConversationsPage);
+router.get('/chatbot/conversations/:id', requirePermission('chatbot', 'view'), getChatConversationsPage);
+router.post('/chatbot/conversations/:id/reply', requirePermission('chatbot', 'respond'), replyToChatConversation);
+router.post('/chatbot/conversations/:id/assign', requirePermission('chatbot', 'respond'), assignChatConversation);
+router.post('/chatbot/conversations/:id/status', requirePermission('chatbot', 'respond'), updateChatConversationStatus);
 
 export default router;
@@ -4,12 +4,26 @@ import {
   handleIVR,
   handleGather,
   handleFlowGather,
+  handleFlowGatherInfo,
   handleFlowStep,
   handleTransferStatus,
+  handleTransferWhisper,
+  handleTransferAccept,
+  handleVoicemailComplete,
+  handleVoicemailRecording,
   handleCallStatus,
   handleRecordingStatus,
+  handleRecordingConsent,
   handleCollectLeadResponse,
   handleConfirmLeadResponse,
+  handleFlowAction,
+  handleFlowAppointment,
+  handleIncomingSms,
+  handleSmsStatus,
+  handleCallbackAnswer,
+  handleCallbackConnect,
+  handleCallbackDialStatus,
+  handleCallbackStatus,
 } from '../controllers/twilioController';
 
 const router = express.Router();
@@ -19,11 +33,29 @@ router.post('/voice', handleIncomingCall);
 router.post('/ivr', handleIVR);
 router.post('/gather', handleGather);
 router.post('/flow-gather', handleFlowGather);
+router.post('/flow-gather-info', handleFlowGatherInfo);
 router.post('/flow-step/:stepId', handleFlowStep);
 router.post('/transfer-status', handleTransferStatus);
+router.post('/transfer-whisper', handleTransferWhisper);
+router.post('/transfer-accept', handleTransferAccept);
+router.post('/voicemail-complete', handleVoicemailComplete);
+router.post('/voicemail-recording', handleVoicemailRecording);
 router.post('/call-status', handleCallStatus);
 router.post('/recording-status', handleRecordingStatus);
+router.post('/recording-consent', handleRecordingConsent);
 router.post('/collect-lead-response', handleCollectLeadResponse);
 router.post('/confirm-lead-response', handleConfirmLeadResponse);
+router.post('/flow-action/:stepId', handleFlowAction);
+router.post('/flow-appointment', handleFlowAppointment);
+
+// Outbound lead callbacks
+router.post('/callback/:id/answer', handleCallbackAnswer);
+router.post('/callback/:id/connect', handleCallbackConnect);
+router.post('/callback/:id/dial-status', handleCallbackDialStatus);
+router.post('/callback/:id/status', handleCallbackStatus);
+
+// Twilio Messaging Webhooks
+router.post('/sms', handleIncomingSms);
+router.post('/sms-status', handleSmsStatus);
 
 export default router;
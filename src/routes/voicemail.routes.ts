@@ -0,0 +1,9 @@
+import express from 'express';
+import { playSignedAudio } from '../controllers/voicemailController';
+
+const router = express.Router();
+
+// Signed playback links in voicemail notifications
+router.get('/:id/audio', playSignedAudio);
+
+export default router;
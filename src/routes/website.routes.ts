@@ -3,6 +3,7 @@ import {
   startWebsiteScrape,
   listWebsiteSources,
   getWebsiteStatus,
+  updateWebsiteSettings,
   deleteWebsiteSource,
   rescanWebsite,
   getWebsiteStats,
@@ -17,6 +18,7 @@ router.get('/', listWebsiteSources);
 router.get('/stats', getWebsiteStats);
 router.post('/search', testSemanticSearch);
 router.get('/:websiteId', getWebsiteStatus);
+router.put('/:websiteId', updateWebsiteSettings);
 router.delete('/:websiteId', deleteWebsiteSource);
 router.post('/:websiteId/rescan', rescanWebsite);
 
@@ -0,0 +1,288 @@
+/**
+ * Stand-in for Twilio when testing the media stream pipeline locally.
+ *
+ * Places a fake inbound call against /twilio/voice, connects to the <Stream>
+ * it returns and plays recorded caller audio in real time, the way Twilio
+ * would. Replies are "played" at phone speed, marks are echoed when playback
+ * reaches them and clear events flush the buffer, so barge-in behaves like a
+ * real call. Everything the caller would have heard is written to a WAV file.
+ * The stream connection is signed with TWILIO_AUTH_TOKEN (read from .env
+ * like the server), which must match the server's.
+ *
+ * Usage:
+ *   npm run media-stream:client -- --to +15550001111 --input question.wav [--input followup.wav]
+ *     [--url http://localhost:3000] [--from +15552223333] [--output reply.wav]
+ *     [--delay 4] [--gap 6] [--wait 10]
+ */
+import fs from 'fs';
+import crypto from 'crypto';
+import 'dotenv/config';
+import axios from 'axios';
+import twilio from 'twilio';
+import WebSocket from 'ws';
+import {
+  decodeMulaw,
+  decodeWav,
+  encodeMulaw,
+  encodeWav,
+  FRAME_BYTES,
+  FRAME_MS,
+  MULAW_SAMPLE_RATE,
+  resample,
+} from '../services/voice/mulaw';
+
+const MULAW_SILENCE = 0xff;
+
+interface ClientOptions {
+  url: string;
+  from: string;
+  to: string;
+  inputs: string[];
+  output: string;
+  delay: number;
+  gap: number;
+  wait: number;
+}
+
+type PlaybackItem = { frame: Buffer } | { mark: string };
+
+function parseArgs(argv: string[]): ClientOptions {
+  const options: ClientOptions = {
+    url: 'http://localhost:3000',
+    from: '+15555550100',
+    to: '',
+    inputs: [],
+    output: 'media-stream-reply.wav',
+    delay: 4,
+    gap: 6,
+    wait: 10,
+  };
+
+  for (let i = 0; i < argv.length; i += 2) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--url': options.url = value; break;
+      case '--from': options.from = value; break;
+      case '--to': options.to = value; break;
+      case '--input': options.inputs.push(value); break;
+      case '--output': options.output = value; break;
+      case '--delay': options.delay = Number(value); break;
+      case '--gap': options.gap = Number(value); break;
+      case '--wait': options.wait = Number(value); break;
+      default:
+        throw new Error(`Unknown option ${argv[i]}`);
+    }
+  }
+
+  if (!options.to || options.inputs.length === 0) {
+    throw new Error('--to and at least one --input are required');
+  }
+
+  return options;
+}
+
+function silence(seconds: number): Buffer {
+  return Buffer.alloc(Math.round(seconds * MULAW_SAMPLE_RATE), MULAW_SILENCE);
+}
+
+/**
+ * Build the caller's side of the call as one μ-law track
+ */
+function buildCallerAudio(options: ClientOptions): Buffer {
+  const parts: Buffer[] = [silence(options.delay)];
+
+  options.inputs.forEach((file, index) => {
+    const { samples, sampleRate } = decodeWav(fs.readFileSync(file));
+    if (index > 0) parts.push(silence(options.gap));
+    parts.push(encodeMulaw(resample(samples, sampleRate, MULAW_SAMPLE_RATE)));
+  });
+
+  parts.push(silence(options.wait));
+  return Buffer.concat(parts);
+}
+
+function log(message: string) {
+  console.log(`[${new Date().toISOString().slice(11, 23)}] ${message}`);
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const callerAudio = buildCallerAudio(options);
+  const callSid = `CA${crypto.randomBytes(16).toString('hex')}`;
+  const streamSid = `MZ${crypto.randomBytes(16).toString('hex')}`;
+
+  // Answer the call the way Twilio would, following redirects such as the
+  // one after the recording disclosure
+  const post = async (path: string) => {
+    const response = await axios.post(
+      `${options.url}${path}`,
+      new URLSearchParams({ CallSid: callSid, From: options.from, To: options.to, Direction: 'inbound' }).toString(),
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+    );
+    return response.data as string;
+  };
+
+  let twiml = await post('/twilio/voice');
+  for (let redirects = 0; redirects < 5; redirects++) {
+    const redirect = twiml.match(/<Redirect[^>]*>([^<]+)<\/Redirect>/);
+    if (/<Stream\b/.test(twiml) || !redirect) break;
+    for (const say of twiml.matchAll(/<Say[^>]*>([^<]*)<\/Say>/g)) {
+      log(`Heard: ${say[1]}`);
+    }
+    twiml = await post(new URL(redirect[1].replace(/&amp;/g, '&')).pathname);
+  }
+
+  const stream = twiml.match(/<Stream url="([^"]+)"/);
+  if (!stream) {
+    console.error('The call was not connected to a media stream. Is real-time voice enabled for this number?');
+    console.error(twiml);
+    process.exit(1);
+  }
+
+  const customParameters: Record<string, string> = {};
+  for (const match of twiml.matchAll(/<Parameter name="([^"]+)" value="([^"]*)"\/>/g)) {
+    customParameters[match[1]] = match[2]
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+  }
+
+  // The TwiML points at the public BASE_URL; connect to the local server instead,
+  // signing the stream URL the way Twilio does
+  const streamPath = new URL(stream[1]).pathname;
+  const wsUrl = `${options.url.replace(/^http/, 'ws')}${streamPath}`;
+  log(`Call ${callSid} connecting to ${wsUrl}`);
+
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!authToken) {
+    throw new Error('Set TWILIO_AUTH_TOKEN to the server\'s value so the stream connection can be signed');
+  }
+
+  const ws = new WebSocket(wsUrl, {
+    headers: { 'X-Twilio-Signature': twilio.getExpectedTwilioSignature(authToken, stream[1], {}) },
+  });
+  const playback: PlaybackItem[] = [];
+  const heard: Buffer[] = [];
+  let sequenceNumber = 1;
+  let offset = 0;
+  let ticker: NodeJS.Timeout | undefined;
+
+  const send = (message: Record<string, any>) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ ...message, sequenceNumber: String(sequenceNumber++) }));
+    }
+  };
+
+  const echoMark = (name: string) => {
+    log(`mark ${name} played`);
+    send({ event: 'mark', streamSid, mark: { name } });
+  };
+
+  const finish = () => {
+    if (ticker) clearInterval(ticker);
+    const samples = decodeMulaw(Buffer.concat(heard));
+    fs.writeFileSync(options.output, encodeWav(samples, MULAW_SAMPLE_RATE));
+    log(`Wrote ${(samples.length / MULAW_SAMPLE_RATE).toFixed(1)}s of call audio to ${options.output}`);
+  };
+
+  ws.on('open', () => {
+    send({ event: 'connected', protocol: 'Call', version: '1.0.0' });
+    send({
+      event: 'start',
+      streamSid,
+      start: {
+        streamSid,
+        callSid,
+        accountSid: 'AC00000000000000000000000000000000',
+        tracks: ['inbound'],
+        customParameters,
+        mediaFormat: { encoding: 'audio/x-mulaw', sampleRate: MULAW_SAMPLE_RATE, channels: 1 },
+      },
+    });
+
+    ticker = setInterval(() => {
+      // Caller audio
+      if (offset >= callerAudio.length) {
+        log('Caller audio finished');
+        send({ event: 'stop', streamSid, stop: { callSid } });
+        ws.close();
+        return;
+      }
+
+      const frame = callerAudio.subarray(offset, offset + FRAME_BYTES);
+      send({
+        event: 'media',
+        streamSid,
+        media: {
+          track: 'inbound',
+          chunk: String(offset / FRAME_BYTES + 1),
+          timestamp: String((offset / FRAME_BYTES) * FRAME_MS),
+          payload: frame.toString('base64'),
+        },
+      });
+      offset += FRAME_BYTES;
+
+      // Assistant audio, one frame per tick
+      let played: Buffer | null = null;
+      while (playback.length > 0 && !played) {
+        const item = playback.shift()!;
+        if ('mark' in item) {
+          echoMark(item.mark);
+        } else {
+          played = item.frame;
+        }
+      }
+      while (playback.length > 0 && 'mark' in playback[0]) {
+        echoMark((playback.shift() as { mark: string }).mark);
+      }
+
+      // What the caller hears: the assistant if it is talking, otherwise their own line
+      heard.push(played ?? frame);
+    }, FRAME_MS);
+  });
+
+  ws.on('message', (data) => {
+    const message = JSON.parse(data.toString());
+
+    switch (message.event) {
+      case 'media': {
+        const audio = Buffer.from(message.media.payload, 'base64');
+        if (playback.length === 0) log('Assistant speaking');
+        for (let i = 0; i < audio.length; i += FRAME_BYTES) {
+          playback.push({ frame: audio.subarray(i, i + FRAME_BYTES) });
+        }
+        break;
+      }
+
+      case 'mark':
+        playback.push({ mark: message.mark.name });
+        break;
+
+      case 'clear': {
+        const dropped = playback.filter(item => 'frame' in item).length;
+        log(`clear: caller interrupted, dropped ${(dropped * FRAME_MS / 1000).toFixed(1)}s of reply`);
+        playback.splice(0).forEach(item => {
+          if ('mark' in item) echoMark(item.mark);
+        });
+        break;
+      }
+    }
+  });
+
+  ws.on('close', () => {
+    log(offset < callerAudio.length ? 'Server ended the stream' : 'Stream closed');
+    finish();
+  });
+
+  ws.on('error', (error) => {
+    console.error('WebSocket error:', error.message);
+    process.exitCode = 1;
+  });
+}
+
+main().catch((error) => {
+  console.error(error.message || error);
+  process.exit(1);
+});
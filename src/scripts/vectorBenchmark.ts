@@ -0,0 +1,234 @@
+/**
+ * Latency and recall of website and document search on a large corpus.
+ *
+ * Inserts synthetic chunks into WebsiteContent under throwaway tenant ids:
+ * one large tenant, searched through the HNSW index, and several small ones,
+ * searched exactly. Embeddings are clustered around random topics so nearest
+ * neighbours mean something. Each query is timed through
+ * ragService.semanticSearch, and the large tenant's results are checked
+ * against an exact scan for recall. A small tenant is also sent through the
+ * index, where most of what the scan finds belongs to other tenants, to
+ * check it still gets a full page of results. The chunks are deleted afterwards unless
+ * --keep is given.
+ *
+ * Inserting into the HNSW index is the slow part: allow several minutes for
+ * 100k chunks.
+ *
+ * Usage:
+ *   npm run vector:benchmark -- [--chunks 100000] [--tenants 10] [--large-share 0.5]
+ *     [--queries 50] [--limit 8] [--keep]
+ */
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../db/prisma';
+import { EMBEDDING_DIMENSIONS } from '../services/ai/providers/llmProvider';
+import { ragService, EXACT_SEARCH_MAX_CHUNKS, HNSW_EF_SEARCH } from '../services/ai/ragService';
+
+const INSERT_BATCH_SIZE = 500;
+const TOPICS = 200;
+// How far chunks and queries stray from their topic
+const NOISE = 0.6;
+
+interface BenchmarkOptions {
+  chunks: number;
+  tenants: number;
+  largeShare: number;
+  queries: number;
+  limit: number;
+  keep: boolean;
+}
+
+function parseArgs(argv: string[]): BenchmarkOptions {
+  const options: BenchmarkOptions = {
+    chunks: 100000,
+    tenants: 10,
+    largeShare: 0.5,
+    queries: 50,
+    limit: 8,
+    keep: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--chunks': options.chunks = Number(value); i++; break;
+      case '--tenants': options.tenants = Number(value); i++; break;
+      case '--large-share': options.largeShare = Number(value); i++; break;
+      case '--queries': options.queries = Number(value); i++; break;
+      case '--limit': options.limit = Number(value); i++; break;
+      case '--keep': options.keep = true; break;
+      default:
+        throw new Error(`Unknown option ${argv[i]}`);
+    }
+  }
+
+  if (!(options.chunks > 0) || !(options.tenants >= 2) || !(options.largeShare > 0 && options.largeShare < 1)) {
+    throw new Error('--chunks must be positive, --tenants at least 2 and --large-share between 0 and 1');
+  }
+
+  return options;
+}
+
+function gaussian(): number {
+  const u = 1 - Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * Math.random());
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0)) || 1;
+  return vector.map(x => x / length);
+}
+
+function randomVector(): number[] {
+  return normalize(Array.from({ length: EMBEDDING_DIMENSIONS }, gaussian));
+}
+
+function near(topic: number[]): number[] {
+  return normalize(topic.map(x => x + (NOISE / Math.sqrt(EMBEDDING_DIMENSIONS)) * gaussian()));
+}
+
+function toVector(embedding: number[]): string {
+  return `[${embedding.map(x => x.toFixed(5)).join(',')}]`;
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+function report(label: string, timings: number[]) {
+  const sorted = [...timings].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, t) => sum + t, 0) / sorted.length;
+  console.log(
+    `${label.padEnd(28)} mean ${mean.toFixed(1)}ms  p50 ${percentile(sorted, 0.5).toFixed(1)}ms  ` +
+    `p95 ${percentile(sorted, 0.95).toFixed(1)}ms  p99 ${percentile(sorted, 0.99).toFixed(1)}ms`
+  );
+}
+
+async function time<T>(run: () => Promise<T>): Promise<{ result: T; ms: number }> {
+  const started = process.hrtime.bigint();
+  const result = await run();
+  return { result, ms: Number(process.hrtime.bigint() - started) / 1e6 };
+}
+
+/**
+ * Insert chunks for one tenant, in batches
+ */
+async function seedTenant(tenantId: string, count: number, topics: number[][], onProgress: (n: number) => void) {
+  for (let offset = 0; offset < count; offset += INSERT_BATCH_SIZE) {
+    const size = Math.min(INSERT_BATCH_SIZE, count - offset);
+    const rows = Array.from({ length: size }, (_, i) => {
+      const index = offset + i;
+      const embedding = near(topics[Math.floor(Math.random() * topics.length)]);
+      return Prisma.sql`(
+        gen_random_uuid(), ${tenantId}, ${`https://benchmark.invalid/${index}`}, ${`Benchmark chunk ${index}`},
+        'Synthetic benchmark chunk', ${index}, 100, ${toVector(embedding)}::vector, NOW(), NOW()
+      )`;
+    });
+
+    await prisma.$executeRaw`
+      INSERT INTO "WebsiteContent" (
+        id, "tenantId", url, title, content, "chunkIndex", "tokenCount", embedding, "createdAt", "updatedAt"
+      ) VALUES ${Prisma.join(rows)}
+    `;
+    onProgress(size);
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const prefix = `benchmark-${crypto.randomBytes(4).toString('hex')}-`;
+  const topics = Array.from({ length: TOPICS }, randomVector);
+
+  const largeTenant = `${prefix}large`;
+  const largeChunks = Math.round(options.chunks * options.largeShare);
+  const smallTenants = Array.from({ length: options.tenants - 1 }, (_, i) => `${prefix}small-${i + 1}`);
+  const smallChunks = Math.floor((options.chunks - largeChunks) / smallTenants.length);
+
+  console.log(`Seeding ${options.chunks} chunks: ${largeChunks} for one tenant, ${smallChunks} each for ${smallTenants.length} more`);
+  if (largeChunks <= EXACT_SEARCH_MAX_CHUNKS) {
+    console.log(`Note: tenants with up to ${EXACT_SEARCH_MAX_CHUNKS} chunks are searched exactly, so the index won't be used`);
+  }
+
+  try {
+    let inserted = 0;
+    const seeding = await time(async () => {
+      const progress = (n: number) => {
+        inserted += n;
+        process.stdout.write(`\r  ${inserted} / ${options.chunks}`);
+      };
+      await seedTenant(largeTenant, largeChunks, topics, progress);
+      for (const tenantId of smallTenants) {
+        await seedTenant(tenantId, smallChunks, topics, progress);
+      }
+    });
+    console.log(`\n  done in ${(seeding.ms / 1000).toFixed(1)}s`);
+
+    await prisma.$executeRawUnsafe('ANALYZE "WebsiteContent"');
+
+    const queries = Array.from({ length: options.queries }, () => near(topics[Math.floor(Math.random() * topics.length)]));
+
+    // Check the planner picks the HNSW index for the large tenant
+    const [, plan] = await prisma.$transaction([
+      prisma.$executeRawUnsafe(`SET LOCAL hnsw.ef_search = ${HNSW_EF_SEARCH}`),
+      prisma.$queryRaw<{ 'QUERY PLAN': string }[]>`
+        EXPLAIN SELECT id FROM "WebsiteContent"
+        WHERE "tenantId" = ${largeTenant}
+        ORDER BY embedding <=> ${toVector(queries[0])}::vector
+        LIMIT ${options.limit}
+      `,
+    ]);
+    const usesIndex = plan.some(row => row['QUERY PLAN'].includes('WebsiteContent_embedding_idx'));
+    console.log(`\nLarge tenant query ${usesIndex ? 'uses' : 'does NOT use'} the HNSW index`);
+
+    const indexedTimings: number[] = [];
+    const exactTimings: number[] = [];
+    const smallTimings: number[] = [];
+    const smallIndexedTimings: number[] = [];
+    let shortResults = 0;
+    let found = 0;
+    let expected = 0;
+
+    for (const embedding of queries) {
+      const indexed = await time(() => ragService.semanticSearch('', largeTenant, options.limit, embedding));
+      indexedTimings.push(indexed.ms);
+
+      const exact = await time(() => ragService.exactSearch(largeTenant, toVector(embedding), options.limit));
+      exactTimings.push(exact.ms);
+
+      const truth = new Set(exact.result.map(r => r.id));
+      expected += truth.size;
+      found += indexed.result.filter(r => truth.has(r.id)).length;
+
+      const tenantId = smallTenants[Math.floor(Math.random() * smallTenants.length)];
+      const small = await time(() => ragService.semanticSearch('', tenantId, options.limit, embedding));
+      smallTimings.push(small.ms);
+
+      const smallIndexed = await time(() => ragService.indexedSearch(tenantId, toVector(embedding), options.limit));
+      smallIndexedTimings.push(smallIndexed.ms);
+      if (smallIndexed.result.length < Math.min(options.limit, smallChunks)) {
+        shortResults++;
+      }
+    }
+
+    console.log(`\n${options.queries} queries, top ${options.limit}:`);
+    report(`Large tenant (${largeChunks})`, indexedTimings);
+    report('Large tenant, exact scan', exactTimings);
+    report(`Small tenant (${smallChunks})`, smallTimings);
+    report('Small tenant, via the index', smallIndexedTimings);
+    console.log(`Recall@${options.limit} vs exact scan: ${(expected ? (100 * found) / expected : 100).toFixed(1)}%`);
+    console.log(`Small tenant via the index, short results: ${shortResults} of ${options.queries}`);
+  } finally {
+    if (options.keep) {
+      console.log(`\nKept benchmark chunks (tenant ids starting ${prefix})`);
+    } else {
+      const { count } = await prisma.websiteContent.deleteMany({ where: { tenantId: { startsWith: prefix } } });
+      console.log(`\nDeleted ${count} benchmark chunks`);
+    }
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message || error);
+  process.exit(1);
+});
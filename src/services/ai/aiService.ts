@@ -1,70 +1,230 @@
-import OpenAI from 'openai';
-import { env } from '../../config/env';
-import { CallContext, AIResponse } from '../../types';
-import { searchFAQs, lookupKnowledgeBase, getBusinessHoursStatus } from './toolFunctions';
-import { ragService } from './ragService';
-
-class OpenAIService {
-  private client: OpenAI;
-
-  constructor() {
-    this.client = new OpenAI({
-      apiKey: env.OPENAI_API_KEY,
-    });
-  }
+import prisma from '../../db/prisma';
+import { CallContext, AIResponse, ConversationChannel } from '../../types';
+import {
+  searchFAQs,
+  lookupKnowledgeBase,
+  getBusinessHoursStatus,
+  getTransferTargets,
+  attemptTransfer,
+  findDepartment,
+  createLeadRecord,
+  lookupCaller,
+  createCallTask,
+  scheduleCallback,
+} from './toolFunctions';
+import { retrievalService, RetrievalResult, RetrievedSource } from './retrievalService';
+import { llmService } from './llmService';
+import { toE164 } from '../crm/phoneNumber';
+import { CallAnalysis, ChatMessage, ToolDefinition } from './providers/llmProvider';
+import { getTenantTimezone, zonedTimeToUtc } from '../tenant/scheduleService';
+import { callerIdService } from '../crm/callerIdService';
+import { redactionService } from '../call/redactionService';
+
+const MAX_TOOL_ROUNDS = 3;
+const TASK_PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] as const;
+
+// Tools that only make sense on some channels; the rest are available everywhere
+const CHANNEL_TOOLS: Record<string, ConversationChannel[]> = {
+  get_transfer_targets: ['voice'],
+  transfer_call: ['voice'],
+  end_call: ['voice'],
+  lookup_caller: ['voice', 'sms'],   // Needs the visitor's number
+  request_human: ['chat'],
+};
+
+const LEAD_SOURCES: Record<ConversationChannel, string> = {
+  voice: 'voice_call',
+  sms: 'sms',
+  chat: 'chatbot',
+};
+
+// How each channel is introduced to the model and how long replies may be
+const CHANNEL_PROMPTS: Record<ConversationChannel, { intro: string; length: string; closing: string }> = {
+  voice: {
+    intro: 'You are an AI voice receptionist with a {personality} personality. You are on a phone call, so keep responses concise and natural.',
+    length: 'Keep responses SHORT (1-2 sentences max) - this is a phone call, not a chat',
+    closing: "Remember: You're talking to someone on the phone. Be helpful, brief, and natural!",
+  },
+  sms: {
+    intro: 'You are an AI receptionist answering text messages with a {personality} personality.',
+    length: 'Keep replies SHORT (1-3 sentences, under 320 characters) - this is a text message',
+    closing: 'Remember: This is a text thread. Be helpful, brief, and natural! Plain text only, no markdown.',
+  },
+  chat: {
+    intro: 'You are an AI assistant chatting with a visitor on the business website, with a {personality} personality.',
+    length: 'Keep replies short (a few sentences) - this is a live chat, not an email',
+    closing: "Remember: You're chatting with a website visitor. Be helpful, brief, and natural!",
+  },
+};
+
+// Prompt descriptions of the tools, grouped the way the model should think of them
+const TOOL_HINTS: Array<{ tools: string[]; hint: string }> = [
+  { tools: ['search_faqs'], hint: 'search_faqs - Quick answers to common questions (hours, pricing, services, policies)' },
+  { tools: ['search_knowledge_base'], hint: 'search_knowledge_base - Detailed information about products, services, procedures' },
+  { tools: ['check_business_hours'], hint: 'check_business_hours - Get current open/closed status AND full weekly schedule' },
+  { tools: ['lookup_caller'], hint: "lookup_caller - Find the caller in the CRM by their number" },
+  { tools: ['get_transfer_targets', 'transfer_call'], hint: 'get_transfer_targets / transfer_call - See who is available and put the caller through' },
+  { tools: ['capture_lead'], hint: "capture_lead - Save the caller's details for a follow-up" },
+  { tools: ['create_task'], hint: 'create_task - Leave a to-do for the team' },
+  { tools: ['schedule_callback'], hint: 'schedule_callback - Book a callback at a specific time' },
+  { tools: ['end_call'], hint: 'end_call - Hang up once the caller is done' },
+  { tools: ['request_human'], hint: 'request_human - Hand the chat to a team member when the visitor asks for a person' },
+];
 
+/**
+ * What the tools decided during one reply; becomes AIResponse.action
+ */
+interface ToolTurn {
+  action?: AIResponse['action'];
+  sources: RetrievedSource[]; // FAQ and knowledge base matches the search tools returned
+}
+
+class AIService {
   /**
-   * Define available tools/functions for the AI
+   * Define available tools/functions for the AI on this channel
    */
-  private getTools(): OpenAI.ChatCompletionTool[] {
-    return [
+  private getTools(channel: ConversationChannel = 'voice'): ToolDefinition[] {
+    const tools: ToolDefinition[] = [
       {
-        type: 'function',
-        function: {
-          name: 'search_faqs',
-          description: 'Search frequently asked questions for quick answers about common topics like pricing, hours, services, etc.',
-          parameters: {
-            type: 'object',
-            properties: {
-              query: {
-                type: 'string',
-                description: 'The question or topic to search for in FAQs',
-              },
+        name: 'search_faqs',
+        description: 'Search frequently asked questions for quick answers about common topics like pricing, hours, services, etc.',
+        parameters: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: 'The question or topic to search for in FAQs',
             },
-            required: ['query'],
           },
+          required: ['query'],
         },
       },
       {
-        type: 'function',
-        function: {
-          name: 'search_knowledge_base',
-          description: 'Search the detailed knowledge base for in-depth information about products, services, policies, or procedures.',
-          parameters: {
-            type: 'object',
-            properties: {
-              query: {
-                type: 'string',
-                description: 'The topic or question to look up in the knowledge base',
-              },
+        name: 'search_knowledge_base',
+        description: 'Search the detailed knowledge base for in-depth information about products, services, policies, or procedures.',
+        parameters: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: 'The topic or question to look up in the knowledge base',
             },
-            required: ['query'],
           },
+          required: ['query'],
+        },
+      },
+      {
+        name: 'check_business_hours',
+        description: 'Check if the business is currently open and get the operating hours.',
+        parameters: {
+          type: 'object',
+          properties: {},
+          required: [],
         },
       },
       {
-        type: 'function',
-        function: {
-          name: 'check_business_hours',
-          description: 'Check if the business is currently open and get the operating hours.',
-          parameters: {
-            type: 'object',
-            properties: {},
-            required: [],
+        name: 'lookup_caller',
+        description: 'Look up the caller in the CRM by the number they are calling from. Returns their name, company and account owner if known.',
+        parameters: {
+          type: 'object',
+          properties: {},
+          required: [],
+        },
+      },
+      {
+        name: 'get_transfer_targets',
+        description: 'List the departments and people calls can be transferred to.',
+        parameters: {
+          type: 'object',
+          properties: {},
+          required: [],
+        },
+      },
+      {
+        name: 'transfer_call',
+        description: 'Transfer the caller to a person. Use when they ask for a human or need help you cannot give. Only works while the business is open.',
+        parameters: {
+          type: 'object',
+          properties: {
+            department: {
+              type: 'string',
+              description: 'Department name from get_transfer_targets, if the caller needs a specific one',
+            },
+            reason: {
+              type: 'string',
+              description: 'Short reason for the transfer',
+            },
+          },
+          required: ['reason'],
+        },
+      },
+      {
+        name: 'capture_lead',
+        description: "Save the caller's details so someone can follow up. Collect at least their name and reason first.",
+        parameters: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', description: "Caller's name" },
+            phone: { type: 'string', description: 'Callback number, if different from the number they are calling from' },
+            email: { type: 'string', description: 'Email address, if given' },
+            reason: { type: 'string', description: 'What they need' },
+            callbackTime: { type: 'string', description: 'When they prefer a callback, in their words' },
           },
+          required: ['name', 'reason'],
+        },
+      },
+      {
+        name: 'create_task',
+        description: 'Create a follow-up task for the team, e.g. send a quote or check on an order.',
+        parameters: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', description: 'Short task title' },
+            description: { type: 'string', description: 'Details the team needs' },
+            priority: { type: 'string', enum: ['low', 'medium', 'high', 'urgent'] },
+          },
+          required: ['title'],
+        },
+      },
+      {
+        name: 'schedule_callback',
+        description: 'Book a callback from the team at a specific time during business hours.',
+        parameters: {
+          type: 'object',
+          properties: {
+            callbackAt: {
+              type: 'string',
+              description: 'Local business time as YYYY-MM-DDTHH:MM',
+            },
+            name: { type: 'string', description: "Caller's name, if known" },
+            reason: { type: 'string', description: 'What the callback is about' },
+          },
+          required: ['callbackAt'],
+        },
+      },
+      {
+        name: 'end_call',
+        description: 'Hang up after saying goodbye, once the caller has nothing else they need.',
+        parameters: {
+          type: 'object',
+          properties: {},
+          required: [],
+        },
+      },
+      {
+        name: 'request_human',
+        description: 'Hand the chat over to a team member. Use when the visitor asks for a person or needs help you cannot give.',
+        parameters: {
+          type: 'object',
+          properties: {
+            reason: { type: 'string', description: 'Short reason for the handoff' },
+          },
+          required: ['reason'],
         },
       },
     ];
+
+    return tools.filter(tool => !CHANNEL_TOOLS[tool.name] || CHANNEL_TOOLS[tool.name].includes(channel));
   }
 
   /**
@@ -73,14 +233,19 @@ class OpenAIService {
   private async executeTool(
     functionName: string,
     args: any,
-    context: CallContext
+    context: CallContext,
+    turn: ToolTurn
   ): Promise<string> {
     try {
       switch (functionName) {
         case 'search_faqs': {
           const result = await searchFAQs(context.tenantId, args.query);
           if (result.found) {
-            return `FAQ Match - Q: ${result.question}\nA: ${result.answer}${result.category ? `\nCategory: ${result.category}` : ''}`;
+            turn.sources.push(...result.matches.map(match => retrievalService.fromMatch(match)));
+            // Best match first; the rest help with questions that span several FAQs
+            return result.matches
+              .map(match => `FAQ Match (score ${match.score}) - Q: ${match.question}\nA: ${match.answer}${match.category ? `\nCategory: ${match.category}` : ''}`)
+              .join('\n\n');
           }
           return 'No matching FAQ found. Try searching the knowledge base or ask me to connect you with someone who can help.';
         }
@@ -88,7 +253,10 @@ class OpenAIService {
         case 'search_knowledge_base': {
           const result = await lookupKnowledgeBase(context.tenantId, args.query);
           if (result.found) {
-            return `Knowledge Base: ${result.answer}${result.category ? `\nCategory: ${result.category}` : ''}`;
+            turn.sources.push(...result.matches.map(match => retrievalService.fromMatch(match)));
+            return result.matches
+              .map(match => `Knowledge Base (score ${match.score}): ${match.answer}${match.category ? `\nCategory: ${match.category}` : ''}`)
+              .join('\n\n');
           }
           return 'No information found in knowledge base. I can connect you with someone who can help with this.';
         }
@@ -102,6 +270,146 @@ class OpenAIService {
           return response;
         }
 
+        case 'lookup_caller': {
+          // Only ever the caller's own number, so nobody can look up someone else
+          const result = await lookupCaller(context.tenantId, context.fromNumber);
+          if (!result.found) {
+            return 'Caller is not in the CRM.';
+          }
+          return [
+            `Known caller: ${result.name || 'name not on file'}`,
+            result.company ? `Company: ${result.company}` : '',
+            result.lifecycle ? `Status: ${result.lifecycle}` : '',
+            result.ownerName ? `Account owner: ${result.ownerName}` : '',
+            result.lastContactedAt ? `Last contacted: ${result.lastContactedAt.toDateString()}` : '',
+          ].filter(Boolean).join('\n');
+        }
+
+        case 'get_transfer_targets': {
+          const targets = await getTransferTargets(context.tenantId);
+          if (targets.length === 0) {
+            return 'No one is set up to take transfers. Offer to take a message instead.';
+          }
+          const departments = await this.listDepartments(context.tenantId);
+          return `Available: ${targets.map(t => t.name).join(', ')}.${departments ? ` Departments: ${departments}.` : ''}`;
+        }
+
+        case 'transfer_call': {
+          const hours = await getBusinessHoursStatus(context.tenantId);
+          if (!hours.isOpen) {
+            return `The business is closed (${hours.hours}). Offer to take a message or schedule a callback instead.`;
+          }
+
+          const department = args.department ? await findDepartment(context.tenantId, args.department) : null;
+          if (args.department && !department) {
+            const departments = await this.listDepartments(context.tenantId);
+            return `No department called ${args.department}.${departments ? ` Departments: ${departments}.` : ''}`;
+          }
+
+          const phoneNumber = await attemptTransfer(context.tenantId, args.reason, department?.id);
+          if (!phoneNumber) {
+            return 'No one is available to take the call. Offer to take a message instead.';
+          }
+
+          turn.action = {
+            type: 'transfer',
+            data: { reason: args.reason, department: department?.name, departmentId: department?.id, phoneNumber },
+          };
+          return 'Transfer is ready. Tell the caller you are connecting them now.';
+        }
+
+        case 'capture_lead': {
+          if (context.metadata.leadId) {
+            return 'Their details are already saved for this call.';
+          }
+
+          // Website visitors have no number unless they give one
+          const phone = (args.phone && toE164(args.phone)) || context.fromNumber || undefined;
+          const leadData = {
+            name: args.name,
+            phone,
+            email: args.email,
+            reason: args.reason,
+            callbackTime: args.callbackTime,
+            callbackPreference: phone || !args.email ? 'phone' : 'email',
+          };
+          const channel = context.channel || 'voice';
+          const leadId = await createLeadRecord(
+            context.tenantId,
+            channel === 'voice' ? context.sessionId : null,
+            leadData,
+            LEAD_SOURCES[channel]
+          );
+          if (!leadId) {
+            return 'Could not save their details.';
+          }
+
+          context.metadata.leadId = leadId;
+          context.metadata.capturedData = { ...context.metadata.capturedData, ...leadData };
+          turn.action = { type: 'capture_lead', data: { leadId } };
+          return 'Details saved. Let the caller know someone will follow up.';
+        }
+
+        case 'create_task': {
+          const priority = String(args.priority || '').toUpperCase();
+          const taskId = await createCallTask(context.tenantId, {
+            title: args.title,
+            description: [args.description, this.describeOrigin(context)]
+              .filter(Boolean)
+              .join('\n'),
+            priority: (TASK_PRIORITIES as readonly string[]).includes(priority)
+              ? priority as typeof TASK_PRIORITIES[number]
+              : undefined,
+            callerPhone: context.fromNumber,
+          });
+          return taskId ? 'Task created for the team.' : 'Could not create the task.';
+        }
+
+        case 'schedule_callback': {
+          const timezone = await getTenantTimezone(context.tenantId);
+          const callbackAt = zonedTimeToUtc(String(args.callbackAt || ''), timezone);
+          if (!callbackAt) {
+            return 'Invalid time. Use YYYY-MM-DDTHH:MM in local business time.';
+          }
+
+          const result = await scheduleCallback(context.tenantId, {
+            callbackAt,
+            callerPhone: context.fromNumber,
+            name: args.name || context.metadata.capturedData?.name,
+            reason: args.reason,
+          });
+
+          if (!result.scheduled) {
+            return result.hours
+              ? `The business is closed then. Hours: ${result.hours}. Ask for another time.`
+              : 'Could not book that time. Ask for another time in the future.';
+          }
+
+          context.metadata.callbackTaskId = result.taskId;
+          const label = callbackAt.toLocaleString('en-US', {
+            timeZone: timezone,
+            weekday: 'long',
+            month: 'long',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit',
+          });
+          return `Callback booked for ${label}.`;
+        }
+
+        case 'end_call': {
+          turn.action = { type: 'end_call' };
+          return 'Say a brief goodbye.';
+        }
+
+        case 'request_human': {
+          turn.action = { type: 'handoff', data: { reason: args.reason } };
+          const hours = await getBusinessHoursStatus(context.tenantId);
+          return hours.isOpen
+            ? 'A team member has been notified and will join this chat shortly. Tell the visitor.'
+            : `The team is away (${hours.hours}). Tell the visitor someone will reply when they are back, and ask for an email address if you don't have one.`;
+        }
+
         default:
           return `Unknown function: ${functionName}`;
       }
@@ -116,68 +424,90 @@ class OpenAIService {
    */
   async chat(context: CallContext, userMessage: string): Promise<AIResponse> {
     try {
-      const messages = await this.buildMessages(context, userMessage);
-      const tools = this.getTools();
+      const { messages, retrieval } = await this.buildMessages(context, userMessage);
+      const tools = this.getTools(context.channel);
+      const { provider, model } = llmService.resolve(context.config);
 
       // First completion - may request function calls
-      let completion = await this.client.chat.completions.create({
-        model: env.OPENAI_MODEL,
+      let response = await provider.chat({
+        model,
         messages,
-        tools,
-        tool_choice: 'auto', // Let AI decide when to use tools
+        tools, // Let AI decide when to use tools
         temperature: 0.7,
-        max_tokens: 150,
+        maxTokens: 150,
       });
 
-      let responseMessage = completion.choices[0].message;
+      const turn: ToolTurn = { sources: [] };
 
-      // Handle function calls if AI requested them
-      if (responseMessage.tool_calls && responseMessage.tool_calls.length > 0) {
+      // Handle function calls if AI requested them; one tool's result may lead to another
+      for (let round = 1; response.toolCalls.length > 0 && round <= MAX_TOOL_ROUNDS; round++) {
         // Add AI's response with tool calls to messages
-        messages.push(responseMessage);
+        messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
 
         // Execute each tool call
-        for (const toolCall of responseMessage.tool_calls) {
-          const functionName = toolCall.function.name;
-          const functionArgs = JSON.parse(toolCall.function.arguments);
-
-          console.log(`🔧 AI calling tool: ${functionName}`, functionArgs);
+        for (const toolCall of response.toolCalls) {
+          console.log(`🔧 AI calling tool: ${toolCall.name}`, toolCall.arguments);
 
           const functionResult = await this.executeTool(
-            functionName,
-            functionArgs,
-            context
+            toolCall.name,
+            toolCall.arguments,
+            context,
+            turn
           );
 
           // Add function result to messages
           messages.push({
             role: 'tool',
-            tool_call_id: toolCall.id,
+            toolCallId: toolCall.id,
             content: functionResult,
           });
         }
 
-        // Get final response from AI using function results
-        completion = await this.client.chat.completions.create({
-          model: env.OPENAI_MODEL,
+        // Once the call is being transferred or ended, only the spoken reply is left
+        const finished = turn.action?.type === 'transfer' || turn.action?.type === 'end_call';
+
+        // Get next response from AI using function results
+        response = await provider.chat({
+          model,
           messages,
+          tools: finished || round === MAX_TOOL_ROUNDS ? undefined : tools,
           temperature: 0.7,
-          max_tokens: 150,
+          maxTokens: 150,
         });
+      }
+
+      // So staff can see what the reply was based on
+      await retrievalService.recordSources(context, retrieval.query, [...retrieval.sources, ...turn.sources]);
+
+      switch (turn.action?.type) {
+        case 'transfer':
+          return {
+            message: response.content || context.config?.transferPrompt || 'Let me connect you now. Please hold.',
+            nextState: 'TRANSFER_ATTEMPT',
+            action: turn.action,
+            shouldGather: false,
+          };
 
-        responseMessage = completion.choices[0].message;
+        case 'end_call':
+          return {
+            message: response.content || context.config?.endCallMessage || 'Thank you for calling. Goodbye!',
+            nextState: 'ENDED',
+            action: turn.action,
+            shouldGather: false,
+          };
       }
 
-      const responseText = responseMessage.content || 
+      const responseText = response.content || 
         "I'm sorry, I didn't understand that.";
 
       return {
         message: responseText,
         nextState: context.state,
+        action: turn.action,
         shouldGather: true,
       };
     } catch (error) {
-      console.error('OpenAI API error:', error);
+      console.error('LLM chat error:', error);
       return {
         message: "I apologize, I'm having trouble processing that. Could you repeat?",
         nextState: context.state,
@@ -187,43 +517,49 @@ class OpenAIService {
   }
 
   /**
-   * Summarize call transcript
+   * Where a task came from, for the team reading it later
    */
-  async summarizeCall(transcript: string): Promise<{
-    summary: string;
-    intent: string;
-    sentiment: string;
-    actionItems: string[];
-  }> {
-    try {
-      const completion = await this.client.chat.completions.create({
-        model: env.OPENAI_MODEL,
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert at analyzing phone call transcripts. 
-            Provide a concise summary, identify the caller's intent, determine sentiment (positive/neutral/negative), 
-            and list any action items. Return as JSON with keys: summary, intent, sentiment, actionItems (array).`,
-          },
-          {
-            role: 'user',
-            content: transcript,
-          },
-        ],
-        temperature: 0.3,
-        response_format: { type: 'json_object' },
-      });
+  private describeOrigin(context: CallContext): string {
+    switch (context.channel) {
+      case 'sms':
+        return `From text conversation with ${context.fromNumber}`;
+      case 'chat':
+        return `From website chat${context.fromNumber ? ` with ${context.fromNumber}` : ''}`;
+      default:
+        return `From call with ${context.fromNumber} (${context.callSid})`;
+    }
+  }
+
+  private async listDepartments(tenantId: string): Promise<string> {
+    const departments = await prisma.department.findMany({
+      where: { tenantId },
+      select: { name: true },
+      orderBy: { name: 'asc' },
+    });
+    return departments.map(d => d.name).join(', ');
+  }
 
-      const result = JSON.parse(completion.choices[0]?.message?.content || '{}');
+  /**
+   * Summarize call transcript. The summary is redacted too, since it is
+   * stored and emailed.
+   */
+  async summarizeCall(transcript: string, tenantId?: string): Promise<CallAnalysis> {
+    try {
+      const { provider, model } = tenantId
+        ? await llmService.forTenant(tenantId)
+        : llmService.resolve();
+      const redactor = tenantId
+        ? await redactionService.forTenant(tenantId)
+        : redactionService.redactor(null);
 
+      const analysis = await provider.summarize(redactor.redact(transcript), model);
       return {
-        summary: result.summary || 'Call completed',
-        intent: result.intent || 'general inquiry',
-        sentiment: result.sentiment || 'neutral',
-        actionItems: result.actionItems || [],
+        ...analysis,
+        summary: redactor.redact(analysis.summary),
+        actionItems: analysis.actionItems.map(item => redactor.redact(item)),
       };
     } catch (error) {
-      console.error('OpenAI summarization error:', error);
+      console.error('LLM summarization error:', error);
       return {
         summary: 'Call completed',
         intent: 'unknown',
@@ -234,29 +570,61 @@ class OpenAIService {
   }
 
   /**
-   * Build message array for OpenAI
+   * Build message array for the chat model
    */
-  private async buildMessages(context: CallContext, userMessage: string): Promise<OpenAI.ChatCompletionMessageParam[]> {
+  private async buildMessages(
+    context: CallContext,
+    userMessage: string
+  ): Promise<{ messages: ChatMessage[]; retrieval: RetrievalResult }> {
+    const channel = context.channel || 'voice';
+    const prompts = CHANNEL_PROMPTS[channel];
     const personality = context.config?.personality || 'professional, friendly, and helpful';
+    const toolNames = this.getTools(channel).map(tool => tool.name);
+    const toolList = TOOL_HINTS
+      .filter(entry => entry.tools.some(name => toolNames.includes(name)))
+      .map((entry, i) => `${i + 1}. ${entry.hint}`)
+      .join('\n');
+    const timezone = await getTenantTimezone(context.tenantId);
+    const now = `${new Date().toLocaleString('en-US', {
+      timeZone: timezone,
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })} (${timezone})`;
     
-    // Get relevant website context using RAG
-    let websiteContext = '';
+    // Card numbers, SSNs and the like never leave for the model
+    const redactor = context.config
+      ? redactionService.redactor(context.config)
+      : await redactionService.forTenant(context.tenantId);
+
+    // Best sources across FAQs, knowledge base and website for this message
+    const query = redactor.redact(userMessage);
+    let retrieval: RetrievalResult = { query, sources: [], context: '', tokens: 0, duplicates: 0, overBudget: 0 };
     try {
-      const relevantContext = await ragService.getRelevantContext(userMessage, context.tenantId, 3);
-      if (relevantContext) {
-        websiteContext = `\n\nWEBSITE CONTEXT (relevant information from the business website):\n${relevantContext}\n`;
-      }
+      retrieval = await retrievalService.retrieve(context.tenantId, query);
     } catch (error) {
-      console.error('Error fetching website context:', error);
+      console.error('Error retrieving knowledge:', error);
     }
+    const knowledgeContext = retrieval.context
+      ? `\n\nKNOWLEDGE (sources from the business's FAQs, knowledge base and website, best first):\n${retrieval.context}\n`
+      : '';
+
+    // What we already know about a returning caller
+    const caller = context.metadata?.caller;
+    const callerContext = caller
+      ? `\nCALLER (recognized from their number - greet them by name, don't ask for details you already have):\n${redactor.redact(callerIdService.describe(caller))}\n`
+      : '';
     
-    const messages: OpenAI.ChatCompletionMessageParam[] = [
+    const messages: ChatMessage[] = [
       {
         role: 'system',
-        content: `You are an AI voice receptionist with a ${personality} personality. You are on a phone call, so keep responses concise and natural.
+        content: `${prompts.intro.replace('{personality}', personality)}
 
 IMPORTANT CONVERSATION RULES:
-- Keep responses SHORT (1-2 sentences max) - this is a phone call, not a chat
+- ${prompts.length}
 - Be conversational and natural - sound human, not robotic
 - DON'T say "I'll search the database" or mention technical operations
 - DON'T repeat what the caller just said unless asking for confirmation
@@ -264,23 +632,22 @@ IMPORTANT CONVERSATION RULES:
 - Listen carefully to what the caller says - don't confuse their responses
 
 YOUR TOOLS:
-1. search_faqs - Quick answers to common questions (hours, pricing, services, policies)
-2. search_knowledge_base - Detailed information about products, services, procedures
-3. check_business_hours - Get current open/closed status AND full weekly schedule
+${toolList}
 
 SMART BEHAVIOR:
 - When asked about business hours, ALWAYS use check_business_hours tool
 - When asked about services, products, or policies, search for them
 - If you find information, share it naturally without mentioning your search
 - If you don't know something, offer to connect them with someone who can help
-- Be proactive: anticipate what they might need
-${websiteContext}
+- Ask for a name and reason before capture_lead; confirm the time before schedule_callback
+${channel === 'voice' ? '- Only call transfer_call or end_call when the caller wants that - they end your part of the call\n' : ''}- Be proactive: anticipate what they might need
+${knowledgeContext}${callerContext}
 CURRENT CONTEXT:
-- Call state: ${context.state}
-- Previous conversation: ${context.conversationHistory.length} turns
+- Current time: ${now}
+${channel === 'voice' ? `- Call state: ${context.state}\n` : ''}- Previous conversation: ${context.conversationHistory.length} turns
 ${context.metadata?.ivrSelection ? `- Caller selected option: ${context.metadata?.ivrLabel || 'Unknown'}` : ''}
 
-Remember: You're talking to someone on the phone. Be helpful, brief, and natural!`,
+${prompts.closing}`,
       },
     ];
 
@@ -290,7 +657,7 @@ Remember: You're talking to someone on the phone. Be helpful, brief, and natural
     for (const turn of recentHistory) {
       messages.push({
         role: turn.speaker === 'user' ? 'user' : 'assistant',
-        content: turn.text,
+        content: redactor.redact(turn.text),
       });
     }
 
@@ -298,12 +665,12 @@ Remember: You're talking to someone on the phone. Be helpful, brief, and natural
     if (recentHistory.length === 0 || recentHistory[recentHistory.length - 1].text !== userMessage) {
       messages.push({
         role: 'user',
-        content: userMessage,
+        content: redactor.redact(userMessage),
       });
     }
 
-    return messages;
+    return { messages, retrieval };
   }
 }
 
-export const openAIService = new OpenAIService();
+export const aiService = new AIService();
@@ -1,21 +1,16 @@
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { llmService } from './llmService';
 
 /**
- * Generate embedding vector for text using OpenAI's text-embedding-ada-002
- * Returns a 1536-dimensional vector
+ * Generate embedding vector for text with the platform embedding model
+ * (EMBEDDING_MODEL). Returns a 1536-dimensional vector
+ *
+ * Embeddings always come from the platform provider rather than the tenant's,
+ * so every stored vector is comparable with every query.
  */
 export async function embedText(text: string): Promise<number[]> {
   try {
-    const response = await openai.embeddings.create({
-      model: 'text-embedding-ada-002',
-      input: text,
-    });
-
-    return response.data[0].embedding;
+    const [embedding] = await llmService.getProvider().embed([text]);
+    return embedding;
   } catch (error) {
     console.error('Error generating embedding:', error);
     throw new Error('Failed to generate embedding');
@@ -28,12 +23,7 @@ export async function embedText(text: string): Promise<number[]> {
  */
 export async function embedTextBatch(texts: string[]): Promise<number[][]> {
   try {
-    const response = await openai.embeddings.create({
-      model: 'text-embedding-ada-002',
-      input: texts,
-    });
-
-    return response.data.map(d => d.embedding);
+    return await llmService.getProvider().embed(texts);
   } catch (error) {
     console.error('Error generating batch embeddings:', error);
     throw new Error('Failed to generate batch embeddings');
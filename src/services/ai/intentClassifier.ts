@@ -0,0 +1,504 @@
+import prisma from '../../db/prisma';
+import { ConversationTurn } from '../../types';
+import { llmService } from './llmService';
+import { redactionService } from '../call/redactionService';
+import { toE164 } from '../crm/phoneNumber';
+
+/**
+ * What the state machine does once an intent is recognized
+ */
+export const INTENT_ACTIONS = ['answer', 'transfer', 'lead_capture', 'end_call'] as const;
+export type IntentAction = typeof INTENT_ACTIONS[number];
+
+export interface IntentDefinition {
+  name: string;
+  description: string;
+  examples: string[];
+  action: IntentAction;
+}
+
+/**
+ * Details collected from callers, in the order they are asked for
+ */
+export const SLOT_NAMES = ['name', 'phone', 'email', 'reason', 'callbackTime'] as const;
+export type SlotName = typeof SLOT_NAMES[number];
+
+export interface SlotValue {
+  value: string;
+  confidence: number;
+}
+
+export type ExtractedSlots = Partial<Record<SlotName, SlotValue>>;
+
+export interface ClassifierInput {
+  tenantId: string;
+  text: string;
+  intents: IntentDefinition[];
+  slots: SlotName[];           // Slots to look for in this utterance
+  expectedSlot?: SlotName;     // Slot the caller was just asked for
+  history?: ConversationTurn[];
+}
+
+export interface IntentClassification {
+  intent: string;
+  action: IntentAction;
+  confidence: number;
+  slots: ExtractedSlots;
+  classifier: string;
+}
+
+export interface IntentClassifier {
+  readonly name: string;
+  // null when this classifier can't run here and the next one should
+  classify(input: ClassifierInput): Promise<IntentClassification | null>;
+}
+
+// Slot values at or above this are taken as-is
+export const SLOT_ACCEPT_CONFIDENCE = 0.75;
+// Between this and SLOT_ACCEPT_CONFIDENCE the caller is asked to confirm
+export const SLOT_CONFIRM_CONFIDENCE = 0.45;
+// Below this the caller is asked to clarify what they need
+export const INTENT_MIN_CONFIDENCE = 0.5;
+
+export const GENERAL_INTENT = 'general';
+
+/**
+ * Intents every tenant has; a tenant intent with the same name replaces one
+ */
+export const SYSTEM_INTENTS: IntentDefinition[] = [
+  {
+    name: 'speak_to_human',
+    description: 'Caller wants to talk to a person, representative, operator or to be transferred',
+    examples: ['can I talk to a real person', 'transfer me please', 'I need a representative'],
+    action: 'transfer',
+  },
+  {
+    name: 'request_callback',
+    description: 'Caller wants someone to call them back or wants to leave their details',
+    examples: ['can someone call me back', 'I want to leave a message', 'have someone get back to me'],
+    action: 'lead_capture',
+  },
+  {
+    name: 'end_conversation',
+    description: 'Caller has nothing else to ask and is wrapping up the call',
+    examples: ["no that's all", "I'm good, thanks", 'goodbye'],
+    action: 'end_call',
+  },
+];
+
+/**
+ * Used for tenants that haven't configured their own intents
+ */
+export const DEFAULT_INTENTS: IntentDefinition[] = [
+  {
+    name: 'sales',
+    description: 'Pricing, quotes, buying or signing up for products and services',
+    examples: ['how much does it cost', 'I want to buy', 'can I get a quote'],
+    action: 'answer',
+  },
+  {
+    name: 'service',
+    description: 'Booking, changing or asking about appointments and service visits',
+    examples: ['I need to schedule an appointment', 'can I book a service', 'reschedule my visit'],
+    action: 'answer',
+  },
+  {
+    name: 'support',
+    description: 'Problems, issues or help with an existing product or service',
+    examples: ["something isn't working", 'I have a problem with my order', 'I need help'],
+    action: 'answer',
+  },
+  {
+    name: 'billing',
+    description: 'Invoices, payments, charges and refunds',
+    examples: ['question about my bill', 'I was charged twice', 'how do I pay my invoice'],
+    action: 'answer',
+  },
+  {
+    name: 'info',
+    description: 'Business hours, location, directions and general information',
+    examples: ['what are your hours', 'where are you located', 'are you open today'],
+    action: 'answer',
+  },
+];
+
+const BUILT_IN_PATTERNS: Record<string, RegExp> = {
+  sales: /sales|buy|purchase|pricing|price|cost|quote/i,
+  service: /service|appointment|schedule|book/i,
+  support: /support|help|issue|problem|broken/i,
+  billing: /billing|invoice|payment|charge|refund/i,
+  info: /hours|open|closed|location|address|directions/i,
+  speak_to_human: /speak (to|with) (a |someone|person|human|representative)|talk (to|with) (a |someone|person|human)|transfer me|real person|\bhuman\b|representative|\bagent\b|operator|connect me/i,
+  request_callback: /call me back|callback|call back|leave (a |my )?(message|number|details|information)|get back to me/i,
+  // Only a whole-utterance "no" counts; "no, I wanted to ask..." is a new question
+  end_conversation: /^\s*(no|nope|nah)?[\s,.!]*(thanks|thank you|that's all|that's it|that is all|nothing else|i'm good|i am good|all set|goodbye|bye)?[\s,.!]*(thanks|thank you|bye|goodbye)?[\s,.!]*$/i,
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'i', 'to', 'my', 'me', 'is', 'it', 'do', 'you', 'your', 'can', 'for',
+  'of', 'and', 'on', 'in', 'what', 'how', 'are', 'am', 'want', 'need', 'with', 'about',
+]);
+
+const NAME_STOP_WORDS = new Set(['and', 'my', 'i', 'number', 'phone', 'email', 'calling', 'from', 'with', 'here']);
+
+const SPOKEN_DIGITS: Record<string, string> = {
+  zero: '0', oh: '0', o: '0', one: '1', two: '2', to: '2', too: '2',
+  three: '3', four: '4', for: '4', five: '5', six: '6',
+  seven: '7', eight: '8', ate: '8', nine: '9',
+};
+
+const BARE_ANSWER = /^\s*(yes|yeah|yep|sure|ok|okay|no|nope|um+|uh+|hm+)[\s.,!?]*$/i;
+
+const DECLINE_PATTERN = /^\s*(no|nope|none|skip|n\/a|i don't have (one|an email)|don't have one|no email|not really|rather not|prefer not)\b/i;
+
+/**
+ * Whether the caller declined to give an optional detail
+ */
+export function isDeclined(text: string): boolean {
+  return DECLINE_PATTERN.test(text);
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().replace(/[^a-z0-9'\s]/g, ' ').split(/\s+/).filter(Boolean);
+}
+
+function clampConfidence(value: any): number {
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.max(0, Math.min(1, number)) : 0;
+}
+
+/**
+ * Pattern-matching classifier. Needs no network, so it is the fallback when
+ * the LLM is unavailable; confidences are fixed per kind of match.
+ */
+export class RegexIntentClassifier implements IntentClassifier {
+  readonly name = 'regex';
+
+  async classify(input: ClassifierInput): Promise<IntentClassification> {
+    const match = this.matchIntent(input.text, input.intents);
+
+    return {
+      ...match,
+      slots: this.extractSlots(input),
+      classifier: this.name,
+    };
+  }
+
+  private matchIntent(text: string, intents: IntentDefinition[]) {
+    const normalized = words(text).join(' ');
+    const inputWords = new Set(words(text).filter(word => !STOP_WORDS.has(word)));
+    let best = { intent: GENERAL_INTENT, action: 'answer' as IntentAction, confidence: 0.3 };
+
+    const consider = (intent: IntentDefinition, confidence: number) => {
+      if (confidence > best.confidence) {
+        best = { intent: intent.name, action: intent.action, confidence };
+      }
+    };
+
+    for (const intent of intents) {
+      // An example phrase said word for word
+      if (intent.examples.some(example => {
+        const phrase = words(example).join(' ');
+        return phrase.length > 0 && normalized.includes(phrase);
+      })) {
+        consider(intent, 0.85);
+        continue;
+      }
+
+      const pattern = BUILT_IN_PATTERNS[intent.name];
+      if (pattern && normalized.length > 0 && pattern.test(text)) {
+        consider(intent, intent.name === 'speak_to_human' || intent.name === 'end_conversation' ? 0.8 : 0.6);
+        continue;
+      }
+
+      // Shared keywords with the examples and description
+      const intentWords = new Set(
+        words([intent.name.replace(/_/g, ' '), intent.description, ...intent.examples].join(' '))
+          .filter(word => !STOP_WORDS.has(word))
+      );
+      const overlap = [...inputWords].filter(word => intentWords.has(word)).length;
+      if (overlap >= 2) consider(intent, 0.55);
+      else if (overlap === 1) consider(intent, 0.4);
+    }
+
+    return best;
+  }
+
+  private extractSlots(input: ClassifierInput): ExtractedSlots {
+    const slots: ExtractedSlots = {};
+    const wanted = new Set(input.slots);
+    const expected = input.expectedSlot;
+
+    if (wanted.has('name')) {
+      const name = this.extractName(input.text, expected === 'name', input.intents);
+      if (name) slots.name = name;
+    }
+    if (wanted.has('phone')) {
+      const phone = this.extractPhone(input.text);
+      if (phone) slots.phone = phone;
+    }
+    if (wanted.has('email')) {
+      const email = this.extractEmail(input.text);
+      if (email) slots.email = email;
+    }
+    if (wanted.has('callbackTime')) {
+      const time = this.extractCallbackTime(input.text);
+      if (time) slots.callbackTime = time;
+    }
+    if (wanted.has('reason') && expected === 'reason' && words(input.text).length > 0 && !BARE_ANSWER.test(input.text)) {
+      slots.reason = {
+        value: input.text.trim(),
+        confidence: words(input.text).length >= 3 ? 0.8 : 0.5,
+      };
+    }
+
+    return slots;
+  }
+
+  private extractName(text: string, expected: boolean, intents: IntentDefinition[]): SlotValue | null {
+    const introduced = text.match(/\b(?:my name is|my name's|call me(?!\s+back\b))\s+([a-z][a-z'\-]*(?:\s+[a-z][a-z'\-]*){0,2})/i);
+    if (introduced) {
+      return { value: this.cleanName(introduced[1]), confidence: 0.85 };
+    }
+
+    // "I'm calling about..." is not a name unless we asked for one
+    if (!expected) return null;
+
+    const answered = text.match(/^\s*(?:this is|i'm|i am|it's|it is)\s+([a-z][a-z'\-]*(?:\s+[a-z][a-z'\-]*){0,2})\s*[.!]?\s*$/i);
+    if (answered) {
+      return { value: this.cleanName(answered[1]), confidence: 0.8 };
+    }
+
+    const cleaned = this.stripTitles(text.replace(/[.,!?]/g, '')).trim();
+    const nameWords = cleaned.split(/\s+/).filter(Boolean);
+    if (nameWords.length === 0 || nameWords.length > 3 || /\d/.test(cleaned)) {
+      return null;
+    }
+
+    // A bare "billing question" is an answer to a different question
+    const vocabulary = new Set(
+      words(intents.map(intent => [intent.name.replace(/_/g, ' '), intent.description, ...intent.examples].join(' ')).join(' '))
+    );
+    if (words(cleaned).some(word => STOP_WORDS.has(word) || NAME_STOP_WORDS.has(word) || vocabulary.has(word))) {
+      return null;
+    }
+
+    return { value: this.cleanName(cleaned), confidence: nameWords.length >= 2 ? 0.8 : 0.65 };
+  }
+
+  private extractPhone(text: string): SlotValue | null {
+    const digits = text.replace(/\D/g, '');
+    const spoken = words(text).map(word => SPOKEN_DIGITS[word] ?? '').join('');
+    const candidate = digits.length >= spoken.length ? digits : spoken;
+
+    const phone = toE164(candidate);
+    if (phone) {
+      return { value: phone, confidence: candidate === digits ? 0.9 : 0.8 };
+    }
+
+    // Some digits, but not a full number
+    if (candidate.length >= 7) return { value: candidate, confidence: 0.4 };
+    if (candidate.length > 0) return { value: candidate, confidence: 0.2 };
+    return null;
+  }
+
+  private extractEmail(text: string): SlotValue | null {
+    const written = text.match(/[\w.+-]+@[\w-]+(\.[\w-]+)+/);
+    if (written) {
+      return { value: written[0].toLowerCase(), confidence: 0.9 };
+    }
+
+    // "john dot smith at gmail dot com"
+    const spoken = text
+      .toLowerCase()
+      .replace(/\s+at\s+/g, '@')
+      .replace(/\s+dot\s+/g, '.')
+      .match(/[\w.+-]+@[\w-]+(\.[\w-]+)+/);
+
+    return spoken ? { value: spoken[0], confidence: 0.6 } : null;
+  }
+
+  private extractCallbackTime(text: string): SlotValue | null {
+    if (/\b(any ?time|whenever|doesn't matter|no preference)\b/i.test(text)) {
+      return { value: 'any time', confidence: 0.85 };
+    }
+
+    const parts = text.match(
+      /\b(today|tomorrow|tonight|this (morning|afternoon|evening)|(mon|tues|wednes|thurs|fri|satur|sun)day|morning|afternoon|evening|(after|before|around|at|by) \d{1,2}(:\d{2})?\s*(am|pm|a\.m\.|p\.m\.)?|\d{1,2}(:\d{2})?\s*(am|pm|a\.m\.|p\.m\.)|noon)\b/gi
+    );
+
+    return parts ? { value: parts.join(' ').toLowerCase(), confidence: 0.75 } : null;
+  }
+
+  /**
+   * Keep only the name from "john and my number is..."
+   */
+  private cleanName(text: string): string {
+    const nameWords: string[] = [];
+    for (const word of this.stripTitles(text).split(/\s+/)) {
+      if (NAME_STOP_WORDS.has(word.toLowerCase())) break;
+      nameWords.push(word);
+    }
+    return this.titleCase(nameWords.join(' '));
+  }
+
+  private stripTitles(text: string): string {
+    return text.replace(/\b(mr|mrs|ms|dr|miss)\.?\s/gi, '').trim();
+  }
+
+  private titleCase(text: string): string {
+    return text.replace(/\b[a-z]/g, letter => letter.toUpperCase());
+  }
+}
+
+/**
+ * Asks the chat model to pick an intent and pull out slots as JSON
+ */
+export class LLMIntentClassifier implements IntentClassifier {
+  readonly name = 'llm';
+
+  async classify(input: ClassifierInput): Promise<IntentClassification | null> {
+    const { provider, model } = await llmService.forTenant(input.tenantId);
+    if (!provider.structuredOutput) return null;
+
+    const redactor = await redactionService.forTenant(input.tenantId);
+    const prompt = this.buildPrompt({
+      ...input,
+      history: input.history?.map(turn => ({ ...turn, text: redactor.redact(turn.text) })),
+    });
+
+    const completion = await provider.chat({
+      model,
+      messages: [
+        { role: 'system', content: prompt },
+        { role: 'user', content: redactor.redact(input.text) },
+      ],
+      temperature: 0,
+      json: true,
+    });
+
+    const result = JSON.parse(completion.content || '{}');
+    const intent = input.intents.find(candidate => candidate.name === result.intent);
+
+    const slots: ExtractedSlots = {};
+    for (const slot of input.slots) {
+      const extracted = result.slots?.[slot];
+      const value = typeof extracted?.value === 'string' ? extracted.value.trim() : '';
+      if (!value) continue;
+
+      let confidence = clampConfidence(extracted.confidence);
+      let normalized = value;
+      if (slot === 'phone') {
+        const phone = toE164(value);
+        if (phone) normalized = phone;
+        else confidence = Math.min(confidence, 0.4);
+      }
+      slots[slot] = { value: normalized, confidence };
+    }
+
+    return {
+      intent: intent?.name ?? GENERAL_INTENT,
+      action: intent?.action ?? 'answer',
+      confidence: intent ? clampConfidence(result.confidence) : Math.min(clampConfidence(result.confidence), 0.3),
+      slots,
+      classifier: this.name,
+    };
+  }
+
+  private buildPrompt(input: ClassifierInput): string {
+    const intents = input.intents
+      .map(intent => `- ${intent.name}: ${intent.description}${intent.examples.length ? ` (e.g. ${intent.examples.map(e => `"${e}"`).join(', ')})` : ''}`)
+      .join('\n');
+
+    const slotDescriptions: Record<SlotName, string> = {
+      name: "caller's name",
+      phone: 'callback phone number, digits only',
+      email: 'email address, spoken "at"/"dot" written as @ and .',
+      reason: 'short reason for the call',
+      callbackTime: 'when the caller wants a callback, in their words',
+    };
+
+    const slots = input.slots.map(slot => `- ${slot}: ${slotDescriptions[slot]}`).join('\n');
+    const recent = (input.history || [])
+      .slice(-4)
+      .map(turn => `${turn.speaker === 'user' ? 'Caller' : 'Receptionist'}: ${turn.text}`)
+      .join('\n');
+
+    return `You classify what a caller said to a business phone receptionist.
+
+INTENTS:
+${intents}
+- ${GENERAL_INTENT}: none of the above
+
+${slots ? `DETAILS TO EXTRACT (only if the caller actually said them):\n${slots}\n` : ''}${input.expectedSlot ? `The receptionist just asked for the caller's ${input.expectedSlot}.\n` : ''}${recent ? `\nRECENT CONVERSATION:\n${recent}\n` : ''}
+Speech recognition may have mangled words. Give honest confidences between 0 and 1; use low confidence when unsure.
+Respond with JSON: {"intent": "<name>", "confidence": <0-1>, "slots": {"<slot>": {"value": "<text>", "confidence": <0-1>}}}`;
+  }
+}
+
+/**
+ * Loads a tenant's intents and classifies caller input, falling back
+ * to the next classifier when one fails.
+ */
+export class IntentService {
+  constructor(private classifiers: IntentClassifier[]) {}
+
+  /**
+   * Replace the classifier chain, e.g. to run without network access
+   */
+  setClassifiers(classifiers: IntentClassifier[]) {
+    this.classifiers = classifiers;
+  }
+
+  async getIntents(tenantId: string): Promise<IntentDefinition[]> {
+    const configured = await prisma.callIntent.findMany({
+      where: { tenantId, isActive: true },
+      orderBy: [{ order: 'asc' }, { name: 'asc' }],
+    });
+
+    const intents: IntentDefinition[] = configured.length > 0
+      ? configured.map(intent => ({
+          name: intent.name,
+          description: intent.description,
+          examples: intent.examples,
+          action: (INTENT_ACTIONS as readonly string[]).includes(intent.action)
+            ? intent.action as IntentAction
+            : 'answer',
+        }))
+      : [...DEFAULT_INTENTS];
+
+    const names = new Set(intents.map(intent => intent.name));
+    return [...intents, ...SYSTEM_INTENTS.filter(intent => !names.has(intent.name))];
+  }
+
+  async classify(
+    tenantId: string,
+    text: string,
+    options: { slots?: SlotName[]; expectedSlot?: SlotName; history?: ConversationTurn[] } = {}
+  ): Promise<IntentClassification> {
+    const input: ClassifierInput = {
+      tenantId,
+      text,
+      intents: await this.getIntents(tenantId),
+      slots: options.slots ?? [],
+      expectedSlot: options.expectedSlot,
+      history: options.history,
+    };
+
+    for (const classifier of this.classifiers) {
+      try {
+        const classification = await classifier.classify(input);
+        if (classification) return classification;
+      } catch (error) {
+        console.error(`Intent classifier ${classifier.name} failed:`, error);
+      }
+    }
+
+    return new RegexIntentClassifier().classify(input);
+  }
+}
+
+export const intentService = new IntentService([
+  new LLMIntentClassifier(),
+  new RegexIntentClassifier(),
+]);
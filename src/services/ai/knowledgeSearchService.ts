@@ -0,0 +1,269 @@
+import prisma from '../../db/prisma';
+import { embedText } from './embeddingService';
+
+// Combined score = VECTOR_WEIGHT * cosine similarity + KEYWORD_WEIGHT * keyword overlap
+export const VECTOR_WEIGHT = 0.6;
+export const KEYWORD_WEIGHT = 0.4;
+// Matches scoring below this are dropped
+export const MIN_MATCH_SCORE = 0.5;
+export const DEFAULT_MATCH_LIMIT = 3;
+
+// Entries embedded per reindex call; the rest wait for the next one
+const REINDEX_BATCH_SIZE = 200;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'you', 'your', 'what', 'when', 'where', 'how', 'can', 'does', 'with',
+  'have', 'has', 'this', 'that', 'about', 'there', 'any', 'our', 'from', 'like', 'would', 'could',
+]);
+
+export type KnowledgeKind = 'faq' | 'knowledge';
+
+export interface KnowledgeMatch {
+  id: string;
+  kind: KnowledgeKind;
+  question: string;
+  answer: string;
+  category?: string;
+  score: number;            // combined, 0-1
+  vectorScore: number | null; // cosine similarity; null when the entry or query has no embedding
+  keywordScore: number;
+  matchedTerms: string[];   // query words found in the entry
+  reason: string;           // why it matched, for the test pages
+}
+
+export interface KnowledgeSearchOptions {
+  limit?: number;
+  threshold?: number;
+  // Query embedding computed by the caller; null searches on keywords alone
+  embedding?: number[] | null;
+}
+
+interface Candidate {
+  id: string;
+  question: string;
+  answer: string;
+  category: string | null;
+  keywords?: string[];
+}
+
+function toVector(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+export class KnowledgeSearchService {
+  /**
+   * Query words worth matching on
+   */
+  terms(query: string): string[] {
+    const words = query.toLowerCase().match(/[a-z0-9']+/g) || [];
+    return [...new Set(words.filter(word => word.length > 2 && !STOP_WORDS.has(word)))];
+  }
+
+  /**
+   * Share of the query's terms found in the entry. Terms matching one of a
+   * knowledge base entry's keywords count double.
+   */
+  keywordScore(terms: string[], candidate: Candidate): { score: number; matchedTerms: string[] } {
+    if (terms.length === 0) {
+      return { score: 0, matchedTerms: [] };
+    }
+
+    const text = `${candidate.question} ${candidate.answer} ${candidate.category || ''}`.toLowerCase();
+    const keywords = (candidate.keywords || []).map(keyword => keyword.toLowerCase());
+
+    let weight = 0;
+    const matchedTerms: string[] = [];
+    for (const term of terms) {
+      if (keywords.some(keyword => keyword.includes(term))) {
+        weight += 2;
+        matchedTerms.push(term);
+      } else if (text.includes(term)) {
+        weight += 1;
+        matchedTerms.push(term);
+      }
+    }
+
+    return { score: Math.min(1, weight / terms.length), matchedTerms };
+  }
+
+  async searchFAQs(tenantId: string, query: string, options: KnowledgeSearchOptions = {}): Promise<KnowledgeMatch[]> {
+    const faqs = await prisma.fAQ.findMany({
+      where: { tenantId, isActive: true },
+      orderBy: [{ category: 'asc' }, { order: 'asc' }],
+    });
+
+    return this.rank('faq', tenantId, query, faqs, options);
+  }
+
+  async searchKnowledgeBase(tenantId: string, query: string, options: KnowledgeSearchOptions = {}): Promise<KnowledgeMatch[]> {
+    const entries = await prisma.knowledgeBaseEntry.findMany({
+      where: { tenantId, isActive: true },
+      orderBy: { priority: 'desc' },
+    });
+
+    return this.rank('knowledge', tenantId, query, entries, options);
+  }
+
+  /**
+   * Score every candidate on both signals, drop those under the threshold
+   * and return the best first. Without a query embedding (provider down) or
+   * an entry embedding (not indexed yet), the keyword score carries the
+   * full weight.
+   */
+  private async rank(
+    kind: KnowledgeKind,
+    tenantId: string,
+    query: string,
+    candidates: Candidate[],
+    options: KnowledgeSearchOptions
+  ): Promise<KnowledgeMatch[]> {
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const threshold = options.threshold ?? MIN_MATCH_SCORE;
+    const terms = this.terms(query);
+    const similarities = await this.similarities(kind, tenantId, query, options.embedding);
+
+    const matches = candidates.map(candidate => {
+      const keyword = this.keywordScore(terms, candidate);
+      const vectorScore = similarities ? similarities.get(candidate.id) ?? null : null;
+      const score = vectorScore === null
+        ? keyword.score
+        : VECTOR_WEIGHT * Math.max(0, vectorScore) + KEYWORD_WEIGHT * keyword.score;
+
+      return {
+        id: candidate.id,
+        kind,
+        question: candidate.question,
+        answer: candidate.answer,
+        category: candidate.category || undefined,
+        score: round(score),
+        vectorScore: vectorScore === null ? null : round(vectorScore),
+        keywordScore: round(keyword.score),
+        matchedTerms: keyword.matchedTerms,
+        reason: '',
+      };
+    });
+
+    return matches
+      .filter(match => match.score >= threshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? DEFAULT_MATCH_LIMIT)
+      .map(match => ({ ...match, reason: this.explain(match, threshold, !!similarities) }));
+  }
+
+  /**
+   * Cosine similarity of the query to each embedded entry, or null if the
+   * query couldn't be embedded
+   */
+  private async similarities(
+    kind: KnowledgeKind,
+    tenantId: string,
+    query: string,
+    queryEmbedding?: number[] | null
+  ): Promise<Map<string, number> | null> {
+    let embedding: number[];
+    if (queryEmbedding !== undefined) {
+      if (!queryEmbedding) {
+        return null;
+      }
+      embedding = queryEmbedding;
+    } else {
+      try {
+        embedding = await embedText(query);
+      } catch (error) {
+        console.error('Knowledge search falling back to keywords:', error);
+        return null;
+      }
+    }
+
+    const vector = toVector(embedding);
+    const rows = kind === 'faq'
+      ? await prisma.$queryRaw<{ id: string; similarity: number }[]>`
+          SELECT id, 1 - (embedding <=> ${vector}::vector) AS similarity
+          FROM "FAQ"
+          WHERE "tenantId" = ${tenantId} AND "isActive" = true AND embedding IS NOT NULL
+        `
+      : await prisma.$queryRaw<{ id: string; similarity: number }[]>`
+          SELECT id, 1 - (embedding <=> ${vector}::vector) AS similarity
+          FROM "KnowledgeBaseEntry"
+          WHERE "tenantId" = ${tenantId} AND "isActive" = true AND embedding IS NOT NULL
+        `;
+
+    return new Map(rows.map(row => [row.id, Number(row.similarity)]));
+  }
+
+  private explain(match: KnowledgeMatch, threshold: number, usedVectors: boolean): string {
+    const parts = [];
+    if (!usedVectors) {
+      parts.push('keyword match only (the query could not be embedded)');
+    } else if (match.vectorScore === null) {
+      parts.push('keyword match only (entry not indexed yet)');
+    } else {
+      parts.push(`semantic similarity ${match.vectorScore}`);
+    }
+    parts.push(match.matchedTerms.length > 0 ? `matched words: ${match.matchedTerms.join(', ')}` : 'no shared words');
+    return `Score ${match.score} (threshold ${threshold}): ${parts.join('; ')}`;
+  }
+
+  // ============================================
+  // EMBEDDINGS
+  // ============================================
+
+  async refreshFAQ(faqId: string) {
+    const faq = await prisma.fAQ.findUnique({ where: { id: faqId } });
+    if (!faq) {
+      return;
+    }
+
+    const embedding = await embedText([faq.category, faq.question, faq.answer].filter(Boolean).join('\n'));
+    await prisma.$executeRaw`UPDATE "FAQ" SET embedding = ${toVector(embedding)}::vector WHERE id = ${faq.id}`;
+  }
+
+  async refreshKnowledgeEntry(entryId: string) {
+    const entry = await prisma.knowledgeBaseEntry.findUnique({ where: { id: entryId } });
+    if (!entry) {
+      return;
+    }
+
+    const embedding = await embedText(
+      [entry.category, entry.question, entry.answer, entry.keywords.join(', ')].filter(Boolean).join('\n')
+    );
+    await prisma.$executeRaw`UPDATE "KnowledgeBaseEntry" SET embedding = ${toVector(embedding)}::vector WHERE id = ${entry.id}`;
+  }
+
+  /**
+   * Embed entries that have none yet: ones created before search was
+   * vector-based, or whose refresh failed
+   */
+  async reindex(tenantId: string): Promise<{ faqs: number; entries: number; remaining: number }> {
+    const faqs = await prisma.$queryRaw<{ id: string }[]>`
+      SELECT id FROM "FAQ" WHERE "tenantId" = ${tenantId} AND embedding IS NULL LIMIT ${REINDEX_BATCH_SIZE}
+    `;
+    const entries = await prisma.$queryRaw<{ id: string }[]>`
+      SELECT id FROM "KnowledgeBaseEntry" WHERE "tenantId" = ${tenantId} AND embedding IS NULL LIMIT ${REINDEX_BATCH_SIZE}
+    `;
+
+    for (const faq of faqs) {
+      await this.refreshFAQ(faq.id);
+    }
+    for (const entry of entries) {
+      await this.refreshKnowledgeEntry(entry.id);
+    }
+
+    const [remaining] = await prisma.$queryRaw<{ count: bigint }[]>`
+      SELECT
+        (SELECT COUNT(*) FROM "FAQ" WHERE "tenantId" = ${tenantId} AND embedding IS NULL) +
+        (SELECT COUNT(*) FROM "KnowledgeBaseEntry" WHERE "tenantId" = ${tenantId} AND embedding IS NULL) AS count
+    `;
+
+    return { faqs: faqs.length, entries: entries.length, remaining: Number(remaining.count) };
+  }
+}
+
+export const knowledgeSearchService = new KnowledgeSearchService();
@@ -0,0 +1,119 @@
+import prisma from '../../db/prisma';
+import { env } from '../../config/env';
+import { LLM_PROVIDERS, LLMProvider, LLMProviderName, SpeechProvider } from './providers/llmProvider';
+import { OpenAIProvider } from './providers/openAIProvider';
+import { MockLLMProvider } from './providers/mockProvider';
+
+export interface ResolvedModel {
+  provider: LLMProvider;
+  model: string;
+}
+
+/**
+ * Picks the LLM provider and model for each request. Tenants can choose
+ * their own in the receptionist config; LLM_PROVIDER=mock overrides every
+ * tenant so nothing reaches the network.
+ */
+class LLMService {
+  private providers = new Map<LLMProviderName, LLMProvider>();
+
+  /**
+   * Providers are created on first use so unused ones need no configuration
+   */
+  getProvider(name: LLMProviderName = env.LLM_PROVIDER): LLMProvider {
+    let provider = this.providers.get(name);
+    if (!provider) {
+      provider = this.createProvider(name);
+      this.providers.set(name, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Speech always uses OpenAI, since OpenAI-compatible servers rarely serve
+   * audio, except under LLM_PROVIDER=mock
+   */
+  getSpeechProvider(): SpeechProvider {
+    return env.LLM_PROVIDER === 'mock'
+      ? this.getProvider('mock') as MockLLMProvider
+      : this.getProvider('openai') as OpenAIProvider;
+  }
+
+  /**
+   * Replace a provider, e.g. a mock with scripted replies
+   */
+  setProvider(provider: LLMProvider) {
+    this.providers.set(provider.name, provider);
+  }
+
+  isConfigured(name: LLMProviderName): boolean {
+    switch (name) {
+      case 'openai':
+        return !!env.OPENAI_API_KEY;
+      case 'local':
+        return !!env.LOCAL_LLM_BASE_URL;
+      case 'mock':
+        return true;
+    }
+  }
+
+  /**
+   * Provider and model for a receptionist config, falling back to the platform default
+   */
+  resolve(config?: { llmProvider?: string | null; llmModel?: string | null } | null): ResolvedModel {
+    const requested = config?.llmProvider as LLMProviderName | undefined;
+
+    if (
+      env.LLM_PROVIDER !== 'mock' &&
+      requested &&
+      (LLM_PROVIDERS as readonly string[]).includes(requested) &&
+      this.isConfigured(requested)
+    ) {
+      const provider = this.getProvider(requested);
+      return { provider, model: config?.llmModel || provider.defaultModel };
+    }
+
+    if (requested && requested !== env.LLM_PROVIDER && env.LLM_PROVIDER !== 'mock') {
+      console.error(`LLM provider ${requested} is not configured, using ${env.LLM_PROVIDER}`);
+    }
+
+    const provider = this.getProvider();
+    const sameProvider = !requested || requested === provider.name;
+    return { provider, model: (sameProvider && config?.llmModel) || provider.defaultModel };
+  }
+
+  async forTenant(tenantId: string): Promise<ResolvedModel> {
+    const config = await prisma.receptionistConfig.findUnique({
+      where: { tenantId },
+      select: { llmProvider: true, llmModel: true },
+    });
+
+    return this.resolve(config);
+  }
+
+  private createProvider(name: LLMProviderName): LLMProvider {
+    switch (name) {
+      case 'openai':
+        return new OpenAIProvider({
+          name,
+          apiKey: env.OPENAI_API_KEY,
+          defaultModel: env.OPENAI_MODEL,
+          embeddingModel: env.EMBEDDING_MODEL,
+        });
+
+      case 'local':
+        return new OpenAIProvider({
+          name,
+          apiKey: env.LOCAL_LLM_API_KEY,
+          baseURL: env.LOCAL_LLM_BASE_URL,
+          defaultModel: env.LOCAL_LLM_MODEL || env.OPENAI_MODEL,
+          embeddingModel: env.LOCAL_EMBEDDING_MODEL || env.EMBEDDING_MODEL,
+        });
+
+      case 'mock':
+        return new MockLLMProvider();
+    }
+  }
+}
+
+export const llmService = new LLMService();
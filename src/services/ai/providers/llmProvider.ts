@@ -0,0 +1,82 @@
+export const LLM_PROVIDERS = ['openai', 'local', 'mock'] as const;
+export type LLMProviderName = typeof LLM_PROVIDERS[number];
+
+// Stored embeddings are vector(1536); every provider's embeddings must match
+export const EMBEDDING_DIMENSIONS = 1536;
+
+// Synthesized speech is 16-bit mono PCM at this rate
+export const SPEECH_SAMPLE_RATE = 24000;
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  toolCalls?: ToolCall[];   // assistant turns that requested tools
+  toolCallId?: string;      // tool turns answering one of them
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;   // JSON schema
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;   // reply must be a JSON object
+}
+
+export interface ChatResult {
+  content: string | null;
+  toolCalls: ToolCall[];
+}
+
+export interface CallAnalysis {
+  summary: string;
+  intent: string;
+  sentiment: string;
+  actionItems: string[];
+}
+
+/**
+ * A source of chat completions, embeddings and call summaries
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  readonly structuredOutput: boolean;   // honours ChatRequest.json
+  chat(request: ChatRequest): Promise<ChatResult>;
+  embed(texts: string[]): Promise<number[][]>;
+  summarize(transcript: string, model: string): Promise<CallAnalysis>;
+}
+
+export interface TranscriptionHandlers {
+  onPartial?: (text: string) => void;   // the turn so far, as the caller speaks
+  onFinal: (text: string) => void;      // the whole turn, once the caller pauses
+}
+
+/**
+ * Live recognition of one call's audio
+ */
+export interface TranscriptionStream {
+  push(payload: string): void;   // a base64 8kHz μ-law frame, as Twilio sends it
+  close(): void;
+}
+
+/**
+ * Speech to text and text to speech
+ */
+export interface SpeechProvider {
+  transcribe(audio: Buffer, filename: string): Promise<string>;
+  startTranscription(handlers: TranscriptionHandlers): TranscriptionStream;
+  synthesize(text: string, voice: string, signal?: AbortSignal): AsyncIterable<Uint8Array>;
+}
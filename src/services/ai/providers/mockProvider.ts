@@ -0,0 +1,165 @@
+import {
+  CallAnalysis,
+  ChatRequest,
+  ChatResult,
+  EMBEDDING_DIMENSIONS,
+  LLMProvider,
+  SPEECH_SAMPLE_RATE,
+  SpeechProvider,
+  ToolCall,
+  TranscriptionHandlers,
+  TranscriptionStream,
+} from './llmProvider';
+
+export interface MockReply {
+  match: RegExp;                                                // tested against the latest user message
+  content?: string;
+  toolCall?: { name: string; arguments: Record<string, any> };
+}
+
+const DEFAULT_REPLY = "I can help with that. Could you tell me a little more?";
+
+// Only the latest chat requests are kept for inspection
+const MAX_RECORDED_REQUESTS = 50;
+const SPEECH_MS_PER_CHARACTER = 60;
+
+/**
+ * Deterministic stand-in that never touches the network, so the whole call
+ * path can run in CI. The same input always produces the same output:
+ * questions go to a tool when one fits, tool results are read back as the
+ * answer, and embeddings are hashed bags of words so similar text still
+ * scores as similar. Speech is silence as long as the text would take to
+ * say, and recognition never hears anything.
+ */
+export class MockLLMProvider implements LLMProvider, SpeechProvider {
+  readonly name = 'mock' as const;
+  readonly defaultModel = 'mock';
+  readonly structuredOutput = false;
+  readonly requests: ChatRequest[] = [];
+  private replies: MockReply[];
+  private toolCallCount = 0;
+
+  constructor(replies: MockReply[] = []) {
+    this.replies = replies;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    this.requests.push(request);
+    if (this.requests.length > MAX_RECORDED_REQUESTS) {
+      this.requests.shift();
+    }
+
+    // Callers check structuredOutput and use their non-LLM path instead
+    if (request.json) {
+      throw new Error('Mock provider does not produce structured output');
+    }
+
+    const last = request.messages[request.messages.length - 1];
+    const userText = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+
+    // Answer from whatever the tools returned
+    if (last?.role === 'tool') {
+      const results = request.messages
+        .slice(request.messages.findIndex(message => message.toolCalls?.length) + 1)
+        .filter(message => message.role === 'tool')
+        .map(message => message.content || '');
+      return { content: results.join(' ').slice(0, 300), toolCalls: [] };
+    }
+
+    const scripted = this.replies.find(reply => reply.match.test(userText));
+    if (scripted) {
+      return {
+        content: scripted.content ?? null,
+        toolCalls: scripted.toolCall ? [this.toolCall(scripted.toolCall.name, scripted.toolCall.arguments)] : [],
+      };
+    }
+
+    const tool = this.pickTool(request, userText);
+    if (tool) {
+      return { content: null, toolCalls: [tool] };
+    }
+
+    return { content: DEFAULT_REPLY, toolCalls: [] };
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  async summarize(transcript: string, model: string): Promise<CallAnalysis> {
+    const callerLines = transcript
+      .split('\n')
+      .filter(line => line.startsWith('USER:'))
+      .map(line => line.slice('USER:'.length).trim());
+
+    return {
+      summary: callerLines.length > 0
+        ? `Caller said: ${callerLines.slice(0, 2).join(' ')}`.slice(0, 300)
+        : 'Call completed',
+      intent: callerLines[0] ? callerLines[0].split(/[.?!]/)[0].toLowerCase() : 'general inquiry',
+      sentiment: 'neutral',
+      actionItems: /call (me )?back|callback/i.test(transcript) ? ['Call the customer back'] : [],
+    };
+  }
+
+  async transcribe(audio: Buffer, filename: string): Promise<string> {
+    return `Mock transcript of ${filename}`;
+  }
+
+  startTranscription(handlers: TranscriptionHandlers): TranscriptionStream {
+    return { push: () => undefined, close: () => undefined };
+  }
+
+  async *synthesize(text: string, voice: string, signal?: AbortSignal): AsyncIterable<Uint8Array> {
+    const samples = Math.round((text.length * SPEECH_MS_PER_CHARACTER / 1000) * SPEECH_SAMPLE_RATE);
+    const chunk = new Uint8Array(SPEECH_SAMPLE_RATE / 10 * 2);   // 100ms
+
+    for (let sent = 0; sent < samples && !signal?.aborted; sent += chunk.length / 2) {
+      yield chunk.subarray(0, Math.min(chunk.length, (samples - sent) * 2));
+    }
+  }
+
+  /**
+   * Hours questions check the schedule; anything else searches with the caller's words
+   */
+  private pickTool(request: ChatRequest, userText: string): ToolCall | null {
+    const tools = request.tools || [];
+
+    const hours = tools.find(tool => tool.name === 'check_business_hours');
+    if (hours && /\b(hours|open|close[sd]?)\b/i.test(userText)) {
+      return this.toolCall(hours.name, {});
+    }
+
+    const search = tools.find(tool => tool.parameters?.properties?.query);
+    return search && userText ? this.toolCall(search.name, { query: userText }) : null;
+  }
+
+  private toolCall(name: string, args: Record<string, any>): ToolCall {
+    return { id: `mock_call_${++this.toolCallCount}`, name, arguments: args };
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    const tokens = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+
+    for (const token of tokens) {
+      const hash = this.hash(token);
+      vector[hash % EMBEDDING_DIMENSIONS] += (hash >>> 31) ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map(value => value / norm);
+  }
+
+  /**
+   * FNV-1a
+   */
+  private hash(token: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < token.length; i++) {
+      hash ^= token.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,187 @@
+import OpenAI, { toFile } from 'openai';
+import {
+  CallAnalysis,
+  ChatMessage,
+  ChatRequest,
+  ChatResult,
+  EMBEDDING_DIMENSIONS,
+  LLMProvider,
+  LLMProviderName,
+  SpeechProvider,
+  ToolCall,
+  TranscriptionHandlers,
+  TranscriptionStream,
+} from './llmProvider';
+import { OpenAITranscriber } from './openAITranscriber';
+
+const SUMMARY_PROMPT = `You are an expert at analyzing phone call transcripts.
+            Provide a concise summary, identify the caller's intent, determine sentiment (positive/neutral/negative),
+            and list any action items. Return as JSON with keys: summary, intent, sentiment, actionItems (array).`;
+
+export interface OpenAIProviderOptions {
+  name: LLMProviderName;
+  apiKey?: string;
+  baseURL?: string;        // set for OpenAI-compatible servers
+  defaultModel: string;
+  embeddingModel: string;
+}
+
+/**
+ * OpenAI, or any server that speaks the OpenAI API (Ollama, vLLM, LM Studio...).
+ * Speech uses OpenAI's audio models and realtime API, so only works against OpenAI.
+ */
+export class OpenAIProvider implements LLMProvider, SpeechProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  readonly structuredOutput = true;
+  private embeddingModel: string;
+  private apiKey: string;
+  private client: OpenAI;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.defaultModel = options.defaultModel;
+    this.embeddingModel = options.embeddingModel;
+    // Local servers usually ignore the key, but the SDK insists on one
+    this.apiKey = options.apiKey || 'not-needed';
+    this.client = new OpenAI({
+      apiKey: this.apiKey,
+      baseURL: options.baseURL,
+    });
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    const completion = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages.map(message => this.toOpenAIMessage(message)),
+      tools: request.tools?.length
+        ? request.tools.map(tool => ({ type: 'function' as const, function: tool }))
+        : undefined,
+      tool_choice: request.tools?.length ? 'auto' : undefined,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: request.json ? { type: 'json_object' } : undefined,
+    });
+
+    const message = completion.choices[0]?.message;
+
+    return {
+      content: message?.content ?? null,
+      toolCalls: (message?.tool_calls || []).map(toolCall => ({
+        id: toolCall.id,
+        name: toolCall.function.name,
+        arguments: this.parseArguments(toolCall.function.arguments),
+      })),
+    };
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.embeddingModel,
+      input: texts,
+    });
+
+    const embeddings = response.data.map(d => d.embedding);
+
+    const mismatched = embeddings.find(embedding => embedding.length !== EMBEDDING_DIMENSIONS);
+    if (mismatched) {
+      throw new Error(
+        `Embedding model ${this.embeddingModel} returns ${mismatched.length}-dimensional vectors, ` +
+        `but stored embeddings are ${EMBEDDING_DIMENSIONS}-dimensional. Set an embedding model with ` +
+        `${EMBEDDING_DIMENSIONS} dimensions.`
+      );
+    }
+
+    return embeddings;
+  }
+
+  async summarize(transcript: string, model: string): Promise<CallAnalysis> {
+    const result = await this.chat({
+      model,
+      messages: [
+        { role: 'system', content: SUMMARY_PROMPT },
+        { role: 'user', content: transcript },
+      ],
+      temperature: 0.3,
+      json: true,
+    });
+
+    const analysis = JSON.parse(result.content || '{}');
+
+    return {
+      summary: analysis.summary || 'Call completed',
+      intent: analysis.intent || 'general inquiry',
+      sentiment: analysis.sentiment || 'neutral',
+      actionItems: analysis.actionItems || [],
+    };
+  }
+
+  async transcribe(audio: Buffer, filename: string): Promise<string> {
+    const file = await toFile(audio, filename, { type: 'audio/mpeg' });
+    const result = await this.client.audio.transcriptions.create({
+      file,
+      model: 'whisper-1',
+      language: 'en',
+    });
+
+    return result.text.trim();
+  }
+
+  startTranscription(handlers: TranscriptionHandlers): TranscriptionStream {
+    return new OpenAITranscriber(this.apiKey, handlers);
+  }
+
+  async *synthesize(text: string, voice: string, signal?: AbortSignal): AsyncIterable<Uint8Array> {
+    const response = await this.client.audio.speech.create(
+      {
+        model: 'tts-1',
+        voice: voice as OpenAI.Audio.SpeechCreateParams['voice'],
+        input: text,
+        response_format: 'pcm',
+      },
+      { signal }
+    );
+
+    yield* response.body as unknown as AsyncIterable<Uint8Array>;
+  }
+
+  private toOpenAIMessage(message: ChatMessage): OpenAI.ChatCompletionMessageParam {
+    switch (message.role) {
+      case 'tool':
+        return { role: 'tool', tool_call_id: message.toolCallId || '', content: message.content || '' };
+
+      case 'assistant':
+        return {
+          role: 'assistant',
+          content: message.content,
+          tool_calls: message.toolCalls?.length
+            ? message.toolCalls.map(toolCall => this.toOpenAIToolCall(toolCall))
+            : undefined,
+        };
+
+      default:
+        return { role: message.role, content: message.content || '' };
+    }
+  }
+
+  private toOpenAIToolCall(toolCall: ToolCall): OpenAI.ChatCompletionMessageToolCall {
+    return {
+      id: toolCall.id,
+      type: 'function',
+      function: { name: toolCall.name, arguments: JSON.stringify(toolCall.arguments) },
+    };
+  }
+
+  /**
+   * Models occasionally emit malformed arguments; treat them as empty
+   */
+  private parseArguments(raw: string): Record<string, any> {
+    try {
+      const parsed = JSON.parse(raw || '{}');
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (error) {
+      console.error('Invalid tool call arguments:', raw);
+      return {};
+    }
+  }
+}
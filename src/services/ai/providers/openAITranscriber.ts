@@ -0,0 +1,123 @@
+import WebSocket from 'ws';
+import { TranscriptionHandlers, TranscriptionStream } from './llmProvider';
+
+const REALTIME_TRANSCRIPTION_URL = 'wss://api.openai.com/v1/realtime?intent=transcription';
+const TRANSCRIPTION_MODEL = 'gpt-4o-transcribe';
+const SILENCE_DURATION_MS = 600;   // pause that ends a caller's turn
+const MAX_PENDING_FRAMES = 250;    // ~5s of audio held while the socket connects
+
+/**
+ * Incremental speech recognition for one call over the OpenAI Realtime
+ * transcription API. Takes Twilio's 8kHz μ-law frames as they arrive; the
+ * service detects turns and sends text back while the caller is still
+ * talking, so a reply can start as soon as they pause.
+ */
+export class OpenAITranscriber implements TranscriptionStream {
+  private ws: WebSocket;
+  private pending: string[] = [];
+  private partials = new Map<string, string>();
+  private closed = false;
+
+  constructor(apiKey: string, private handlers: TranscriptionHandlers) {
+    this.ws = new WebSocket(REALTIME_TRANSCRIPTION_URL, {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'OpenAI-Beta': 'realtime=v1',
+      },
+    });
+
+    this.ws.on('open', () => this.handleOpen());
+    this.ws.on('message', (data) => this.handleMessage(data.toString()));
+    this.ws.on('error', (error) => console.error('Transcription socket error:', error));
+    this.ws.on('close', () => {
+      if (!this.closed) {
+        console.error('Transcription socket closed unexpectedly');
+      }
+      this.closed = true;
+    });
+  }
+
+  /**
+   * Queue a base64 μ-law frame, exactly as it came from Twilio
+   */
+  push(payload: string) {
+    if (this.closed) return;
+
+    if (this.ws.readyState !== WebSocket.OPEN) {
+      this.pending.push(payload);
+      if (this.pending.length > MAX_PENDING_FRAMES) {
+        this.pending.shift();
+      }
+      return;
+    }
+
+    this.send({ type: 'input_audio_buffer.append', audio: payload });
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.pending = [];
+    this.ws.close();
+  }
+
+  private handleOpen() {
+    this.send({
+      type: 'transcription_session.update',
+      session: {
+        input_audio_format: 'g711_ulaw',
+        input_audio_transcription: { model: TRANSCRIPTION_MODEL, language: 'en' },
+        turn_detection: { type: 'server_vad', silence_duration_ms: SILENCE_DURATION_MS },
+      },
+    });
+
+    for (const payload of this.pending.splice(0)) {
+      this.send({ type: 'input_audio_buffer.append', audio: payload });
+    }
+  }
+
+  private handleMessage(raw: string) {
+    let event: any;
+    try {
+      event = JSON.parse(raw);
+    } catch (error) {
+      console.error('Invalid transcription message');
+      return;
+    }
+
+    switch (event.type) {
+      case 'conversation.item.input_audio_transcription.delta': {
+        const text = (this.partials.get(event.item_id) ?? '') + (event.delta ?? '');
+        this.partials.set(event.item_id, text);
+        if (text.trim()) {
+          this.handlers.onPartial?.(text.trim());
+        }
+        break;
+      }
+
+      case 'conversation.item.input_audio_transcription.completed': {
+        this.partials.delete(event.item_id);
+        const text = (event.transcript ?? '').trim();
+        if (text) {
+          this.handlers.onFinal(text);
+        }
+        break;
+      }
+
+      case 'conversation.item.input_audio_transcription.failed':
+        this.partials.delete(event.item_id);
+        console.error('Transcription failed:', event.error?.message ?? event.error);
+        break;
+
+      case 'error':
+        console.error('Transcription error:', event.error?.message ?? event.error);
+        break;
+    }
+  }
+
+  private send(message: Record<string, any>) {
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+}
@@ -1,14 +1,50 @@
 import prisma from '../../db/prisma';
 import { embedText } from './embeddingService';
 
-interface RelevantContext {
+export const DEFAULT_SEARCH_LIMIT = 8;
+// Tenants with at most this many chunks are searched exactly; the HNSW
+// index is only worth it, and only needed, past this
+export const EXACT_SEARCH_MAX_CHUNKS = 10000;
+// Candidates the HNSW index gathers per query. Other tenants' chunks are
+// filtered out after the index scan, so this is well above any limit.
+export const HNSW_EF_SEARCH = 200;
+// First pgvector release that can keep scanning the index until enough rows
+// pass the tenant filter (hnsw.iterative_scan)
+const ITERATIVE_SCAN_VERSION = [0, 8];
+
+export interface RelevantContext {
+  id: string;
+  documentId: string | null; // set for chunks of uploaded documents
   content: string;
-  url: string;
+  url: string;          // file name for documents
   title: string;
+  tokenCount: number;
   similarity: number;
 }
 
+export interface SearchSettings {
+  limit: number;
+  minSimilarity: number;
+}
+
 export class RAGService {
+  private iterativeScan: Promise<boolean> | null = null;
+
+  /**
+   * The tenant's chunk limit and similarity threshold
+   */
+  async getSearchSettings(tenantId: string): Promise<SearchSettings> {
+    const config = await prisma.receptionistConfig.findUnique({
+      where: { tenantId },
+      select: { vectorSearchLimit: true, vectorMinSimilarity: true },
+    });
+
+    return {
+      limit: config?.vectorSearchLimit ?? DEFAULT_SEARCH_LIMIT,
+      minSimilarity: config?.vectorMinSimilarity ?? 0,
+    };
+  }
+
   /**
    * Perform semantic search to find relevant website content
    * Uses cosine distance for vector similarity
@@ -16,43 +52,129 @@ export class RAGService {
   async semanticSearch(
     query: string,
     tenantId: string,
-    limit: number = 5
+    limit: number = DEFAULT_SEARCH_LIMIT,
+    embedding?: number[],
+    minSimilarity: number = 0
   ): Promise<RelevantContext[]> {
     try {
-      // Generate embedding for the query
-      const queryEmbedding = await embedText(query);
+      // Generate embedding for the query, unless the caller already has one
+      const queryEmbedding = embedding || await embedText(query);
 
       // Convert to PostgreSQL vector format
       const vectorString = `[${queryEmbedding.join(',')}]`;
 
-      // Perform vector similarity search using cosine distance
-      // <-> is the cosine distance operator in pgvector
-      const results = await prisma.$queryRaw<any[]>`
-        SELECT 
+      const chunkCount = await prisma.websiteContent.count({ where: { tenantId } });
+      const results = chunkCount <= EXACT_SEARCH_MAX_CHUNKS
+        ? await this.exactSearch(tenantId, vectorString, limit)
+        : await this.indexedSearch(tenantId, vectorString, limit);
+
+      // Convert distance to similarity score (0-1, higher is better)
+      return results
+        .map(r => ({
+          id: r.id,
+          documentId: r.documentId,
+          content: r.content,
+          url: r.url,
+          title: r.title,
+          tokenCount: r.tokenCount,
+          similarity: 1 - Number(r.distance), // Convert distance to similarity
+        }))
+        .filter(r => r.similarity >= minSimilarity);
+    } catch (error) {
+      console.error('Semantic search error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Rank every chunk the tenant has. The tenant's rows are read through the
+   * tenantId index first so the HNSW index isn't used for a small tenant,
+   * where filtering its results would drop most of them.
+   * <=> is the cosine distance operator in pgvector
+   */
+  exactSearch(tenantId: string, vectorString: string, limit: number) {
+    return prisma.$queryRaw<any[]>`
+      WITH tenant_chunks AS MATERIALIZED (
+        SELECT id, "documentId", url, title, content, "chunkIndex", "tokenCount", embedding
+        FROM "WebsiteContent"
+        WHERE "tenantId" = ${tenantId} AND embedding IS NOT NULL
+      )
+      SELECT
+        id,
+        "documentId",
+        url,
+        title,
+        content,
+        "chunkIndex",
+        "tokenCount",
+        (embedding <=> ${vectorString}::vector) as distance
+      FROM tenant_chunks
+      ORDER BY distance
+      LIMIT ${limit}
+    `;
+  }
+
+  /**
+   * Approximate search through the HNSW index, for tenants with many chunks.
+   * Other tenants' chunks are filtered out after the scan, so a tenant that
+   * is a small share of a large table can come back short; with pgvector
+   * 0.8 the scan continues until enough rows pass, and otherwise a short
+   * result falls back to the exact search.
+   */
+  async indexedSearch(tenantId: string, vectorString: string, limit: number) {
+    const settings = [
+      prisma.$executeRawUnsafe(`SET LOCAL hnsw.ef_search = ${Math.max(HNSW_EF_SEARCH, Math.floor(limit))}`),
+    ];
+    if (await this.supportsIterativeScan()) {
+      settings.push(prisma.$executeRawUnsafe('SET LOCAL hnsw.iterative_scan = relaxed_order'));
+    }
+
+    // relaxed_order can return rows slightly out of order, so they are sorted again
+    const search = prisma.$queryRaw<any[]>`
+      WITH nearest AS MATERIALIZED (
+        SELECT
           id,
+          "documentId",
           url,
           title,
           content,
           "chunkIndex",
           "tokenCount",
-          (embedding <-> ${vectorString}::vector) as distance
+          (embedding <=> ${vectorString}::vector) as distance
         FROM "WebsiteContent"
         WHERE "tenantId" = ${tenantId}
-        ORDER BY embedding <-> ${vectorString}::vector
+        ORDER BY embedding <=> ${vectorString}::vector
         LIMIT ${limit}
-      `;
+      )
+      SELECT * FROM nearest ORDER BY distance
+    `;
+    const results = (await prisma.$transaction([...settings, search])).pop() as any[];
 
-      // Convert distance to similarity score (0-1, higher is better)
-      return results.map(r => ({
-        content: r.content,
-        url: r.url,
-        title: r.title,
-        similarity: 1 - r.distance, // Convert distance to similarity
-      }));
-    } catch (error) {
-      console.error('Semantic search error:', error);
-      return [];
+    if (results.length < limit) {
+      return this.exactSearch(tenantId, vectorString, limit);
+    }
+    return results;
+  }
+
+  /**
+   * Whether the installed pgvector has hnsw.iterative_scan. Older versions
+   * reject the setting, so it is only sent when available.
+   */
+  private supportsIterativeScan(): Promise<boolean> {
+    if (!this.iterativeScan) {
+      this.iterativeScan = prisma.$queryRaw<{ extversion: string }[]>`
+        SELECT extversion FROM pg_extension WHERE extname = 'vector'
+      `.then(([extension]) => {
+        const [major = 0, minor = 0] = (extension?.extversion || '').split('.').map(Number);
+        const [minMajor, minMinor] = ITERATIVE_SCAN_VERSION;
+        return major > minMajor || (major === minMajor && minor >= minMinor);
+      }).catch(error => {
+        console.error('Error reading the pgvector version:', error);
+        this.iterativeScan = null;
+        return false;
+      });
     }
+    return this.iterativeScan;
   }
 
   /**
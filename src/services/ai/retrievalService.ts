@@ -0,0 +1,233 @@
+import { CallContext } from '../../types';
+import { callService } from '../call/callService';
+import { embedText } from './embeddingService';
+import { ragService } from './ragService';
+import {
+  knowledgeSearchService,
+  KnowledgeMatch,
+  KEYWORD_WEIGHT,
+  MIN_MATCH_SCORE,
+  VECTOR_WEIGHT,
+} from './knowledgeSearchService';
+
+// Prompt space for retrieved sources, in estimated tokens
+export const DEFAULT_TOKEN_BUDGET = 1200;
+export const MAX_SOURCES = 6;
+// FAQ and knowledge base candidates before re-ranking. Website and
+// document chunks follow the tenant's search settings.
+const CANDIDATES_PER_SOURCE = 8;
+// Sources sharing this much of their wording (Jaccard over words) count as one
+const DUPLICATE_SIMILARITY = 0.85;
+const CHARS_PER_TOKEN = 4;
+// Curated answers win over a website chunk with the same score
+const SOURCE_BOOST: Record<SourceType, number> = { faq: 0.05, knowledge: 0.05, website: 0, document: 0 };
+// Characters of each source kept in the CallEvent
+const EXCERPT_LENGTH = 200;
+
+export type SourceType = 'faq' | 'knowledge' | 'website' | 'document';
+
+export interface RetrievedSource {
+  type: SourceType;
+  id: string;
+  title: string;   // FAQ or entry question, page or document title
+  url?: string;
+  content: string; // as given to the model
+  score: number;
+  tokens: number;
+}
+
+export interface RetrievalResult {
+  query: string;
+  sources: RetrievedSource[];
+  context: string; // numbered sources for the prompt; empty when nothing matched
+  tokens: number;
+  duplicates: number;
+  overBudget: number;
+}
+
+export interface RetrievalOptions {
+  tokenBudget?: number;
+  maxSources?: number;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9]+/g) || []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 1;
+  }
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+const SOURCE_LABELS: Record<SourceType, string> = {
+  faq: 'FAQ',
+  knowledge: 'Knowledge Base',
+  website: 'Website',
+  document: 'Document',
+};
+
+export class RetrievalService {
+  /**
+   * Best sources across the tenant's FAQs, knowledge base and website,
+   * ranked on one scale, without near-duplicates and within the token budget
+   */
+  async retrieve(tenantId: string, query: string, options: RetrievalOptions = {}): Promise<RetrievalResult> {
+    const tokenBudget = options.tokenBudget ?? DEFAULT_TOKEN_BUDGET;
+    const maxSources = options.maxSources ?? MAX_SOURCES;
+
+    // One embedding for every source
+    const [settings, embedding] = await Promise.all([
+      ragService.getSearchSettings(tenantId),
+      embedText(query).catch(error => {
+        console.error('Retrieval falling back to keywords:', error);
+        return null;
+      }),
+    ]);
+
+    const searchOptions = { limit: CANDIDATES_PER_SOURCE, embedding };
+    const [faqs, entries, pages] = await Promise.all([
+      knowledgeSearchService.searchFAQs(tenantId, query, searchOptions),
+      knowledgeSearchService.searchKnowledgeBase(tenantId, query, searchOptions),
+      embedding
+        ? ragService.semanticSearch(query, tenantId, settings.limit, embedding, settings.minSimilarity)
+        : Promise.resolve([]),
+    ]);
+
+    // Website and document chunks get the same blend of similarity and
+    // keyword overlap as FAQs
+    const terms = knowledgeSearchService.terms(query);
+    const chunkSources = pages
+      .map(page => {
+        const keyword = knowledgeSearchService.keywordScore(terms, {
+          id: page.id,
+          question: page.title || '',
+          answer: page.content,
+          category: null,
+        });
+        return {
+          type: page.documentId ? 'document' as const : 'website' as const,
+          id: page.id,
+          title: page.title || page.url,
+          url: page.documentId ? undefined : page.url,
+          content: page.content,
+          score: VECTOR_WEIGHT * Math.max(0, page.similarity) + KEYWORD_WEIGHT * keyword.score,
+          tokens: page.tokenCount || estimateTokens(page.content),
+        };
+      })
+      .filter(source => source.score >= MIN_MATCH_SCORE);
+
+    const ranked = [...faqs, ...entries]
+      .map(match => this.fromMatch(match))
+      .concat(chunkSources)
+      .map(source => ({ ...source, score: round(source.score + SOURCE_BOOST[source.type]) }))
+      .sort((a, b) => b.score - a.score);
+
+    const sources: RetrievedSource[] = [];
+    const kept: Set<string>[] = [];
+    let tokens = 0;
+    let duplicates = 0;
+    let overBudget = 0;
+
+    for (const source of ranked) {
+      if (sources.length >= maxSources) {
+        break;
+      }
+
+      const words = wordSet(source.content);
+      if (kept.some(other => jaccard(words, other) >= DUPLICATE_SIMILARITY)) {
+        duplicates++;
+        continue;
+      }
+
+      // A smaller source further down may still fit
+      if (tokens + source.tokens > tokenBudget) {
+        overBudget++;
+        continue;
+      }
+
+      sources.push(source);
+      kept.push(words);
+      tokens += source.tokens;
+    }
+
+    return {
+      query,
+      sources,
+      context: this.format(sources),
+      tokens,
+      duplicates,
+      overBudget,
+    };
+  }
+
+  /**
+   * A FAQ or knowledge base match as a source
+   */
+  fromMatch(match: KnowledgeMatch): RetrievedSource {
+    const content = `${match.question}\n${match.answer}`;
+
+    return {
+      type: match.kind,
+      id: match.id,
+      title: match.question,
+      content,
+      score: match.score,
+      tokens: estimateTokens(content),
+    };
+  }
+
+  /**
+   * Numbered sources for the system prompt
+   */
+  format(sources: RetrievedSource[]): string {
+    return sources
+      .map((source, i) => {
+        const label = `${SOURCE_LABELS[source.type]}: ${source.title}${source.url ? ` - ${source.url}` : ''}`;
+        return `[${i + 1}] ${label}\n${source.content}`;
+      })
+      .join('\n\n');
+  }
+
+  /**
+   * Log what the receptionist had to go on for a voice turn, so staff can
+   * see why it said something. Other channels have no call session.
+   */
+  async recordSources(context: CallContext, query: string, sources: RetrievedSource[]) {
+    if ((context.channel || 'voice') !== 'voice' || sources.length === 0) {
+      return;
+    }
+
+    await callService.logCallEvent({
+      callSessionId: context.sessionId,
+      eventType: 'ai_sources',
+      state: context.state,
+      data: JSON.stringify({
+        query,
+        sources: sources.map(source => ({
+          type: source.type,
+          id: source.id,
+          title: source.title,
+          url: source.url,
+          score: source.score,
+          excerpt: source.content.slice(0, EXCERPT_LENGTH),
+        })),
+      }),
+    });
+  }
+}
+
+export const retrievalService = new RetrievalService();
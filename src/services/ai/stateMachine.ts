@@ -1,12 +1,41 @@
 import { CallState } from '@prisma/client';
-import { CallContext, AIResponse, ConversationTurn } from '../../types';
-import { openAIService } from './aiService';
+import { CallContext, AIResponse, ConversationTurn, LeadData } from '../../types';
+import { aiService } from './aiService';
 import { 
   getBusinessHoursStatus, 
   lookupKnowledgeBase, 
   createLeadRecord,
   getTransferTargets 
 } from './toolFunctions';
+import {
+  intentService,
+  isDeclined,
+  INTENT_MIN_CONFIDENCE,
+  SLOT_ACCEPT_CONFIDENCE,
+  SLOT_CONFIRM_CONFIDENCE,
+  SLOT_NAMES,
+  SlotName,
+} from './intentClassifier';
+
+const SLOT_PROMPTS: Record<SlotName, string> = {
+  name: "What's your name?",
+  phone: "What's the best phone number to reach you?",
+  email: "And your email address? You can say skip if you'd rather not.",
+  reason: 'Can you briefly tell me what this is regarding?',
+  callbackTime: "When's a good time for us to call you back?",
+};
+
+const SLOT_REPROMPTS: Record<SlotName, string> = {
+  name: "Sorry, I didn't catch your name. Could you say it again?",
+  phone: "Sorry, I didn't get the full number. Could you say it again, one digit at a time?",
+  email: "Sorry, I didn't catch that email. Could you spell it out for me?",
+  reason: "Sorry, could you tell me again what you're calling about?",
+  callbackTime: 'Sorry, when would be a good time for a callback? For example, tomorrow morning.',
+};
+
+const OPTIONAL_SLOTS: SlotName[] = ['email', 'callbackTime'];
+const MAX_SLOT_ATTEMPTS = 2;
+const MAX_INTENT_REPROMPTS = 1;
 
 export class StateMachine {
   /**
@@ -77,33 +106,34 @@ export class StateMachine {
     context: CallContext,
     userInput: string
   ): Promise<AIResponse> {
-    // Use AI to classify intent
-    const intent = await this.classifyIntent(context, userInput);
+    const classification = await this.classify(context, userInput);
 
     // Check if business hours matter
     const hoursStatus = await getBusinessHoursStatus(context.tenantId);
 
-    // Check if user wants to speak to someone
-    const wantsHuman = this.detectTransferRequest(userInput);
-
-    if (wantsHuman) {
-      if (hoursStatus.isOpen) {
-        return {
-          message: "Of course. Let me connect you with someone who can help. Please hold.",
-          nextState: 'TRANSFER_ATTEMPT',
-          action: {
-            type: 'transfer',
-            data: { reason: intent },
-          },
-          shouldGather: false,
-        };
-      } else {
-        return {
-          message: `We're currently closed. Our hours are ${hoursStatus.hours}. I'd be happy to take your information and have someone call you back. What's your name?`,
-          nextState: 'LEAD_CAPTURE',
-          shouldGather: true,
-        };
-      }
+    switch (classification.action) {
+      case 'transfer':
+        if (hoursStatus.isOpen) {
+          return {
+            message: "Of course. Let me connect you with someone who can help. Please hold.",
+            nextState: 'TRANSFER_ATTEMPT',
+            action: {
+              type: 'transfer',
+              data: { reason: classification.intent },
+            },
+            shouldGather: false,
+          };
+        }
+        return this.startLeadCapture(
+          context,
+          `We're currently closed. Our hours are ${hoursStatus.hours}. I'd be happy to take your information and have someone call you back.`
+        );
+
+      case 'lead_capture':
+        return this.startLeadCapture(context, "Sure, I can have someone call you back.");
+
+      case 'end_call':
+        return this.handleWrapUp(context, userInput);
     }
 
     // Try to answer with knowledge base
@@ -117,6 +147,17 @@ export class StateMachine {
       };
     }
 
+    // Not sure what they want - ask once before giving up
+    const reprompts = context.metadata.intentReprompts || 0;
+    if (classification.confidence < INTENT_MIN_CONFIDENCE && reprompts < MAX_INTENT_REPROMPTS) {
+      context.metadata.intentReprompts = reprompts + 1;
+      return {
+        message: await this.buildClarifyingQuestion(context.tenantId),
+        nextState: 'INTENT',
+        shouldGather: true,
+      };
+    }
+
     // Can't answer - offer transfer or lead capture
     if (hoursStatus.isOpen) {
       return {
@@ -125,11 +166,10 @@ export class StateMachine {
         shouldGather: true,
       };
     } else {
-      return {
-        message: `I don't have that information and we're currently closed. May I take your contact information so someone can get back to you?`,
-        nextState: 'LEAD_CAPTURE',
-        shouldGather: true,
-      };
+      return this.startLeadCapture(
+        context,
+        "I don't have that information and we're currently closed. May I take your contact information so someone can get back to you?"
+      );
     }
   }
 
@@ -140,28 +180,30 @@ export class StateMachine {
     context: CallContext,
     userInput: string
   ): Promise<AIResponse> {
+    const classification = await this.classify(context, userInput);
+
     // Check if user wants transfer
-    if (this.detectTransferRequest(userInput)) {
+    if (classification.action === 'transfer') {
       const hoursStatus = await getBusinessHoursStatus(context.tenantId);
       
       if (hoursStatus.isOpen) {
         return {
           message: "Certainly. Let me connect you now. Please hold.",
           nextState: 'TRANSFER_ATTEMPT',
-          action: { type: 'transfer' },
+          action: { type: 'transfer', data: { reason: context.metadata.intent } },
           shouldGather: false,
         };
       } else {
-        return {
-          message: `We're currently closed. May I take your information for a callback? What's your name?`,
-          nextState: 'LEAD_CAPTURE',
-          shouldGather: true,
-        };
+        return this.startLeadCapture(context, "We're currently closed. May I take your information for a callback?");
       }
     }
 
+    if (classification.action === 'lead_capture') {
+      return this.startLeadCapture(context, "Sure, I can have someone call you back.");
+    }
+
     // Check if user is done
-    if (this.detectEndRequest(userInput)) {
+    if (classification.action === 'end_call') {
       return {
         message: "Great! Is there anything else I can help you with before we go?",
         nextState: 'WRAP_UP',
@@ -180,12 +222,17 @@ export class StateMachine {
       };
     }
 
-    // Can't answer - use AI
-    const aiResponse = await openAIService.chat(context, userInput);
-    
+    // Can't answer - use AI, which may also transfer, take a message or hang up
+    const aiResponse = await aiService.chat(context, userInput);
+
+    if (aiResponse.action?.type === 'transfer' || aiResponse.action?.type === 'end_call') {
+      return aiResponse;
+    }
+
     return {
       message: aiResponse.message,
       nextState: 'FAQ',
+      action: aiResponse.action,
       shouldGather: true,
     };
   }
@@ -208,70 +255,190 @@ export class StateMachine {
   }
 
   /**
-   * Handle lead capture state
+   * Handle lead capture state. Details are collected one slot at a time;
+   * anything the caller volunteers early is kept, unclear answers are
+   * confirmed and missing ones re-asked.
    */
   private async handleLeadCapture(
     context: CallContext,
     userInput: string
   ): Promise<AIResponse> {
-    const captured = context.metadata.capturedData || {};
+    const captured: Partial<LeadData> = context.metadata.capturedData || {};
+    context.metadata.capturedData = captured;
+    const pendingSlot: SlotName | undefined = context.metadata.pendingSlot;
+
+    // Answering "is that right?" for a value we weren't sure about
+    const confirmation: { slot: SlotName; value: string } | undefined = context.metadata.slotConfirmation;
+    if (confirmation) {
+      delete context.metadata.slotConfirmation;
+
+      if (this.isAffirmative(userInput)) {
+        captured[confirmation.slot] = confirmation.value;
+        return this.askNextSlot(context);
+      }
+      if (this.isNegative(userInput)) {
+        return this.repromptSlot(context, confirmation.slot);
+      }
+      // Anything else is a fresh answer
+    }
 
-    // Capture in sequence: name -> phone -> email -> reason
-    if (!captured.name) {
-      captured.name = this.extractName(userInput);
-      context.metadata.capturedData = captured;
-      return {
-        message: `Thank you, ${captured.name}. What's the best phone number to reach you?`,
-        nextState: 'LEAD_CAPTURE',
-        shouldGather: true,
-      };
+    // Arrived from "May I take your information?" rather than a slot question
+    if (!pendingSlot && !confirmation) {
+      if (this.isAffirmative(userInput) && userInput.trim().split(/\s+/).length <= 3) {
+        return this.askNextSlot(context);
+      }
+      if (this.isNegative(userInput)) {
+        return {
+          message: "No problem. Is there anything else I can help you with?",
+          nextState: 'FAQ',
+          shouldGather: true,
+        };
+      }
+    }
+
+    const expected = pendingSlot ?? this.nextMissingSlot(captured);
+    if (!expected) {
+      return this.askNextSlot(context);
+    }
+
+    if (OPTIONAL_SLOTS.includes(expected) && isDeclined(userInput)) {
+      captured[expected] = 'not provided';
+      return this.askNextSlot(context);
     }
 
-    if (!captured.phone) {
-      captured.phone = this.extractPhone(userInput);
-      context.metadata.capturedData = captured;
+    const classification = await intentService.classify(context.tenantId, userInput, {
+      slots: SLOT_NAMES.filter(slot => !captured[slot]),
+      expectedSlot: expected,
+      history: context.conversationHistory,
+    });
+
+    // Keep details the caller volunteered ahead of being asked
+    for (const slot of SLOT_NAMES) {
+      const extracted = classification.slots[slot];
+      if (slot !== expected && extracted && !captured[slot] && extracted.confidence >= SLOT_ACCEPT_CONFIDENCE) {
+        captured[slot] = extracted.value;
+      }
+    }
+
+    const extracted = classification.slots[expected];
+
+    if (extracted && extracted.confidence >= SLOT_ACCEPT_CONFIDENCE) {
+      captured[expected] = extracted.value;
+      return this.askNextSlot(context);
+    }
+
+    if (extracted && extracted.confidence >= SLOT_CONFIRM_CONFIDENCE) {
+      // Heard the same kind of unclear answer before; go with it rather than ask forever
+      if (this.countSlotAttempt(context, expected) > MAX_SLOT_ATTEMPTS) {
+        captured[expected] = extracted.value;
+        return this.askNextSlot(context);
+      }
+
+      context.metadata.slotConfirmation = { slot: expected, value: extracted.value };
+      context.metadata.pendingSlot = expected;
+      const spoken = expected === 'phone'
+        ? extracted.value.replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '').split('').join(' ')
+        : extracted.value;
       return {
-        message: "Great. And your email address?",
+        message: `I heard ${spoken}. Is that right?`,
         nextState: 'LEAD_CAPTURE',
         shouldGather: true,
       };
     }
 
-    if (!captured.email) {
-      captured.email = this.extractEmail(userInput);
-      context.metadata.capturedData = captured;
+    return this.repromptSlot(context, expected);
+  }
+
+  /**
+   * Move into lead capture and ask for the first missing detail
+   */
+  private async startLeadCapture(context: CallContext, intro: string): Promise<AIResponse> {
+    delete context.metadata.pendingSlot;
+    delete context.metadata.slotConfirmation;
+    return this.askNextSlot(context, intro);
+  }
+
+  /**
+   * Ask for the next missing detail, or save the lead once everything is in
+   */
+  private async askNextSlot(context: CallContext, intro?: string): Promise<AIResponse> {
+    const captured: Partial<LeadData> = context.metadata.capturedData || {};
+    context.metadata.capturedData = captured;
+    const next = this.nextMissingSlot(captured);
+
+    if (!next) {
+      delete context.metadata.pendingSlot;
+      return this.saveLead(context, captured);
+    }
+
+    // Thank them by name right after getting it
+    const justGotName = context.metadata.pendingSlot === 'name' && next !== 'name' && captured.name;
+    const prefix = intro ?? (justGotName ? `Thank you, ${captured.name}.` : '');
+    context.metadata.pendingSlot = next;
+
+    return {
+      message: `${prefix} ${SLOT_PROMPTS[next]}`.trim(),
+      nextState: 'LEAD_CAPTURE',
+      shouldGather: true,
+    };
+  }
+
+  /**
+   * Ask for a slot again, or settle for a fallback after too many tries
+   */
+  private async repromptSlot(context: CallContext, slot: SlotName): Promise<AIResponse> {
+    context.metadata.pendingSlot = slot;
+
+    if (this.countSlotAttempt(context, slot) < MAX_SLOT_ATTEMPTS) {
       return {
-        message: "Perfect. Can you briefly tell me what this is regarding?",
+        message: SLOT_REPROMPTS[slot],
         nextState: 'LEAD_CAPTURE',
         shouldGather: true,
       };
     }
 
-    if (!captured.reason) {
-      captured.reason = userInput;
-      captured.callbackPreference = 'phone';
-      context.metadata.capturedData = captured;
+    const captured: Partial<LeadData> = context.metadata.capturedData || {};
+    let intro = "No problem, let's keep going.";
+
+    switch (slot) {
+      case 'name':
+        captured.name = 'Customer';
+        break;
+      case 'phone':
+        captured.phone = context.fromNumber;
+        intro = "No problem, we'll call you back at the number you're calling from.";
+        break;
+      default:
+        captured[slot] = 'not provided';
+    }
 
-      // Save lead
-      await createLeadRecord(context.tenantId, context.sessionId, captured);
+    context.metadata.capturedData = captured;
+    return this.askNextSlot(context, intro);
+  }
 
-      return {
-        message: `Thank you, ${captured.name}. I've got all your information. Someone will get back to you as soon as possible. Have a great day!`,
-        nextState: 'ENDED',
-        action: { type: 'end_call' },
-        shouldGather: false,
-      };
-    }
+  private async saveLead(context: CallContext, captured: Partial<LeadData>): Promise<AIResponse> {
+    captured.callbackPreference = captured.callbackPreference || 'phone';
+    await createLeadRecord(context.tenantId, context.sessionId, captured);
 
-    // Shouldn't reach here
     return {
-      message: "Thank you for your information. Someone will contact you soon.",
+      message: `Thank you, ${captured.name}. I've got all your information. Someone will get back to you as soon as possible. Have a great day!`,
       nextState: 'ENDED',
       action: { type: 'end_call' },
       shouldGather: false,
     };
   }
 
+  private countSlotAttempt(context: CallContext, slot: SlotName): number {
+    const attempts: Record<string, number> = context.metadata.slotAttempts || {};
+    attempts[slot] = (attempts[slot] || 0) + 1;
+    context.metadata.slotAttempts = attempts;
+    return attempts[slot];
+  }
+
+  private nextMissingSlot(captured: Partial<LeadData>): SlotName | undefined {
+    return SLOT_NAMES.find(slot => !captured[slot]);
+  }
+
   /**
    * Handle confirmation state
    */
@@ -279,9 +446,7 @@ export class StateMachine {
     context: CallContext,
     userInput: string
   ): Promise<AIResponse> {
-    const affirmative = /yes|yeah|sure|okay|correct|right/i.test(userInput);
-
-    if (affirmative) {
+    if (this.isAffirmative(userInput)) {
       return {
         message: "Perfect! Is there anything else I can help with?",
         nextState: 'WRAP_UP',
@@ -336,137 +501,52 @@ export class StateMachine {
   }
 
   /**
-   * Classify user intent using simple pattern matching
+   * Classify what the caller wants and remember it for the rest of the call
    */
-  private async classifyIntent(
-    context: CallContext,
-    userInput: string
-  ): Promise<string> {
-    const lower = userInput.toLowerCase();
-
-    if (/sales|buy|purchase|pricing|price|cost/i.test(lower)) return 'sales';
-    if (/service|appointment|schedule|book/i.test(lower)) return 'service';
-    if (/support|help|issue|problem|broken/i.test(lower)) return 'support';
-    if (/billing|invoice|payment|charge/i.test(lower)) return 'billing';
-    if (/hours|open|closed|location|address/i.test(lower)) return 'info';
-
-    return 'general';
-  }
-
-  /**
-   * Detect if user wants to speak to a human
-   */
-  private detectTransferRequest(input: string): boolean {
-    const patterns = [
-      /speak (to|with) (a |someone|person|human|representative)/i,
-      /talk (to|with) (a |someone|person|human)/i,
-      /transfer me/i,
-      /real person/i,
-      /human/i,
-      /representative/i,
-      /agent/i,
-      /connect me/i,
-    ];
-
-    return patterns.some(pattern => pattern.test(input));
-  }
-
-  /**
-   * Detect if user wants to end call
-   */
-  private detectEndRequest(input: string): boolean {
-    const patterns = [
-      /no|nope|that's all|that's it|nothing else|i'm good|all set|goodbye|bye/i,
-    ];
-
-    return patterns.some(pattern => pattern.test(input));
-  }
-
-  /**
-   * Extract name from input
-   */
-  private extractName(input: string): string {
-    // Remove common prefixes
-    let cleaned = input
-      .replace(/my name is|i'm|i am|this is|it's|it is/gi, '')
-      .replace(/\b(mr|mrs|ms|dr|miss)\.?\s/gi, '')
-      .trim();
-    
-    // If it looks like a phone number, return "Customer"
-    if (/^[\d\s\(\)\-\+]+$/.test(cleaned)) {
-      return 'Customer';
+  private async classify(context: CallContext, userInput: string) {
+    const captured: Partial<LeadData> = context.metadata.capturedData || {};
+    const classification = await intentService.classify(context.tenantId, userInput, {
+      slots: SLOT_NAMES.filter(slot => !captured[slot]),
+      history: context.conversationHistory,
+    });
+
+    context.metadata.intent = classification.intent;
+    context.metadata.intentConfidence = classification.confidence;
+
+    // Hold on to contact details mentioned up front in case we take a message later
+    for (const slot of SLOT_NAMES) {
+      const extracted = classification.slots[slot];
+      if (extracted && !captured[slot] && extracted.confidence >= SLOT_ACCEPT_CONFIDENCE) {
+        captured[slot] = extracted.value;
+      }
     }
-    
-    // Take first few words as name
-    const words = cleaned.split(/\s+/);
-    const name = words.slice(0, 3).join(' ');
-    
-    return name || 'Customer';
-  }
+    context.metadata.capturedData = captured;
 
-  /**
-   * Extract phone from input
-   */
-  private extractPhone(input: string): string {
-    // Remove any text that's clearly not a phone number
-    const cleaned = input.replace(/my (phone |cell |number |)?(is|number is)?(\s+)?/gi, '');
-    
-    // Extract digits
-    const digits = cleaned.replace(/\D/g, '');
-    
-    // Validate length
-    if (digits.length === 10) {
-      return `+1${digits}`;
-    } else if (digits.length === 11 && digits.startsWith('1')) {
-      return `+${digits}`;
-    } else if (digits.length > 0) {
-      // Store whatever digits we got
-      return digits;
-    }
-    
-    // If no digits found, check if they said it out (e.g., "five five five one two three four")
-    const spoken = this.extractSpokenPhone(input);
-    if (spoken) return spoken;
-    
-    return 'not provided';
+    return classification;
   }
 
   /**
-   * Extract phone number from spoken words (e.g., "five five five one two three four")
+   * Offer the tenant's intents as choices when the caller was unclear
    */
-  private extractSpokenPhone(input: string): string | null {
-    const lowerInput = input.toLowerCase();
-    const digitMap: { [key: string]: string } = {
-      'zero': '0', 'oh': '0', 'one': '1', 'two': '2', 'to': '2', 'too': '2',
-      'three': '3', 'four': '4', 'for': '4', 'five': '5', 'six': '6',
-      'seven': '7', 'eight': '8', 'ate': '8', 'nine': '9',
-    };
-
-    let digits = '';
-    const words = lowerInput.split(/\s+/);
-    
-    for (const word of words) {
-      if (digitMap[word]) {
-        digits += digitMap[word];
-      }
+  private async buildClarifyingQuestion(tenantId: string): Promise<string> {
+    const choices = (await intentService.getIntents(tenantId))
+      .filter(intent => intent.action === 'answer')
+      .slice(0, 3)
+      .map(intent => intent.name.replace(/_/g, ' '));
+
+    if (choices.length === 0) {
+      return "I want to make sure I help you with the right thing. Could you tell me a bit more about what you need?";
     }
 
-    if (digits.length === 10) {
-      return `+1${digits}`;
-    } else if (digits.length === 11 && digits.startsWith('1')) {
-      return `+${digits}`;
-    }
+    return `I want to make sure I help you with the right thing. Is this about ${choices.join(', ')}, or something else?`;
+  }
 
-    return null;
+  private isAffirmative(input: string): boolean {
+    return /^\s*(yes|yeah|yep|yup|sure|okay|ok|correct|right|that's right|that is right|exactly|sounds good)\b/i.test(input);
   }
 
-  /**
-   * Extract email from input
-   */
-  private extractEmail(input: string): string {
-    const emailRegex = /[\w.-]+@[\w.-]+\.\w+/;
-    const match = input.match(emailRegex);
-    return match ? match[0] : 'not provided';
+  private isNegative(input: string): boolean {
+    return /^\s*(no|nope|nah|not quite|wrong|incorrect|that's wrong|that's not right)\b/i.test(input);
   }
 }
 
@@ -1,16 +1,19 @@
+import { TaskPriority, TaskType } from '@prisma/client';
 import prisma from '../../db/prisma';
 import { LeadData } from '../../types';
+import { callerIdService } from '../crm/callerIdService';
+import { knowledgeSearchService, KnowledgeMatch } from './knowledgeSearchService';
 
 /**
- * Check if business is currently open and get complete schedule
+ * Check if business is open (now, or at the given time) and get complete schedule
  */
-export async function getBusinessHoursStatus(tenantId: string): Promise<{
+export async function getBusinessHoursStatus(tenantId: string, at?: Date): Promise<{
   isOpen: boolean;
   hours: string;
   fullSchedule?: string;
 }> {
   try {
-    const now = new Date();
+    const now = at ?? new Date();
 
     // Load schedule to determine timezone (default to Pacific if none configured)
     const allHours = await prisma.businessHours.findMany({
@@ -94,7 +97,8 @@ export async function getBusinessHoursStatus(tenantId: string): Promise<{
 }
 
 /**
- * Search FAQs for quick answers
+ * Search FAQs for quick answers. The best match is returned flat for
+ * callers that only want one answer; `matches` has the rest with scores.
  */
 export async function searchFAQs(
   tenantId: string,
@@ -104,49 +108,29 @@ export async function searchFAQs(
   question: string;
   answer: string;
   category?: string;
+  score?: number;
+  matches: KnowledgeMatch[];
 }> {
   try {
-    const lowerQuery = query.toLowerCase();
+    const matches = await knowledgeSearchService.searchFAQs(tenantId, query);
+    const [best] = matches;
 
-    // Get active FAQs ordered by order field
-    const faqs = await prisma.fAQ.findMany({
-      where: {
-        tenantId,
-        isActive: true,
-      },
-      orderBy: [
-        { category: 'asc' },
-        { order: 'asc' },
-      ],
-    });
-
-    // Search through FAQs for matching keywords
-    for (const faq of faqs) {
-      const questionLower = faq.question.toLowerCase();
-      const answerLower = faq.answer.toLowerCase();
-      
-      // Split query into words for better matching
-      const queryWords = lowerQuery.split(' ').filter(w => w.length > 3);
-      
-      // Check if any query words match the question
-      const hasMatch = queryWords.some(word => 
-        questionLower.includes(word) || answerLower.includes(word)
-      );
-
-      if (hasMatch) {
-        return {
-          found: true,
-          question: faq.question,
-          answer: faq.answer,
-          category: faq.category || undefined,
-        };
-      }
+    if (best) {
+      return {
+        found: true,
+        question: best.question,
+        answer: best.answer,
+        category: best.category,
+        score: best.score,
+        matches,
+      };
     }
 
     return {
       found: false,
       question: '',
       answer: '',
+      matches,
     };
   } catch (error) {
     console.error('Error searching FAQs:', error);
@@ -154,6 +138,7 @@ export async function searchFAQs(
       found: false,
       question: '',
       answer: '',
+      matches: [],
     };
   }
 }
@@ -168,67 +153,34 @@ export async function lookupKnowledgeBase(
   found: boolean;
   answer: string;
   category?: string;
+  score?: number;
+  matches: KnowledgeMatch[];
 }> {
   try {
-    const lowerQuery = query.toLowerCase();
-
-    // Search by keywords
-    const entries = await prisma.knowledgeBaseEntry.findMany({
-      where: {
-        tenantId,
-        isActive: true,
-      },
-      orderBy: {
-        priority: 'desc',
-      },
-    });
-
-    // Simple keyword matching with scoring
-    let bestMatch: any = null;
-    let bestScore = 0;
-
-    for (const entry of entries) {
-      const keywords = entry.keywords.map((k: string) => k.toLowerCase());
-      const questionWords = entry.question.toLowerCase().split(' ');
-      let score = 0;
+    const matches = await knowledgeSearchService.searchKnowledgeBase(tenantId, query);
+    const [best] = matches;
 
-      // Score based on keyword matches
-      keywords.forEach((keyword: string) => {
-        if (lowerQuery.includes(keyword)) {
-          score += 3; // Keywords are most important
-        }
-      });
-
-      // Score based on question word matches
-      questionWords.forEach((word: string) => {
-        if (word.length > 3 && lowerQuery.includes(word)) {
-          score += 1;
-        }
-      });
-
-      if (score > bestScore) {
-        bestScore = score;
-        bestMatch = entry;
-      }
-    }
-
-    if (bestMatch && bestScore > 0) {
+    if (best) {
       return {
         found: true,
-        answer: bestMatch.answer,
-        category: bestMatch.category,
+        answer: best.answer,
+        category: best.category,
+        score: best.score,
+        matches,
       };
     }
 
     return {
       found: false,
       answer: '',
+      matches,
     };
   } catch (error) {
     console.error('Error searching knowledge base:', error);
     return {
       found: false,
       answer: '',
+      matches: [],
     };
   }
 }
@@ -268,8 +220,9 @@ export async function getTransferTargets(
  */
 export async function createLeadRecord(
   tenantId: string,
-  callSessionId: string,
-  leadData: Partial<LeadData>
+  callSessionId: string | null,
+  leadData: Partial<LeadData>,
+  source: string = 'voice_call'
 ): Promise<string | null> {
   try {
     const lead = await prisma.lead.create({
@@ -282,15 +235,20 @@ export async function createLeadRecord(
         reason: leadData.reason,
         callbackPreference: leadData.callbackPreference || 'phone',
         status: 'NEW',
-        source: 'voice_call',
+        source,
+        customFields: leadData.callbackTime && leadData.callbackTime !== 'not provided'
+          ? { create: [{ label: 'Preferred Callback Time', value: leadData.callbackTime }] }
+          : undefined,
       },
     });
 
     // Update call session
-    await prisma.callSession.update({
-      where: { id: callSessionId },
-      data: { leadCaptured: true },
-    });
+    if (callSessionId) {
+      await prisma.callSession.update({
+        where: { id: callSessionId },
+        data: { leadCaptured: true },
+      });
+    }
 
     return lead.id;
   } catch (error) {
@@ -304,10 +262,11 @@ export async function createLeadRecord(
  */
 export async function attemptTransfer(
   tenantId: string,
-  reason?: string
+  reason?: string,
+  departmentId?: string
 ): Promise<string | null> {
   try {
-    const targets = await getTransferTargets(tenantId);
+    const targets = await getTransferTargets(tenantId, departmentId);
 
     if (targets.length === 0) {
       return null;
@@ -321,6 +280,158 @@ export async function attemptTransfer(
   }
 }
 
+/**
+ * Find a department by the name a caller used
+ */
+export async function findDepartment(
+  tenantId: string,
+  name: string
+): Promise<{ id: string; name: string } | null> {
+  try {
+    return await prisma.department.findFirst({
+      where: { tenantId, name: { equals: name.trim(), mode: 'insensitive' } },
+      select: { id: true, name: true },
+    });
+  } catch (error) {
+    console.error('Error finding department:', error);
+    return null;
+  }
+}
+
+/**
+ * Look up the CRM contact calling from a number
+ */
+export async function lookupCaller(tenantId: string, phone: string): Promise<{
+  found: boolean;
+  contactId?: string;
+  name?: string;
+  company?: string;
+  lifecycle?: string;
+  lastContactedAt?: Date | null;
+  ownerId?: string | null;
+  ownerName?: string;
+}> {
+  try {
+    const contactId = await callerIdService.findContactId(tenantId, phone);
+    const contact = contactId
+      ? await prisma.contact.findUnique({
+          where: { id: contactId },
+          include: {
+            company: { select: { name: true } },
+            owner: { select: { firstName: true, lastName: true } },
+          },
+        })
+      : null;
+
+    if (!contact) {
+      return { found: false };
+    }
+
+    const name = contact.fullName || [contact.firstName, contact.lastName].filter(Boolean).join(' ');
+    const ownerName = contact.owner
+      ? [contact.owner.firstName, contact.owner.lastName].filter(Boolean).join(' ')
+      : undefined;
+
+    return {
+      found: true,
+      contactId: contact.id,
+      name: name || undefined,
+      company: contact.company?.name,
+      lifecycle: contact.lifecycle,
+      lastContactedAt: contact.lastContactedAt,
+      ownerId: contact.ownerId,
+      ownerName: ownerName || undefined,
+    };
+  } catch (error) {
+    console.error('Error looking up caller:', error);
+    return { found: false };
+  }
+}
+
+/**
+ * Create a CRM task from a call. It goes to the caller's contact owner,
+ * or the tenant's first admin when the caller isn't a known contact.
+ */
+export async function createCallTask(
+  tenantId: string,
+  data: {
+    title: string;
+    description?: string;
+    taskType?: TaskType;
+    priority?: TaskPriority;
+    dueDate?: Date;
+    callerPhone?: string;
+  }
+): Promise<string | null> {
+  try {
+    const caller = data.callerPhone ? await lookupCaller(tenantId, data.callerPhone) : { found: false as const };
+
+    const owner = (caller.found && caller.ownerId)
+      ? { id: caller.ownerId }
+      : await prisma.user.findFirst({
+          where: { tenantId, role: 'TENANT_ADMIN', isActive: true },
+          orderBy: { createdAt: 'asc' },
+          select: { id: true },
+        });
+
+    if (!owner) {
+      console.error(`No user to own task for tenant ${tenantId}`);
+      return null;
+    }
+
+    const task = await prisma.task.create({
+      data: {
+        tenantId,
+        contactId: caller.found ? caller.contactId : undefined,
+        ownerId: owner.id,
+        assigneeId: owner.id,
+        title: data.title,
+        description: data.description,
+        taskType: data.taskType || 'FOLLOW_UP',
+        priority: data.priority || 'MEDIUM',
+        dueDate: data.dueDate,
+      },
+    });
+
+    return task.id;
+  } catch (error) {
+    console.error('Error creating task:', error);
+    return null;
+  }
+}
+
+/**
+ * Schedule a callback as a CALL task, if the business is open at that time
+ */
+export async function scheduleCallback(
+  tenantId: string,
+  data: {
+    callbackAt: Date;
+    callerPhone: string;
+    name?: string;
+    reason?: string;
+  }
+): Promise<{ scheduled: boolean; taskId?: string; hours?: string }> {
+  if (data.callbackAt.getTime() <= Date.now()) {
+    return { scheduled: false };
+  }
+
+  const status = await getBusinessHoursStatus(tenantId, data.callbackAt);
+  if (!status.isOpen) {
+    return { scheduled: false, hours: status.fullSchedule || status.hours };
+  }
+
+  const taskId = await createCallTask(tenantId, {
+    title: `Call back ${data.name || data.callerPhone}`,
+    description: [data.reason, `Phone: ${data.callerPhone}`].filter(Boolean).join('\n'),
+    taskType: 'CALL',
+    dueDate: data.callbackAt,
+    callerPhone: data.callerPhone,
+  });
+
+  return taskId ? { scheduled: true, taskId } : { scheduled: false };
+}
+
 /**
  * Get knowledge statistics for a tenant
  */
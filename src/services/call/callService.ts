@@ -1,6 +1,21 @@
 import prisma from '../../db/prisma';
 import { CallState, CallStatus } from '@prisma/client';
-import { CallContext, ConversationTurn } from '../../types';
+import { AIResponse, CallContext, ConversationTurn } from '../../types';
+import { redactionService } from './redactionService';
+
+// CallContext.metadata fields carried between AI turns
+const CONVERSATION_STATE_KEYS = [
+  'capturedData',
+  'pendingSlot',
+  'slotAttempts',
+  'slotConfirmation',
+  'intent',
+  'intentConfidence',
+  'intentReprompts',
+  'leadId',
+  'callbackTaskId',
+  'caller',
+];
 
 export class CallService {
   /**
@@ -54,6 +69,24 @@ export class CallService {
     }
   }
 
+  /**
+   * Set keys in a session's metadata, keeping everything else stored there
+   * (recording plan, flow position, conversation state)
+   */
+  async mergeMetadata(callSessionId: string, values: Record<string, unknown>) {
+    const session = await prisma.callSession.findUnique({
+      where: { id: callSessionId },
+      select: { metadata: true },
+    });
+
+    return prisma.callSession.update({
+      where: { id: callSessionId },
+      data: {
+        metadata: { ...((session?.metadata as any) || {}), ...values } as any,
+      },
+    });
+  }
+
   /**
    * Update call session state
    */
@@ -141,26 +174,68 @@ export class CallService {
   }
 
   /**
-   * Save call transcript
+   * Log what the caller said and the reply as user_input and ai_response
+   * events, with PII masked like the transcript
+   */
+  async logTurnEvents(context: CallContext, speech: string, aiResponse: AIResponse, details: Record<string, unknown> = {}) {
+    const redactor = context.config
+      ? redactionService.redactor(context.config)
+      : await redactionService.forTenant(context.tenantId);
+
+    await this.logCallEvent({
+      callSessionId: context.sessionId,
+      eventType: 'user_input',
+      state: context.state,
+      data: JSON.stringify({
+        input: redactor.redact(speech),
+        ...details,
+        intent: context.metadata.intent,
+        intentConfidence: context.metadata.intentConfidence,
+      }),
+    });
+
+    await this.logCallEvent({
+      callSessionId: context.sessionId,
+      eventType: 'ai_response',
+      state: aiResponse.nextState,
+      data: JSON.stringify({ message: redactor.redact(aiResponse.message) }),
+    });
+  }
+
+  /**
+   * Save call transcript, with PII masked. The unredacted turns are kept
+   * encrypted only if the tenant opted in.
    */
   async saveTranscript(callSessionId: string, turns: ConversationTurn[]) {
     try {
-      const fullText = turns
+      const session = await prisma.callSession.findUnique({
+        where: { id: callSessionId },
+        select: { tenantId: true },
+      });
+      const redactor = await redactionService.forTenant(session!.tenantId);
+      const redactedTurns = turns.map(t => ({ ...t, text: redactor.redact(t.text) }));
+
+      const fullText = redactedTurns
         .map(t => `${t.speaker.toUpperCase()}: ${t.text}`)
         .join('\n');
 
-      const turnsJson = JSON.stringify(turns);
+      const turnsJson = JSON.stringify(redactedTurns);
+      const encryptedOriginal = redactor.keepOriginals
+        ? redactionService.encrypt(JSON.stringify(turns))
+        : null;
 
       const transcript = await prisma.transcript.upsert({
         where: { callSessionId },
         update: {
           fullText,
           turns: turnsJson,
+          encryptedOriginal,
         },
         create: {
           callSessionId,
           fullText,
           turns: turnsJson,
+          encryptedOriginal,
         },
       });
 
@@ -223,11 +298,11 @@ export class CallService {
         },
       });
 
-      // Update call session with recording info
+      // Point the session at the authenticated player, never Twilio's URL
       await prisma.callSession.update({
         where: { id: params.callSessionId },
         data: {
-          recordingUrl: params.url,
+          recordingUrl: `/tenant/recordings/${recording.id}/audio`,
           recordingSid: params.recordingSid,
         },
       });
@@ -239,6 +314,36 @@ export class CallService {
     }
   }
 
+  /**
+   * Persist the AI conversation state (collected details, pending question,
+   * recognized intent) so the next turn picks up where this one left off
+   */
+  async saveConversationState(callSid: string, metadata: CallContext['metadata']) {
+    try {
+      const session = await prisma.callSession.findUnique({
+        where: { callSid },
+        select: { metadata: true },
+      });
+
+      const conversation: Record<string, any> = {};
+      for (const key of CONVERSATION_STATE_KEYS) {
+        if (metadata[key] !== undefined) {
+          conversation[key] = metadata[key];
+        }
+      }
+
+      return await prisma.callSession.update({
+        where: { callSid },
+        data: {
+          metadata: { ...((session?.metadata as any) || {}), conversation },
+        },
+      });
+    } catch (error) {
+      console.error('Error saving conversation state:', error);
+      return null;
+    }
+  }
+
   /**
    * Build call context from session
    */
@@ -251,6 +356,9 @@ export class CallService {
             orderBy: { timestamp: 'asc' },
           },
           transcript: true,
+          tenant: {
+            select: { receptionistConfig: true },
+          },
         },
       });
 
@@ -269,6 +377,8 @@ export class CallService {
         }
       }
 
+      const conversation = (session.metadata as any)?.conversation || {};
+
       return {
         callSid: session.callSid,
         tenantId: session.tenantId,
@@ -277,10 +387,12 @@ export class CallService {
         toNumber: session.toNumber,
         state: session.state,
         conversationHistory,
+        config: session.tenant.receptionistConfig ?? undefined,
         metadata: {
           transferAttempts: session.transferAttempted ? 1 : 0,
           silentCount: 0,
           turnCount: conversationHistory.length,
+          ...conversation,
         },
       };
     } catch (error) {
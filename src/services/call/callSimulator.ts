@@ -0,0 +1,364 @@
+import { randomUUID } from 'crypto';
+import { CallSession, Lead, LeadField, Prisma } from '@prisma/client';
+import prisma from '../../db/prisma';
+import { env } from '../../config/env';
+import { flowExecutor, FlowActionEffect, FlowConfig, StepExecutionOptions } from './flowExecutor';
+import { flowSessionService, FlowTurn, QueuedJob } from './flowSessionService';
+import { validateFlowConfig, FlowValidationIssue } from './flowValidator';
+import { consentService } from './consentService';
+
+export interface SimulatedInput {
+  digits?: string;
+  speech?: string;
+}
+
+export interface CallSimulationRequest {
+  flowId?: string;
+  config?: FlowConfig;
+  inputs?: SimulatedInput[];
+  now?: Date;
+  isOpen?: boolean;
+  fromNumber?: string;
+  maxTurns?: number;
+  webhookResponses?: StepExecutionOptions['webhookResponses'];
+}
+
+export type SimulationOutcome =
+  | 'hangup'
+  | 'transfer'
+  | 'ai'
+  | 'voicemail'
+  | 'no_input'
+  | 'unexpected_input'
+  | 'unsupported'
+  | 'max_turns';
+
+export interface SimulationTurn {
+  request: string;            // Webhook path Twilio would have called
+  stepId: string | null;
+  input?: SimulatedInput;     // Caller input that triggered the request
+  says: string[];
+  twiml: string;
+}
+
+export interface CallSimulationResult {
+  callSid: string;
+  outcome: SimulationOutcome;
+  transferNumber?: string;
+  visitedSteps: string[];
+  transcript: SimulationTurn[];
+  unusedInputs: SimulatedInput[];
+  callSession: CallSession | null;
+  leads: Array<Lead & { customFields: LeadField[] }>;
+  jobs: QueuedJob[];
+  actions: FlowActionEffect[];   // SMS, webhook, variable and appointment effects (SMS/webhooks are not sent)
+}
+
+type TransactionClient = Prisma.TransactionClient;
+
+interface SimulationState {
+  tx: TransactionClient;
+  flow: FlowConfig;
+  session: CallSession;         // metadata is kept current by flowSessionService
+  options: StepExecutionOptions;
+  visitedSteps: string[];
+  jobs: QueuedJob[];
+  actions: FlowActionEffect[];
+}
+
+const DEFAULT_MAX_TURNS = 50;
+
+/**
+ * Call Simulator - runs a call flow end to end without Twilio.
+ * Follows the TwiML produced by the flow executor the way Twilio would,
+ * feeding scripted caller input into each Gather. Each webhook is answered
+ * by flowSessionService, as on a real call. Every write happens in a
+ * transaction that is rolled back once the transcript has been collected.
+ */
+export class CallSimulator {
+  /**
+   * Simulate a call into a tenant's flow
+   */
+  async simulate(
+    tenantId: string,
+    request: CallSimulationRequest
+  ): Promise<{ success: boolean; result?: CallSimulationResult; error?: string; details?: FlowValidationIssue[] }> {
+    let flow: FlowConfig;
+    let flowType = 'CUSTOM';
+
+    if (request.config) {
+      const validation = validateFlowConfig(request.config, {
+        optOutDigit: await consentService.optOutDigit(tenantId),
+      });
+      if (!validation.valid) {
+        return { success: false, error: 'Invalid flow configuration', details: validation.errors };
+      }
+      flow = request.config;
+    } else if (request.flowId) {
+      const callFlow = await prisma.callFlow.findFirst({
+        where: { id: request.flowId, tenantId },
+      });
+
+      if (!callFlow) {
+        return { success: false, error: 'Flow not found' };
+      }
+
+      flow = callFlow.config as unknown as FlowConfig;
+      flowType = callFlow.flowType;
+    } else {
+      return { success: false, error: 'A flowId or config is required' };
+    }
+
+    const twilioNumber = await prisma.twilioNumber.findFirst({
+      where: { tenantId },
+    });
+
+    if (!twilioNumber) {
+      return { success: false, error: 'Assign a phone number to this tenant before simulating calls' };
+    }
+
+    const rollback = new Error('Simulation rolled back');
+    let result: CallSimulationResult | undefined;
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        const session = await tx.callSession.create({
+          data: {
+            tenantId,
+            twilioNumberId: twilioNumber.id,
+            callSid: `SIM${randomUUID().replace(/-/g, '')}`,
+            fromNumber: request.fromNumber || '+15555550100',
+            toNumber: twilioNumber.phoneNumber,
+            direction: 'inbound',
+            status: 'IN_PROGRESS',
+            state: 'GREETING',
+            startTime: request.now ?? new Date(),
+            metadata: { flowType, currentStepId: flow.entryPoint },
+          },
+        });
+
+        result = await this.run({
+          tx,
+          flow,
+          session,
+          options: {
+            now: request.now,
+            isOpen: request.isOpen,
+            db: tx,
+            dryRun: true,
+            webhookResponses: request.webhookResponses,
+          },
+          visitedSteps: [],
+          jobs: [],
+          actions: [],
+        }, request.inputs ?? [], request.maxTurns ?? DEFAULT_MAX_TURNS);
+
+        // Discard everything the simulated call wrote
+        throw rollback;
+      }, { timeout: 30000 });
+    } catch (error) {
+      if (error !== rollback) throw error;
+    }
+
+    return { success: true, result };
+  }
+
+  /**
+   * Drive the flow until the call ends or runs out of scripted input
+   */
+  private async run(
+    state: SimulationState,
+    inputs: SimulatedInput[],
+    maxTurns: number
+  ): Promise<CallSimulationResult> {
+    const { tx, flow, session } = state;
+    const transcript: SimulationTurn[] = [];
+    let inputIndex = 0;
+    let outcome: SimulationOutcome = 'max_turns';
+    let transferNumber: string | undefined;
+
+    state.visitedSteps.push(flow.entryPoint);
+
+    let request = '/twilio/voice';
+    let input: SimulatedInput | undefined;
+    let twiml = await flowExecutor.executeStep(flow, flow.entryPoint, session.tenantId, session.callSid, state.options);
+
+    while (transcript.length < maxTurns) {
+      transcript.push({
+        request,
+        stepId: (session.metadata as any)?.currentStepId ?? null,
+        input,
+        says: this.extractSays(twiml),
+        twiml,
+      });
+
+      const gather = twiml.match(/<Gather input="(dtmf|speech)"[^>]*action="([^"]+)"/);
+      const dial = twiml.match(/<Dial[^>]*>\s*<Number>([^<]+)<\/Number>/);
+      const redirect = twiml.match(/<Redirect[^>]*>([^<]+)<\/Redirect>/);
+
+      if (/<Connect>\s*<Stream\b/.test(twiml)) {
+        // The AI receptionist takes over on a media stream
+        outcome = 'ai';
+        break;
+      }
+
+      if (gather) {
+        const url = new URL(gather[2], env.BASE_URL);
+
+        if (url.pathname === '/twilio/gather') {
+          // The AI receptionist takes over from here
+          outcome = 'ai';
+          break;
+        }
+
+        input = inputs[inputIndex];
+        if (!input) {
+          outcome = 'no_input';
+          break;
+        }
+
+        const value = gather[1] === 'dtmf' ? input.digits : input.speech;
+        if (value === undefined) {
+          outcome = 'unexpected_input';
+          break;
+        }
+        inputIndex++;
+
+        const next = await this.handleGather(state, url.pathname, value);
+        if (!next) {
+          outcome = 'unsupported';
+          break;
+        }
+
+        request = url.pathname;
+        twiml = next;
+        continue;
+      }
+
+      if (dial) {
+        outcome = 'transfer';
+        transferNumber = dial[1];
+        break;
+      }
+
+      if (/<Record\b/.test(twiml)) {
+        outcome = 'voicemail';
+        break;
+      }
+
+      if (redirect) {
+        const url = new URL(redirect[1].replace(/&amp;/g, '&'), env.BASE_URL);
+        const stepMatch = url.pathname.match(/^\/twilio\/flow-step\/(.+)$/);
+        const actionMatch = url.pathname.match(/^\/twilio\/flow-action\/(.+)$/);
+
+        request = url.pathname;
+        input = undefined;
+
+        if (stepMatch) {
+          const questionIndex = url.searchParams.get('questionIndex');
+          twiml = this.record(state, await flowSessionService.enterStep(
+            flow,
+            session,
+            decodeURIComponent(stepMatch[1]),
+            questionIndex !== null ? parseInt(questionIndex, 10) : null,
+            state.options
+          ));
+          continue;
+        }
+
+        if (actionMatch) {
+          twiml = this.record(state, await flowSessionService.runAction(
+            flow,
+            session,
+            decodeURIComponent(actionMatch[1]),
+            state.options
+          ));
+          continue;
+        }
+
+        outcome = 'unsupported';
+        break;
+      }
+
+      outcome = 'hangup';
+      break;
+    }
+
+    const callSession = await tx.callSession.findUnique({ where: { id: session.id } });
+    const leads = await tx.lead.findMany({
+      where: { callSessionId: session.id },
+      include: { customFields: { orderBy: { order: 'asc' } } },
+    });
+
+    return {
+      callSid: session.callSid,
+      outcome,
+      transferNumber,
+      visitedSteps: state.visitedSteps,
+      transcript,
+      unusedInputs: inputs.slice(inputIndex),
+      callSession,
+      leads,
+      jobs: state.jobs,
+      actions: state.actions,
+    };
+  }
+
+  /**
+   * Answer a Gather action the same way the Twilio webhooks do
+   */
+  private async handleGather(state: SimulationState, path: string, value: string): Promise<string | null> {
+    const { flow, session, options } = state;
+
+    switch (path) {
+      case '/twilio/flow-gather':
+        return this.record(state, await flowSessionService.selectMenuOption(flow, session, value, options));
+
+      case '/twilio/flow-gather-info':
+        return this.record(state, await flowSessionService.recordGatheredInfo(flow, session, value, options));
+
+      case '/twilio/collect-lead-response':
+        return this.record(state, await flowSessionService.recordLeadResponse(flow, session, value, options));
+
+      case '/twilio/confirm-lead-response':
+        return this.record(state, await flowSessionService.confirmLeadResponse(flow, session, value, options));
+
+      case '/twilio/flow-appointment':
+        return this.record(state, await flowExecutor.handleAppointmentSelection(flow, session, value, options));
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Note the steps, effects and jobs a webhook produced and return its TwiML
+   */
+  private record(state: SimulationState, turn: FlowTurn): string {
+    if (turn.enteredStep) {
+      state.visitedSteps.push(turn.enteredStep);
+    }
+    if (turn.effect) {
+      state.actions.push(turn.effect);
+    }
+    state.jobs.push(...(turn.jobs ?? []));
+
+    return turn.twiml;
+  }
+
+  /**
+   * Pull the spoken text out of a TwiML document
+   */
+  private extractSays(twiml: string): string[] {
+    return [...twiml.matchAll(/<Say[^>]*>([\s\S]*?)<\/Say>/g)].map(match =>
+      match[1]
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&')
+    );
+  }
+}
+
+export const callSimulator = new CallSimulator();
@@ -0,0 +1,328 @@
+import { ReceptionistConfig, TwilioNumber } from '@prisma/client';
+import prisma from '../../db/prisma';
+import { env } from '../../config/env';
+import { callService } from './callService';
+import { twilioService } from '../twilio/twilioService';
+import { TwiMLBuilder } from '../twilio/twimlBuilder';
+import { toE164 } from '../crm/phoneNumber';
+
+export const DEFAULT_RECORDING_DISCLOSURE = 'This call may be recorded for quality assurance.';
+export const OPT_OUT_CONFIRMATION = 'Recording has been stopped.';
+
+// Every CallEvent type written for consent audits
+export const CONSENT_EVENT_TYPES = [
+  'caller_blocked',
+  'recording_disclosed',
+  'recording_started',
+  'recording_skipped',
+  'recording_opt_out',
+];
+
+/**
+ * States that require every party's consent to record a call, by area code.
+ * Area codes follow the number, not the caller, so a moved mobile number is
+ * judged by where it was issued.
+ */
+export const TWO_PARTY_CONSENT_AREA_CODES: Record<string, string[]> = {
+  CA: ['209', '213', '279', '310', '323', '341', '350', '369', '408', '415', '424', '442', '510', '530', '559', '562',
+    '619', '626', '628', '650', '657', '661', '669', '707', '714', '738', '747', '760', '805', '818', '820', '831',
+    '837', '840', '858', '909', '916', '925', '949', '951'],
+  CT: ['203', '475', '860', '959'],
+  DE: ['302'],
+  FL: ['239', '305', '321', '324', '352', '386', '407', '448', '561', '645', '656', '689', '727', '728', '754', '772',
+    '786', '813', '850', '863', '904', '941', '954'],
+  IL: ['217', '224', '309', '312', '331', '447', '464', '618', '630', '708', '730', '773', '779', '815', '847', '861', '872'],
+  MA: ['339', '351', '413', '508', '617', '774', '781', '857', '978'],
+  MD: ['227', '240', '301', '410', '443', '667'],
+  MI: ['231', '248', '269', '313', '517', '586', '616', '679', '734', '810', '906', '947', '989'],
+  MT: ['406'],
+  NH: ['603'],
+  NV: ['702', '725', '775'],
+  PA: ['215', '223', '267', '272', '412', '445', '484', '570', '582', '610', '717', '724', '814', '835', '878'],
+  WA: ['206', '253', '360', '425', '509', '564'],
+};
+
+const AREA_CODE_STATES = new Map(
+  Object.entries(TWO_PARTY_CONSENT_AREA_CODES).flatMap(([state, codes]) => codes.map(code => [code, state] as const))
+);
+
+/**
+ * Recording plan for one call, kept in the session's metadata.recording
+ */
+interface CallRecording {
+  status: 'pending' | 'recording' | 'off' | 'opted_out';
+  optOutDigit: string | null;  // only set when the caller was told about it
+  disclosure?: string | null;
+  continueTwiml?: string;      // the call's own TwiML, played once recording has started
+}
+
+export interface RecordingDecision {
+  record: boolean;
+  disclosure: string | null;   // spoken before anything else; null when not disclosed
+  areaCode: string | null;
+  consentState: string | null; // two-party consent state the caller's area code belongs to
+  reason: string;
+}
+
+type ConsentSettings = Pick<
+  ReceptionistConfig,
+  'enableRecording' | 'recordingDisclosure' | 'discloseToAllCallers' | 'recordTwoPartyCallers' | 'recordingOptOutDigit'
+>;
+
+export class ConsentService {
+  /**
+   * Two-party consent state for a North American number, by area code
+   */
+  consentState(phone: string): { areaCode: string | null; state: string | null } {
+    const e164 = toE164(phone);
+    if (!e164 || !e164.startsWith('+1') || e164.length !== 12) {
+      return { areaCode: null, state: null };
+    }
+
+    const areaCode = e164.slice(2, 5);
+    return { areaCode, state: AREA_CODE_STATES.get(areaCode) || null };
+  }
+
+  /**
+   * Whether to record a call and what to tell the caller first. The dialed
+   * number's settings win over the tenant's.
+   */
+  decide(
+    config: ConsentSettings | null,
+    number: Pick<TwilioNumber, 'recordCalls' | 'recordingDisclosure'>,
+    fromNumber: string
+  ): RecordingDecision {
+    const { areaCode, state } = this.consentState(fromNumber);
+    const decision = { areaCode, consentState: state };
+
+    if (!(number.recordCalls ?? config?.enableRecording ?? true)) {
+      return { ...decision, record: false, disclosure: null, reason: 'recording_disabled' };
+    }
+
+    if (state && config && !config.recordTwoPartyCallers) {
+      return { ...decision, record: false, disclosure: null, reason: 'two_party_state' };
+    }
+
+    if (!state && config && !config.discloseToAllCallers) {
+      return { ...decision, record: true, disclosure: null, reason: 'one_party_state' };
+    }
+
+    const optOutDigit = config ? config.recordingOptOutDigit : '9';
+    const disclosure = [
+      number.recordingDisclosure || config?.recordingDisclosure || DEFAULT_RECORDING_DISCLOSURE,
+      optOutDigit ? `To opt out of recording, press ${optOutDigit} at any time.` : '',
+    ].filter(Boolean).join(' ');
+
+    return { ...decision, record: true, disclosure, reason: state ? 'two_party_state' : 'disclose_all' };
+  }
+
+  /**
+   * Decide on recording for a new inbound call and keep the plan on the
+   * session. The recording itself starts once the disclosure has played,
+   * see beginCall.
+   */
+  async startForCall(
+    callSessionId: string,
+    config: ConsentSettings | null,
+    number: Pick<TwilioNumber, 'recordCalls' | 'recordingDisclosure'>,
+    fromNumber: string
+  ): Promise<RecordingDecision> {
+    const decision = this.decide(config, number, fromNumber);
+    const recording: CallRecording = {
+      status: decision.record ? 'pending' : 'off',
+      // Callers who weren't told about the opt-out key keep it for the call itself
+      optOutDigit: decision.disclosure ? (config ? config.recordingOptOutDigit : '9') : null,
+      disclosure: decision.disclosure,
+    };
+
+    await callService.mergeMetadata(callSessionId, { recording });
+
+    if (!decision.record) {
+      await callService.logCallEvent({
+        callSessionId,
+        eventType: 'recording_skipped',
+        data: JSON.stringify({
+          areaCode: decision.areaCode,
+          consentState: decision.consentState,
+          reason: decision.reason,
+        }),
+      });
+    }
+
+    return decision;
+  }
+
+  /**
+   * TwiML that opens a recorded call: the disclosure, then a redirect to
+   * /twilio/recording-consent, which starts recording and carries on with
+   * the call's own TwiML. Calls that aren't recorded get their TwiML as is.
+   */
+  async beginCall(callSessionId: string, decision: RecordingDecision, twiml: string): Promise<string> {
+    if (!decision.record) {
+      return twiml;
+    }
+
+    const session = await prisma.callSession.findUnique({ where: { id: callSessionId } });
+    const metadata = (session?.metadata as any) || {};
+    await callService.mergeMetadata(callSessionId, {
+      recording: { ...metadata.recording, continueTwiml: twiml },
+    });
+
+    const builder = new TwiMLBuilder();
+    if (decision.disclosure) {
+      builder.say(decision.disclosure);
+    }
+    return builder.redirect(`${env.BASE_URL}/twilio/recording-consent`, 'POST').build();
+  }
+
+  /**
+   * Webhook after the disclosure has played: log it, start recording on the
+   * live call and return the TwiML the call was going to run. A recording
+   * that fails to start never holds up the call.
+   */
+  async disclosed(callSid: string): Promise<string | null> {
+    const session = await callService.getCallSessionByCallSid(callSid);
+    const metadata = (session?.metadata as any) || {};
+    const recording: CallRecording | undefined = metadata.recording;
+
+    if (!session || !recording?.continueTwiml) {
+      return null;
+    }
+
+    const { continueTwiml, ...plan } = recording;
+
+    if (plan.disclosure) {
+      await callService.logCallEvent({
+        callSessionId: session.id,
+        eventType: 'recording_disclosed',
+        data: JSON.stringify({ disclosure: plan.disclosure }),
+      });
+    }
+
+    if (plan.status === 'pending') {
+      try {
+        const started = await twilioService.startCallRecording(callSid, `${env.BASE_URL}/twilio/recording-status`);
+        plan.status = 'recording';
+        await callService.logCallEvent({
+          callSessionId: session.id,
+          eventType: 'recording_started',
+          data: JSON.stringify({ recordingSid: started.sid }),
+        });
+      } catch (error) {
+        plan.status = 'off';
+        await callService.logCallEvent({
+          callSessionId: session.id,
+          eventType: 'recording_skipped',
+          data: JSON.stringify({ reason: 'start_failed' }),
+        });
+      }
+    }
+
+    await callService.mergeMetadata(session.id, { recording: plan });
+
+    return continueTwiml;
+  }
+
+  /**
+   * Stop recording if the caller pressed the opt-out digit. Returns true
+   * when the key press was the opt-out, so the caller hears a confirmation
+   * instead of having it treated as input.
+   */
+  async optOut(callSid: string, digits?: string | null): Promise<boolean> {
+    if (!digits) {
+      return false;
+    }
+
+    const session = await callService.getCallSessionByCallSid(callSid);
+    const metadata = (session?.metadata as any) || {};
+    const recording: CallRecording | undefined = metadata.recording;
+
+    if (!session || !recording?.optOutDigit || digits !== recording.optOutDigit) {
+      return false;
+    }
+
+    if (recording.status === 'recording') {
+      await twilioService.stopCallRecording(callSid);
+    }
+
+    if (recording.status === 'recording' || recording.status === 'pending') {
+      await prisma.callSession.update({
+        where: { id: session.id },
+        data: { metadata: { ...metadata, recording: { ...recording, status: 'opted_out' } } },
+      });
+
+      await callService.logCallEvent({
+        callSessionId: session.id,
+        eventType: 'recording_opt_out',
+        data: JSON.stringify({ digit: digits, wasRecording: recording.status === 'recording' }),
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * The key the tenant's callers press to stop recording, which flow menus
+   * can't use
+   */
+  async optOutDigit(tenantId: string): Promise<string | null> {
+    const config = await prisma.receptionistConfig.findUnique({
+      where: { tenantId },
+      select: { recordingOptOutDigit: true },
+    });
+    return config ? config.recordingOptOutDigit : '9';
+  }
+
+  // ============================================
+  // DO-NOT-CALL LIST
+  // ============================================
+
+  async isBlocked(tenantId: string, phone: string): Promise<boolean> {
+    const phoneNumber = toE164(phone);
+    if (!phoneNumber) {
+      return false;
+    }
+
+    const count = await prisma.blockedCaller.count({ where: { tenantId, phoneNumber } });
+    return count > 0;
+  }
+
+  async listBlocked(tenantId: string) {
+    return prisma.blockedCaller.findMany({
+      where: { tenantId },
+      include: { createdBy: { select: { firstName: true, lastName: true, email: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async block(tenantId: string, phone: string, reason: string | null, createdById: string) {
+    const phoneNumber = toE164(phone);
+    if (!phoneNumber) {
+      throw new Error('Enter a valid phone number');
+    }
+
+    return prisma.blockedCaller.upsert({
+      where: { tenantId_phoneNumber: { tenantId, phoneNumber } },
+      update: { reason },
+      create: { tenantId, phoneNumber, reason, createdById },
+    });
+  }
+
+  async unblock(id: string, tenantId: string) {
+    await prisma.blockedCaller.deleteMany({ where: { id, tenantId } });
+  }
+
+  /**
+   * Recent consent events across the tenant's calls, newest first
+   */
+  async recentEvents(tenantId: string, take = 50) {
+    return prisma.callEvent.findMany({
+      where: { eventType: { in: CONSENT_EVENT_TYPES }, callSession: { tenantId } },
+      include: { callSession: { select: { id: true, fromNumber: true, toNumber: true } } },
+      orderBy: { timestamp: 'desc' },
+      take,
+    });
+  }
+}
+
+export const consentService = new ConsentService();
@@ -0,0 +1,446 @@
+import prisma from '../../db/prisma';
+import { getBusinessHoursStatus } from '../ai/toolFunctions';
+import { FlowStep, StepExecutionOptions } from './flowExecutor';
+
+/**
+ * Comparison operators available in a condition rule
+ */
+export const CONDITION_OPERATORS = [
+  'equals',
+  'not_equals',
+  'in',
+  'not_in',
+  'contains',
+  'starts_with',
+  'matches',
+  'exists',
+  'not_exists',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'between',
+] as const;
+
+export type ConditionOperator = typeof CONDITION_OPERATORS[number];
+
+/**
+ * Facts a rule can test. answers.*, variables.* and metadata.* take a key or path.
+ */
+export const CONDITION_FACTS = [
+  'business.isOpen',
+  'call.dayOfWeek',
+  'call.dayName',
+  'call.time',
+  'call.date',
+  'call.isHoliday',
+  'call.holidayName',
+  'caller.number',
+  'caller.areaCode',
+  'caller.isKnown',
+  'caller.isVip',
+  'caller.tags',
+  'caller.contactId',
+  'caller.lifecycle',
+  'caller.rating',
+  'dialed.number',
+  'dialed.numberId',
+  'dialed.name',
+] as const;
+
+export const CONDITION_FACT_PREFIXES = ['answers.', 'variables.', 'metadata.'] as const;
+
+export interface ConditionRule {
+  fact: string;
+  op: ConditionOperator;
+  value?: any;
+}
+
+export type ConditionExpression =
+  | ConditionRule
+  | { all: ConditionExpression[] }
+  | { any: ConditionExpression[] }
+  | { not: ConditionExpression };
+
+export interface ConditionBranch {
+  when: ConditionExpression;
+  target: string;
+  label?: string;
+}
+
+// Limits on "matches" rules, which run tenant regexes against caller input
+export const MATCH_PATTERN_MAX_LENGTH = 200;
+export const MATCH_INPUT_MAX_LENGTH = 500;
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const DEFAULT_TIMEZONE = 'America/Los_Angeles';
+const VIP_TAG = 'vip';
+
+export function isKnownFact(fact: string): boolean {
+  return (CONDITION_FACTS as readonly string[]).includes(fact) ||
+    CONDITION_FACT_PREFIXES.some(prefix => fact.startsWith(prefix) && fact.length > prefix.length);
+}
+
+/**
+ * Why a "matches" pattern can't be used, or null if it can. Turns away
+ * invalid patterns and the shapes that backtrack exponentially: repeating
+ * a group that has its own quantifier or alternatives, like (a+)+ or
+ * (a|aa)*, and backreferences.
+ */
+export function matchPatternProblem(pattern: unknown): string | null {
+  if (typeof pattern !== 'string') {
+    return 'needs a pattern';
+  }
+  if (pattern.length > MATCH_PATTERN_MAX_LENGTH) {
+    return `pattern can be at most ${MATCH_PATTERN_MAX_LENGTH} characters`;
+  }
+
+  try {
+    new RegExp(pattern);
+  } catch {
+    return `pattern "${pattern}" is not valid`;
+  }
+
+  // One entry per open group: whether it holds a quantifier or alternation
+  const groups: boolean[] = [false];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      if (!inClass && /[1-9k]/.test(pattern[i + 1] ?? '')) {
+        return 'pattern can\'t use backreferences';
+      }
+      i++;
+      continue;
+    }
+    if (inClass) {
+      inClass = char !== ']';
+      continue;
+    }
+
+    switch (char) {
+      case '[':
+        inClass = true;
+        break;
+
+      case '(':
+        groups.push(false);
+        break;
+
+      case ')': {
+        const repeatsInside = groups.pop();
+        const next = pattern[i + 1];
+        const repeated = next === '*' || next === '+' || (next === '{' && /^\{\d*,?\d*\}/.test(pattern.slice(i + 1)));
+        if (repeatsInside && repeated) {
+          return 'pattern can\'t repeat a group that has its own quantifier or alternatives';
+        }
+        if (repeated || repeatsInside) {
+          groups[groups.length - 1] = true;
+        }
+        break;
+      }
+
+      case '*':
+      case '+':
+      case '{':
+      case '|':
+        groups[groups.length - 1] = true;
+        break;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Area code of a North American (+1) number
+ */
+export function getAreaCode(phoneNumber: string): string | null {
+  const digits = phoneNumber.replace(/\D/g, '');
+  if (digits.length === 11 && digits.startsWith('1')) return digits.slice(1, 4);
+  if (digits.length === 10) return digits.slice(0, 3);
+  return null;
+}
+
+/**
+ * Loads the facts about a call on demand, so a rule that only checks
+ * the caller's area code never queries holidays or contacts.
+ */
+export class ConditionContext {
+  private cache = new Map<string, Promise<any>>();
+
+  constructor(
+    private tenantId: string,
+    private callSid: string,
+    private options: StepExecutionOptions = {}
+  ) {}
+
+  async getFact(fact: string): Promise<any> {
+    const [group, ...rest] = fact.split('.');
+    const key = rest.join('.');
+
+    switch (group) {
+      case 'business':
+        return this.once('hours', () => this.loadBusinessOpen());
+
+      case 'call': {
+        const clock = await this.once('clock', () => this.loadClock());
+        return clock[key];
+      }
+
+      case 'caller': {
+        const caller = await this.once('caller', () => this.loadCaller());
+        return caller[key];
+      }
+
+      case 'dialed': {
+        const session = await this.once('session', () => this.loadSession());
+        const number = session?.twilioNumber;
+        if (key === 'number') return session?.toNumber;
+        if (key === 'numberId') return number?.id;
+        if (key === 'name') return number?.friendlyName;
+        return undefined;
+      }
+
+      case 'answers': {
+        const session = await this.once('session', () => this.loadSession());
+        const responses: any[] = (session?.metadata as any)?.leadResponses || [];
+        const lowered = key.toLowerCase();
+        const match = responses.find(r => r.questionId === key) ||
+          responses.find(r => typeof r.label === 'string' && r.label.toLowerCase() === lowered);
+        return match?.answer;
+      }
+
+      case 'variables': {
+        const session = await this.once('session', () => this.loadSession());
+        return (session?.metadata as any)?.variables?.[key];
+      }
+
+      case 'metadata': {
+        const session = await this.once('session', () => this.loadSession());
+        return rest.reduce<any>((value, part) => (value == null ? undefined : value[part]), session?.metadata);
+      }
+
+      default:
+        return undefined;
+    }
+  }
+
+  private once<T>(key: string, loader: () => Promise<T>): Promise<T> {
+    if (!this.cache.has(key)) {
+      this.cache.set(key, loader());
+    }
+    return this.cache.get(key)!;
+  }
+
+  private get db() {
+    return this.options.db ?? prisma;
+  }
+
+  private async loadSession() {
+    return this.db.callSession.findUnique({
+      where: { callSid: this.callSid },
+      include: { twilioNumber: true },
+    });
+  }
+
+  private async loadBusinessOpen(): Promise<boolean> {
+    if (this.options.isOpen !== undefined) return this.options.isOpen;
+    const status = await getBusinessHoursStatus(this.tenantId, this.options.now);
+    return status.isOpen;
+  }
+
+  private async loadClock(): Promise<Record<string, any>> {
+    const hours = await this.db.businessHours.findFirst({
+      where: { tenantId: this.tenantId },
+      select: { timezone: true },
+    });
+    const timezone = hours?.timezone || DEFAULT_TIMEZONE;
+    const now = this.options.now ?? new Date();
+    const zonedNow = new Date(now.toLocaleString('en-US', { timeZone: timezone }));
+
+    const holidayDate = new Date(Date.UTC(
+      zonedNow.getFullYear(),
+      zonedNow.getMonth(),
+      zonedNow.getDate()
+    ));
+
+    const holiday = await this.db.holidayHours.findFirst({
+      where: { tenantId: this.tenantId, date: holidayDate },
+    });
+
+    return {
+      dayOfWeek: zonedNow.getDay(),
+      dayName: DAY_NAMES[zonedNow.getDay()],
+      time: zonedNow.toTimeString().slice(0, 5),
+      date: holidayDate.toISOString().slice(0, 10),
+      isHoliday: !!holiday,
+      holidayName: holiday?.name,
+    };
+  }
+
+  private async loadCaller(): Promise<Record<string, any>> {
+    const session = await this.once('session', () => this.loadSession());
+    const number = session?.fromNumber;
+
+    if (!number) {
+      return { isKnown: false, isVip: false, tags: [] };
+    }
+
+    const contact = await this.db.contact.findFirst({
+      where: {
+        tenantId: this.tenantId,
+        OR: [{ phone: number }, { mobile: number }],
+      },
+      include: { tags: { include: { tag: true } } },
+    });
+
+    const tags = contact?.tags.map(t => t.tag.name) ?? [];
+
+    return {
+      number,
+      areaCode: getAreaCode(number),
+      isKnown: !!contact,
+      isVip: tags.some(tag => tag.toLowerCase() === VIP_TAG),
+      tags,
+      contactId: contact?.id,
+      lifecycle: contact?.lifecycle,
+      rating: contact?.rating,
+    };
+  }
+}
+
+/**
+ * Evaluate a condition expression against a call
+ */
+export async function evaluateCondition(
+  expression: ConditionExpression,
+  context: ConditionContext
+): Promise<boolean> {
+  if ('all' in expression) {
+    for (const child of expression.all) {
+      if (!(await evaluateCondition(child, context))) return false;
+    }
+    return true;
+  }
+
+  if ('any' in expression) {
+    for (const child of expression.any) {
+      if (await evaluateCondition(child, context)) return true;
+    }
+    return false;
+  }
+
+  if ('not' in expression) {
+    return !(await evaluateCondition(expression.not, context));
+  }
+
+  const actual = await context.getFact(expression.fact);
+  return compare(actual, expression.op, expression.value);
+}
+
+/**
+ * Pick where a conditional step goes next
+ */
+export async function selectConditionalTarget(
+  step: FlowStep,
+  tenantId: string,
+  callSid: string,
+  options: StepExecutionOptions = {}
+): Promise<string | undefined> {
+  const context = new ConditionContext(tenantId, callSid, options);
+
+  if (step.branches && step.branches.length > 0) {
+    for (const branch of step.branches) {
+      if (await evaluateCondition(branch.when, context)) {
+        return branch.target;
+      }
+    }
+    return step.defaultTarget;
+  }
+
+  if (!step.condition) {
+    return step.falseTarget;
+  }
+
+  const expression: ConditionExpression = typeof step.condition === 'string'
+    ? { fact: 'business.isOpen', op: 'equals', value: step.condition === 'is_open' }
+    : step.condition;
+
+  const conditionMet = await evaluateCondition(expression, context);
+  return conditionMet ? step.trueTarget : step.falseTarget;
+}
+
+function normalize(value: any): any {
+  return typeof value === 'string' ? value.trim().toLowerCase() : value;
+}
+
+function isEqual(actual: any, expected: any): boolean {
+  if (Array.isArray(actual)) {
+    return actual.some(item => isEqual(item, expected));
+  }
+  return normalize(actual) === normalize(expected);
+}
+
+function compare(actual: any, op: ConditionOperator, expected: any): boolean {
+  switch (op) {
+    case 'exists':
+      return actual !== undefined && actual !== null && actual !== '' &&
+        !(Array.isArray(actual) && actual.length === 0);
+
+    case 'not_exists':
+      return !compare(actual, 'exists', expected);
+
+    case 'equals':
+      return isEqual(actual, expected);
+
+    case 'not_equals':
+      return !isEqual(actual, expected);
+
+    case 'in':
+      return Array.isArray(expected) && expected.some(item => isEqual(actual, item));
+
+    case 'not_in':
+      return !compare(actual, 'in', expected);
+
+    case 'contains':
+      if (Array.isArray(actual)) return isEqual(actual, expected);
+      return typeof actual === 'string' && typeof expected === 'string' &&
+        normalize(actual).includes(normalize(expected));
+
+    case 'starts_with':
+      return typeof actual === 'string' && typeof expected === 'string' &&
+        normalize(actual).startsWith(normalize(expected));
+
+    case 'matches':
+      // Flows saved before patterns were checked may still hold unsafe ones
+      return typeof actual === 'string' && matchPatternProblem(expected) === null &&
+        new RegExp(expected, 'i').test(actual.slice(0, MATCH_INPUT_MAX_LENGTH));
+
+    case 'gt':
+      return actual != null && actual > expected;
+
+    case 'gte':
+      return actual != null && actual >= expected;
+
+    case 'lt':
+      return actual != null && actual < expected;
+
+    case 'lte':
+      return actual != null && actual <= expected;
+
+    case 'between': {
+      if (actual == null || !Array.isArray(expected) || expected.length !== 2) return false;
+      const [start, end] = expected;
+      // Windows like ["22:00", "06:00"] wrap past midnight
+      return start <= end
+        ? actual >= start && actual <= end
+        : actual >= start || actual <= end;
+    }
+
+    default:
+      return false;
+  }
+}
@@ -1,11 +1,36 @@
+import axios from 'axios';
+import { CallSession, Prisma } from '@prisma/client';
 import prisma from '../../db/prisma';
 import { env } from '../../config/env';
 import { getBusinessHoursStatus } from '../ai/toolFunctions';
+import { twilioService } from '../twilio/twilioService';
+import { findOpenAppointmentSlots } from '../tenant/scheduleService';
+import { mediaStreamServer } from '../voice/mediaStreamHandler';
+import { voicemailService } from '../voicemail/voicemailService';
+import { ConditionBranch, ConditionExpression, selectConditionalTarget } from './flowConditions';
+import { assertPublicUrl, publicHttpAgent, publicHttpsAgent } from './outboundAddress';
 
 /**
  * Flow Step Types
  */
-export type FlowStepType = 'menu' | 'message' | 'transfer' | 'ai' | 'voicemail' | 'gather_info' | 'conditional' | 'collect_lead';
+export type FlowStepType =
+  | 'menu'
+  | 'message'
+  | 'transfer'
+  | 'ai'
+  | 'voicemail'
+  | 'gather_info'
+  | 'conditional'
+  | 'collect_lead'
+  | 'send_sms'
+  | 'webhook'
+  | 'set_variable'
+  | 'book_appointment';
+
+/**
+ * Step types that run server-side work through /twilio/flow-action
+ */
+export const ACTION_STEP_TYPES: FlowStepType[] = ['send_sms', 'webhook', 'set_variable', 'book_appointment'];
 
 export interface LeadQuestion {
   id: string;
@@ -21,12 +46,25 @@ export interface FlowStep {
   options?: FlowOption[];
   timeout?: number;
   phoneNumber?: string;
-  condition?: 'is_open' | 'is_closed';
+  condition?: 'is_open' | 'is_closed' | ConditionExpression;
   trueTarget?: string;
   falseTarget?: string;
+  branches?: ConditionBranch[];    // Multi-way conditional, first match wins
+  defaultTarget?: string;          // Used when no branch matches
   gatherType?: 'name' | 'phone' | 'email' | 'reason';
   nextStep?: string;
   leadQuestions?: LeadQuestion[];  // For collect_lead step type
+  failureStep?: string;            // webhook / send_sms / book_appointment fallback
+  smsMessage?: string;             // For send_sms step type, supports {{variables}}
+  smsLink?: string;
+  webhookUrl?: string;             // For webhook step type
+  variable?: string;               // For set_variable step type
+  value?: string;
+  appointmentTitle?: string;       // For book_appointment step type
+  appointmentDuration?: number;    // minutes
+  slotCount?: number;
+  daysAhead?: number;
+  assigneeId?: string;
 }
 
 export interface FlowOption {
@@ -43,6 +81,48 @@ export interface FlowConfig {
   description?: string;
 }
 
+export interface MenuSelection {
+  action: string;
+  target?: string;
+  phoneNumber?: string;
+}
+
+/**
+ * Overrides used when a step runs outside a live call (e.g. the call simulator)
+ */
+export interface StepExecutionOptions {
+  now?: Date;        // Evaluate business hours at this time instead of the real clock
+  isOpen?: boolean;  // Force the open/closed state used by conditional steps
+  db?: Prisma.TransactionClient;  // Write action side effects through this client
+  dryRun?: boolean;  // Don't send SMS or call webhooks
+  webhookResponses?: Record<string, { status: number; body?: any }>;  // Stubbed webhook replies by step id
+}
+
+/**
+ * Side effect produced by an action step
+ */
+export type FlowActionEffect =
+  | { type: 'sms'; stepId: string; to: string; body: string; sent: boolean }
+  | { type: 'webhook'; stepId: string; url: string; status: number | null; ok: boolean }
+  | { type: 'variable'; stepId: string; name: string; value: string }
+  | { type: 'appointment_slots'; stepId: string; slots: string[] }
+  | { type: 'appointment'; stepId: string; taskId: string; start: string };
+
+export interface FlowActionResult {
+  twiml: string;
+  effect?: FlowActionEffect;
+}
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+/**
+ * Keys appointment slots are offered on, in order. The recording opt-out
+ * key is skipped so pressing it never books a slot.
+ */
+export function appointmentSlotDigits(optOutDigit?: string | null): string[] {
+  return '123456789'.split('').filter(digit => digit !== optOutDigit);
+}
+
 /**
  * Flow Executor - Executes multi-step call flows
  */
@@ -128,7 +208,8 @@ export class FlowExecutor {
     flow: FlowConfig,
     stepId: string,
     tenantId: string,
-    callSid: string
+    callSid: string,
+    options: StepExecutionOptions = {}
   ): Promise<string> {
     const step = this.getStep(flow, stepId);
 
@@ -149,13 +230,13 @@ export class FlowExecutor {
         return this.generateTransferTwiML(step);
 
       case 'ai':
-        return this.generateAITwiML(step);
+        return this.generateAITwiML(step, tenantId, callSid, options);
 
       case 'voicemail':
         return this.generateVoicemailTwiML(step);
 
       case 'conditional':
-        return await this.generateConditionalTwiML(step, tenantId, callSid);
+        return await this.generateConditionalTwiML(step, tenantId, callSid, options);
 
       case 'gather_info':
         return this.generateGatherInfoTwiML(step, callSid);
@@ -163,6 +244,12 @@ export class FlowExecutor {
       case 'collect_lead':
         return this.generateCollectLeadTwiML(step, callSid, 0);
 
+      case 'send_sms':
+      case 'webhook':
+      case 'set_variable':
+      case 'book_appointment':
+        return this.generateActionTwiML(step);
+
       default:
         return this.generateErrorTwiML('Unknown step type.');
     }
@@ -249,12 +336,22 @@ export class FlowExecutor {
   /**
    * Generate TwiML for AI receptionist mode
    */
-  private generateAITwiML(step: FlowStep): string {
+  private async generateAITwiML(
+    step: FlowStep,
+    tenantId: string,
+    callSid: string,
+    options: StepExecutionOptions
+  ): Promise<string> {
     const greeting = step.prompt || 'How can I help you today?';
+
+    if (await this.usesMediaStreams(tenantId, options)) {
+      return mediaStreamServer.createTwiML(callSid, greeting);
+    }
+
     const gatherUrl = `${env.BASE_URL}/twilio/gather`;
 
     let twiml = '<?xml version="1.0" encoding="UTF-8"?><Response>';
-    twiml += `<Gather input="speech" timeout="3" speechTimeout="auto" action="${gatherUrl}" method="POST">`;
+    twiml += `<Gather input="speech dtmf" numDigits="1" timeout="3" speechTimeout="auto" action="${gatherUrl}" method="POST">`;
     twiml += `<Say>${this.escapeXML(greeting)}</Say>`;
     twiml += '</Gather>';
     twiml += '<Say>I did not hear anything. Goodbye.</Say>';
@@ -267,36 +364,19 @@ export class FlowExecutor {
    * Generate TwiML for voicemail
    */
   private generateVoicemailTwiML(step: FlowStep): string {
-    const prompt = step.prompt || 'Please leave a message after the beep.';
-
-    let twiml = '<?xml version="1.0" encoding="UTF-8"?><Response>';
-    twiml += `<Say>${this.escapeXML(prompt)}</Say>`;
-    twiml += '<Record maxLength="120" transcribe="true" playBeep="true" transcribeCallback="' + env.BASE_URL + '/twilio/transcription"/>';
-    twiml += '<Say>Thank you for your message. Goodbye.</Say>';
-    twiml += '<Hangup/></Response>';
-
-    return twiml;
+    return voicemailService.recordTwiML(step.prompt || 'Please leave a message after the beep.');
   }
 
   /**
-   * Generate TwiML for conditional logic (e.g., check business hours)
+   * Generate TwiML for conditional logic (business hours, caller, time, answers...)
    */
   private async generateConditionalTwiML(
     step: FlowStep,
     tenantId: string,
-    callSid: string
+    callSid: string,
+    options: StepExecutionOptions
   ): Promise<string> {
-    let conditionMet = false;
-
-    if (step.condition === 'is_open') {
-      const hours = await getBusinessHoursStatus(tenantId);
-      conditionMet = hours.isOpen;
-    } else if (step.condition === 'is_closed') {
-      const hours = await getBusinessHoursStatus(tenantId);
-      conditionMet = !hours.isOpen;
-    }
-
-    const targetStep = conditionMet ? step.trueTarget : step.falseTarget;
+    const targetStep = await selectConditionalTarget(step, tenantId, callSid, options);
 
     if (!targetStep) {
       return this.generateErrorTwiML('Conditional flow missing target.');
@@ -310,6 +390,15 @@ export class FlowExecutor {
     return twiml;
   }
 
+  /**
+   * Generate TwiML that hands an action step to the flow-action callback
+   */
+  private generateActionTwiML(step: FlowStep): string {
+    return '<?xml version="1.0" encoding="UTF-8"?><Response>' +
+      `<Redirect method="POST">${env.BASE_URL}/twilio/flow-action/${step.id}</Redirect>` +
+      '</Response>';
+  }
+
   /**
    * Generate TwiML for gathering information (lead capture)
    */
@@ -317,7 +406,7 @@ export class FlowExecutor {
     const gatherUrl = `${env.BASE_URL}/twilio/flow-gather-info`;
 
     let twiml = '<?xml version="1.0" encoding="UTF-8"?><Response>';
-    twiml += `<Gather input="speech" timeout="5" speechTimeout="auto" action="${gatherUrl}" method="POST">`;
+    twiml += `<Gather input="speech dtmf" numDigits="1" timeout="5" speechTimeout="auto" action="${gatherUrl}" method="POST">`;
     
     if (step.prompt) {
       twiml += `<Say>${this.escapeXML(step.prompt)}</Say>`;
@@ -361,7 +450,7 @@ export class FlowExecutor {
     const currentQuestion = sortedQuestions[questionIndex];
 
     let twiml = '<?xml version="1.0" encoding="UTF-8"?><Response>';
-    twiml += `<Gather input="speech" timeout="5" speechTimeout="auto" action="${gatherUrl}" method="POST">`;
+    twiml += `<Gather input="speech dtmf" numDigits="1" timeout="5" speechTimeout="auto" action="${gatherUrl}" method="POST">`;
     
     if (step.prompt && questionIndex === 0) {
       twiml += `<Say>${this.escapeXML(step.prompt)}</Say>`;
@@ -390,7 +479,7 @@ export class FlowExecutor {
     const currentQuestion = sortedQuestions[questionIndex];
 
     let twiml = '<?xml version="1.0" encoding="UTF-8"?><Response>';
-    twiml += `<Gather input="speech" timeout="5" speechTimeout="auto" action="${gatherUrl}" method="POST">`;
+    twiml += `<Gather input="speech dtmf" numDigits="1" timeout="5" speechTimeout="auto" action="${gatherUrl}" method="POST">`;
     twiml += `<Say>I heard you say: ${this.escapeXML(response)}. Is that correct? Please say yes or no.</Say>`;
     twiml += '</Gather>';
     twiml += '<Say>I did not hear your response.</Say>';
@@ -441,7 +530,7 @@ export class FlowExecutor {
     flow: FlowConfig,
     currentStepId: string,
     digit: string
-  ): Promise<{ action: string; target?: string; phoneNumber?: string } | null> {
+  ): Promise<MenuSelection | null> {
     const step = this.getStep(flow, currentStepId);
 
     if (!step || step.type !== 'menu') {
@@ -460,6 +549,467 @@ export class FlowExecutor {
       phoneNumber: option.phoneNumber,
     };
   }
+
+  /**
+   * Generate TwiML for the action picked from a menu
+   */
+  async executeSelection(
+    flow: FlowConfig,
+    selection: MenuSelection,
+    tenantId: string,
+    callSid: string,
+    options: StepExecutionOptions = {}
+  ): Promise<string> {
+    let twiml: string;
+
+    switch (selection.action) {
+      case 'goto':
+        if (selection.target) {
+          twiml = await this.executeStep(flow, selection.target, tenantId, callSid, options);
+        } else {
+          twiml = '<Response><Say>Target step not found.</Say><Hangup/></Response>';
+        }
+        break;
+
+      case 'transfer':
+        if (selection.phoneNumber) {
+          twiml = '<?xml version="1.0" encoding="UTF-8"?><Response>';
+          twiml += '<Say>Transferring your call now. Please hold.</Say>';
+          twiml += `<Dial timeout="30" action="${env.BASE_URL}/twilio/transfer-status" method="POST">`;
+          twiml += `<Number>${selection.phoneNumber}</Number>`;
+          twiml += '</Dial>';
+          twiml += '<Say>The call could not be completed.</Say>';
+          twiml += '<Hangup/></Response>';
+        } else {
+          twiml = '<Response><Say>Transfer number not configured.</Say><Hangup/></Response>';
+        }
+        break;
+
+      case 'ai':
+        if (await this.usesMediaStreams(tenantId, options)) {
+          twiml = mediaStreamServer.createTwiML(callSid, 'How can I help you today?');
+          break;
+        }
+        twiml = '<?xml version="1.0" encoding="UTF-8"?><Response>';
+        twiml += `<Gather input="speech dtmf" numDigits="1" timeout="3" speechTimeout="auto" action="${env.BASE_URL}/twilio/gather" method="POST">`;
+        twiml += '<Say>How can I help you today?</Say>';
+        twiml += '</Gather>';
+        twiml += '<Say>I did not hear anything. Goodbye.</Say>';
+        twiml += '<Hangup/></Response>';
+        break;
+
+      case 'voicemail':
+        twiml = voicemailService.recordTwiML('Please leave a message after the beep.');
+        break;
+
+      case 'hangup':
+        twiml = '<Response><Say>Thank you for calling. Goodbye.</Say><Hangup/></Response>';
+        break;
+
+      default:
+        twiml = '<Response><Say>Invalid action.</Say><Hangup/></Response>';
+    }
+
+    return twiml;
+  }
+
+  /**
+   * Check whether the caller confirmed a lead response
+   */
+  isConfirmation(speech?: string): boolean {
+    if (!speech) return false;
+
+    const text = speech.toLowerCase();
+    return text.includes('yes') || text.includes('correct') || text.includes('right');
+  }
+
+  /**
+   * Run the server-side work for an action step and return the TwiML to continue with
+   */
+  async performAction(
+    flow: FlowConfig,
+    stepId: string,
+    session: CallSession,
+    options: StepExecutionOptions = {}
+  ): Promise<FlowActionResult> {
+    const step = this.getStep(flow, stepId);
+
+    if (!step) {
+      return { twiml: this.generateErrorTwiML('Flow step not found.') };
+    }
+
+    switch (step.type) {
+      case 'send_sms':
+        return this.sendSmsStep(step, session, options);
+
+      case 'webhook':
+        return this.callWebhookStep(flow, step, session, options);
+
+      case 'set_variable':
+        return this.setVariableStep(step, session, options);
+
+      case 'book_appointment':
+        return this.offerAppointmentSlots(step, session, options);
+
+      default:
+        return { twiml: this.generateErrorTwiML('This step has no action.') };
+    }
+  }
+
+  /**
+   * Text the caller a message and/or link
+   */
+  private async sendSmsStep(
+    step: FlowStep,
+    session: CallSession,
+    options: StepExecutionOptions
+  ): Promise<FlowActionResult> {
+    const body = [step.smsMessage, step.smsLink]
+      .filter((part): part is string => !!part)
+      .map(part => this.renderTemplate(part, session))
+      .join(' ');
+
+    let sent = false;
+
+    try {
+      if (!options.dryRun) {
+        await twilioService.sendSMS({
+          to: session.fromNumber,
+          from: session.toNumber,
+          body,
+        });
+      }
+      sent = true;
+    } catch (error) {
+      console.error(`Flow SMS step ${step.id} failed:`, error);
+    }
+
+    const effect: FlowActionEffect = { type: 'sms', stepId: step.id, to: session.fromNumber, body, sent };
+
+    if (!sent) {
+      return { twiml: this.generateContinueTwiML(null, step.failureStep ?? step.nextStep), effect };
+    }
+
+    return { twiml: this.generateContinueTwiML(step.prompt, step.nextStep), effect };
+  }
+
+  /**
+   * POST the call variables to a tenant URL and branch on the reply.
+   * A 2xx goes to nextStep, anything else to failureStep. The reply may
+   * return { "variables": {...}, "nextStep": "step-id" } to set variables
+   * and pick the next step itself. URLs on private or loopback addresses
+   * fail, and redirects aren't followed.
+   */
+  private async callWebhookStep(
+    flow: FlowConfig,
+    step: FlowStep,
+    session: CallSession,
+    options: StepExecutionOptions
+  ): Promise<FlowActionResult> {
+    const url = step.webhookUrl || '';
+    const metadata = (session.metadata as any) || {};
+    let status: number | null = null;
+    let body: any = null;
+
+    try {
+      if (options.dryRun) {
+        const stub = options.webhookResponses?.[step.id];
+        if (stub) {
+          status = stub.status;
+          body = stub.body ?? null;
+        }
+      } else {
+        await assertPublicUrl(url);
+        const response = await axios.post(url, {
+          callSid: session.callSid,
+          stepId: step.id,
+          tenantId: session.tenantId,
+          callerNumber: session.fromNumber,
+          calledNumber: session.toNumber,
+          variables: metadata.variables || {},
+        }, {
+          timeout: WEBHOOK_TIMEOUT_MS,
+          maxRedirects: 0,
+          httpAgent: publicHttpAgent,
+          httpsAgent: publicHttpsAgent,
+          validateStatus: () => true,
+        });
+        status = response.status;
+        body = response.data;
+      }
+    } catch (error) {
+      console.error(`Flow webhook step ${step.id} failed:`, error);
+    }
+
+    const ok = status !== null && status >= 200 && status < 300;
+    const effect: FlowActionEffect = { type: 'webhook', stepId: step.id, url, status, ok };
+
+    if (!ok) {
+      return { twiml: this.generateContinueTwiML(null, step.failureStep), effect };
+    }
+
+    if (body && typeof body === 'object' && body.variables && typeof body.variables === 'object') {
+      const variables = { ...(metadata.variables || {}) };
+      for (const [key, value] of Object.entries(body.variables)) {
+        variables[key] = String(value);
+      }
+      await this.saveMetadata(session, { ...metadata, variables }, options);
+    }
+
+    const requested = body && typeof body === 'object' ? body.nextStep : undefined;
+    const nextStep = typeof requested === 'string' && this.getStep(flow, requested) ? requested : step.nextStep;
+
+    return { twiml: this.generateContinueTwiML(step.prompt, nextStep), effect };
+  }
+
+  /**
+   * Store a value under CallSession.metadata.variables
+   */
+  private async setVariableStep(
+    step: FlowStep,
+    session: CallSession,
+    options: StepExecutionOptions
+  ): Promise<FlowActionResult> {
+    const metadata = (session.metadata as any) || {};
+    const name = step.variable || '';
+    const value = this.renderTemplate(step.value ?? '', session);
+
+    await this.saveMetadata(session, {
+      ...metadata,
+      variables: { ...(metadata.variables || {}), [name]: value },
+    }, options);
+
+    return {
+      twiml: this.generateContinueTwiML(step.prompt, step.nextStep),
+      effect: { type: 'variable', stepId: step.id, name, value },
+    };
+  }
+
+  /**
+   * Read out the next open slots and wait for the caller to pick one
+   */
+  private async offerAppointmentSlots(
+    step: FlowStep,
+    session: CallSession,
+    options: StepExecutionOptions,
+    intro?: string
+  ): Promise<FlowActionResult> {
+    const metadata = (session.metadata as any) || {};
+    const digits = appointmentSlotDigits(metadata.recording?.optOutDigit);
+    const slots = await findOpenAppointmentSlots(session.tenantId, {
+      durationMinutes: step.appointmentDuration || 30,
+      count: Math.min(step.slotCount || 3, digits.length),
+      daysAhead: step.daysAhead || 7,
+      from: options.now,
+    }, options.db);
+
+    await this.saveMetadata(session, {
+      ...metadata,
+      appointmentSlots: slots.map((slot, index) => ({ start: slot.start.toISOString(), label: slot.label, digit: digits[index] })),
+    }, options);
+
+    const effect: FlowActionEffect = {
+      type: 'appointment_slots',
+      stepId: step.id,
+      slots: slots.map(slot => slot.start.toISOString()),
+    };
+
+    if (slots.length === 0) {
+      return {
+        twiml: this.generateContinueTwiML(
+          'Sorry, there are no open appointment times right now.',
+          step.failureStep ?? step.nextStep
+        ),
+        effect,
+      };
+    }
+
+    let twiml = '<?xml version="1.0" encoding="UTF-8"?><Response>';
+    twiml += `<Gather input="dtmf" timeout="${step.timeout || 5}" numDigits="1" action="${env.BASE_URL}/twilio/flow-appointment" method="POST">`;
+
+    const lead = intro ?? step.prompt;
+    if (lead) {
+      twiml += `<Say>${this.escapeXML(lead)}</Say>`;
+    }
+
+    slots.forEach((slot, index) => {
+      twiml += `<Say>Press ${digits[index]} for ${this.escapeXML(slot.label)}.</Say>`;
+    });
+
+    twiml += '</Gather>';
+    twiml += '<Say>I did not receive a selection.</Say>';
+    twiml += this.continueVerb(step.failureStep);
+    twiml += '</Response>';
+
+    return { twiml, effect };
+  }
+
+  /**
+   * Book the slot the caller picked as a MEETING task
+   */
+  async handleAppointmentSelection(
+    flow: FlowConfig,
+    session: CallSession,
+    digit: string,
+    options: StepExecutionOptions = {}
+  ): Promise<FlowActionResult> {
+    const db = options.db ?? prisma;
+    const metadata = (session.metadata as any) || {};
+    const step = this.getStep(flow, metadata.currentStepId);
+
+    if (!step || step.type !== 'book_appointment') {
+      return { twiml: this.generateErrorTwiML('Appointment step not found.') };
+    }
+
+    // Slots offered before digits were saved were numbered from 1
+    const offered: Array<{ start: string; label: string; digit?: string }> = metadata.appointmentSlots || [];
+    const slot = offered.find((entry, index) => (entry.digit ?? String(index + 1)) === digit);
+
+    if (!slot) {
+      return this.offerAppointmentSlots(step, session, options, 'Sorry, that is not one of the options.');
+    }
+
+    const start = new Date(slot.start);
+    const durationMs = (step.appointmentDuration || 30) * 60 * 1000;
+
+    const assignee = step.assigneeId
+      ? await db.user.findFirst({ where: { id: step.assigneeId, tenantId: session.tenantId } })
+      : null;
+    const owner = assignee ?? await db.user.findFirst({
+      where: { tenantId: session.tenantId, role: 'TENANT_ADMIN' },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (!owner) {
+      console.error(`No user to own appointment for tenant ${session.tenantId}`);
+      return {
+        twiml: this.generateContinueTwiML(
+          'Sorry, we could not book that appointment.',
+          step.failureStep ?? step.nextStep
+        ),
+      };
+    }
+
+    const contact = await db.contact.findFirst({
+      where: {
+        tenantId: session.tenantId,
+        OR: [{ phone: session.fromNumber }, { mobile: session.fromNumber }],
+      },
+      select: { id: true },
+    });
+
+    // Check the slot and book it under a per-tenant lock, so two callers
+    // picking the same time can't both get it
+    const book = async (tx: Prisma.TransactionClient) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`appointments:${session.tenantId}`}))`;
+
+      // Someone else may have taken the slot while the caller was listening
+      const taken = await tx.task.count({
+        where: {
+          tenantId: session.tenantId,
+          taskType: 'MEETING',
+          status: { not: 'CANCELLED' },
+          dueDate: {
+            gt: new Date(start.getTime() - durationMs),
+            lt: new Date(start.getTime() + durationMs),
+          },
+        },
+      });
+
+      if (taken > 0) {
+        return null;
+      }
+
+      return tx.task.create({
+        data: {
+          tenantId: session.tenantId,
+          contactId: contact?.id,
+          ownerId: owner.id,
+          assigneeId: assignee?.id ?? owner.id,
+          title: this.renderTemplate(step.appointmentTitle || 'Appointment with {{callerNumber}}', session),
+          description: `Booked by phone from ${session.fromNumber} (call ${session.callSid})`,
+          taskType: 'MEETING',
+          dueDate: start,
+        },
+      });
+    };
+
+    // The simulator already runs inside a transaction
+    const task = options.db ? await book(options.db) : await prisma.$transaction(book);
+
+    if (!task) {
+      return this.offerAppointmentSlots(step, session, options, 'Sorry, that time was just taken.');
+    }
+
+    await this.saveMetadata(session, {
+      ...metadata,
+      appointment: { taskId: task.id, start: slot.start, label: slot.label },
+    }, options);
+
+    return {
+      twiml: this.generateContinueTwiML(`You're booked for ${slot.label}.`, step.nextStep),
+      effect: { type: 'appointment', stepId: step.id, taskId: task.id, start: slot.start },
+    };
+  }
+
+  /**
+   * Fill {{placeholders}} from the call and its variables
+   */
+  renderTemplate(text: string, session: CallSession): string {
+    const metadata = (session.metadata as any) || {};
+    const caller = metadata.conversation?.caller;
+    const values: Record<string, string> = {
+      callerNumber: session.fromNumber,
+      calledNumber: session.toNumber,
+      callSid: session.callSid,
+      callerName: caller?.firstName || '',
+      callerOwner: caller?.ownerName || '',
+      ...(metadata.variables || {}),
+    };
+
+    return text.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_match, key: string) => values[key] ?? '');
+  }
+
+  /**
+   * Say an optional message then move on to the next step (or hang up)
+   */
+  private generateContinueTwiML(message: string | null | undefined, nextStep?: string): string {
+    let twiml = '<?xml version="1.0" encoding="UTF-8"?><Response>';
+
+    if (message) {
+      twiml += `<Say>${this.escapeXML(message)}</Say>`;
+    }
+
+    twiml += this.continueVerb(nextStep);
+    twiml += '</Response>';
+    return twiml;
+  }
+
+  private continueVerb(nextStep?: string): string {
+    return nextStep
+      ? `<Redirect method="POST">${env.BASE_URL}/twilio/flow-step/${nextStep}</Redirect>`
+      : '<Hangup/>';
+  }
+
+  /**
+   * Whether AI handoffs should connect a media stream instead of Gather/Say
+   */
+  private async usesMediaStreams(tenantId: string, options: StepExecutionOptions): Promise<boolean> {
+    const config = await (options.db ?? prisma).receptionistConfig.findUnique({
+      where: { tenantId },
+      select: { enableMediaStreams: true },
+    });
+    return !!config?.enableMediaStreams;
+  }
+
+  private async saveMetadata(session: CallSession, metadata: any, options: StepExecutionOptions) {
+    const db = options.db ?? prisma;
+    await db.callSession.update({
+      where: { id: session.id },
+      data: { metadata },
+    });
+    session.metadata = metadata;
+  }
 }
 
 export const flowExecutor = new FlowExecutor();
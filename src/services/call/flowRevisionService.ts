@@ -0,0 +1,219 @@
+import { CallFlow, Prisma } from '@prisma/client';
+import prisma from '../../db/prisma';
+import { FlowConfig, FlowStep } from './flowExecutor';
+import { validateFlowConfig, FlowValidationIssue } from './flowValidator';
+import { consentService } from './consentService';
+
+export interface FlowStepChange {
+  stepId: string;
+  fields: Array<{ field: string; before: any; after: any }>;
+}
+
+export interface FlowDiff {
+  fromVersion: number | null;
+  toVersion: number;
+  entryPointChanged: { before: string | null; after: string } | null;
+  addedSteps: FlowStep[];
+  removedSteps: FlowStep[];
+  changedSteps: FlowStepChange[];
+}
+
+type TransactionClient = Prisma.TransactionClient;
+
+export class FlowRevisionService {
+  /**
+   * Store the current state of a flow as a new immutable revision
+   */
+  async recordRevision(
+    tx: TransactionClient,
+    flow: CallFlow,
+    userId?: string,
+    note?: string
+  ) {
+    const latest = await tx.callFlowRevision.findFirst({
+      where: { callFlowId: flow.id },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    return tx.callFlowRevision.create({
+      data: {
+        callFlowId: flow.id,
+        tenantId: flow.tenantId,
+        version: (latest?.version ?? 0) + 1,
+        name: flow.name,
+        flowType: flow.flowType,
+        config: flow.config as Prisma.InputJsonValue,
+        note,
+        createdBy: userId,
+      },
+    });
+  }
+
+  /**
+   * Snapshot flows saved before revisions existed so their
+   * original config can still be restored
+   */
+  async ensureBaseline(tx: TransactionClient, flow: CallFlow, userId?: string) {
+    const count = await tx.callFlowRevision.count({
+      where: { callFlowId: flow.id },
+    });
+
+    if (count === 0) {
+      await this.recordRevision(tx, flow, userId, 'Baseline before revision history');
+    }
+  }
+
+  /**
+   * List revisions for a flow, newest first
+   */
+  async listRevisions(callFlowId: string) {
+    return prisma.callFlowRevision.findMany({
+      where: { callFlowId },
+      orderBy: { version: 'desc' },
+      select: {
+        id: true,
+        version: true,
+        name: true,
+        flowType: true,
+        note: true,
+        createdBy: true,
+        createdAt: true,
+      },
+    });
+  }
+
+  /**
+   * Get a single revision, scoped to its flow
+   */
+  async getRevision(callFlowId: string, revisionId: string) {
+    return prisma.callFlowRevision.findFirst({
+      where: { id: revisionId, callFlowId },
+    });
+  }
+
+  /**
+   * Diff a revision against another one (defaults to the version before it)
+   */
+  async diffRevision(callFlowId: string, revisionId: string, againstId?: string): Promise<FlowDiff | null> {
+    const revision = await this.getRevision(callFlowId, revisionId);
+    if (!revision) return null;
+
+    const base = againstId
+      ? await this.getRevision(callFlowId, againstId)
+      : await prisma.callFlowRevision.findFirst({
+          where: { callFlowId, version: { lt: revision.version } },
+          orderBy: { version: 'desc' },
+        });
+
+    if (againstId && !base) return null;
+
+    return this.diffConfigs(
+      (base?.config as unknown as FlowConfig) ?? null,
+      revision.config as unknown as FlowConfig,
+      base?.version ?? null,
+      revision.version
+    );
+  }
+
+  /**
+   * Compare two flow configs step by step
+   */
+  diffConfigs(
+    before: FlowConfig | null,
+    after: FlowConfig,
+    fromVersion: number | null,
+    toVersion: number
+  ): FlowDiff {
+    const beforeSteps = new Map((before?.steps ?? []).map(s => [s.id, s]));
+    const afterSteps = new Map((after.steps ?? []).map(s => [s.id, s]));
+
+    const addedSteps: FlowStep[] = [];
+    const removedSteps: FlowStep[] = [];
+    const changedSteps: FlowStepChange[] = [];
+
+    for (const [id, step] of afterSteps) {
+      const previous = beforeSteps.get(id);
+      if (!previous) {
+        addedSteps.push(step);
+        continue;
+      }
+
+      const fieldNames = new Set([...Object.keys(previous), ...Object.keys(step)]);
+      const fields: FlowStepChange['fields'] = [];
+
+      for (const field of fieldNames) {
+        const oldValue = (previous as any)[field];
+        const newValue = (step as any)[field];
+        if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+          fields.push({ field, before: oldValue ?? null, after: newValue ?? null });
+        }
+      }
+
+      if (fields.length > 0) {
+        changedSteps.push({ stepId: id, fields });
+      }
+    }
+
+    for (const [id, step] of beforeSteps) {
+      if (!afterSteps.has(id)) {
+        removedSteps.push(step);
+      }
+    }
+
+    const beforeEntry = before?.entryPoint ?? null;
+
+    return {
+      fromVersion,
+      toVersion,
+      entryPointChanged: beforeEntry !== after.entryPoint
+        ? { before: beforeEntry, after: after.entryPoint }
+        : null,
+      addedSteps,
+      removedSteps,
+      changedSteps,
+    };
+  }
+
+  /**
+   * Restore a flow to the config stored in a revision.
+   * The restore itself is recorded as a new revision.
+   */
+  async rollback(
+    callFlowId: string,
+    revisionId: string,
+    userId?: string
+  ): Promise<{ success: boolean; flow?: CallFlow; error?: string; details?: FlowValidationIssue[] }> {
+    const revision = await this.getRevision(callFlowId, revisionId);
+
+    if (!revision) {
+      return { success: false, error: 'Revision not found' };
+    }
+
+    const validation = validateFlowConfig(revision.config, {
+      optOutDigit: await consentService.optOutDigit(revision.tenantId),
+    });
+    if (!validation.valid) {
+      return { success: false, error: 'Revision config is no longer valid', details: validation.errors };
+    }
+
+    const flow = await prisma.$transaction(async (tx) => {
+      const updated = await tx.callFlow.update({
+        where: { id: callFlowId },
+        data: {
+          name: revision.name,
+          flowType: revision.flowType,
+          config: revision.config as Prisma.InputJsonValue,
+        },
+      });
+
+      await this.recordRevision(tx, updated, userId, `Restored from version ${revision.version}`);
+
+      return updated;
+    });
+
+    return { success: true, flow };
+  }
+}
+
+export const flowRevisionService = new FlowRevisionService();
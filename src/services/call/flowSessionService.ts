@@ -0,0 +1,287 @@
+import { CallSession } from '@prisma/client';
+import prisma from '../../db/prisma';
+import { JobProcessor } from '../jobs/jobProcessor';
+import { flowExecutor, FlowActionEffect, FlowActionResult, FlowConfig, FlowStep, StepExecutionOptions } from './flowExecutor';
+
+export interface QueuedJob {
+  type: string;
+  payload: any;
+}
+
+/**
+ * What one flow webhook did to the call
+ */
+export interface FlowTurn {
+  twiml: string;
+  enteredStep?: string;      // Step the call moved to, if any
+  effect?: FlowActionEffect;
+  jobs?: QueuedJob[];        // Jobs queued along the way
+}
+
+/**
+ * Flow Session Service - moves a call session through its flow, one
+ * webhook at a time. The Twilio webhooks and the call simulator both run
+ * through here; the simulator passes its transaction as options.db.
+ * Each method writes the session's metadata and leaves the new value on
+ * session.metadata.
+ */
+export class FlowSessionService {
+  /**
+   * The caller pressed a digit on a menu
+   */
+  async selectMenuOption(
+    flow: FlowConfig,
+    session: CallSession,
+    digit: string,
+    options: StepExecutionOptions = {}
+  ): Promise<FlowTurn> {
+    const metadata = (session.metadata as any) || {};
+    const selection = await flowExecutor.handleMenuSelection(flow, metadata.currentStepId, digit);
+
+    if (!selection) {
+      return { twiml: '<Response><Say>Invalid selection. Please try again.</Say><Hangup/></Response>' };
+    }
+
+    await this.saveMetadata(session, {
+      ...metadata,
+      lastSelection: digit,
+      currentStepId: selection.target,
+    }, options);
+
+    const twiml = await flowExecutor.executeSelection(flow, selection, session.tenantId, session.callSid, options);
+
+    return {
+      twiml,
+      enteredStep: selection.action === 'goto' && selection.target ? selection.target : undefined,
+    };
+  }
+
+  /**
+   * Run a step the call was redirected to
+   */
+  async enterStep(
+    flow: FlowConfig,
+    session: CallSession,
+    stepId: string,
+    questionIndex: number | null,
+    options: StepExecutionOptions = {}
+  ): Promise<FlowTurn> {
+    const metadata: any = {
+      ...((session.metadata as any) || {}),
+      currentStepId: stepId,
+    };
+
+    if (questionIndex !== null) {
+      metadata.leadQuestionIndex = questionIndex;
+    }
+
+    await this.saveMetadata(session, metadata, options);
+
+    const twiml = await flowExecutor.executeStep(flow, stepId, session.tenantId, session.callSid, options);
+    return { twiml, enteredStep: stepId };
+  }
+
+  /**
+   * Run an action step (send_sms, webhook, set_variable, book_appointment)
+   */
+  async runAction(
+    flow: FlowConfig,
+    session: CallSession,
+    stepId: string,
+    options: StepExecutionOptions = {}
+  ): Promise<FlowActionResult> {
+    await this.saveMetadata(session, {
+      ...((session.metadata as any) || {}),
+      currentStepId: stepId,
+    }, options);
+
+    return flowExecutor.performAction(flow, stepId, session, options);
+  }
+
+  /**
+   * Keep what the caller said on a gather_info step as a flow variable,
+   * named after its gatherType, and move on to the next step
+   */
+  async recordGatheredInfo(
+    flow: FlowConfig,
+    session: CallSession,
+    speech: string,
+    options: StepExecutionOptions = {}
+  ): Promise<FlowTurn> {
+    const metadata = (session.metadata as any) || {};
+    const step = flowExecutor.getStep(flow, metadata.currentStepId);
+
+    if (!step || step.type !== 'gather_info') {
+      return { twiml: '<Response><Say>Invalid step.</Say><Hangup/></Response>' };
+    }
+
+    await this.saveMetadata(session, {
+      ...metadata,
+      variables: { ...(metadata.variables || {}), [step.gatherType || step.id]: speech },
+      currentStepId: step.nextStep || step.id,
+    }, options);
+
+    if (!step.nextStep) {
+      return { twiml: '<Response><Say>Thank you. Goodbye.</Say><Hangup/></Response>' };
+    }
+
+    const twiml = await flowExecutor.executeStep(flow, step.nextStep, session.tenantId, session.callSid, options);
+    return { twiml, enteredStep: step.nextStep };
+  }
+
+  /**
+   * Hold the caller's answer to a lead question and ask them to confirm it
+   */
+  async recordLeadResponse(
+    flow: FlowConfig,
+    session: CallSession,
+    speech: string,
+    options: StepExecutionOptions = {}
+  ): Promise<FlowTurn> {
+    const metadata = (session.metadata as any) || {};
+    const step = this.getLeadStep(flow, metadata.currentStepId);
+
+    if (!step) {
+      return { twiml: '<Response><Say>Invalid step.</Say><Hangup/></Response>' };
+    }
+
+    const questionIndex = metadata.leadQuestionIndex || 0;
+
+    await this.saveMetadata(session, {
+      ...metadata,
+      pendingLeadResponse: speech,
+      leadQuestionIndex: questionIndex,
+    }, options);
+
+    return {
+      twiml: flowExecutor.generateConfirmLeadResponseTwiML(step, session.callSid, questionIndex, speech),
+    };
+  }
+
+  /**
+   * Keep a confirmed answer and ask the next question, creating the lead
+   * after the last one. Anything but a yes asks the question again.
+   */
+  async confirmLeadResponse(
+    flow: FlowConfig,
+    session: CallSession,
+    speech: string,
+    options: StepExecutionOptions = {}
+  ): Promise<FlowTurn> {
+    const metadata = (session.metadata as any) || {};
+    const step = this.getLeadStep(flow, metadata.currentStepId);
+
+    if (!step || !step.leadQuestions) {
+      return { twiml: '<Response><Say>Step error.</Say><Hangup/></Response>' };
+    }
+
+    const questionIndex = metadata.leadQuestionIndex || 0;
+
+    if (!flowExecutor.isConfirmation(speech)) {
+      return { twiml: flowExecutor.generateCollectLeadTwiML(step, session.callSid, questionIndex) };
+    }
+
+    const sortedQuestions = [...step.leadQuestions].sort((a, b) => a.order - b.order);
+    const currentQuestion = sortedQuestions[questionIndex];
+    const leadResponses = [
+      ...(metadata.leadResponses || []),
+      {
+        questionId: currentQuestion.id,
+        label: currentQuestion.label,
+        question: currentQuestion.question,
+        answer: metadata.pendingLeadResponse,
+        order: currentQuestion.order,
+      },
+    ];
+    const nextQuestionIndex = questionIndex + 1;
+    const twiml = flowExecutor.generateCollectLeadTwiML(step, session.callSid, nextQuestionIndex);
+
+    if (nextQuestionIndex < sortedQuestions.length) {
+      await this.saveMetadata(session, {
+        ...metadata,
+        leadResponses,
+        leadQuestionIndex: nextQuestionIndex,
+        pendingLeadResponse: null,
+      }, options);
+
+      return { twiml };
+    }
+
+    const { jobs } = await this.createLead(session, leadResponses, options);
+
+    const updated = {
+      ...metadata,
+      leadResponses,
+      leadCaptured: true,
+      leadQuestionIndex: nextQuestionIndex,
+    };
+    await (options.db ?? prisma).callSession.update({
+      where: { id: session.id },
+      data: { metadata: updated, leadCaptured: true },
+    });
+    session.metadata = updated;
+    session.leadCaptured = true;
+
+    return { twiml, jobs };
+  }
+
+  /**
+   * Create a lead from the collected answers and notify the tenant's admins
+   */
+  async createLead(session: CallSession, leadResponses: any[], options: StepExecutionOptions = {}) {
+    const db = options.db ?? prisma;
+
+    const lead = await db.lead.create({
+      data: {
+        tenantId: session.tenantId,
+        callSessionId: session.id,
+        phone: session.fromNumber,
+        source: 'voice_call_flow',
+        status: 'NEW',
+      },
+    });
+
+    // Create custom fields for each response
+    for (const response of leadResponses) {
+      await db.leadField.create({
+        data: {
+          leadId: lead.id,
+          label: response.label,
+          value: response.answer,
+          order: response.order,
+        },
+      });
+    }
+
+    console.log(`✅ Created lead ${lead.id} with ${leadResponses.length} custom fields`);
+
+    const admins = await db.user.findMany({
+      where: { tenantId: session.tenantId, role: 'TENANT_ADMIN' },
+      select: { id: true },
+    });
+
+    const jobs: QueuedJob[] = [];
+    for (const _admin of admins) {
+      const job = { type: 'lead_notification', payload: { leadId: lead.id } };
+      await JobProcessor.createJob(job, db);
+      jobs.push(job);
+    }
+
+    return { lead, jobs };
+  }
+
+  private getLeadStep(flow: FlowConfig, stepId: string): FlowStep | null {
+    const step = flowExecutor.getStep(flow, stepId);
+    return step && step.type === 'collect_lead' ? step : null;
+  }
+
+  private async saveMetadata(session: CallSession, metadata: any, options: StepExecutionOptions) {
+    await (options.db ?? prisma).callSession.update({
+      where: { id: session.id },
+      data: { metadata },
+    });
+    session.metadata = metadata;
+  }
+}
+
+export const flowSessionService = new FlowSessionService();
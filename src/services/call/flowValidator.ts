@@ -0,0 +1,464 @@
+import { z } from 'zod';
+import { appointmentSlotDigits, FlowConfig, FlowStep } from './flowExecutor';
+import { CONDITION_OPERATORS, ConditionExpression, isKnownFact, matchPatternProblem } from './flowConditions';
+
+/**
+ * Validation issue codes reported for a flow configuration
+ */
+export type FlowValidationCode =
+  | 'invalid_schema'
+  | 'missing_entry_point'
+  | 'duplicate_step_id'
+  | 'missing_target'
+  | 'dangling_target'
+  | 'duplicate_digit'
+  | 'reserved_digit'
+  | 'unreachable_step'
+  | 'cycle_without_exit'
+  | 'missing_field'
+  | 'invalid_condition';
+
+export interface FlowValidationIssue {
+  code: FlowValidationCode;
+  message: string;
+  stepId?: string;
+  path?: string;
+}
+
+export interface FlowValidationResult {
+  valid: boolean;
+  errors: FlowValidationIssue[];
+}
+
+export interface FlowValidationOptions {
+  optOutDigit?: string | null; // the tenant's recording opt-out key, which menus can't use
+}
+
+const leadQuestionSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  question: z.string().min(1),
+  order: z.number(),
+});
+
+const flowOptionSchema = z.object({
+  digit: z.string().regex(/^[0-9*#]$/, 'Digit must be 0-9, * or #'),
+  label: z.string().min(1),
+  action: z.enum(['goto', 'transfer', 'ai', 'voicemail', 'hangup']),
+  target: z.string().optional(),
+  phoneNumber: z.string().optional(),
+});
+
+const conditionExpressionSchema: z.ZodType<ConditionExpression> = z.lazy(() => z.union([
+  z.object({ all: z.array(conditionExpressionSchema).min(1) }).strict(),
+  z.object({ any: z.array(conditionExpressionSchema).min(1) }).strict(),
+  z.object({ not: conditionExpressionSchema }).strict(),
+  z.object({
+    fact: z.string().refine(isKnownFact, fact => ({ message: `Unknown condition fact "${fact}"` })),
+    op: z.enum(CONDITION_OPERATORS),
+    value: z.any().optional(),
+  }).strict(),
+]));
+
+const conditionBranchSchema = z.object({
+  when: conditionExpressionSchema,
+  target: z.string().min(1),
+  label: z.string().optional(),
+});
+
+const flowStepSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum([
+    'menu', 'message', 'transfer', 'ai', 'voicemail', 'gather_info', 'conditional', 'collect_lead',
+    'send_sms', 'webhook', 'set_variable', 'book_appointment',
+  ]),
+  prompt: z.string().optional(),
+  options: z.array(flowOptionSchema).optional(),
+  timeout: z.number().int().positive().nullable().optional(),
+  phoneNumber: z.string().optional(),
+  condition: z.union([z.enum(['is_open', 'is_closed']), conditionExpressionSchema]).optional(),
+  trueTarget: z.string().optional(),
+  falseTarget: z.string().optional(),
+  branches: z.array(conditionBranchSchema).optional(),
+  defaultTarget: z.string().optional(),
+  gatherType: z.enum(['name', 'phone', 'email', 'reason']).optional(),
+  nextStep: z.string().optional(),
+  leadQuestions: z.array(leadQuestionSchema).optional(),
+  failureStep: z.string().optional(),
+  smsMessage: z.string().optional(),
+  smsLink: z.string().url('SMS link must be a URL').optional(),
+  webhookUrl: z.string().url('Webhook URL must be a URL').optional(),
+  variable: z.string().regex(/^[A-Za-z_][\w-]*$/, 'Variable names may only use letters, numbers, _ and -').optional(),
+  value: z.string().optional(),
+  appointmentTitle: z.string().optional(),
+  appointmentDuration: z.number().int().positive().max(480).optional(),
+  slotCount: z.number().int().min(1).max(9).optional(),
+  daysAhead: z.number().int().min(1).max(60).optional(),
+  assigneeId: z.string().optional(),
+});
+
+const flowConfigSchema = z.object({
+  steps: z.array(flowStepSchema).min(1, 'A flow needs at least one step'),
+  entryPoint: z.string().min(1),
+  description: z.string().optional(),
+});
+
+interface FlowEdge {
+  target: string;
+  path: string;
+}
+
+/**
+ * Steps that hand the call off or hang up on their own, so the
+ * caller can always leave them without following another edge.
+ */
+function isExitStep(step: FlowStep): boolean {
+  switch (step.type) {
+    case 'transfer':
+    case 'ai':
+    case 'voicemail':
+      return true;
+
+    case 'menu':
+      // A menu hangs up when no digit is pressed
+      return true;
+
+    case 'book_appointment':
+      // Hangs up when no slot is picked unless a failure step is set
+      return !step.failureStep || !step.nextStep;
+
+    case 'webhook':
+      // A failed request hangs up unless a failure step is set
+      return !step.failureStep || !step.nextStep;
+
+    case 'message':
+    case 'gather_info':
+    case 'collect_lead':
+    case 'set_variable':
+    case 'send_sms':
+      return !step.nextStep;
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * List the step ids a step can redirect to
+ */
+function getEdges(step: FlowStep): FlowEdge[] {
+  const edges: FlowEdge[] = [];
+
+  if (step.nextStep) {
+    edges.push({ target: step.nextStep, path: 'nextStep' });
+  }
+
+  if (step.failureStep) {
+    edges.push({ target: step.failureStep, path: 'failureStep' });
+  }
+
+  if (step.type === 'conditional') {
+    if (step.trueTarget) edges.push({ target: step.trueTarget, path: 'trueTarget' });
+    if (step.falseTarget) edges.push({ target: step.falseTarget, path: 'falseTarget' });
+    (step.branches ?? []).forEach((branch, index) => {
+      edges.push({ target: branch.target, path: `branches[${index}].target` });
+    });
+    if (step.defaultTarget) edges.push({ target: step.defaultTarget, path: 'defaultTarget' });
+  }
+
+  if (step.type === 'menu') {
+    (step.options ?? []).forEach((option, index) => {
+      if (option.action === 'goto' && option.target) {
+        edges.push({ target: option.target, path: `options[${index}].target` });
+      }
+    });
+  }
+
+  return edges;
+}
+
+/**
+ * Check operator values that the schema can't (regexes, ranges, lists)
+ */
+function checkCondition(expression: ConditionExpression, stepId: string, path: string): FlowValidationIssue[] {
+  if ('all' in expression) {
+    return expression.all.flatMap((child, index) => checkCondition(child, stepId, `${path}.all[${index}]`));
+  }
+  if ('any' in expression) {
+    return expression.any.flatMap((child, index) => checkCondition(child, stepId, `${path}.any[${index}]`));
+  }
+  if ('not' in expression) {
+    return checkCondition(expression.not, stepId, `${path}.not`);
+  }
+
+  const issue = (message: string): FlowValidationIssue[] => [{
+    code: 'invalid_condition',
+    message: `Step "${stepId}": ${message}`,
+    stepId,
+    path,
+  }];
+
+  switch (expression.op) {
+    case 'exists':
+    case 'not_exists':
+      return [];
+
+    case 'in':
+    case 'not_in':
+      return Array.isArray(expression.value) ? [] : issue(`"${expression.op}" needs a list of values`);
+
+    case 'between':
+      return Array.isArray(expression.value) && expression.value.length === 2
+        ? []
+        : issue('"between" needs a [start, end] pair');
+
+    case 'matches': {
+      const problem = matchPatternProblem(expression.value);
+      return problem ? issue(`"matches" ${problem}`) : [];
+    }
+
+    default:
+      return expression.value === undefined ? issue(`"${expression.op}" needs a value`) : [];
+  }
+}
+
+/**
+ * Tarjan's algorithm - returns the strongly connected components of the step graph
+ */
+function findStronglyConnected(stepIds: string[], adjacency: Map<string, string[]>): string[][] {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+
+  const visit = (id: string) => {
+    indices.set(id, index);
+    lowLinks.set(id, index);
+    index++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of adjacency.get(id) ?? []) {
+      if (!indices.has(next)) {
+        visit(next);
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, indices.get(next)!));
+      }
+    }
+
+    if (lowLinks.get(id) === indices.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      components.push(component);
+    }
+  };
+
+  for (const id of stepIds) {
+    if (!indices.has(id)) visit(id);
+  }
+
+  return components;
+}
+
+/**
+ * Validate a flow configuration before it is saved.
+ * Checks the shape against the FlowConfig types, then walks the step graph
+ * for dangling targets, duplicate digits, unreachable steps and closed loops.
+ */
+export function validateFlowConfig(config: unknown, options: FlowValidationOptions = {}): FlowValidationResult {
+  const parsed = flowConfigSchema.safeParse(config);
+
+  if (!parsed.success) {
+    return {
+      valid: false,
+      errors: parsed.error.issues.map(issue => ({
+        code: 'invalid_schema' as const,
+        message: issue.message,
+        path: issue.path.join('.'),
+      })),
+    };
+  }
+
+  const flow = parsed.data as FlowConfig;
+  const errors: FlowValidationIssue[] = [];
+  const stepsById = new Map<string, FlowStep>();
+
+  for (const step of flow.steps) {
+    if (stepsById.has(step.id)) {
+      errors.push({
+        code: 'duplicate_step_id',
+        message: `Step id "${step.id}" is used more than once`,
+        stepId: step.id,
+      });
+      continue;
+    }
+    stepsById.set(step.id, step);
+  }
+
+  if (!stepsById.has(flow.entryPoint)) {
+    errors.push({
+      code: 'missing_entry_point',
+      message: `Entry point "${flow.entryPoint}" does not match any step`,
+      path: 'entryPoint',
+    });
+  }
+
+  const adjacency = new Map<string, string[]>();
+
+  for (const step of stepsById.values()) {
+    if (step.type === 'conditional') {
+      if (step.branches && step.branches.length > 0) {
+        if (!step.defaultTarget) {
+          errors.push({ code: 'missing_target', message: `Conditional step "${step.id}" has no default target`, stepId: step.id, path: 'defaultTarget' });
+        }
+        step.branches.forEach((branch, index) => {
+          errors.push(...checkCondition(branch.when, step.id, `branches[${index}].when`));
+        });
+      } else {
+        if (!step.condition) {
+          errors.push({ code: 'missing_field', message: `Conditional step "${step.id}" needs a condition or branches`, stepId: step.id, path: 'condition' });
+        } else if (typeof step.condition !== 'string') {
+          errors.push(...checkCondition(step.condition, step.id, 'condition'));
+        }
+        if (!step.trueTarget) {
+          errors.push({ code: 'missing_target', message: `Conditional step "${step.id}" has no true target`, stepId: step.id, path: 'trueTarget' });
+        }
+        if (!step.falseTarget) {
+          errors.push({ code: 'missing_target', message: `Conditional step "${step.id}" has no false target`, stepId: step.id, path: 'falseTarget' });
+        }
+      }
+    }
+
+    if (step.type === 'menu') {
+      const seenDigits = new Set<string>();
+
+      (step.options ?? []).forEach((option, index) => {
+        if (seenDigits.has(option.digit)) {
+          errors.push({
+            code: 'duplicate_digit',
+            message: `Menu "${step.id}" uses digit ${option.digit} more than once`,
+            stepId: step.id,
+            path: `options[${index}].digit`,
+          });
+        }
+        seenDigits.add(option.digit);
+
+        if (options.optOutDigit && option.digit === options.optOutDigit) {
+          errors.push({
+            code: 'reserved_digit',
+            message: `Menu "${step.id}" uses digit ${option.digit}, which callers press to stop recording`,
+            stepId: step.id,
+            path: `options[${index}].digit`,
+          });
+        }
+
+        if (option.action === 'goto' && !option.target) {
+          errors.push({
+            code: 'missing_target',
+            message: `Menu "${step.id}" option ${option.digit} has no target step`,
+            stepId: step.id,
+            path: `options[${index}].target`,
+          });
+        }
+      });
+    }
+
+    if (step.type === 'book_appointment' && options.optOutDigit) {
+      const available = appointmentSlotDigits(options.optOutDigit).length;
+      if ((step.slotCount ?? 3) > available) {
+        errors.push({
+          code: 'reserved_digit',
+          message: `Appointment step "${step.id}" can offer at most ${available} times, since callers press ${options.optOutDigit} to stop recording`,
+          stepId: step.id,
+          path: 'slotCount',
+        });
+      }
+    }
+
+    if (step.type === 'send_sms' && !step.smsMessage && !step.smsLink) {
+      errors.push({ code: 'missing_field', message: `SMS step "${step.id}" needs a message or link`, stepId: step.id, path: 'smsMessage' });
+    }
+
+    if (step.type === 'webhook' && !step.webhookUrl) {
+      errors.push({ code: 'missing_field', message: `Webhook step "${step.id}" has no URL`, stepId: step.id, path: 'webhookUrl' });
+    }
+
+    if (step.type === 'set_variable' && !step.variable) {
+      errors.push({ code: 'missing_field', message: `Set variable step "${step.id}" has no variable name`, stepId: step.id, path: 'variable' });
+    }
+
+    const targets: string[] = [];
+    for (const edge of getEdges(step)) {
+      if (!stepsById.has(edge.target)) {
+        errors.push({
+          code: 'dangling_target',
+          message: `Step "${step.id}" points to missing step "${edge.target}"`,
+          stepId: step.id,
+          path: edge.path,
+        });
+        continue;
+      }
+      targets.push(edge.target);
+    }
+    adjacency.set(step.id, targets);
+  }
+
+  // Reachability from the entry point
+  if (stepsById.has(flow.entryPoint)) {
+    const reachable = new Set<string>([flow.entryPoint]);
+    const queue = [flow.entryPoint];
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const next of adjacency.get(id) ?? []) {
+        if (!reachable.has(next)) {
+          reachable.add(next);
+          queue.push(next);
+        }
+      }
+    }
+
+    for (const id of stepsById.keys()) {
+      if (!reachable.has(id)) {
+        errors.push({
+          code: 'unreachable_step',
+          message: `Step "${id}" cannot be reached from the entry point`,
+          stepId: id,
+        });
+      }
+    }
+  }
+
+  // Loops the caller can never leave
+  for (const component of findStronglyConnected([...stepsById.keys()], adjacency)) {
+    const members = new Set(component);
+    const isCycle = component.length > 1 || (adjacency.get(component[0]) ?? []).includes(component[0]);
+    if (!isCycle) continue;
+
+    const hasExit = component.some(id =>
+      isExitStep(stepsById.get(id)!) ||
+      (adjacency.get(id) ?? []).some(next => !members.has(next))
+    );
+
+    if (!hasExit) {
+      errors.push({
+        code: 'cycle_without_exit',
+        message: `Steps ${component.map(id => `"${id}"`).join(', ')} loop forever with no way to end the call`,
+        stepId: component[0],
+      });
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
@@ -0,0 +1,95 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+/**
+ * Addresses tenant-configured URLs may not reach: this host, the private
+ * network and cloud metadata endpoints (169.254.169.254)
+ */
+const BLOCKED = new net.BlockList();
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],   // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],  // link-local, including metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],     // multicast and reserved
+] as const) {
+  BLOCKED.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],    // NAT64 can reach private IPv4
+  ['fc00::', 7],        // unique local
+  ['fe80::', 10],       // link-local
+  ['ff00::', 8],        // multicast
+] as const) {
+  BLOCKED.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (!family) {
+    return false;
+  }
+  // IPv4-mapped IPv6 addresses are checked against the IPv4 rules
+  return !BLOCKED.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * dns.lookup that fails for hosts resolving to a blocked address. Used by
+ * the agents below so the address connected to is the one that was
+ * checked, even if the DNS answer changes between requests.
+ */
+function publicLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+) {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, '');
+    }
+
+    if (addresses.length === 0 || addresses.some(entry => !isPublicAddress(entry.address))) {
+      return callback(new Error(`${hostname} resolves to a private address`), '');
+    }
+
+    if (options.all) {
+      return callback(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+export const publicHttpAgent = new http.Agent({ lookup: publicLookup as any });
+export const publicHttpsAgent = new https.Agent({ lookup: publicLookup as any });
+
+/**
+ * Throw unless the URL is http(s) and its host only resolves to public
+ * addresses. Literal IPs are checked here since they skip the lookup.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const parsed = new URL(url);
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Unsupported protocol ${parsed.protocol}`);
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(hostname)
+    ? [hostname]
+    : (await dns.promises.lookup(hostname, { all: true })).map(entry => entry.address);
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new Error(`${parsed.hostname} resolves to a private address`);
+  }
+}
@@ -0,0 +1,226 @@
+import crypto from 'crypto';
+import { ReceptionistConfig } from '@prisma/client';
+import prisma from '../../db/prisma';
+import { env } from '../../config/env';
+import { MATCH_INPUT_MAX_LENGTH, matchPatternProblem } from './flowConditions';
+
+// What each kind of PII is replaced with
+export const REDACTION_MASKS = {
+  card: '[CARD NUMBER]',
+  ssn: '[SSN]',
+  dob: '[DATE OF BIRTH]',
+  custom: '[REDACTED]',
+};
+
+const MONTHS = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+
+// 13-19 digits, optionally grouped with spaces or dashes; kept only if they pass the Luhn check
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+const SSN_PATTERN = /\b\d{3}([- ])\d{2}\1\d{4}\b/g;
+// A bare nine-digit run only counts as an SSN when the caller says so
+const SSN_KEYWORD_PATTERN = /\b(ssn|social security(?: number)?)(\D{0,20})\d{9}\b/gi;
+// Dates with a year: 4/12/1985, 1985-04-12, April 12th, 1985, 12 April 1985
+const DATE_PATTERNS = [
+  /\b\d{1,2}[/.-]\d{1,2}[/.-](\d{4}|\d{2})\b/g,
+  /\b(\d{4})-\d{2}-\d{2}\b/g,
+  new RegExp(`\\b(?:${MONTHS})\\.? \\d{1,2}(?:st|nd|rd|th)?,? (\\d{4})\\b`, 'gi'),
+  new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)? (?:of )?(?:${MONTHS}),? (\\d{4})\\b`, 'gi'),
+];
+
+const ENCRYPTION_VERSION = 'v1';
+
+type RedactionSettings = Pick<ReceptionistConfig, 'redactPii' | 'redactionPatterns' | 'keepPiiOriginals'>;
+
+export interface Redactor {
+  enabled: boolean;
+  keepOriginals: boolean;
+  redact(text: string): string;
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Only dates from before this year are treated as birth dates, so the
+ * appointment and callback times a caller mentions are left alone.
+ * Two-digit years are ambiguous and always masked.
+ */
+function isPastYear(year: string, now: Date): boolean {
+  return year.length === 2 || Number(year) < now.getFullYear();
+}
+
+export class RedactionService {
+  /**
+   * Parse the tenant's extra patterns, one regular expression per line.
+   * Throws with the offending line so the settings page can show it.
+   * Patterns that could backtrack for seconds are turned away, as for
+   * flow "matches" conditions.
+   */
+  parsePatterns(text: string | null | undefined): RegExp[] {
+    return String(text || '')
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(line => {
+        const problem = matchPatternProblem(line);
+        if (problem) {
+          throw new Error(`Invalid redaction pattern ${line}: ${problem}`);
+        }
+        // A pattern that matches nothing would mask between every character
+        if (new RegExp(line, 'i').test('')) {
+          throw new Error(`Redaction pattern matches empty text: ${line}`);
+        }
+        return new RegExp(line, 'gi');
+      });
+  }
+
+  /**
+   * Mask PII in free text. Cards go first so their digit runs aren't
+   * mistaken for anything shorter.
+   */
+  redactText(text: string, patterns: RegExp[] = [], now: Date = new Date()): string {
+    if (!text) {
+      return text;
+    }
+
+    let result = text.replace(CARD_PATTERN, (match) => {
+      const digits = match.replace(/\D/g, '');
+      return digits.length >= 13 && passesLuhn(digits) ? REDACTION_MASKS.card : match;
+    });
+
+    result = result
+      .replace(SSN_PATTERN, REDACTION_MASKS.ssn)
+      .replace(SSN_KEYWORD_PATTERN, (_match, keyword, gap) => `${keyword}${gap}${REDACTION_MASKS.ssn}`);
+
+    for (const pattern of DATE_PATTERNS) {
+      result = result.replace(pattern, (match, year) => (isPastYear(year, now) ? REDACTION_MASKS.dob : match));
+    }
+
+    if (patterns.length > 0) {
+      result = this.inWindows(result, window => {
+        for (const pattern of patterns) {
+          window = window.replace(pattern, REDACTION_MASKS.custom);
+        }
+        return window;
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Run a tenant's patterns over a line at a time, and over long lines a
+   * word-aligned slice of at most MATCH_INPUT_MAX_LENGTH characters at a
+   * time, so each match attempt has bounded input
+   */
+  private inWindows(text: string, apply: (window: string) => string): string {
+    return text.split('\n').map(line => {
+      let result = '';
+      let rest = line;
+      while (rest.length > MATCH_INPUT_MAX_LENGTH) {
+        const space = rest.lastIndexOf(' ', MATCH_INPUT_MAX_LENGTH);
+        const end = space > 0 ? space + 1 : MATCH_INPUT_MAX_LENGTH;
+        result += apply(rest.slice(0, end));
+        rest = rest.slice(end);
+      }
+      return result + apply(rest);
+    }).join('\n');
+  }
+
+  /**
+   * Redactor for a tenant's settings. Tenants without a config get the
+   * built-in detectors.
+   */
+  redactor(settings: RedactionSettings | null | undefined): Redactor {
+    const enabled = settings?.redactPii ?? true;
+    // Patterns saved before they were checked may not parse now; the rest still apply
+    const patterns: RegExp[] = [];
+    for (const line of String(settings?.redactionPatterns || '').split('\n')) {
+      try {
+        patterns.push(...this.parsePatterns(line));
+      } catch (error) {
+        console.error('Skipping redaction pattern:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    return {
+      enabled,
+      keepOriginals: enabled && !!settings?.keepPiiOriginals,
+      redact: (text: string) => (enabled ? this.redactText(text, patterns) : text),
+    };
+  }
+
+  async forTenant(tenantId: string): Promise<Redactor> {
+    const config = await prisma.receptionistConfig.findUnique({
+      where: { tenantId },
+      select: { redactPii: true, redactionPatterns: true, keepPiiOriginals: true },
+    });
+    return this.redactor(config);
+  }
+
+  // ============================================
+  // ENCRYPTED ORIGINALS
+  // ============================================
+
+  encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return [ENCRYPTION_VERSION, iv, cipher.getAuthTag(), ciphertext]
+      .map(part => (typeof part === 'string' ? part : part.toString('base64')))
+      .join(':');
+  }
+
+  decrypt(payload: string): string {
+    const [version, iv, tag, ciphertext] = payload.split(':');
+    if (version !== ENCRYPTION_VERSION || !iv || !tag || ciphertext === undefined) {
+      throw new Error('Unrecognized encrypted payload');
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.key(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  }
+
+  /**
+   * Every read of an unredacted original goes in the audit log
+   */
+  async logOriginalAccess(params: {
+    tenantId: string;
+    userId: string;
+    resource: 'transcript' | 'voicemail';
+    resourceId: string;
+    ipAddress?: string;
+  }) {
+    await prisma.auditLog.create({
+      data: {
+        tenantId: params.tenantId,
+        userId: params.userId,
+        action: 'view_pii',
+        resource: params.resource,
+        resourceId: params.resourceId,
+        ipAddress: params.ipAddress,
+      },
+    });
+  }
+
+  private key(): Buffer {
+    return crypto
+      .createHash('sha256')
+      .update(env.PII_ENCRYPTION_KEY || `pii:${env.SESSION_SECRET}`)
+      .digest();
+  }
+}
+
+export const redactionService = new RedactionService();
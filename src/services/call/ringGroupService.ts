@@ -0,0 +1,318 @@
+import { Department, RingStrategy, TransferFallback } from '@prisma/client';
+import prisma from '../../db/prisma';
+import { env } from '../../config/env';
+import { callService } from './callService';
+import { flowExecutor } from './flowExecutor';
+import { voicemailService } from '../voicemail/voicemailService';
+import { TwiMLBuilder, createGatherResponseTwiML } from '../twilio/twimlBuilder';
+
+export const DEFAULT_RING_TIMEOUT = 20;
+export const MIN_RING_TIMEOUT = 5;
+export const MAX_RING_TIMEOUT = 60;
+
+export const WHISPER_MERGE_FIELDS = ['callerName', 'callerNumber', 'reason', 'department'];
+
+export const DEFAULT_WHISPER_MESSAGE = 'Call from {{callerName}}, about {{reason}}.';
+
+// Seconds the staff member has to press 1 after the whisper
+const WHISPER_ACCEPT_TIMEOUT = 5;
+
+interface RingTarget {
+  id: string;
+  name: string;
+  phoneNumber: string;
+}
+
+/**
+ * Ring plan stored on the call session as metadata.transfer. Each hop is
+ * one <Dial>; a simultaneous group is a single hop with every number.
+ */
+interface TransferPlan {
+  departmentId: string | null;
+  department: string | null;
+  reason: string | null;
+  hops: RingTarget[][];
+  hop: number;
+  timeout: number;
+  fallback: TransferFallback;
+  whisper: string | null;
+  acceptedHop?: number;  // Set when the staff member pressed 1 after the whisper
+}
+
+export interface TransferRequest {
+  tenantId: string;
+  callSid: string;
+  departmentId?: string | null;
+  targets?: RingTarget[];  // Ring these instead of the department's group
+  reason?: string | null;
+  message?: string;        // Said to the caller before the first hop
+}
+
+export class RingGroupService {
+  /**
+   * Start ringing a department's group, or the given targets. Returns null
+   * when there is no one to ring.
+   */
+  async startTransfer(request: TransferRequest): Promise<string | null> {
+    const session = await callService.getCallSessionByCallSid(request.callSid);
+    if (!session) {
+      return null;
+    }
+
+    const department = request.departmentId
+      ? await prisma.department.findFirst({ where: { id: request.departmentId, tenantId: request.tenantId } })
+      : null;
+
+    const targets = request.targets || await this.getGroupTargets(request.tenantId, department);
+    if (targets.length === 0) {
+      return null;
+    }
+
+    const strategy: RingStrategy = department?.ringStrategy || 'SEQUENTIAL';
+    const ordered = strategy === 'ROUND_ROBIN' && !request.targets
+      ? this.rotate(targets, department?.lastTargetId)
+      : targets;
+
+    const plan: TransferPlan = {
+      departmentId: department?.id || null,
+      department: department?.name || null,
+      reason: request.reason || null,
+      hops: strategy === 'SIMULTANEOUS' ? [ordered] : ordered.map(t => [t]),
+      hop: 0,
+      timeout: department?.ringTimeout || DEFAULT_RING_TIMEOUT,
+      fallback: department?.fallback || 'NO_ANSWER_FLOW',
+      whisper: department && !department.whisperEnabled
+        ? null
+        : department?.whisperMessage || DEFAULT_WHISPER_MESSAGE,
+    };
+
+    if (department && strategy === 'ROUND_ROBIN') {
+      await prisma.department.update({ where: { id: department.id }, data: { lastTargetId: ordered[0].id } });
+    }
+
+    await prisma.callSession.update({
+      where: { id: session.id },
+      data: {
+        state: 'TRANSFER_ATTEMPT',
+        transferAttempted: true,
+        transferSuccess: false,
+        metadata: { ...((session.metadata as any) || {}), transfer: plan } as any,
+      },
+    });
+
+    const twiml = new TwiMLBuilder();
+    if (request.message) {
+      twiml.say(request.message).pause(1);
+    }
+
+    await this.logHop(session.id, plan);
+    return this.appendDial(twiml, request.callSid, plan).build();
+  }
+
+  /**
+   * Called from the <Dial> action when a hop ends without being answered:
+   * ring the next hop, or fall back once the group is exhausted
+   */
+  async nextHop(callSid: string, dialStatus: string): Promise<string> {
+    const session = await callService.getCallSessionByCallSid(callSid);
+    if (!session) {
+      return new TwiMLBuilder().hangup().build();
+    }
+
+    const metadata = (session.metadata as any) || {};
+    const plan: TransferPlan | undefined = metadata.transfer;
+
+    await callService.logCallEvent({
+      callSessionId: session.id,
+      eventType: 'transfer_failed',
+      state: 'TRANSFER_ATTEMPT',
+      data: JSON.stringify({ dialStatus, hop: plan?.hop, department: plan?.department }),
+    });
+
+    if (plan && plan.hop + 1 < plan.hops.length) {
+      const next: TransferPlan = { ...plan, hop: plan.hop + 1 };
+
+      await prisma.callSession.update({
+        where: { id: session.id },
+        data: { metadata: { ...metadata, transfer: next } },
+      });
+      await this.logHop(session.id, next);
+
+      const twiml = new TwiMLBuilder().say('Please hold while I try someone else.');
+      return this.appendDial(twiml, callSid, next).build();
+    }
+
+    return this.fallbackTwiML(session.id, callSid, plan?.fallback || 'NO_ANSWER_FLOW');
+  }
+
+  /**
+   * TwiML played to the staff member who answers, before the caller is
+   * connected. They press 1 to take the call; otherwise their leg hangs up,
+   * so a voicemail box picking up doesn't count as an answer.
+   */
+  async whisperTwiML(callSid: string): Promise<string> {
+    const twiml = new TwiMLBuilder();
+    const session = await callService.getCallSessionByCallSid(callSid);
+    const plan: TransferPlan | undefined = (session?.metadata as any)?.transfer;
+
+    if (!session || !plan?.whisper) {
+      return twiml.build();
+    }
+
+    const conversation = (session.metadata as any).conversation || {};
+    const callerName = conversation.capturedData?.name || conversation.caller?.name;
+
+    const message = this.renderWhisper(plan.whisper, {
+      callerName: callerName || 'a caller',
+      callerNumber: session.fromNumber.replace(/\D/g, '').split('').join(' '),
+      reason: plan.reason || 'a general question',
+      department: plan.department || '',
+    });
+
+    return twiml
+      .gather({
+        input: 'dtmf',
+        numDigits: 1,
+        timeout: WHISPER_ACCEPT_TIMEOUT,
+        action: `${env.BASE_URL}/twilio/transfer-accept?callSid=${encodeURIComponent(callSid)}`,
+      }, `${message} Press 1 to accept.`)
+      .hangup()
+      .build();
+  }
+
+  /**
+   * The staff member's key press after the whisper: 1 connects the caller,
+   * anything else hangs up their leg
+   */
+  async acceptTwiML(callSid: string, digits: string): Promise<string> {
+    const twiml = new TwiMLBuilder();
+    const session = await callService.getCallSessionByCallSid(callSid);
+    const metadata = (session?.metadata as any) || {};
+    const plan: TransferPlan | undefined = metadata.transfer;
+
+    if (!session || !plan || digits !== '1') {
+      return twiml.hangup().build();
+    }
+
+    await prisma.callSession.update({
+      where: { id: session.id },
+      data: { metadata: { ...metadata, transfer: { ...plan, acceptedHop: plan.hop } } },
+    });
+
+    return twiml.build();
+  }
+
+  /**
+   * Whether a <Dial> that ended with dialStatus reached someone. A screened
+   * hop (one with a whisper) only counts once the staff member pressed 1.
+   */
+  async wasAnswered(callSid: string, dialStatus: string, screened: boolean): Promise<boolean> {
+    if (dialStatus !== 'completed') {
+      return false;
+    }
+    if (!screened) {
+      return true;
+    }
+
+    const session = await callService.getCallSessionByCallSid(callSid);
+    const plan: TransferPlan | undefined = (session?.metadata as any)?.transfer;
+
+    return !!plan && plan.acceptedHop === plan.hop;
+  }
+
+  renderWhisper(template: string, values: Record<string, string>): string {
+    return template
+      .replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, key: string) => values[key] ?? '')
+      .replace(/[ \t]{2,}/g, ' ')
+      .replace(/[ \t]+([,.!?])/g, '$1')
+      .trim();
+  }
+
+  /**
+   * What the caller gets when nobody in the group answers
+   */
+  async fallbackTwiML(callSessionId: string, callSid: string, fallback: TransferFallback): Promise<string> {
+    const session = await prisma.callSession.findUnique({ where: { id: callSessionId } });
+    const metadata = (session?.metadata as any) || {};
+
+    await callService.logCallEvent({
+      callSessionId,
+      eventType: 'transfer_fallback',
+      state: 'TRANSFER_ATTEMPT',
+      data: JSON.stringify({ fallback }),
+    });
+
+    // A transfer inside the NO_ANSWER flow must not send the caller back into it
+    if (session && fallback === 'NO_ANSWER_FLOW' && metadata.flowType !== 'NO_ANSWER') {
+      const flow = await flowExecutor.getActiveFlow(session.tenantId, 'NO_ANSWER');
+
+      if (flow) {
+        await prisma.callSession.update({
+          where: { id: session.id },
+          data: { metadata: { ...metadata, flowType: 'NO_ANSWER', currentStepId: flow.entryPoint } },
+        });
+        return flowExecutor.executeStep(flow, flow.entryPoint, session.tenantId, callSid);
+      }
+    }
+
+    if (fallback === 'VOICEMAIL') {
+      return voicemailService.recordTwiML(
+        "Sorry, no one is available to take your call. Please leave a message after the beep, and we'll call you back."
+      );
+    }
+
+    await callService.updateCallState(callSid, 'LEAD_CAPTURE');
+    return createGatherResponseTwiML(
+      "I couldn't connect you. May I take your name and phone number so someone can call you back?",
+      `${env.BASE_URL}/twilio/gather`
+    );
+  }
+
+  // ============================================
+  // PRIVATE
+  // ============================================
+
+  private appendDial(twiml: TwiMLBuilder, callSid: string, plan: TransferPlan): TwiMLBuilder {
+    const whisperUrl = plan.whisper
+      ? `${env.BASE_URL}/twilio/transfer-whisper?callSid=${encodeURIComponent(callSid)}`
+      : undefined;
+
+    return twiml.dialNumbers(
+      plan.hops[plan.hop].map(target => ({ number: target.phoneNumber, url: whisperUrl })),
+      { timeout: plan.timeout, action: `${env.BASE_URL}/twilio/transfer-status${plan.whisper ? '?screened=1' : ''}` }
+    );
+  }
+
+  private async getGroupTargets(tenantId: string, department: Department | null): Promise<RingTarget[]> {
+    return prisma.transferTarget.findMany({
+      where: { tenantId, isActive: true, ...(department && { departmentId: department.id }) },
+      select: { id: true, name: true, phoneNumber: true },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Start with the target after the one rung first last time
+   */
+  private rotate(targets: RingTarget[], lastTargetId?: string | null): RingTarget[] {
+    const index = targets.findIndex(t => t.id === lastTargetId);
+    const start = (index + 1) % targets.length;
+    return [...targets.slice(start), ...targets.slice(0, start)];
+  }
+
+  private async logHop(callSessionId: string, plan: TransferPlan) {
+    await callService.logCallEvent({
+      callSessionId,
+      eventType: 'transfer_ringing',
+      state: 'TRANSFER_ATTEMPT',
+      data: JSON.stringify({
+        department: plan.department,
+        hop: plan.hop + 1,
+        of: plan.hops.length,
+        targets: plan.hops[plan.hop].map(t => t.name),
+      }),
+    });
+  }
+}
+
+export const ringGroupService = new RingGroupService();
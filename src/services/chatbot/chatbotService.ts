@@ -0,0 +1,536 @@
+import { ChatbotConfig, ChatConversation, ChatConversationStatus, Prisma } from '@prisma/client';
+import prisma from '../../db/prisma';
+import { env } from '../../config/env';
+import { aiService } from '../ai/aiService';
+import { createLeadRecord, getBusinessHoursStatus } from '../ai/toolFunctions';
+import { toE164 } from '../crm/phoneNumber';
+import { JobProcessor } from '../jobs/jobProcessor';
+import { CallContext, ConversationTurn, LeadData } from '../../types';
+
+const AI_HISTORY_MESSAGES = 10;
+const PREVIEW_LENGTH = 120;
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_MESSAGES_PER_MINUTE = 15;
+// One IP may run several visitors (an office, or a script minting visitor ids)
+const MAX_MESSAGES_PER_IP_PER_MINUTE = 30;
+const MAX_MESSAGES_PER_TENANT_PER_MINUTE = 120;
+const MAX_HANDOFFS_PER_IP_PER_HOUR = 3;
+// Past this, handoffs still reach the inbox but no longer send an email each
+const MAX_HANDOFF_EMAILS_PER_HOUR = 10;
+
+// Conversation metadata fields carried between AI replies
+const AI_STATE_KEYS = ['capturedData', 'leadId', 'callbackTaskId'];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// What the widget is allowed to see of a message
+const PUBLIC_MESSAGE_SELECT = {
+  id: true,
+  sender: true,
+  body: true,
+  createdAt: true,
+  sentBy: { select: { firstName: true } },
+} satisfies Prisma.ChatMessageSelect;
+
+export interface ChatConversationFilters {
+  status?: string;
+  assignedToId?: string;     // a user id, or 'unassigned'
+  search?: string;
+}
+
+export interface HandoffDetails {
+  name?: string;
+  email?: string;
+  phone?: string;
+  reason?: string;
+}
+
+export class ChatbotService {
+  async getConfig(tenantId: string) {
+    return prisma.chatbotConfig.findUnique({ where: { tenantId } });
+  }
+
+  /**
+   * Settings the widget needs to draw itself
+   */
+  getPublicConfig(config: ChatbotConfig) {
+    return {
+      title: config.title,
+      greeting: config.greeting,
+      primaryColor: config.primaryColor,
+      textColor: config.textColor,
+      position: config.position,
+    };
+  }
+
+  /**
+   * Our own dashboard (for the preview) is always allowed; otherwise the
+   * origin must be listed. An empty list allows no other site.
+   */
+  isOriginAllowed(config: ChatbotConfig, origin: string): boolean {
+    const normalized = this.normalizeOrigin(origin);
+    if (!normalized) {
+      return false;
+    }
+    if (normalized === this.normalizeOrigin(env.BASE_URL)) {
+      return true;
+    }
+    return config.allowedOrigins.includes(normalized);
+  }
+
+  /**
+   * "https://Example.com/contact" -> "https://example.com"; null if not a URL
+   */
+  normalizeOrigin(value: string): string | null {
+    try {
+      const url = new URL(value.trim());
+      return url.protocol === 'http:' || url.protocol === 'https:' ? url.origin : null;
+    } catch {
+      return null;
+    }
+  }
+
+  isValidColor(value?: string | null): boolean {
+    return !!value && HEX_COLOR.test(value);
+  }
+
+  /**
+   * Store a visitor's message and, unless a person has taken over, answer
+   * it with the AI receptionist. Returns the messages to show.
+   */
+  async handleVisitorMessage(tenantId: string, visitorId: string, text: string, pageUrl?: string, ipAddress?: string) {
+    const body = text.trim().slice(0, MAX_MESSAGE_LENGTH);
+    if (!body) {
+      throw new Error('Message is required');
+    }
+
+    let conversation = await this.findOrCreateConversation(tenantId, visitorId, pageUrl, ipAddress);
+
+    const message = await this.addMessage(conversation.id, 'VISITOR', body, {
+      // A closed chat reopens with the AI
+      ...(conversation.status === 'CLOSED' && { status: 'AI' }),
+      unreadCount: { increment: 1 },
+    }, { ipAddress });
+
+    if (conversation.status === 'CLOSED') {
+      conversation = { ...conversation, status: 'AI' };
+    }
+
+    if (conversation.status === 'HANDOFF') {
+      return { status: conversation.status, messages: [message] };
+    }
+
+    const reply = await this.aiReply(conversation, message.id, body);
+
+    return { status: reply.status, messages: [message, ...reply.messages] };
+  }
+
+  /**
+   * Each visitor message costs an AI reply, so cap how fast they can come:
+   * per visitor, per IP (visitor ids are made up by the browser) and for
+   * the whole tenant
+   */
+  async isRateLimited(tenantId: string, visitorId: string, ipAddress?: string): Promise<boolean> {
+    const recent = { sender: 'VISITOR' as const, createdAt: { gte: new Date(Date.now() - 60 * 1000) } };
+
+    const [visitorCount, ipCount, tenantCount] = await Promise.all([
+      prisma.chatMessage.count({ where: { ...recent, conversation: { tenantId, visitorId } } }),
+      ipAddress ? prisma.chatMessage.count({ where: { ...recent, ipAddress } }) : 0,
+      prisma.chatMessage.count({ where: { ...recent, conversation: { tenantId } } }),
+    ]);
+
+    return visitorCount >= MAX_MESSAGES_PER_MINUTE
+      || ipCount >= MAX_MESSAGES_PER_IP_PER_MINUTE
+      || tenantCount >= MAX_MESSAGES_PER_TENANT_PER_MINUTE;
+  }
+
+  /**
+   * Handoffs notify the team, so an IP only gets a few an hour
+   */
+  async isHandoffRateLimited(ipAddress?: string): Promise<boolean> {
+    if (!ipAddress) {
+      return false;
+    }
+
+    const recentCount = await prisma.chatConversation.count({
+      where: { ipAddress, handoffAt: { gte: new Date(Date.now() - 60 * 60 * 1000) } },
+    });
+    return recentCount >= MAX_HANDOFFS_PER_IP_PER_HOUR;
+  }
+
+  /**
+   * Messages for the widget, optionally only those after one it already has
+   */
+  async getMessages(tenantId: string, visitorId: string, afterId?: string) {
+    const conversation = await prisma.chatConversation.findUnique({
+      where: { tenantId_visitorId: { tenantId, visitorId } },
+    });
+
+    if (!conversation) {
+      return { status: 'AI' as ChatConversationStatus, messages: [] };
+    }
+
+    const after = afterId
+      ? await prisma.chatMessage.findFirst({ where: { id: afterId, conversationId: conversation.id } })
+      : null;
+
+    const messages = await prisma.chatMessage.findMany({
+      where: {
+        conversationId: conversation.id,
+        ...(after && { createdAt: { gt: after.createdAt } }),
+      },
+      select: PUBLIC_MESSAGE_SELECT,
+      orderBy: { createdAt: 'asc' },
+      take: 100,
+    });
+
+    return { status: conversation.status, messages };
+  }
+
+  /**
+   * The visitor asked for a person. Any contact details they left become
+   * a chatbot lead so the team can follow up if nobody is around.
+   */
+  async requestHandoff(
+    tenantId: string,
+    visitorId: string,
+    details: HandoffDetails,
+    pageUrl?: string,
+    ipAddress?: string
+  ) {
+    let conversation = await this.findOrCreateConversation(tenantId, visitorId, pageUrl, ipAddress);
+
+    const name = details.name?.trim() || undefined;
+    const email = details.email?.trim() || undefined;
+    const phone = (details.phone && toE164(details.phone)) || undefined;
+
+    if (name || email) {
+      conversation = await prisma.chatConversation.update({
+        where: { id: conversation.id },
+        data: {
+          ...(name && { visitorName: name }),
+          ...(email && { visitorEmail: email }),
+        },
+      });
+    }
+
+    if (!conversation.leadId && (email || phone)) {
+      await this.saveLead(conversation, {
+        name,
+        email,
+        phone,
+        reason: details.reason?.trim() || 'Asked to chat with a person',
+        callbackPreference: phone ? 'phone' : 'email',
+      });
+    }
+
+    if (conversation.status === 'HANDOFF') {
+      return { status: conversation.status, messages: [] };
+    }
+
+    const message = await this.startHandoff(conversation, details.reason, true);
+    return { status: 'HANDOFF' as ChatConversationStatus, messages: message ? [message] : [] };
+  }
+
+  /**
+   * Inbox list, newest first
+   */
+  async listConversations(tenantId: string, filters: ChatConversationFilters = {}) {
+    const where: Prisma.ChatConversationWhereInput = { tenantId };
+
+    if (filters.status === 'AI' || filters.status === 'HANDOFF' || filters.status === 'CLOSED') {
+      where.status = filters.status;
+    } else if (filters.status === 'OPEN') {
+      where.status = { not: 'CLOSED' };
+    }
+    if (filters.assignedToId === 'unassigned') {
+      where.assignedToId = null;
+    } else if (filters.assignedToId) {
+      where.assignedToId = filters.assignedToId;
+    }
+    if (filters.search) {
+      where.OR = [
+        { visitorName: { contains: filters.search, mode: 'insensitive' } },
+        { visitorEmail: { contains: filters.search, mode: 'insensitive' } },
+        { lastMessagePreview: { contains: filters.search, mode: 'insensitive' } },
+      ];
+    }
+
+    return prisma.chatConversation.findMany({
+      where,
+      include: {
+        assignedTo: { select: { id: true, firstName: true, lastName: true, email: true } },
+      },
+      orderBy: { lastMessageAt: 'desc' },
+      take: 100,
+    });
+  }
+
+  /**
+   * A conversation with its messages; opening it marks it read
+   */
+  async getConversation(id: string, tenantId: string) {
+    const conversation = await prisma.chatConversation.findFirst({
+      where: { id, tenantId },
+      include: {
+        lead: { select: { id: true, name: true, status: true } },
+        assignedTo: { select: { id: true, firstName: true, lastName: true, email: true } },
+        messages: {
+          orderBy: { createdAt: 'asc' },
+          include: { sentBy: { select: { firstName: true, lastName: true, email: true } } },
+        },
+      },
+    });
+
+    if (conversation && conversation.unreadCount > 0) {
+      await prisma.chatConversation.update({ where: { id }, data: { unreadCount: 0 } });
+    }
+
+    return conversation;
+  }
+
+  /**
+   * A team member's reply; the AI stays out of the chat from here on
+   */
+  async reply(id: string, tenantId: string, userId: string, text: string) {
+    const conversation = await prisma.chatConversation.findFirst({ where: { id, tenantId } });
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+
+    const body = text.trim().slice(0, MAX_MESSAGE_LENGTH);
+    if (!body) {
+      throw new Error('Message is required');
+    }
+
+    return this.addMessage(id, 'AGENT', body, {
+      status: 'HANDOFF',
+      unreadCount: 0,
+      ...(!conversation.assignedToId && { assignedTo: { connect: { id: userId } } }),
+      ...(!conversation.handoffAt && { handoffAt: new Date() }),
+    }, { sentById: userId });
+  }
+
+  async assign(id: string, tenantId: string, userId: string | null) {
+    if (userId) {
+      const user = await prisma.user.findFirst({ where: { id: userId, tenantId, isActive: true } });
+      if (!user) {
+        throw new Error('User not found');
+      }
+    }
+
+    return prisma.chatConversation.updateMany({
+      where: { id, tenantId },
+      data: { assignedToId: userId },
+    });
+  }
+
+  async setStatus(id: string, tenantId: string, status: ChatConversationStatus) {
+    return prisma.chatConversation.updateMany({
+      where: { id, tenantId },
+      data: { status },
+    });
+  }
+
+  private async findOrCreateConversation(tenantId: string, visitorId: string, pageUrl?: string, ipAddress?: string) {
+    return prisma.chatConversation.upsert({
+      where: { tenantId_visitorId: { tenantId, visitorId } },
+      update: {
+        ...(pageUrl && { pageUrl }),
+        ...(ipAddress && { ipAddress }),
+      },
+      create: { tenantId, visitorId, pageUrl, ipAddress },
+    });
+  }
+
+  private async addMessage(
+    conversationId: string,
+    sender: 'VISITOR' | 'AI' | 'AGENT' | 'SYSTEM',
+    body: string,
+    conversationUpdate: Prisma.ChatConversationUpdateInput = {},
+    author: { sentById?: string; ipAddress?: string } = {}
+  ) {
+    const message = await prisma.chatMessage.create({
+      data: { conversationId, sender, body, sentById: author.sentById, ipAddress: author.ipAddress },
+      select: PUBLIC_MESSAGE_SELECT,
+    });
+
+    await prisma.chatConversation.update({
+      where: { id: conversationId },
+      data: {
+        lastMessageAt: message.createdAt,
+        lastMessagePreview: body.slice(0, PREVIEW_LENGTH),
+        ...conversationUpdate,
+      },
+    });
+
+    return message;
+  }
+
+  /**
+   * Answer with the same assistant as calls and texts, on the chat channel
+   */
+  private async aiReply(conversation: ChatConversation, messageId: string, body: string) {
+    const [recent, config] = await Promise.all([
+      prisma.chatMessage.findMany({
+        where: { conversationId: conversation.id, sender: { not: 'SYSTEM' } },
+        orderBy: { createdAt: 'desc' },
+        take: AI_HISTORY_MESSAGES,
+      }),
+      prisma.receptionistConfig.findUnique({ where: { tenantId: conversation.tenantId } }),
+    ]);
+
+    const conversationHistory: ConversationTurn[] = recent.reverse().map(message => ({
+      speaker: message.sender === 'VISITOR' ? 'user' : 'ai',
+      text: message.body,
+      timestamp: message.createdAt,
+    }));
+
+    const state = (conversation.metadata as any) || {};
+
+    const context: CallContext = {
+      channel: 'chat',
+      callSid: messageId,
+      tenantId: conversation.tenantId,
+      sessionId: conversation.id,
+      fromNumber: state.capturedData?.phone || '',
+      toNumber: '',
+      state: 'FAQ',
+      conversationHistory,
+      config: config ?? undefined,
+      metadata: { ...state },
+    };
+
+    const response = await aiService.chat(context, body);
+
+    const nextState: Record<string, any> = { ...state };
+    for (const key of AI_STATE_KEYS) {
+      if (context.metadata[key] !== undefined) {
+        nextState[key] = context.metadata[key];
+      }
+    }
+
+    const captured = nextState.capturedData || {};
+    const leadId = nextState.leadId && nextState.leadId !== conversation.leadId ? nextState.leadId : undefined;
+
+    const message = await this.addMessage(conversation.id, 'AI', response.message, {
+      metadata: nextState as Prisma.InputJsonValue,
+      ...(leadId && { lead: { connect: { id: leadId } } }),
+      ...(!conversation.visitorName && captured.name && { visitorName: captured.name }),
+      ...(!conversation.visitorEmail && captured.email && { visitorEmail: captured.email }),
+    });
+
+    if (leadId) {
+      await this.notifyLead(conversation.tenantId, leadId);
+    }
+
+    if (response.action?.type === 'handoff') {
+      // The AI already told the visitor; no extra system message
+      await this.startHandoff(conversation, response.action.data?.reason, false);
+      return { status: 'HANDOFF' as ChatConversationStatus, messages: [message] };
+    }
+
+    return { status: conversation.status, messages: [message] };
+  }
+
+  /**
+   * Hand the chat to the team and email whoever handles handoffs, unless
+   * the tenant has already had its share of handoff emails this hour
+   */
+  private async startHandoff(conversation: ChatConversation, reason: string | undefined, announce: boolean) {
+    let message = null;
+
+    if (announce) {
+      const hours = await getBusinessHoursStatus(conversation.tenantId);
+      message = await this.addMessage(
+        conversation.id,
+        'SYSTEM',
+        hours.isOpen
+          ? 'A team member has been notified and will join shortly.'
+          : `We're away right now (${hours.hours}). Leave a message here and we'll get back to you.`
+      );
+    }
+
+    const recentHandoffs = await prisma.chatConversation.count({
+      where: { tenantId: conversation.tenantId, handoffAt: { gte: new Date(Date.now() - 60 * 60 * 1000) } },
+    });
+
+    await prisma.chatConversation.update({
+      where: { id: conversation.id },
+      data: { status: 'HANDOFF', handoffAt: new Date(), unreadCount: { increment: 1 } },
+    });
+
+    if (recentHandoffs >= MAX_HANDOFF_EMAILS_PER_HOUR) {
+      return message;
+    }
+
+    try {
+      const to = await this.getHandoffEmail(conversation.tenantId);
+      if (to) {
+        const who = conversation.visitorName || conversation.visitorEmail || 'A website visitor';
+        const lines = [`${who} asked for a person in the website chat.`];
+        if (reason) lines.push(`Reason: ${reason}`);
+        if (conversation.pageUrl) lines.push(`Page: ${conversation.pageUrl}`);
+        lines.push('', `Reply here: ${env.BASE_URL}/tenant/chatbot/conversations/${conversation.id}`);
+
+        await JobProcessor.createJob({
+          type: 'send_email',
+          payload: {
+            to,
+            subject: `Website chat: ${who} would like to talk to someone`,
+            text: lines.join('\n'),
+          },
+        });
+      }
+    } catch (error) {
+      console.error('Chat handoff notification error:', error);
+    }
+
+    return message;
+  }
+
+  private async saveLead(conversation: ChatConversation, leadData: Partial<LeadData>) {
+    const leadId = await createLeadRecord(conversation.tenantId, null, leadData, 'chatbot');
+    if (!leadId) {
+      return;
+    }
+
+    const state = (conversation.metadata as any) || {};
+    await prisma.chatConversation.update({
+      where: { id: conversation.id },
+      data: {
+        leadId,
+        metadata: { ...state, leadId, capturedData: { ...state.capturedData, ...leadData } },
+      },
+    });
+
+    await this.notifyLead(conversation.tenantId, leadId);
+  }
+
+  private async notifyLead(tenantId: string, leadId: string) {
+    try {
+      await JobProcessor.createJob({
+        type: 'lead_notification',
+        payload: { tenantId, leadId },
+      });
+    } catch (error) {
+      console.error('Chat lead notification error:', error);
+    }
+  }
+
+  private async getHandoffEmail(tenantId: string): Promise<string | null> {
+    const config = await this.getConfig(tenantId);
+    if (config?.handoffEmail) {
+      return config.handoffEmail;
+    }
+
+    const admin = await prisma.user.findFirst({
+      where: { tenantId, role: 'TENANT_ADMIN', isActive: true },
+      orderBy: { createdAt: 'asc' },
+      select: { email: true },
+    });
+    return admin?.email ?? null;
+  }
+}
+
+export const chatbotService = new ChatbotService();
@@ -0,0 +1,284 @@
+import { prisma } from '../../db/prisma';
+import { callerIdService } from './callerIdService';
+import { toE164 } from './phoneNumber';
+import { recordingStorageService } from '../storage/recordingStorageService';
+
+export class CallActivityService {
+  /**
+   * Record a finished call on the caller's contact timeline. Creates the
+   * contact if the number is new, and refreshes the same CALL activity on
+   * later runs so the summary and recording are added once they exist.
+   */
+  async logCall(callSessionId: string) {
+    const session = await prisma.callSession.findUnique({
+      where: { id: callSessionId },
+      include: {
+        summary: true,
+        lead: true,
+        recordings: { orderBy: { createdAt: 'desc' }, take: 1 },
+      },
+    });
+
+    if (!session) {
+      return null;
+    }
+
+    const contact = await this.upsertContact(session.tenantId, session.fromNumber, session.lead);
+    if (!contact) {
+      return null;
+    }
+
+    const createdBy = contact.ownerId || (await this.getTenantAdminId(session.tenantId));
+    if (!createdBy) {
+      console.error(`No user to log call activity for tenant ${session.tenantId}`);
+      return null;
+    }
+
+    const metadata = {
+      callSessionId: session.id,
+      callSid: session.callSid,
+      direction: session.direction,
+      status: session.status,
+      duration: session.duration,
+      recordingUrl: session.recordings[0] ? recordingStorageService.playbackPath(session.recordings[0].id) : undefined,
+      summary: session.summary?.summary,
+      sentiment: session.summary?.sentiment || undefined,
+      intent: session.summary?.intent || undefined,
+      transferred: session.transferSuccess,
+      leadCaptured: session.leadCaptured,
+    };
+
+    const title = `${session.direction === 'outbound' ? 'Outbound' : 'Inbound'} call` +
+      (session.duration ? ` (${this.formatDuration(session.duration)})` : '');
+
+    const existing = await prisma.activity.findFirst({
+      where: {
+        tenantId: session.tenantId,
+        activityType: 'CALL',
+        metadata: { path: ['callSessionId'], equals: session.id },
+      },
+    });
+
+    const activity = existing
+      ? await prisma.activity.update({
+          where: { id: existing.id },
+          data: {
+            contactId: contact.id,
+            title,
+            description: metadata.summary ?? existing.description,
+            metadata,
+          },
+        })
+      : await prisma.activity.create({
+          data: {
+            tenantId: session.tenantId,
+            contactId: contact.id,
+            createdBy,
+            activityType: 'CALL',
+            title,
+            description: metadata.summary,
+            metadata,
+            occurredAt: session.startTime,
+          },
+        });
+
+    // Never move lastContactedAt backwards when an old call is re-logged
+    const contactedAt = session.endTime || session.startTime;
+    if (!contact.lastContactedAt || contact.lastContactedAt < contactedAt) {
+      await prisma.contact.update({
+        where: { id: contact.id },
+        data: { lastContactedAt: contactedAt },
+      });
+    }
+
+    return activity;
+  }
+
+  /**
+   * Record an outbound call to a lead (callbacks, reminder calls) on the
+   * lead's contact timeline, creating the contact if needed
+   */
+  async logLeadCall(params: {
+    tenantId: string;
+    lead: { id: string; name: string | null; email: string | null; phone: string | null };
+    title: string;
+    description?: string;
+    metadata: Record<string, any>;
+    connected: boolean;
+    createdBy?: string | null;
+  }) {
+    const contact = params.lead.phone
+      ? await this.upsertContact(params.tenantId, params.lead.phone, params.lead)
+      : null;
+    if (!contact) {
+      return null;
+    }
+
+    const createdBy = params.createdBy || contact.ownerId || (await this.getTenantAdminId(params.tenantId));
+    if (!createdBy) {
+      console.error(`No user to log call activity for tenant ${params.tenantId}`);
+      return null;
+    }
+
+    const now = new Date();
+    const activity = await prisma.activity.create({
+      data: {
+        tenantId: params.tenantId,
+        contactId: contact.id,
+        createdBy,
+        activityType: 'CALL',
+        title: params.title,
+        description: params.description,
+        metadata: { direction: 'outbound', ...params.metadata },
+        occurredAt: now,
+      },
+    });
+
+    if (params.connected) {
+      await prisma.contact.update({
+        where: { id: contact.id },
+        data: { lastContactedAt: now },
+      });
+    }
+
+    return activity;
+  }
+
+  /**
+   * Put a voicemail on the caller's contact timeline, creating the contact
+   * if needed, and link the voicemail to it. Safe to run more than once.
+   */
+  async logVoicemail(voicemailId: string) {
+    const voicemail = await prisma.voicemail.findUnique({
+      where: { id: voicemailId },
+      include: { callSession: { include: { lead: true } } },
+    });
+
+    if (!voicemail) {
+      return null;
+    }
+
+    const contact = await this.upsertContact(voicemail.tenantId, voicemail.fromNumber, voicemail.callSession.lead);
+    if (!contact) {
+      return null;
+    }
+
+    const createdBy = contact.ownerId || (await this.getTenantAdminId(voicemail.tenantId));
+    if (!createdBy) {
+      console.error(`No user to log voicemail activity for tenant ${voicemail.tenantId}`);
+      return null;
+    }
+
+    if (voicemail.contactId !== contact.id) {
+      await prisma.voicemail.update({ where: { id: voicemail.id }, data: { contactId: contact.id } });
+    }
+
+    const metadata = {
+      voicemailId: voicemail.id,
+      callSessionId: voicemail.callSessionId,
+      duration: voicemail.duration,
+      recordingUrl: `/tenant/voicemail/${voicemail.id}/audio`,
+    };
+    const title = 'Voicemail' + (voicemail.duration ? ` (${this.formatDuration(voicemail.duration)})` : '');
+
+    const existing = await prisma.activity.findFirst({
+      where: {
+        tenantId: voicemail.tenantId,
+        activityType: 'VOICEMAIL',
+        metadata: { path: ['voicemailId'], equals: voicemail.id },
+      },
+    });
+
+    return existing
+      ? prisma.activity.update({
+          where: { id: existing.id },
+          data: { contactId: contact.id, title, description: voicemail.transcript, metadata },
+        })
+      : prisma.activity.create({
+          data: {
+            tenantId: voicemail.tenantId,
+            contactId: contact.id,
+            createdBy,
+            activityType: 'VOICEMAIL',
+            title,
+            description: voicemail.transcript,
+            metadata,
+            occurredAt: voicemail.createdAt,
+          },
+        });
+  }
+
+  /**
+   * Find the contact for a caller, or create one from the number (and any
+   * lead captured on the call). Anonymous callers are skipped.
+   */
+  private async upsertContact(
+    tenantId: string,
+    fromNumber: string,
+    lead: { id: string; name: string | null; email: string | null } | null
+  ) {
+    const phone = toE164(fromNumber);
+    if (!phone) {
+      return null;
+    }
+
+    const contactId =
+      (lead && (await prisma.contact.findUnique({ where: { leadId: lead.id }, select: { id: true } }))?.id) ||
+      (await callerIdService.findContactId(tenantId, phone));
+
+    if (contactId) {
+      const contact = await prisma.contact.findUniqueOrThrow({ where: { id: contactId } });
+
+      // Fill in details the caller gave us that the contact is missing
+      if (lead && ((!contact.fullName && lead.name) || (!contact.email && lead.email))) {
+        return prisma.contact.update({
+          where: { id: contact.id },
+          data: {
+            ...(!contact.fullName && lead.name && this.splitName(lead.name)),
+            ...(!contact.email && lead.email && { email: lead.email }),
+          },
+        });
+      }
+
+      return contact;
+    }
+
+    return prisma.contact.create({
+      data: {
+        tenantId,
+        leadId: lead?.id,
+        phone,
+        email: lead?.email || undefined,
+        ...(lead?.name && this.splitName(lead.name)),
+        lifecycle: 'LEAD',
+        source: 'voice_call',
+      },
+    });
+  }
+
+  private splitName(name: string) {
+    const parts = name.trim().split(/\s+/);
+    return {
+      firstName: parts[0],
+      lastName: parts.slice(1).join(' ') || undefined,
+      fullName: name.trim(),
+    };
+  }
+
+  private async getTenantAdminId(tenantId: string): Promise<string | null> {
+    const admin = await prisma.user.findFirst({
+      where: { tenantId, role: 'TENANT_ADMIN', isActive: true },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+    return admin?.id ?? null;
+  }
+
+  private formatDuration(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const rest = seconds % 60;
+    return minutes > 0 ? `${minutes}m ${rest}s` : `${rest}s`;
+  }
+}
+
+export const callActivityService = new CallActivityService();
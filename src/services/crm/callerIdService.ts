@@ -0,0 +1,168 @@
+import { prisma } from '../../db/prisma';
+import { CallerProfile } from '../../types';
+import { toE164 } from './phoneNumber';
+
+const MAX_OPEN_DEALS = 3;
+
+export class CallerIdService {
+  /**
+   * Find the active contact for a number, however it was typed into the CRM
+   */
+  async findContactId(tenantId: string, phone: string): Promise<string | null> {
+    const e164 = toE164(phone);
+    if (!e164) return null;
+
+    // Compare digits only so "(555) 123-4567" matches +15551234567
+    const digits = e164.slice(1);
+    const national = digits.startsWith('1') && digits.length === 11 ? digits.slice(1) : digits;
+
+    const matches = await prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT id
+      FROM "Contact"
+      WHERE "tenantId" = ${tenantId}
+        AND status = 'ACTIVE'
+        AND (
+          regexp_replace(coalesce(phone, ''), '\\D', '', 'g') IN (${digits}, ${national})
+          OR regexp_replace(coalesce(mobile, ''), '\\D', '', 'g') IN (${digits}, ${national})
+        )
+      ORDER BY "updatedAt" DESC
+      LIMIT 1
+    `;
+
+    return matches[0]?.id ?? null;
+  }
+
+  /**
+   * Everything worth knowing about a caller before answering: their contact,
+   * owner, open deals, tags and how their last call went
+   */
+  async identify(
+    tenantId: string,
+    phone: string,
+    excludeCallSessionId?: string
+  ): Promise<CallerProfile | null> {
+    const e164 = toE164(phone);
+    if (!e164) return null;
+
+    const contactId = await this.findContactId(tenantId, e164);
+
+    const [contact, previousCalls, lastCall] = await Promise.all([
+      contactId
+        ? prisma.contact.findUnique({
+            where: { id: contactId },
+            include: {
+              owner: { select: { id: true, firstName: true, lastName: true, isActive: true } },
+              company: { select: { name: true } },
+              tags: { include: { tag: { select: { name: true } } } },
+              deals: {
+                where: { status: 'OPEN' },
+                include: { stage: { select: { name: true } } },
+                orderBy: { updatedAt: 'desc' },
+                take: MAX_OPEN_DEALS,
+              },
+            },
+          })
+        : null,
+      prisma.callSession.count({
+        where: { tenantId, fromNumber: e164, id: excludeCallSessionId ? { not: excludeCallSessionId } : undefined },
+      }),
+      prisma.callSession.findFirst({
+        where: {
+          tenantId,
+          fromNumber: e164,
+          id: excludeCallSessionId ? { not: excludeCallSessionId } : undefined,
+        },
+        include: { summary: { select: { summary: true, intent: true } } },
+        orderBy: { startTime: 'desc' },
+      }),
+    ]);
+
+    if (!contact && previousCalls === 0) {
+      return null;
+    }
+
+    const profile: CallerProfile = {
+      phone: e164,
+      tags: [],
+      openDeals: [],
+      previousCalls,
+    };
+
+    if (contact) {
+      const name = contact.fullName || [contact.firstName, contact.lastName].filter(Boolean).join(' ');
+      const owner = contact.owner?.isActive ? contact.owner : null;
+
+      Object.assign(profile, {
+        contactId: contact.id,
+        name: name || undefined,
+        firstName: contact.firstName || name.split(' ')[0] || undefined,
+        email: contact.email || undefined,
+        company: contact.company?.name,
+        lifecycle: contact.lifecycle,
+        ownerId: owner?.id,
+        ownerName: owner ? [owner.firstName, owner.lastName].filter(Boolean).join(' ') || undefined : undefined,
+        tags: contact.tags.map(t => t.tag.name),
+        openDeals: contact.deals.map(deal => ({
+          title: deal.title,
+          stage: deal.stage.name,
+          value: deal.value ? Number(deal.value) : undefined,
+        })),
+      });
+    }
+
+    if (lastCall) {
+      profile.lastCall = {
+        at: lastCall.startTime.toISOString(),
+        summary: lastCall.summary?.summary,
+        intent: lastCall.summary?.intent || undefined,
+      };
+    }
+
+    return profile;
+  }
+
+  /**
+   * Transfer number for the caller's owner, if they have one set up
+   */
+  async getOwnerTransferTarget(
+    tenantId: string,
+    ownerId: string
+  ): Promise<{ id: string; name: string; phoneNumber: string } | null> {
+    return prisma.transferTarget.findFirst({
+      where: { tenantId, userId: ownerId, isActive: true },
+      orderBy: { priority: 'asc' },
+      select: { id: true, name: true, phoneNumber: true },
+    });
+  }
+
+  /**
+   * Caller details for the AI system prompt
+   */
+  describe(profile: CallerProfile): string {
+    const lines: string[] = [];
+
+    if (profile.contactId) {
+      lines.push(`- Known contact: ${profile.name || 'name not on file'}${profile.company ? ` (${profile.company})` : ''}`);
+      if (profile.lifecycle) lines.push(`- Status: ${profile.lifecycle}`);
+      if (profile.ownerName) lines.push(`- Account owner: ${profile.ownerName}`);
+      if (profile.tags.length > 0) lines.push(`- Tags: ${profile.tags.join(', ')}`);
+      if (profile.openDeals.length > 0) {
+        lines.push(`- Open deals: ${profile.openDeals.map(d => `${d.title} (${d.stage})`).join('; ')}`);
+      }
+    } else {
+      lines.push('- Not in the CRM, but has called before');
+    }
+
+    if (profile.previousCalls > 0) {
+      lines.push(`- Previous calls: ${profile.previousCalls}`);
+    }
+    if (profile.lastCall) {
+      const when = new Date(profile.lastCall.at).toDateString();
+      lines.push(`- Last call (${when}): ${profile.lastCall.summary || profile.lastCall.intent || 'no summary'}`);
+    }
+
+    return lines.join('\n');
+  }
+}
+
+export const callerIdService = new CallerIdService();
@@ -1,5 +1,6 @@
 import { prisma } from '../../db/prisma';
 import { Prisma } from '@prisma/client';
+import { toE164 } from './phoneNumber';
 
 export interface ContactFilters {
   search?: string;
@@ -268,8 +269,9 @@ export class ContactService {
         lastName: data.lastName,
         fullName,
         email: data.email,
-        phone: data.phone,
-        mobile: data.mobile,
+        // Stored as E.164 so callers can be recognized; anything unparseable is kept as typed
+        phone: data.phone && (toE164(data.phone) || data.phone),
+        mobile: data.mobile && (toE164(data.mobile) || data.mobile),
         title: data.title,
         department: data.department,
         website: data.website,
@@ -367,6 +369,8 @@ export class ContactService {
 
     // Remove leadId from update data (it's @unique and shouldn't be changed)
     const { leadId, ...updateData } = data;
+    if (updateData.phone) updateData.phone = toE164(updateData.phone) || updateData.phone;
+    if (updateData.mobile) updateData.mobile = toE164(updateData.mobile) || updateData.mobile;
 
     const contact = await prisma.contact.update({
       where: {
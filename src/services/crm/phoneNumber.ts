@@ -0,0 +1,16 @@
+/**
+ * Normalize a phone number to E.164. Numbers without a country code are
+ * assumed to be US/Canada. Returns null when it can't be a phone number.
+ */
+export function toE164(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+
+  const digits = phone.replace(/\D/g, '');
+
+  if (phone.trim().startsWith('+')) {
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+  }
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  return null;
+}
@@ -0,0 +1,653 @@
+import crypto from 'crypto';
+import { Contact, EmailCampaign, EmailRecipient, Prisma } from '@prisma/client';
+import prisma from '../../db/prisma';
+import { env } from '../../config/env';
+import { JobProcessor } from '../jobs/jobProcessor';
+import { emailService } from '../jobs/emailService';
+
+export const EMAIL_MERGE_FIELDS = [
+  'firstName',
+  'lastName',
+  'fullName',
+  'email',
+  'businessName',
+  'unsubscribeUrl',
+];
+
+export const MIN_SEND_RATE = 1;
+export const MAX_SEND_RATE = 500;
+
+const BATCH_INTERVAL_MS = 60 * 1000;
+// A recipient still SENDING after this was claimed by a batch that died
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+const RECIPIENT_INSERT_CHUNK = 1000;
+
+// 1x1 transparent GIF served for open tracking
+export const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+export interface SegmentFilters {
+  lifecycles?: string[];
+  ratings?: string[];
+  tagIds?: string[];
+  sources?: string[];
+  ownerIds?: string[];
+}
+
+export interface CampaignInput {
+  name: string;
+  subject: string;
+  body: string;
+  templateId?: string | null;
+  segmentId?: string | null;
+  sendRate?: number;
+}
+
+export interface CampaignStats {
+  recipients: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+  opened: number;
+  clicked: number;
+  unsubscribed: number;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export class CampaignService {
+  // ============================================
+  // SEGMENTS
+  // ============================================
+
+  /**
+   * Contacts a segment matches. Filters are ANDed together, values within a
+   * filter are ORed; contacts without an email or who unsubscribed never match.
+   */
+  buildSegmentWhere(tenantId: string, filters: SegmentFilters): Prisma.ContactWhereInput {
+    const where: Prisma.ContactWhereInput = {
+      tenantId,
+      status: 'ACTIVE',
+      emailOptOut: false,
+      AND: [{ email: { not: null } }, { email: { not: '' } }],
+    };
+
+    if (filters.lifecycles?.length) {
+      where.lifecycle = { in: filters.lifecycles as any };
+    }
+    if (filters.ratings?.length) {
+      where.rating = { in: filters.ratings as any };
+    }
+    if (filters.sources?.length) {
+      where.source = { in: filters.sources };
+    }
+    if (filters.ownerIds?.length) {
+      where.ownerId = { in: filters.ownerIds };
+    }
+    if (filters.tagIds?.length) {
+      where.tags = { some: { tagId: { in: filters.tagIds } } };
+    }
+
+    return where;
+  }
+
+  async countSegment(tenantId: string, filters: SegmentFilters): Promise<number> {
+    return prisma.contact.count({ where: this.buildSegmentWhere(tenantId, filters) });
+  }
+
+  // ============================================
+  // CAMPAIGNS
+  // ============================================
+
+  async createCampaign(tenantId: string, createdById: string, input: CampaignInput) {
+    return prisma.emailCampaign.create({
+      data: {
+        tenantId,
+        createdById,
+        ...(await this.campaignData(tenantId, input)),
+      },
+    });
+  }
+
+  /**
+   * Only drafts can be edited; once scheduled the content is what gets sent
+   */
+  async updateCampaign(id: string, tenantId: string, input: CampaignInput) {
+    const campaign = await this.findCampaign(id, tenantId);
+    if (campaign.status !== 'DRAFT') {
+      throw new Error('Only draft campaigns can be edited');
+    }
+
+    return prisma.emailCampaign.update({
+      where: { id },
+      data: await this.campaignData(tenantId, input),
+    });
+  }
+
+  /**
+   * Queue the campaign's first batch for scheduledAt (now if missing or past).
+   * The audience is taken from the segment when that batch runs.
+   */
+  async scheduleCampaign(id: string, tenantId: string, scheduledAt?: Date | null) {
+    const campaign = await this.findCampaign(id, tenantId);
+    if (campaign.status !== 'DRAFT') {
+      throw new Error('Only draft campaigns can be scheduled');
+    }
+    if (!campaign.segmentId) {
+      throw new Error('Choose a list to send to');
+    }
+
+    const now = new Date();
+    const sendAt = scheduledAt && scheduledAt > now ? scheduledAt : now;
+    const scheduleToken = crypto.randomUUID();
+
+    const updated = await prisma.emailCampaign.update({
+      where: { id },
+      data: { status: 'SCHEDULED', scheduledAt: sendAt, scheduleToken },
+    });
+
+    await JobProcessor.createJob({
+      type: 'email_campaign_batch',
+      payload: { campaignId: id, scheduleToken },
+      scheduledAt: sendAt,
+    });
+
+    return updated;
+  }
+
+  /**
+   * A scheduled campaign goes back to draft; one that is sending stops and
+   * its remaining recipients are skipped. Clearing the schedule token
+   * retires the batch job already queued.
+   */
+  async cancelCampaign(id: string, tenantId: string) {
+    const campaign = await this.findCampaign(id, tenantId);
+
+    if (campaign.status === 'SCHEDULED') {
+      return prisma.emailCampaign.update({
+        where: { id },
+        data: { status: 'DRAFT', scheduledAt: null, scheduleToken: null },
+      });
+    }
+
+    if (campaign.status !== 'SENDING') {
+      throw new Error('Only scheduled or sending campaigns can be canceled');
+    }
+
+    const [updated] = await prisma.$transaction([
+      prisma.emailCampaign.update({
+        where: { id },
+        data: { status: 'CANCELED', completedAt: new Date(), scheduleToken: null },
+      }),
+      prisma.emailRecipient.updateMany({
+        where: { campaignId: id, status: 'QUEUED' },
+        data: { status: 'SKIPPED', error: 'Campaign canceled' },
+      }),
+    ]);
+    return updated;
+  }
+
+  async deleteCampaign(id: string, tenantId: string) {
+    const campaign = await this.findCampaign(id, tenantId);
+    if (campaign.status === 'SCHEDULED' || campaign.status === 'SENDING') {
+      throw new Error('Cancel the campaign before deleting it');
+    }
+
+    await prisma.emailCampaign.delete({ where: { id } });
+  }
+
+  /**
+   * Delivery and engagement counts per campaign
+   */
+  async getStats(campaignIds: string[]): Promise<Record<string, CampaignStats>> {
+    const stats: Record<string, CampaignStats> = {};
+    if (campaignIds.length === 0) {
+      return stats;
+    }
+
+    for (const id of campaignIds) {
+      stats[id] = { recipients: 0, sent: 0, failed: 0, skipped: 0, opened: 0, clicked: 0, unsubscribed: 0 };
+    }
+
+    const where = { campaignId: { in: campaignIds } };
+    const [byStatus, opened, clicked, unsubscribed] = await Promise.all([
+      prisma.emailRecipient.groupBy({ by: ['campaignId', 'status'], where, _count: { _all: true } }),
+      prisma.emailRecipient.groupBy({ by: ['campaignId'], where: { ...where, openedAt: { not: null } }, _count: { _all: true } }),
+      prisma.emailRecipient.groupBy({ by: ['campaignId'], where: { ...where, clickedAt: { not: null } }, _count: { _all: true } }),
+      prisma.emailRecipient.groupBy({ by: ['campaignId'], where: { ...where, unsubscribedAt: { not: null } }, _count: { _all: true } }),
+    ]);
+
+    for (const row of byStatus) {
+      const stat = stats[row.campaignId];
+      stat.recipients += row._count._all;
+      if (row.status === 'SENT') stat.sent = row._count._all;
+      if (row.status === 'FAILED') stat.failed = row._count._all;
+      if (row.status === 'SKIPPED') stat.skipped = row._count._all;
+    }
+    for (const row of opened) stats[row.campaignId].opened = row._count._all;
+    for (const row of clicked) stats[row.campaignId].clicked = row._count._all;
+    for (const row of unsubscribed) stats[row.campaignId].unsubscribed = row._count._all;
+
+    return stats;
+  }
+
+  // ============================================
+  // SENDING
+  // ============================================
+
+  /**
+   * Send the next sendRate emails of a campaign, then queue the next batch a
+   * minute later until nobody is left. The first batch takes the audience
+   * from the segment. Jobs carry the schedule token they were queued under,
+   * so ones left over from a canceled schedule do nothing.
+   */
+  async sendBatch(campaignId: string, scheduleToken?: string): Promise<boolean> {
+    const campaign = await prisma.emailCampaign.findUnique({
+      where: { id: campaignId },
+      include: { segment: true, tenant: { select: { name: true } } },
+    });
+
+    // Left over from before it was canceled (and maybe rescheduled)
+    if (!campaign || (scheduleToken ?? null) !== campaign.scheduleToken) {
+      return true;
+    }
+
+    if (campaign.status === 'SCHEDULED') {
+      // Untokened jobs from before a reschedule to a later time
+      if (!scheduleToken && campaign.scheduledAt && campaign.scheduledAt > new Date()) {
+        return true;
+      }
+      if (!campaign.segment) {
+        await prisma.emailCampaign.update({
+          where: { id: campaignId },
+          data: { status: 'CANCELED', completedAt: new Date() },
+        });
+        console.error(`Email campaign ${campaignId} lost its list before sending`);
+        return true;
+      }
+
+      await this.addRecipients(campaign, campaign.segment.filters as SegmentFilters);
+      await prisma.emailCampaign.update({
+        where: { id: campaignId },
+        data: { status: 'SENDING', startedAt: new Date() },
+      });
+    } else if (campaign.status !== 'SENDING') {
+      return true;
+    }
+
+    // Claims left by a batch that crashed or timed out go back in the queue
+    const reclaimed = await prisma.emailRecipient.updateMany({
+      where: { campaignId, status: 'SENDING', claimedAt: { lt: new Date(Date.now() - STALE_CLAIM_MS) } },
+      data: { status: 'QUEUED', claimedAt: null },
+    });
+    if (reclaimed.count > 0) {
+      console.warn(`Email campaign ${campaignId}: requeued ${reclaimed.count} recipients from an interrupted batch`);
+    }
+
+    const batchStart = Date.now();
+    const recipients = await prisma.emailRecipient.findMany({
+      where: { campaignId, status: 'QUEUED' },
+      include: { contact: true },
+      orderBy: { createdAt: 'asc' },
+      take: campaign.sendRate,
+    });
+
+    for (const recipient of recipients) {
+      // Another run of this job may have picked it up already
+      const claimed = await prisma.emailRecipient.updateMany({
+        where: { id: recipient.id, status: 'QUEUED' },
+        data: { status: 'SENDING', claimedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      await this.sendToRecipient(campaign, campaign.tenant.name, recipient);
+    }
+
+    // Recipients another batch is still sending to keep the campaign open
+    const remaining = await prisma.emailRecipient.count({
+      where: { campaignId, status: { in: ['QUEUED', 'SENDING'] } },
+    });
+
+    if (remaining > 0) {
+      await JobProcessor.createJob({
+        type: 'email_campaign_batch',
+        payload: { campaignId, scheduleToken },
+        scheduledAt: new Date(batchStart + BATCH_INTERVAL_MS),
+      });
+    } else {
+      await prisma.emailCampaign.updateMany({
+        where: { id: campaignId, status: 'SENDING' },
+        data: { status: 'SENT', completedAt: new Date() },
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Fill {{field}} placeholders; unknown fields become empty
+   */
+  renderTemplate(template: string, values: Record<string, string>, escape = false): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, key: string) => {
+      const value = values[key] ?? '';
+      return escape ? escapeHtml(value) : value;
+    });
+  }
+
+  /**
+   * Build the email a contact receives: merge fields filled, links routed
+   * through click tracking, an unsubscribe footer if the body has no
+   * {{unsubscribeUrl}}, and the open pixel
+   */
+  renderEmail(
+    campaign: Pick<EmailCampaign, 'subject' | 'body'>,
+    contact: Pick<Contact, 'firstName' | 'lastName' | 'fullName' | 'email'>,
+    businessName: string,
+    token: string
+  ) {
+    const unsubscribeUrl = this.unsubscribeUrl(token);
+    const values = {
+      firstName: contact.firstName || '',
+      lastName: contact.lastName || '',
+      fullName: contact.fullName || [contact.firstName, contact.lastName].filter(Boolean).join(' '),
+      email: contact.email || '',
+      businessName,
+      unsubscribeUrl,
+    };
+
+    let html = this.renderTemplate(campaign.body, values, true);
+    html = html.replace(/href="(https?:\/\/[^"]+)"/gi, (match, href: string) => {
+      const url = href.replace(/&amp;/g, '&');
+      return url === unsubscribeUrl ? match : `href="${escapeHtml(this.clickUrl(token, url))}"`;
+    });
+
+    if (!/\{\{\s*unsubscribeUrl\s*\}\}/.test(campaign.body)) {
+      html += `
+<p style="font-size: 12px; color: #888; margin-top: 24px;">
+  You're receiving this because you're a contact of ${escapeHtml(businessName)}.
+  <a href="${escapeHtml(unsubscribeUrl)}">Unsubscribe</a>
+</p>`;
+    }
+
+    html += `<img src="${env.BASE_URL}/email/o/${token}.gif" width="1" height="1" alt="" style="display: none;">`;
+
+    return {
+      subject: this.renderTemplate(campaign.subject, values).trim(),
+      html,
+      unsubscribeUrl,
+    };
+  }
+
+  // ============================================
+  // TRACKING & UNSUBSCRIBE
+  // ============================================
+
+  /**
+   * Count an open; the first one is written to the contact's timeline
+   */
+  async recordOpen(token: string) {
+    const recipient = await prisma.emailRecipient.findUnique({ where: { token } });
+    if (!recipient) {
+      return;
+    }
+
+    const now = new Date();
+    const first = await prisma.emailRecipient.updateMany({
+      where: { id: recipient.id, openedAt: null },
+      data: { openedAt: now },
+    });
+    await prisma.emailRecipient.update({
+      where: { id: recipient.id },
+      data: { openCount: { increment: 1 } },
+    });
+
+    if (first.count > 0) {
+      await this.logActivity(recipient, 'opened', now);
+    }
+  }
+
+  /**
+   * Check a tracked link and count the click. Returns where to send the
+   * reader, or null if the link was tampered with.
+   */
+  async recordClick(token: string, url: string, signature: string): Promise<string | null> {
+    if (!/^https?:\/\//i.test(url) || !this.isValidSignature(token, url, signature)) {
+      return null;
+    }
+
+    const recipient = await prisma.emailRecipient.findUnique({ where: { token } });
+    if (!recipient) {
+      return url;
+    }
+
+    const now = new Date();
+    const first = await prisma.emailRecipient.updateMany({
+      where: { id: recipient.id, clickedAt: null },
+      data: { clickedAt: now },
+    });
+    await prisma.emailRecipient.update({
+      where: { id: recipient.id },
+      data: {
+        clickCount: { increment: 1 },
+        // Images are often blocked, so a click is also an open
+        ...(!recipient.openedAt && { openedAt: now }),
+      },
+    });
+
+    if (first.count > 0) {
+      await this.logActivity(recipient, 'clicked', now, url);
+    }
+
+    return url;
+  }
+
+  /**
+   * Opt the recipient's contact out of all future campaigns
+   */
+  async unsubscribe(token: string) {
+    const recipient = await prisma.emailRecipient.findUnique({
+      where: { token },
+      include: { campaign: { include: { tenant: { select: { name: true } } } } },
+    });
+    if (!recipient) {
+      return null;
+    }
+
+    if (!recipient.unsubscribedAt) {
+      const now = new Date();
+      await prisma.$transaction([
+        prisma.emailRecipient.update({
+          where: { id: recipient.id },
+          data: { unsubscribedAt: now },
+        }),
+        prisma.contact.update({
+          where: { id: recipient.contactId },
+          data: { emailOptOut: true, emailOptOutAt: now },
+        }),
+      ]);
+      await this.logActivity(recipient, 'unsubscribed', now);
+    }
+
+    return { email: recipient.email, businessName: recipient.campaign.tenant.name };
+  }
+
+  async findRecipient(token: string) {
+    return prisma.emailRecipient.findUnique({
+      where: { token },
+      include: { campaign: { include: { tenant: { select: { name: true } } } } },
+    });
+  }
+
+  unsubscribeUrl(token: string): string {
+    return `${env.BASE_URL}/email/u/${token}`;
+  }
+
+  clickUrl(token: string, url: string): string {
+    return `${env.BASE_URL}/email/c/${token}?url=${encodeURIComponent(url)}&sig=${this.sign(token, url)}`;
+  }
+
+  private isValidSignature(token: string, url: string, signature: string): boolean {
+    const expected = Buffer.from(this.sign(token, url));
+    const given = Buffer.from(String(signature || ''));
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  }
+
+  // Links are signed so the click endpoint can't be used as an open redirect
+  private sign(token: string, url: string): string {
+    return crypto
+      .createHmac('sha256', env.SESSION_SECRET)
+      .update(`${token}:${url}`)
+      .digest('base64url');
+  }
+
+  // ============================================
+  // PRIVATE
+  // ============================================
+
+  private async findCampaign(id: string, tenantId: string) {
+    const campaign = await prisma.emailCampaign.findFirst({ where: { id, tenantId } });
+    if (!campaign) {
+      throw new Error('Campaign not found');
+    }
+    return campaign;
+  }
+
+  private async campaignData(tenantId: string, input: CampaignInput) {
+    const [template, segment] = await Promise.all([
+      input.templateId ? prisma.emailTemplate.findFirst({ where: { id: input.templateId, tenantId } }) : null,
+      input.segmentId ? prisma.emailSegment.findFirst({ where: { id: input.segmentId, tenantId } }) : null,
+    ]);
+
+    if (input.segmentId && !segment) {
+      throw new Error('List not found');
+    }
+
+    const sendRate = Math.round(input.sendRate ?? 60);
+
+    return {
+      name: input.name.trim(),
+      subject: input.subject.trim(),
+      body: input.body,
+      templateId: template?.id ?? null,
+      segmentId: segment?.id ?? null,
+      sendRate: Math.min(MAX_SEND_RATE, Math.max(MIN_SEND_RATE, isNaN(sendRate) ? 60 : sendRate)),
+    };
+  }
+
+  /**
+   * Snapshot the segment into recipients, each with its own tracking token
+   */
+  private async addRecipients(campaign: EmailCampaign, filters: SegmentFilters) {
+    const contacts = await prisma.contact.findMany({
+      where: this.buildSegmentWhere(campaign.tenantId, filters),
+      select: { id: true, email: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (let i = 0; i < contacts.length; i += RECIPIENT_INSERT_CHUNK) {
+      await prisma.emailRecipient.createMany({
+        data: contacts.slice(i, i + RECIPIENT_INSERT_CHUNK).map(contact => ({
+          campaignId: campaign.id,
+          contactId: contact.id,
+          email: contact.email!.trim(),
+          token: crypto.randomBytes(24).toString('base64url'),
+        })),
+        skipDuplicates: true,
+      });
+    }
+  }
+
+  private async sendToRecipient(
+    campaign: EmailCampaign,
+    businessName: string,
+    recipient: EmailRecipient & { contact: Contact }
+  ) {
+    const { contact } = recipient;
+
+    // They may have unsubscribed from another campaign while this one queued
+    if (contact.emailOptOut || contact.status !== 'ACTIVE' || !contact.email?.trim()) {
+      await prisma.emailRecipient.update({
+        where: { id: recipient.id },
+        data: { status: 'SKIPPED', error: contact.emailOptOut ? 'Unsubscribed' : 'No longer reachable' },
+      });
+      return;
+    }
+
+    const email = contact.email.trim();
+    const { subject, html, unsubscribeUrl } = this.renderEmail(campaign, contact, businessName, recipient.token);
+
+    const sent = await emailService.sendEmail({
+      to: email,
+      subject,
+      html,
+      headers: {
+        'List-Unsubscribe': `<${unsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
+    });
+
+    await prisma.emailRecipient.update({
+      where: { id: recipient.id },
+      data: sent
+        ? { status: 'SENT', email, sentAt: new Date(), error: null }
+        : { status: 'FAILED', email, error: 'Send failed' },
+    });
+  }
+
+  /**
+   * EMAIL activity on the contact's timeline, credited to the contact's
+   * owner or whoever created the campaign
+   */
+  private async logActivity(
+    recipient: EmailRecipient,
+    event: 'opened' | 'clicked' | 'unsubscribed',
+    occurredAt: Date,
+    url?: string
+  ) {
+    try {
+      const [campaign, contact] = await Promise.all([
+        prisma.emailCampaign.findUnique({ where: { id: recipient.campaignId } }),
+        prisma.contact.findUnique({ where: { id: recipient.contactId }, select: { tenantId: true, ownerId: true } }),
+      ]);
+      if (!campaign || !contact) {
+        return;
+      }
+
+      const titles = {
+        opened: `Opened campaign email "${campaign.name}"`,
+        clicked: `Clicked a link in campaign email "${campaign.name}"`,
+        unsubscribed: 'Unsubscribed from marketing email',
+      };
+
+      await prisma.activity.create({
+        data: {
+          tenantId: contact.tenantId,
+          contactId: recipient.contactId,
+          createdBy: contact.ownerId || campaign.createdById,
+          activityType: 'EMAIL',
+          title: titles[event],
+          description: url,
+          metadata: {
+            event,
+            campaignId: campaign.id,
+            campaignName: campaign.name,
+            recipientId: recipient.id,
+            ...(url && { url }),
+          },
+          occurredAt,
+        },
+      });
+    } catch (error) {
+      console.error('Email activity logging error:', error);
+    }
+  }
+}
+
+export const campaignService = new CampaignService();
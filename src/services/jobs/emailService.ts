@@ -2,6 +2,14 @@ import nodemailer from 'nodemailer';
 import { env } from '../../config/env';
 import { EmailJobPayload } from '../../types';
 
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 class EmailService {
   private transporter: nodemailer.Transporter;
 
@@ -28,6 +36,7 @@ class EmailService {
         subject: payload.subject,
         text: payload.text,
         html: payload.html,
+        headers: payload.headers,
       });
 
       console.log(`✅ Email sent to ${payload.to}`);
@@ -185,6 +194,58 @@ Please follow up with this lead as soon as possible.
     });
   }
 
+  /**
+   * Send new voicemail notification
+   */
+  async sendVoicemailNotification(params: {
+    tenantName: string;
+    to: string;
+    callerName?: string;
+    callerNumber: string;
+    duration?: number | null;
+    transcript?: string | null;
+    playbackUrl: string;
+    inboxUrl: string;
+    receivedAt: Date;
+  }): Promise<boolean> {
+    const caller = params.callerName ? `${params.callerName} (${params.callerNumber})` : params.callerNumber;
+    const transcript = params.transcript || 'Transcript not available.';
+
+    // The transcript is whatever the caller said, so escape it
+    const html = `
+      <h2>New Voicemail - ${escapeHtml(params.tenantName)}</h2>
+      <ul>
+        <li><strong>From:</strong> ${escapeHtml(caller)}</li>
+        <li><strong>Received:</strong> ${params.receivedAt.toLocaleString()}</li>
+        ${params.duration ? `<li><strong>Length:</strong> ${params.duration} seconds</li>` : ''}
+      </ul>
+      <h3>Transcript:</h3>
+      <p>${escapeHtml(transcript)}</p>
+      <p><a href="${params.playbackUrl}">Listen to the voicemail</a> &middot; <a href="${params.inboxUrl}">Open the inbox</a></p>
+    `;
+
+    const text = `
+New Voicemail - ${params.tenantName}
+
+From: ${caller}
+Received: ${params.receivedAt.toLocaleString()}
+${params.duration ? `Length: ${params.duration} seconds` : ''}
+
+Transcript:
+${transcript}
+
+Listen: ${params.playbackUrl}
+Inbox: ${params.inboxUrl}
+    `;
+
+    return this.sendEmail({
+      to: params.to,
+      subject: `New voicemail from ${caller}`,
+      text,
+      html,
+    });
+  }
+
   /**
    * Verify email configuration
    */
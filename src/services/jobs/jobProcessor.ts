@@ -1,13 +1,30 @@
 import prisma from '../../db/prisma';
-import { JobStatus } from '@prisma/client';
+import { JobStatus, Prisma } from '@prisma/client';
 import { emailService } from './emailService';
-import { openAIService } from '../ai/aiService';
+import { aiService } from '../ai/aiService';
 import { callService } from '../call/callService';
+import { callActivityService } from '../crm/callActivityService';
+import { smsService } from '../sms/smsService';
+import { textBackService } from '../sms/textBackService';
+import { campaignService } from '../email/campaignService';
+import { callbackService } from '../lead/callbackService';
+import { voicemailService } from '../voicemail/voicemailService';
+import { recordingStorageService, RETENTION_INTERVAL_MS } from '../storage/recordingStorageService';
+import { documentService } from '../knowledge/documentService';
+import { websiteScraperService, REFRESH_CHECK_INTERVAL_MS } from '../website/websiteScraperService';
 import { 
   JobPayload, 
   EmailJobPayload, 
   CallSummaryJobPayload,
-  LeadNotificationJobPayload 
+  LeadNotificationJobPayload,
+  SmsAutoReplyJobPayload,
+  TextBackJobPayload,
+  EmailCampaignBatchJobPayload,
+  LeadCallbackJobPayload,
+  VoicemailTranscriptionJobPayload,
+  StoreRecordingJobPayload,
+  DocumentProcessingJobPayload,
+  WebsiteCrawlJobPayload,
 } from '../../types';
 
 export class JobProcessor {
@@ -83,14 +100,14 @@ export class JobProcessor {
     console.log(`📋 Processing ${jobs.length} jobs...`);
 
     for (const job of jobs) {
-      await this.processJob(job.id, job.type, job.payload);
+      await this.processJob(job.id, job.type, job.payload, job.attempts + 1 >= job.maxAttempts);
     }
   }
 
   /**
    * Process a single job
    */
-  private async processJob(jobId: string, type: string, payloadJson: string) {
+  private async processJob(jobId: string, type: string, payloadJson: string, isLastAttempt: boolean) {
     try {
       // Mark as processing
       await prisma.job.update({
@@ -118,6 +135,46 @@ export class JobProcessor {
           success = await this.handleLeadNotificationJob(payload as LeadNotificationJobPayload);
           break;
 
+        case 'sms_auto_reply':
+          success = await this.handleSmsAutoReplyJob(payload as SmsAutoReplyJobPayload);
+          break;
+
+        case 'text_back':
+          success = await this.handleTextBackJob(payload as TextBackJobPayload);
+          break;
+
+        case 'email_campaign_batch':
+          success = await this.handleEmailCampaignBatchJob(payload as EmailCampaignBatchJobPayload);
+          break;
+
+        case 'lead_callback':
+          success = await this.handleLeadCallbackJob(payload as LeadCallbackJobPayload);
+          break;
+
+        case 'transcribe_voicemail':
+          success = await this.handleVoicemailTranscriptionJob(payload as VoicemailTranscriptionJobPayload, isLastAttempt);
+          break;
+
+        case 'store_recording':
+          success = await this.handleStoreRecordingJob(payload as StoreRecordingJobPayload);
+          break;
+
+        case 'recording_retention':
+          success = await this.handleRecordingRetentionJob(isLastAttempt);
+          break;
+
+        case 'process_document':
+          success = await this.handleDocumentProcessingJob(payload as DocumentProcessingJobPayload, isLastAttempt);
+          break;
+
+        case 'crawl_website':
+          success = await this.handleWebsiteCrawlJob(payload as WebsiteCrawlJobPayload, isLastAttempt);
+          break;
+
+        case 'website_refresh':
+          success = await this.handleWebsiteRefreshJob(isLastAttempt);
+          break;
+
         default:
           console.error(`Unknown job type: ${type}`);
           success = false;
@@ -197,8 +254,9 @@ export class JobProcessor {
       }
 
       // Generate summary using AI
-      const analysis = await openAIService.summarizeCall(
-        callSession.transcript.fullText
+      const analysis = await aiService.summarizeCall(
+        callSession.transcript.fullText,
+        callSession.tenantId
       );
 
       // Save summary
@@ -210,6 +268,13 @@ export class JobProcessor {
         actionItems: analysis.actionItems,
       });
 
+      // Add the summary to the call's CRM activity
+      try {
+        await callActivityService.logCall(callSession.id);
+      } catch (error) {
+        console.error('Call activity logging error:', error);
+      }
+
       // Send email to tenant admin
       if (callSession.tenant.users.length > 0) {
         const adminEmail = callSession.tenant.users[0].email;
@@ -231,6 +296,150 @@ export class JobProcessor {
     }
   }
 
+  /**
+   * Handle SMS auto-reply job
+   */
+  private async handleSmsAutoReplyJob(payload: SmsAutoReplyJobPayload): Promise<boolean> {
+    try {
+      return await smsService.autoReply(payload.conversationId, payload.messageId);
+    } catch (error) {
+      console.error('SMS auto-reply job error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Handle missed-call / after-hours text-back job
+   */
+  private async handleTextBackJob(payload: TextBackJobPayload): Promise<boolean> {
+    try {
+      return await textBackService.send(payload.textBackLogId);
+    } catch (error) {
+      console.error('Text-back job error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Handle one throttled batch of an email campaign
+   */
+  private async handleEmailCampaignBatchJob(payload: EmailCampaignBatchJobPayload): Promise<boolean> {
+    try {
+      return await campaignService.sendBatch(payload.campaignId, payload.scheduleToken);
+    } catch (error) {
+      console.error('Email campaign batch job error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Handle lead callback job: place the next call attempt
+   */
+  private async handleLeadCallbackJob(payload: LeadCallbackJobPayload): Promise<boolean> {
+    try {
+      return await callbackService.dial(payload.callbackId);
+    } catch (error) {
+      console.error('Lead callback job error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Handle voicemail transcription job; notifies even if transcription
+   * fails on the last attempt
+   */
+  private async handleVoicemailTranscriptionJob(
+    payload: VoicemailTranscriptionJobPayload,
+    isLastAttempt: boolean
+  ): Promise<boolean> {
+    try {
+      return await voicemailService.transcribe(payload.voicemailId, isLastAttempt);
+    } catch (error) {
+      console.error('Voicemail transcription job error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Copy a call recording off Twilio into storage
+   */
+  private async handleStoreRecordingJob(payload: StoreRecordingJobPayload): Promise<boolean> {
+    try {
+      return await recordingStorageService.store(payload.recordingId);
+    } catch (error) {
+      console.error('Store recording job error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete recordings past their tenant's retention period, then queue the
+   * next daily sweep
+   */
+  private async handleRecordingRetentionJob(isLastAttempt: boolean): Promise<boolean> {
+    try {
+      const deleted = await recordingStorageService.enforceRetention();
+      console.log(`🗑️  Deleted ${deleted} expired recordings`);
+      await recordingStorageService.scheduleRetention(RETENTION_INTERVAL_MS);
+      return true;
+    } catch (error) {
+      console.error('Recording retention job error:', error);
+      if (isLastAttempt) {
+        await recordingStorageService.scheduleRetention(RETENTION_INTERVAL_MS);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Extract, chunk and embed an uploaded knowledge document
+   */
+  private async handleDocumentProcessingJob(
+    payload: DocumentProcessingJobPayload,
+    isLastAttempt: boolean
+  ): Promise<boolean> {
+    try {
+      return await documentService.process(payload.documentId, isLastAttempt);
+    } catch (error) {
+      console.error('Document processing job error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Crawl the next batch of pages for a website
+   */
+  private async handleWebsiteCrawlJob(
+    payload: WebsiteCrawlJobPayload,
+    isLastAttempt: boolean
+  ): Promise<boolean> {
+    try {
+      return await websiteScraperService.crawlBatch(payload.websiteSourceId, payload.crawlId, isLastAttempt);
+    } catch (error) {
+      console.error('Website crawl job error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Start crawls for websites due a weekly refresh, then queue the next
+   * daily check
+   */
+  private async handleWebsiteRefreshJob(isLastAttempt: boolean): Promise<boolean> {
+    try {
+      const started = await websiteScraperService.refreshDue();
+      console.log(`🌐 Started ${started} website refreshes`);
+      await websiteScraperService.scheduleRefresh(REFRESH_CHECK_INTERVAL_MS);
+      return true;
+    } catch (error) {
+      console.error('Website refresh job error:', error);
+      if (isLastAttempt) {
+        await websiteScraperService.scheduleRefresh(REFRESH_CHECK_INTERVAL_MS);
+      }
+      return false;
+    }
+  }
+
   /**
    * Handle lead notification job
    */
@@ -304,16 +513,16 @@ export class JobProcessor {
   }
 
   /**
-   * Create a new job
+   * Create a new job, inside the given transaction if there is one
    */
   static async createJob(params: {
     type: string;
     payload: JobPayload;
     scheduledAt?: Date;
     maxAttempts?: number;
-  }) {
+  }, db: Prisma.TransactionClient = prisma) {
     try {
-      const job = await prisma.job.create({
+      const job = await db.job.create({
         data: {
           type: params.type,
           payload: JSON.stringify(params.payload),
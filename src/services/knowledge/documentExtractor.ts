@@ -0,0 +1,220 @@
+/**
+ * Plain text from uploaded knowledge documents. Line breaks are kept
+ * between paragraphs, rows and list items so chunking can split on them.
+ */
+import * as cheerio from 'cheerio';
+import mammoth from 'mammoth';
+import pdfParse from 'pdf-parse';
+
+export const DOCUMENT_FORMATS = ['pdf', 'docx', 'md', 'html', 'csv'] as const;
+export type DocumentFormat = typeof DOCUMENT_FORMATS[number];
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  md: 'md',
+  markdown: 'md',
+  html: 'html',
+  htm: 'html',
+  csv: 'csv',
+};
+
+export const DOCUMENT_EXTENSIONS = Object.keys(EXTENSIONS).map(extension => `.${extension}`);
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+export interface ExtractedDocument {
+  title: string | null;
+  text: string;
+}
+
+/**
+ * Extraction failed because of the file itself, so retrying won't help
+ */
+export class DocumentExtractionError extends Error {}
+
+/**
+ * Format from the file name's extension, or null if it isn't supported
+ */
+export function documentFormat(fileName: string): DocumentFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+  return EXTENSIONS[extension] || null;
+}
+
+export async function extractDocument(data: Buffer, format: DocumentFormat): Promise<ExtractedDocument> {
+  let extracted: ExtractedDocument;
+  try {
+    switch (format) {
+      case 'pdf':
+        extracted = await extractPdf(data);
+        break;
+      case 'docx':
+        extracted = await extractDocx(data);
+        break;
+      case 'md':
+        extracted = extractMarkdown(data.toString('utf8'));
+        break;
+      case 'html':
+        extracted = extractHtml(data.toString('utf8'));
+        break;
+      case 'csv':
+        extracted = extractCsv(data.toString('utf8'));
+        break;
+    }
+  } catch (error) {
+    throw new DocumentExtractionError(`Could not read the ${format.toUpperCase()} file: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const text = normalize(extracted.text);
+  if (!text) {
+    throw new DocumentExtractionError(
+      format === 'pdf' ? 'No text found in the PDF. Scanned PDFs need text recognition first.' : 'No text found in the file'
+    );
+  }
+
+  return { title: extracted.title?.trim() || null, text };
+}
+
+async function extractPdf(data: Buffer): Promise<ExtractedDocument> {
+  const pdf = await pdfParse(data);
+  const title = typeof pdf.info?.Title === 'string' ? pdf.info.Title : null;
+  return { title, text: pdf.text };
+}
+
+async function extractDocx(data: Buffer): Promise<ExtractedDocument> {
+  const result = await mammoth.extractRawText({ buffer: data });
+  return { title: null, text: result.value };
+}
+
+/**
+ * Markdown without its syntax: link and image text stay, URLs, heading
+ * marks, emphasis and table rules go
+ */
+function extractMarkdown(markdown: string): ExtractedDocument {
+  const title = markdown.match(/^#\s+(.+)$/m)?.[1] || null;
+
+  const text = markdown
+    .replace(/^(```|~~~).*$/gm, '')                 // code fences, keeping the code
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')       // images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')        // links
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')             // headings
+    .replace(/^\s{0,3}>\s?/gm, '')                  // blockquotes
+    .replace(/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/gm, '') // table rules
+    .replace(/^\s*([-*_])(\s*\1){2,}\s*$/gm, '')    // horizontal rules
+    .replace(/(\*\*|__|~~)(.+?)\1/g, '$2')
+    .replace(/\*([^*\n]+)\*/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/<[^>]+>/g, '');
+
+  return { title, text };
+}
+
+function extractHtml(html: string): ExtractedDocument {
+  const $ = cheerio.load(html);
+  $('script, style, nav, footer, header, iframe, noscript').remove();
+
+  const title = $('title').text().trim() || $('h1').first().text().trim() || null;
+
+  // Block elements end a line, so paragraphs and rows don't run together
+  $('br').replaceWith('\n');
+  $('p, div, li, tr, h1, h2, h3, h4, h5, h6, section, article, table, blockquote').append('\n');
+  $('td, th').append(' ');
+
+  const body = $('body');
+  return { title, text: body.length > 0 ? body.text() : $.root().text() };
+}
+
+/**
+ * One line per row, each value labeled with its column header, so a price
+ * sheet row still makes sense in a chunk on its own
+ */
+function extractCsv(csv: string): ExtractedDocument {
+  const rows = parseCsv(csv).filter(row => row.some(value => value.trim()));
+  if (rows.length === 0) {
+    return { title: null, text: '' };
+  }
+
+  const [headers, ...records] = rows;
+  if (records.length === 0) {
+    return { title: null, text: headers.join(', ') };
+  }
+
+  const lines = records.map(record =>
+    record
+      .map((value, i) => {
+        const header = headers[i]?.trim();
+        const trimmed = value.trim();
+        if (!trimmed) return null;
+        return header ? `${header}: ${trimmed}` : trimmed;
+      })
+      .filter(Boolean)
+      .join('; ')
+  );
+
+  return { title: null, text: lines.join('\n') };
+}
+
+/**
+ * RFC 4180 CSV, with the delimiter (comma, semicolon or tab) guessed from
+ * the header line
+ */
+function parseCsv(csv: string): string[][] {
+  const text = csv.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = CSV_DELIMITERS
+    .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  if (value || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Collapse runs of spaces within lines and drop blank lines
+ */
+function normalize(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\u00A0/g, ' ')
+    .split('\n')
+    .map(line => line.replace(/[ \t\f\v]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
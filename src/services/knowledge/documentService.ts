@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import prisma from '../../db/prisma';
+import { JobProcessor } from '../jobs/jobProcessor';
+import { storageService } from '../storage/storageService';
+import { embedTextBatch } from '../ai/embeddingService';
+import { websiteScraperService } from '../website/websiteScraperService';
+import {
+  documentFormat,
+  extractDocument,
+  DocumentExtractionError,
+  DocumentFormat,
+  DOCUMENT_EXTENSIONS,
+} from './documentExtractor';
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+// Chunks embedded per provider call
+const EMBEDDING_BATCH_SIZE = 50;
+
+const CONTENT_TYPES: Record<DocumentFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  md: 'text/markdown',
+  html: 'text/html',
+  csv: 'text/csv',
+};
+
+function toVector(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for await (const part of stream) {
+    parts.push(Buffer.isBuffer(part) ? part : Buffer.from(part));
+  }
+  return Buffer.concat(parts);
+}
+
+export class DocumentService {
+  /**
+   * Throws with a message for the uploader if the file can't be accepted
+   */
+  validate(fileName: string, size: number): DocumentFormat {
+    const format = documentFormat(fileName);
+    if (!format) {
+      throw new Error(`Unsupported file type. Upload one of: ${DOCUMENT_EXTENSIONS.join(', ')}`);
+    }
+    if (size === 0) {
+      throw new Error('The file is empty');
+    }
+    if (size > MAX_DOCUMENT_BYTES) {
+      throw new Error(`Files can be at most ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`);
+    }
+    return format;
+  }
+
+  /**
+   * Store the original file and queue it for text extraction and embedding
+   */
+  async upload(params: { tenantId: string; fileName: string; data: Buffer; uploadedById?: string }) {
+    const format = this.validate(params.fileName, params.data.length);
+
+    const id = crypto.randomUUID();
+    const safeName = params.fileName.replace(/[^\w.-]+/g, '_');
+    const storageKey = `documents/${params.tenantId}/${id}/${safeName}`;
+
+    await storageService.getProvider().put(storageKey, params.data, CONTENT_TYPES[format]);
+
+    const document = await prisma.knowledgeDocument.create({
+      data: {
+        id,
+        tenantId: params.tenantId,
+        fileName: params.fileName,
+        format,
+        size: params.data.length,
+        storageKey,
+        uploadedById: params.uploadedById,
+      },
+    });
+
+    await this.queueProcessing(document.id);
+    return document;
+  }
+
+  async queueProcessing(documentId: string) {
+    await JobProcessor.createJob({
+      type: 'process_document',
+      payload: { documentId },
+      maxAttempts: 3,
+    });
+  }
+
+  /**
+   * Extract, chunk and embed the document again, e.g. after a failure or
+   * once an embedding provider is configured
+   */
+  async reprocess(documentId: string, tenantId: string) {
+    const document = await prisma.knowledgeDocument.findFirst({ where: { id: documentId, tenantId } });
+    if (!document) {
+      throw new Error('Document not found');
+    }
+
+    await prisma.knowledgeDocument.update({
+      where: { id: document.id },
+      data: { status: 'PENDING', errorMessage: null },
+    });
+    await this.queueProcessing(document.id);
+  }
+
+  /**
+   * Job handler. The old chunks are swapped for the new ones only once
+   * every chunk is embedded, so a failed reprocess leaves them searchable.
+   * Files that can't be read fail straight away; other errors are retried.
+   */
+  async process(documentId: string, isLastAttempt: boolean): Promise<boolean> {
+    const document = await prisma.knowledgeDocument.findUnique({ where: { id: documentId } });
+    if (!document) {
+      return true;
+    }
+
+    await prisma.knowledgeDocument.update({
+      where: { id: document.id },
+      data: { status: 'PROCESSING' },
+    });
+
+    try {
+      const data = await readAll(await storageService.getProvider().read(document.storageKey));
+      const extracted = await extractDocument(data, document.format as DocumentFormat);
+      const title = extracted.title || document.fileName.replace(/\.[^.]+$/, '');
+      const chunks = websiteScraperService.chunkText(extracted.text);
+
+      const embeddings: number[][] = [];
+      for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = chunks.slice(i, i + EMBEDDING_BATCH_SIZE);
+        embeddings.push(...await embedTextBatch(batch.map(chunk => chunk.content)));
+      }
+
+      await prisma.$transaction([
+        prisma.websiteContent.deleteMany({ where: { documentId: document.id } }),
+        ...chunks.map((chunk, i) => prisma.$executeRaw`
+          INSERT INTO "WebsiteContent" (
+            id, "documentId", "tenantId", url, title, content,
+            "chunkIndex", "tokenCount", embedding, "createdAt", "updatedAt"
+          ) VALUES (
+            gen_random_uuid(), ${document.id}, ${document.tenantId}, ${document.fileName},
+            ${title}, ${chunk.content}, ${i}, ${chunk.tokenCount},
+            ${toVector(embeddings[i])}::vector, NOW(), NOW()
+          )
+        `),
+        prisma.knowledgeDocument.update({
+          where: { id: document.id },
+          data: {
+            status: 'COMPLETED',
+            title,
+            chunkCount: chunks.length,
+            errorMessage: null,
+            processedAt: new Date(),
+          },
+        }),
+      ]);
+
+      return true;
+    } catch (error) {
+      const permanent = error instanceof DocumentExtractionError;
+      console.error(`Error processing document ${document.id}:`, error);
+
+      await prisma.knowledgeDocument.update({
+        where: { id: document.id },
+        data: {
+          status: permanent || isLastAttempt ? 'FAILED' : 'PENDING',
+          errorMessage: error instanceof Error ? error.message : String(error),
+        },
+      });
+
+      return permanent;
+    }
+  }
+
+  /**
+   * Delete the original file and the document; its chunks go with it
+   */
+  async delete(documentId: string, tenantId: string) {
+    const document = await prisma.knowledgeDocument.findFirst({ where: { id: documentId, tenantId } });
+    if (!document) {
+      throw new Error('Document not found');
+    }
+
+    await storageService.getProvider().delete(document.storageKey);
+    await prisma.knowledgeDocument.delete({ where: { id: document.id } });
+  }
+}
+
+export const documentService = new DocumentService();
@@ -0,0 +1,526 @@
+import { CallbackMode, CallbackRequest, Lead, TransferTarget } from '@prisma/client';
+import prisma from '../../db/prisma';
+import { env } from '../../config/env';
+import { twilioService } from '../twilio/twilioService';
+import { TwiMLBuilder } from '../twilio/twimlBuilder';
+import { JobProcessor } from '../jobs/jobProcessor';
+import { callActivityService } from '../crm/callActivityService';
+import { toE164 } from '../crm/phoneNumber';
+import { consentService } from '../call/consentService';
+import { getBusinessHoursStatus } from '../ai/toolFunctions';
+import { findOpenAppointmentSlots } from '../tenant/scheduleService';
+
+// Wait before each retry; the last value repeats if maxAttempts is higher
+export const CALLBACK_RETRY_MINUTES = [15, 60, 240];
+export const MAX_CALLBACK_ATTEMPTS = 5;
+
+export const CALLBACK_MERGE_FIELDS = ['firstName', 'name', 'businessName', 'reason'];
+
+export const DEFAULT_REMINDER_SCRIPT =
+  'Hi {{firstName}}, this is an automated call from {{businessName}} following up on your recent request. ' +
+  "We'd love to help.";
+
+const DIAL_TIMEOUT_SECONDS = 25;
+const DIGIT_TIMEOUT_SECONDS = 8;
+// Slot length when pushing a callback into the next business-hours window
+const RESCHEDULE_SLOT_MINUTES = 15;
+const RESCHEDULE_DAYS_AHEAD = 14;
+
+const OUTCOME_LABELS: Record<string, string> = {
+  connected: 'Connected',
+  reminded: 'Reminder delivered',
+  'no-answer': 'No answer',
+  busy: 'Busy',
+  failed: 'Call failed',
+  canceled: 'Canceled',
+};
+
+type CallbackWithLead = CallbackRequest & {
+  lead: Lead;
+  transferTarget: TransferTarget | null;
+};
+
+export interface QueueCallbackOptions {
+  mode: CallbackMode;
+  transferTargetId?: string | null;
+  script?: string | null;
+  scheduledAt?: Date | null;
+  maxAttempts?: number;
+  createdById?: string | null;
+}
+
+export class CallbackService {
+  /**
+   * Queue a callback to a lead. Staff callbacks need someone to ring: the
+   * chosen transfer target, else the lead owner's, else the top-priority one.
+   */
+  async queue(tenantId: string, leadId: string, options: QueueCallbackOptions) {
+    const lead = await prisma.lead.findFirst({ where: { id: leadId, tenantId } });
+    if (!lead) {
+      throw new Error('Lead not found');
+    }
+    if (!toE164(lead.phone || '')) {
+      throw new Error('This lead has no phone number to call');
+    }
+    if (await consentService.isBlocked(tenantId, lead.phone!)) {
+      throw new Error("This lead's number is on the do-not-call list");
+    }
+
+    const open = await prisma.callbackRequest.findFirst({
+      where: { leadId, status: { in: ['PENDING', 'DIALING'] } },
+    });
+    if (open) {
+      throw new Error('A callback is already queued for this lead');
+    }
+
+    const target = options.transferTargetId
+      ? await prisma.transferTarget.findFirst({
+          where: { id: options.transferTargetId, tenantId, isActive: true },
+        })
+      : options.mode === 'STAFF'
+        ? await this.pickTarget(tenantId, lead)
+        : null;
+
+    if (options.transferTargetId && !target) {
+      throw new Error('Transfer target not found');
+    }
+    if (options.mode === 'STAFF' && !target) {
+      throw new Error('Add a transfer target with a staff phone number first');
+    }
+
+    const now = new Date();
+    const nextAttemptAt = options.scheduledAt && options.scheduledAt > now ? options.scheduledAt : now;
+    const maxAttempts = Math.min(MAX_CALLBACK_ATTEMPTS, Math.max(1, options.maxAttempts || CALLBACK_RETRY_MINUTES.length));
+
+    const callback = await prisma.callbackRequest.create({
+      data: {
+        tenantId,
+        leadId,
+        mode: options.mode,
+        transferTargetId: target?.id,
+        script: options.mode === 'REMINDER' ? options.script?.trim() || DEFAULT_REMINDER_SCRIPT : null,
+        maxAttempts,
+        nextAttemptAt,
+        createdById: options.createdById,
+      },
+    });
+
+    await this.scheduleJob(callback.id, nextAttemptAt);
+
+    return callback;
+  }
+
+  async cancel(id: string, tenantId: string) {
+    const result = await prisma.callbackRequest.updateMany({
+      where: { id, tenantId, status: 'PENDING' },
+      data: { status: 'CANCELED', completedAt: new Date() },
+    });
+    if (result.count === 0) {
+      throw new Error('Only waiting callbacks can be canceled');
+    }
+  }
+
+  /**
+   * Try again now; a failed callback gets one more attempt
+   */
+  async retryNow(id: string, tenantId: string) {
+    const callback = await prisma.callbackRequest.findFirst({ where: { id, tenantId } });
+    if (!callback || !['PENDING', 'FAILED'].includes(callback.status)) {
+      throw new Error('Only waiting or failed callbacks can be retried');
+    }
+
+    const now = new Date();
+    await prisma.callbackRequest.update({
+      where: { id },
+      data: {
+        status: 'PENDING',
+        nextAttemptAt: now,
+        completedAt: null,
+        maxAttempts: Math.max(callback.maxAttempts, callback.attempts + 1),
+      },
+    });
+    await this.scheduleJob(id, now);
+  }
+
+  // ============================================
+  // DIALING
+  // ============================================
+
+  /**
+   * Job handler: place the next attempt. Outside business hours the callback
+   * moves to the next open slot instead.
+   */
+  async dial(callbackId: string): Promise<boolean> {
+    const callback = await this.findCallback(callbackId);
+
+    // Canceled, already done, or a stale job from before a reschedule
+    if (!callback || callback.status !== 'PENDING' || callback.nextAttemptAt.getTime() > Date.now() + 60 * 1000) {
+      return true;
+    }
+
+    // The number may have been added to the do-not-call list since queueing
+    if (await consentService.isBlocked(callback.tenantId, callback.lead.phone || '')) {
+      await this.fail(callback, 'Number is on the do-not-call list');
+      return true;
+    }
+
+    const hours = await getBusinessHoursStatus(callback.tenantId);
+    if (!hours.isOpen) {
+      const [slot] = await findOpenAppointmentSlots(callback.tenantId, {
+        durationMinutes: RESCHEDULE_SLOT_MINUTES,
+        count: 1,
+        daysAhead: RESCHEDULE_DAYS_AHEAD,
+        leadMinutes: 0,
+      });
+
+      if (!slot) {
+        await this.fail(callback, 'No business hours to call in');
+        return true;
+      }
+
+      await prisma.callbackRequest.update({ where: { id: callback.id }, data: { nextAttemptAt: slot.start } });
+      await this.scheduleJob(callback.id, slot.start);
+      return true;
+    }
+
+    const from = await this.getFromNumber(callback);
+    const target = callback.mode === 'STAFF'
+      ? (callback.transferTarget?.isActive ? callback.transferTarget : await this.pickTarget(callback.tenantId, callback.lead))
+      : null;
+
+    if (!from) {
+      await this.fail(callback, 'No active phone number to call from');
+      return true;
+    }
+    if (callback.mode === 'STAFF' && !target) {
+      await this.fail(callback, 'No staff phone to connect');
+      return true;
+    }
+
+    const claimed = await prisma.callbackRequest.updateMany({
+      where: { id: callback.id, status: 'PENDING' },
+      data: {
+        status: 'DIALING',
+        attempts: { increment: 1 },
+        lastAttemptAt: new Date(),
+        lastOutcome: null,
+        callSid: null,
+        ...(target && { transferTargetId: target.id }),
+      },
+    });
+    if (claimed.count === 0) {
+      return true;
+    }
+
+    try {
+      // Staff callbacks ring the staff member first, then dial the lead
+      const call = await twilioService.makeCall({
+        to: target ? target.phoneNumber : toE164(callback.lead.phone || '')!,
+        from,
+        url: `${env.BASE_URL}/twilio/callback/${callback.id}/answer`,
+        statusCallback: `${env.BASE_URL}/twilio/callback/${callback.id}/status`,
+      });
+
+      await prisma.callbackRequest.update({ where: { id: callback.id }, data: { callSid: call.sid } });
+    } catch (error) {
+      console.error('Callback dial error:', error);
+      await this.finishAttempt(callback.id, 'failed');
+    }
+
+    return true;
+  }
+
+  /**
+   * TwiML once the first leg answers: a whisper to the staff member, or the
+   * reminder script read to the lead
+   */
+  async answerTwiML(callbackId: string): Promise<string> {
+    const callback = await this.findCallback(callbackId);
+    const twiml = new TwiMLBuilder();
+
+    if (!callback || callback.status !== 'DIALING') {
+      return twiml.hangup().build();
+    }
+
+    const connectUrl = `${env.BASE_URL}/twilio/callback/${callback.id}/connect`;
+    const leadName = callback.lead.name || 'a caller';
+
+    if (callback.mode === 'STAFF') {
+      const whisper = `Callback for ${leadName}` +
+        (callback.lead.reason ? `, about ${callback.lead.reason}.` : '.') +
+        ' Press 1 to call them now.';
+
+      return twiml
+        .gather({ input: 'dtmf', numDigits: 1, timeout: DIGIT_TIMEOUT_SECONDS, action: connectUrl }, whisper)
+        .say("We'll try again later. Goodbye.")
+        .hangup()
+        .build();
+    }
+
+    const tenant = await prisma.tenant.findUnique({ where: { id: callback.tenantId }, select: { name: true } });
+    const script = this.renderScript(callback.script || DEFAULT_REMINDER_SCRIPT, callback.lead, tenant?.name || '');
+
+    if (!callback.transferTarget?.isActive) {
+      return twiml.pause(1).say(script).say('Thank you. Goodbye.').hangup().build();
+    }
+
+    return twiml
+      .pause(1)
+      .say(script)
+      .gather(
+        { input: 'dtmf', numDigits: 1, timeout: DIGIT_TIMEOUT_SECONDS, action: connectUrl },
+        'To speak with someone now, press 1.'
+      )
+      .say('Thank you. Goodbye.')
+      .hangup()
+      .build();
+  }
+
+  /**
+   * TwiML after a key press: bridge to the lead (staff callbacks) or to the
+   * staff member (reminders)
+   */
+  async connectTwiML(callbackId: string, digits: string, callerId: string): Promise<string> {
+    const callback = await this.findCallback(callbackId);
+    const twiml = new TwiMLBuilder();
+
+    if (!callback || callback.status !== 'DIALING') {
+      return twiml.hangup().build();
+    }
+
+    if (digits !== '1') {
+      return twiml
+        .say(callback.mode === 'STAFF' ? "We'll try again later. Goodbye." : 'Thank you. Goodbye.')
+        .hangup()
+        .build();
+    }
+
+    const number = callback.mode === 'STAFF'
+      ? toE164(callback.lead.phone || '')
+      : callback.transferTarget?.phoneNumber;
+
+    if (!number) {
+      return twiml.say('Sorry, we could not connect the call. Goodbye.').hangup().build();
+    }
+
+    return twiml
+      .say(callback.mode === 'STAFF' ? 'Connecting.' : 'Connecting you now.')
+      .dial(number, {
+        timeout: DIAL_TIMEOUT_SECONDS,
+        callerId,
+        action: `${env.BASE_URL}/twilio/callback/${callback.id}/dial-status`,
+      })
+      .build();
+  }
+
+  /**
+   * Result of the bridged leg
+   */
+  async handleDialResult(callbackId: string, dialStatus: string): Promise<string> {
+    const callback = await this.findCallback(callbackId);
+    const twiml = new TwiMLBuilder();
+
+    if (!callback || callback.status !== 'DIALING') {
+      return twiml.hangup().build();
+    }
+
+    if (dialStatus === 'completed') {
+      await this.finishAttempt(callback.id, 'connected');
+      return twiml.hangup().build();
+    }
+
+    if (callback.mode === 'STAFF') {
+      await this.finishAttempt(callback.id, dialStatus === 'busy' ? 'busy' : 'no-answer');
+      return twiml
+        .say(`${callback.lead.name || 'The caller'} didn't answer. We'll try again later. Goodbye.`)
+        .hangup()
+        .build();
+    }
+
+    // The lead heard the reminder; nobody was free to take it further
+    await this.finishAttempt(callback.id, 'reminded');
+    return twiml.say("Sorry, everyone is busy right now. We'll be in touch soon. Goodbye.").hangup().build();
+  }
+
+  /**
+   * Status callback when the first leg ends. Only decides the outcome if the
+   * steps above didn't.
+   */
+  async handleCallEnded(callbackId: string, callStatus: string) {
+    const callback = await this.findCallback(callbackId);
+    if (!callback || callback.status !== 'DIALING') {
+      return;
+    }
+
+    if (callback.mode === 'REMINDER') {
+      await this.finishAttempt(callback.id, callStatus === 'completed' ? 'reminded' : this.toOutcome(callStatus));
+      return;
+    }
+
+    // The staff member missed it or didn't press 1; the lead was never dialed
+    await this.finishAttempt(callback.id, callStatus === 'completed' ? 'staff-unavailable' : `staff-${this.toOutcome(callStatus)}`);
+  }
+
+  renderScript(script: string, lead: Pick<Lead, 'name' | 'reason'>, businessName: string): string {
+    const values: Record<string, string> = {
+      name: lead.name || '',
+      firstName: lead.name?.trim().split(/\s+/)[0] || '',
+      businessName,
+      reason: lead.reason || '',
+    };
+
+    return script
+      .replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, key: string) => values[key] ?? '')
+      .replace(/[ \t]{2,}/g, ' ')
+      .replace(/[ \t]+([,.!?])/g, '$1')
+      .trim();
+  }
+
+  outcomeLabel(outcome: string | null): string {
+    if (!outcome) return '';
+    if (outcome.startsWith('staff-')) return 'Staff unavailable';
+    return OUTCOME_LABELS[outcome] || outcome;
+  }
+
+  // ============================================
+  // PRIVATE
+  // ============================================
+
+  /**
+   * Record how an attempt ended: done on connect or a delivered reminder,
+   * otherwise retry with backoff until attempts run out
+   */
+  private async finishAttempt(callbackId: string, outcome: string) {
+    const callback = await this.findCallback(callbackId);
+    if (!callback || callback.status !== 'DIALING') {
+      return;
+    }
+
+    const succeeded = outcome === 'connected' || outcome === 'reminded';
+    const now = new Date();
+
+    if (succeeded) {
+      await prisma.callbackRequest.update({
+        where: { id: callback.id },
+        data: { status: 'COMPLETED', lastOutcome: outcome, completedAt: now },
+      });
+
+      if (callback.lead.status === 'NEW') {
+        await prisma.lead.update({ where: { id: callback.leadId }, data: { status: 'CONTACTED' } });
+      }
+    } else if (callback.attempts >= callback.maxAttempts) {
+      await prisma.callbackRequest.update({
+        where: { id: callback.id },
+        data: { status: 'FAILED', lastOutcome: outcome, completedAt: now },
+      });
+    } else {
+      const delay = CALLBACK_RETRY_MINUTES[Math.min(callback.attempts - 1, CALLBACK_RETRY_MINUTES.length - 1)];
+      const nextAttemptAt = new Date(now.getTime() + delay * 60 * 1000);
+
+      await prisma.callbackRequest.update({
+        where: { id: callback.id },
+        data: { status: 'PENDING', lastOutcome: outcome, nextAttemptAt },
+      });
+      await this.scheduleJob(callback.id, nextAttemptAt);
+    }
+
+    // Only attempts that reached the lead's phone go on their timeline
+    if (!outcome.startsWith('staff-')) {
+      await this.logActivity(callback, outcome, succeeded);
+    }
+  }
+
+  private async fail(callback: CallbackRequest, reason: string) {
+    await prisma.callbackRequest.update({
+      where: { id: callback.id },
+      data: { status: 'FAILED', lastOutcome: reason, completedAt: new Date() },
+    });
+  }
+
+  private async logActivity(callback: CallbackWithLead, outcome: string, connected: boolean) {
+    try {
+      const kind = callback.mode === 'REMINDER' ? 'Reminder call' : 'Callback';
+
+      await callActivityService.logLeadCall({
+        tenantId: callback.tenantId,
+        lead: callback.lead,
+        title: `${kind}: ${this.outcomeLabel(outcome).toLowerCase()}`,
+        description: callback.lead.reason || undefined,
+        metadata: {
+          callbackId: callback.id,
+          callSid: callback.callSid,
+          mode: callback.mode,
+          attempt: callback.attempts,
+          outcome,
+          transferTarget: callback.transferTarget?.name,
+        },
+        connected,
+        createdBy: callback.createdById,
+      });
+    } catch (error) {
+      console.error('Callback activity logging error:', error);
+    }
+  }
+
+  /**
+   * Lead owner's transfer target, else the highest-priority active one
+   */
+  private async pickTarget(tenantId: string, lead: Pick<Lead, 'id'>) {
+    const contact = await prisma.contact.findUnique({ where: { leadId: lead.id }, select: { ownerId: true } });
+
+    if (contact?.ownerId) {
+      const ownerTarget = await prisma.transferTarget.findFirst({
+        where: { tenantId, userId: contact.ownerId, isActive: true },
+        orderBy: { priority: 'asc' },
+      });
+      if (ownerTarget) return ownerTarget;
+    }
+
+    return prisma.transferTarget.findFirst({
+      where: { tenantId, isActive: true },
+      orderBy: { priority: 'asc' },
+    });
+  }
+
+  /**
+   * Call from the number the lead called in on, so they recognize it
+   */
+  private async getFromNumber(callback: CallbackWithLead): Promise<string | null> {
+    if (callback.lead.callSessionId) {
+      const session = await prisma.callSession.findUnique({
+        where: { id: callback.lead.callSessionId },
+        include: { twilioNumber: true },
+      });
+      if (session?.twilioNumber.status === 'ACTIVE') {
+        return session.twilioNumber.phoneNumber;
+      }
+    }
+
+    const number = await prisma.twilioNumber.findFirst({
+      where: { tenantId: callback.tenantId, status: 'ACTIVE' },
+      orderBy: { createdAt: 'asc' },
+    });
+    return number?.phoneNumber ?? null;
+  }
+
+  private toOutcome(callStatus: string): string {
+    return ['no-answer', 'busy', 'canceled'].includes(callStatus) ? callStatus : 'failed';
+  }
+
+  private findCallback(id: string): Promise<CallbackWithLead | null> {
+    return prisma.callbackRequest.findUnique({
+      where: { id },
+      include: { lead: true, transferTarget: true },
+    });
+  }
+
+  private async scheduleJob(callbackId: string, scheduledAt: Date) {
+    await JobProcessor.createJob({
+      type: 'lead_callback',
+      payload: { callbackId },
+      scheduledAt,
+    });
+  }
+}
+
+export const callbackService = new CallbackService();
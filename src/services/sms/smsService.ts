@@ -0,0 +1,432 @@
+import { Prisma, SmsConversationStatus } from '@prisma/client';
+import prisma from '../../db/prisma';
+import { env } from '../../config/env';
+import { twilioService } from '../twilio/twilioService';
+import { aiService } from '../ai/aiService';
+import { callerIdService } from '../crm/callerIdService';
+import { toE164 } from '../crm/phoneNumber';
+import { CallContext, ConversationTurn } from '../../types';
+
+// Carrier keywords; Twilio confirms these to the sender itself
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+const OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'YES'];
+
+const AI_HISTORY_MESSAGES = 10;
+const PREVIEW_LENGTH = 120;
+
+// Conversation metadata fields carried between AI replies
+const AI_STATE_KEYS = ['capturedData', 'leadId', 'callbackTaskId'];
+
+export interface ConversationFilters {
+  status?: string;
+  assignedToId?: string;     // a user id, or 'unassigned'
+  search?: string;
+}
+
+export class SmsService {
+  /**
+   * Store a text sent to one of our numbers. Returns null when the number
+   * isn't ours; autoReply says whether the AI should answer it.
+   */
+  async handleInbound(params: { from: string; to: string; body: string; messageSid?: string }) {
+    const twilioNumber = await prisma.twilioNumber.findUnique({
+      where: { phoneNumber: params.to },
+      include: { tenant: { include: { receptionistConfig: true } } },
+    });
+
+    if (!twilioNumber) {
+      return null;
+    }
+
+    // Twilio retries webhooks; don't store the same text twice
+    if (params.messageSid) {
+      const duplicate = await prisma.smsMessage.findUnique({ where: { twilioSid: params.messageSid } });
+      if (duplicate) {
+        return null;
+      }
+    }
+
+    const tenantId = twilioNumber.tenantId;
+    const participantNumber = toE164(params.from) || params.from;
+    const body = params.body || '';
+    const keyword = body.trim().toUpperCase();
+    const optedOut = OPT_OUT_KEYWORDS.includes(keyword) ? true : OPT_IN_KEYWORDS.includes(keyword) ? false : undefined;
+
+    let conversation = await prisma.smsConversation.findUnique({
+      where: { twilioNumberId_participantNumber: { twilioNumberId: twilioNumber.id, participantNumber } },
+    });
+
+    if (!conversation) {
+      conversation = await prisma.smsConversation.create({
+        data: {
+          tenantId,
+          twilioNumberId: twilioNumber.id,
+          participantNumber,
+          contactId: await this.findOrCreateContact(tenantId, participantNumber),
+        },
+      });
+    }
+
+    const message = await prisma.smsMessage.create({
+      data: {
+        conversationId: conversation.id,
+        direction: 'INBOUND',
+        body,
+        twilioSid: params.messageSid,
+        status: 'received',
+      },
+    });
+
+    conversation = await prisma.smsConversation.update({
+      where: { id: conversation.id },
+      data: {
+        status: 'OPEN',
+        unreadCount: { increment: 1 },
+        lastMessageAt: message.createdAt,
+        lastMessagePreview: body.slice(0, PREVIEW_LENGTH),
+        optedOut,
+      },
+    });
+
+    if (conversation.contactId) {
+      await prisma.contact.update({
+        where: { id: conversation.contactId },
+        data: { lastContactedAt: message.createdAt },
+      });
+    }
+
+    const autoReply = Boolean(
+      twilioNumber.tenant.receptionistConfig?.smsAutoReplyEnabled &&
+      conversation.aiAutoReply &&
+      !conversation.optedOut &&
+      optedOut === undefined &&
+      body.trim()
+    );
+
+    return { conversation, message, autoReply };
+  }
+
+  /**
+   * Send a text in a conversation, from the dashboard or the AI. Failed
+   * sends are kept in the thread with the error before it is rethrown.
+   */
+  async sendMessage(
+    conversationId: string,
+    body: string,
+    options: { sentById?: string; isAutoReply?: boolean } = {}
+  ) {
+    const conversation = await prisma.smsConversation.findUnique({
+      where: { id: conversationId },
+      include: { twilioNumber: true },
+    });
+
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+    if (conversation.optedOut) {
+      throw new Error('This number has opted out of text messages');
+    }
+
+    let twilioSid: string | undefined;
+    let status = 'queued';
+    let error: string | undefined;
+
+    try {
+      const sent = await twilioService.sendSMS({
+        to: conversation.participantNumber,
+        from: conversation.twilioNumber.phoneNumber,
+        body,
+        statusCallback: `${env.BASE_URL}/twilio/sms-status`,
+      });
+      twilioSid = sent.sid;
+      status = sent.status || 'queued';
+    } catch (sendError: any) {
+      status = 'failed';
+      error = sendError?.message || 'Send failed';
+    }
+
+    const message = await prisma.smsMessage.create({
+      data: {
+        conversationId,
+        direction: 'OUTBOUND',
+        body,
+        twilioSid,
+        status,
+        error,
+        sentById: options.sentById,
+        isAutoReply: options.isAutoReply ?? false,
+      },
+    });
+
+    if (error) {
+      throw new Error(error);
+    }
+
+    await prisma.smsConversation.update({
+      where: { id: conversationId },
+      data: {
+        lastMessageAt: message.createdAt,
+        lastMessagePreview: body.slice(0, PREVIEW_LENGTH),
+        // A person answering takes the thread over from the AI
+        ...(options.sentById && { aiAutoReply: false, unreadCount: 0 }),
+      },
+    });
+
+    if (conversation.contactId) {
+      await prisma.contact.update({
+        where: { id: conversation.contactId },
+        data: { lastContactedAt: message.createdAt },
+      });
+    }
+
+    return message;
+  }
+
+  /**
+   * Text a number from one of our numbers, continuing its thread if there is one
+   */
+  async sendToNumber(params: {
+    tenantId: string;
+    twilioNumberId: string;
+    to: string;
+    body: string;
+    leadId?: string;
+    isAutoReply?: boolean;
+  }) {
+    const participantNumber = toE164(params.to) || params.to;
+    const key = { twilioNumberId: params.twilioNumberId, participantNumber };
+
+    let conversation = await prisma.smsConversation.findUnique({
+      where: { twilioNumberId_participantNumber: key },
+    });
+
+    if (!conversation) {
+      conversation = await prisma.smsConversation.create({
+        data: {
+          tenantId: params.tenantId,
+          ...key,
+          leadId: params.leadId,
+          contactId: await this.findOrCreateContact(params.tenantId, participantNumber),
+        },
+      });
+    } else if (params.leadId && conversation.leadId !== params.leadId) {
+      conversation = await prisma.smsConversation.update({
+        where: { id: conversation.id },
+        data: { leadId: params.leadId },
+      });
+    }
+
+    return this.sendMessage(conversation.id, params.body, { isAutoReply: params.isAutoReply });
+  }
+
+  /**
+   * Answer an inbound text with the AI receptionist, using the tenant's
+   * FAQs and knowledge base. Skipped if someone already replied.
+   */
+  async autoReply(conversationId: string, messageId: string): Promise<boolean> {
+    const conversation = await prisma.smsConversation.findUnique({
+      where: { id: conversationId },
+      include: {
+        twilioNumber: true,
+        tenant: { include: { receptionistConfig: true } },
+      },
+    });
+
+    if (
+      !conversation ||
+      conversation.optedOut ||
+      !conversation.aiAutoReply ||
+      !conversation.tenant.receptionistConfig?.smsAutoReplyEnabled
+    ) {
+      return true;
+    }
+
+    const inbound = await prisma.smsMessage.findUnique({ where: { id: messageId } });
+    if (!inbound) {
+      return true;
+    }
+
+    // A newer text gets its own reply; a reply after this one means it's answered
+    const newer = await prisma.smsMessage.count({
+      where: {
+        conversationId,
+        createdAt: { gt: inbound.createdAt },
+        OR: [{ direction: 'INBOUND' }, { direction: 'OUTBOUND', status: { not: 'failed' } }],
+      },
+    });
+    if (newer > 0) {
+      return true;
+    }
+
+    const recent = await prisma.smsMessage.findMany({
+      where: { conversationId, status: { not: 'failed' } },
+      orderBy: { createdAt: 'desc' },
+      take: AI_HISTORY_MESSAGES,
+    });
+
+    const conversationHistory: ConversationTurn[] = recent.reverse().map(message => ({
+      speaker: message.direction === 'INBOUND' ? 'user' : 'ai',
+      text: message.body,
+      timestamp: message.createdAt,
+    }));
+
+    const state = (conversation.metadata as any) || {};
+    const caller = await callerIdService.identify(conversation.tenantId, conversation.participantNumber);
+
+    const context: CallContext = {
+      channel: 'sms',
+      callSid: inbound.twilioSid || inbound.id,
+      tenantId: conversation.tenantId,
+      sessionId: conversation.id,
+      fromNumber: conversation.participantNumber,
+      toNumber: conversation.twilioNumber.phoneNumber,
+      state: 'FAQ',
+      conversationHistory,
+      config: conversation.tenant.receptionistConfig ?? undefined,
+      metadata: { ...state, ...(caller && { caller }) },
+    };
+
+    const response = await aiService.chat(context, inbound.body);
+
+    const nextState: Record<string, any> = { ...state };
+    for (const key of AI_STATE_KEYS) {
+      if (context.metadata[key] !== undefined) {
+        nextState[key] = context.metadata[key];
+      }
+    }
+
+    await prisma.smsConversation.update({
+      where: { id: conversationId },
+      data: { metadata: nextState as Prisma.InputJsonValue },
+    });
+
+    try {
+      await this.sendMessage(conversationId, response.message, { isAutoReply: true });
+      return true;
+    } catch (error) {
+      console.error('SMS auto-reply send error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record a delivery status from Twilio's status callback
+   */
+  async updateMessageStatus(messageSid: string, status: string, errorCode?: string) {
+    return prisma.smsMessage.updateMany({
+      where: { twilioSid: messageSid },
+      data: {
+        status,
+        error: errorCode ? `Twilio error ${errorCode}` : undefined,
+      },
+    });
+  }
+
+  /**
+   * Inbox list, newest first
+   */
+  async listConversations(tenantId: string, filters: ConversationFilters = {}) {
+    const where: Prisma.SmsConversationWhereInput = { tenantId };
+
+    if (filters.status === 'OPEN' || filters.status === 'CLOSED') {
+      where.status = filters.status;
+    }
+    if (filters.assignedToId === 'unassigned') {
+      where.assignedToId = null;
+    } else if (filters.assignedToId) {
+      where.assignedToId = filters.assignedToId;
+    }
+    if (filters.search) {
+      where.OR = [
+        { participantNumber: { contains: filters.search } },
+        { contact: { fullName: { contains: filters.search, mode: 'insensitive' } } },
+        { lastMessagePreview: { contains: filters.search, mode: 'insensitive' } },
+      ];
+    }
+
+    return prisma.smsConversation.findMany({
+      where,
+      include: {
+        contact: { select: { id: true, fullName: true } },
+        assignedTo: { select: { id: true, firstName: true, lastName: true, email: true } },
+        twilioNumber: { select: { phoneNumber: true, friendlyName: true } },
+      },
+      orderBy: { lastMessageAt: 'desc' },
+      take: 100,
+    });
+  }
+
+  /**
+   * A conversation with its messages; opening it marks it read
+   */
+  async getConversation(id: string, tenantId: string) {
+    const conversation = await prisma.smsConversation.findFirst({
+      where: { id, tenantId },
+      include: {
+        contact: { select: { id: true, fullName: true, email: true, lifecycle: true } },
+        lead: { select: { id: true, name: true, status: true } },
+        assignedTo: { select: { id: true, firstName: true, lastName: true, email: true } },
+        twilioNumber: { select: { phoneNumber: true, friendlyName: true } },
+        messages: {
+          orderBy: { createdAt: 'asc' },
+          include: { sentBy: { select: { firstName: true, lastName: true, email: true } } },
+        },
+      },
+    });
+
+    if (conversation && conversation.unreadCount > 0) {
+      await prisma.smsConversation.update({ where: { id }, data: { unreadCount: 0 } });
+    }
+
+    return conversation;
+  }
+
+  async assign(id: string, tenantId: string, userId: string | null) {
+    if (userId) {
+      const user = await prisma.user.findFirst({ where: { id: userId, tenantId, isActive: true } });
+      if (!user) {
+        throw new Error('User not found');
+      }
+    }
+
+    return prisma.smsConversation.updateMany({
+      where: { id, tenantId },
+      data: { assignedToId: userId },
+    });
+  }
+
+  async setStatus(id: string, tenantId: string, status: SmsConversationStatus) {
+    return prisma.smsConversation.updateMany({
+      where: { id, tenantId },
+      data: { status },
+    });
+  }
+
+  async setAutoReply(id: string, tenantId: string, enabled: boolean) {
+    return prisma.smsConversation.updateMany({
+      where: { id, tenantId },
+      data: { aiAutoReply: enabled },
+    });
+  }
+
+  /**
+   * Texters become contacts like callers do, so the thread shows up in the CRM
+   */
+  private async findOrCreateContact(tenantId: string, phone: string): Promise<string | null> {
+    if (!toE164(phone)) {
+      return null;
+    }
+
+    const contactId = await callerIdService.findContactId(tenantId, phone);
+    if (contactId) {
+      return contactId;
+    }
+
+    const contact = await prisma.contact.create({
+      data: { tenantId, phone, lifecycle: 'LEAD', source: 'sms' },
+    });
+    return contact.id;
+  }
+}
+
+export const smsService = new SmsService();
@@ -0,0 +1,244 @@
+import { Prisma, TextBackRule, TextBackTrigger } from '@prisma/client';
+import prisma from '../../db/prisma';
+import { JobProcessor } from '../jobs/jobProcessor';
+import { smsService } from './smsService';
+import { toE164 } from '../crm/phoneNumber';
+import { consentService } from '../call/consentService';
+import { getTenantTimezone, zonedTimeToUtc } from '../tenant/scheduleService';
+
+export const TEXT_BACK_TRIGGERS: TextBackTrigger[] = ['MISSED_CALL', 'AFTER_HOURS'];
+
+export const TEXT_BACK_MERGE_FIELDS = [
+  'callerNumber',
+  'calledNumber',
+  'businessName',
+  'leadName',
+  'firstName',
+  'callTime',
+];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const LEAD_REASONS: Record<TextBackTrigger, string> = {
+  MISSED_CALL: 'Missed call',
+  AFTER_HOURS: 'Called after hours',
+};
+
+export class TextBackService {
+  /**
+   * Queue the tenant's text-back for a call we missed or that ended in the
+   * after-hours flow. Nothing is queued for anonymous or opted-out callers,
+   * or if the caller already got one inside the rule's dedupe window.
+   */
+  async queueForCall(callSessionId: string, trigger: TextBackTrigger) {
+    const session = await prisma.callSession.findUnique({ where: { id: callSessionId } });
+
+    if (!session || session.direction !== 'inbound') {
+      return null;
+    }
+
+    const toNumber = toE164(session.fromNumber);
+    if (!toNumber) {
+      return null;
+    }
+
+    const rule = await prisma.textBackRule.findFirst({
+      where: { tenantId: session.tenantId, trigger, isActive: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!rule) {
+      return null;
+    }
+
+    const [recent, optedOut, blocked] = await Promise.all([
+      prisma.textBackLog.findFirst({
+        where: {
+          tenantId: session.tenantId,
+          toNumber,
+          createdAt: { gte: new Date(Date.now() - rule.dedupeMinutes * 60 * 1000) },
+        },
+      }),
+      this.isOptedOut(session.tenantId, toNumber),
+      consentService.isBlocked(session.tenantId, toNumber),
+    ]);
+    if (recent || optedOut || blocked) {
+      return null;
+    }
+
+    const scheduledAt = await this.nextSendTime(session.tenantId, rule);
+
+    try {
+      const log = await prisma.textBackLog.create({
+        data: {
+          tenantId: session.tenantId,
+          ruleId: rule.id,
+          callSessionId,
+          toNumber,
+          scheduledAt,
+        },
+      });
+
+      await JobProcessor.createJob({
+        type: 'text_back',
+        payload: { textBackLogId: log.id },
+        scheduledAt,
+      });
+
+      return log;
+    } catch (error) {
+      // Twilio retries status callbacks; one text per call
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send a queued text-back into the caller's SMS thread, linked to the
+   * call's lead (created if the caller didn't leave one) so replies land there
+   */
+  async send(textBackLogId: string): Promise<boolean> {
+    const log = await prisma.textBackLog.findUnique({
+      where: { id: textBackLogId },
+      include: {
+        rule: true,
+        callSession: {
+          include: { lead: true, tenant: true },
+        },
+      },
+    });
+
+    if (!log || log.status !== 'queued') {
+      return true;
+    }
+
+    const session = log.callSession;
+
+    if (!log.rule.isActive) {
+      await this.finish(log.id, 'skipped', 'Rule turned off');
+      return true;
+    }
+
+    // They may have texted STOP while this waited out quiet hours
+    if (await this.isOptedOut(session.tenantId, log.toNumber)) {
+      await this.finish(log.id, 'skipped', 'Opted out');
+      return true;
+    }
+
+    const lead = session.lead ?? await prisma.lead.create({
+      data: {
+        tenantId: session.tenantId,
+        callSessionId: session.id,
+        phone: log.toNumber,
+        reason: LEAD_REASONS[log.rule.trigger],
+        status: 'NEW',
+      },
+    });
+
+    const timezone = await getTenantTimezone(session.tenantId);
+    const body = this.renderTemplate(log.rule.template, {
+      callerNumber: session.fromNumber,
+      calledNumber: session.toNumber,
+      businessName: session.tenant.name,
+      leadName: lead.name || '',
+      firstName: lead.name?.trim().split(/\s+/)[0] || '',
+      callTime: session.startTime.toLocaleString('en-US', {
+        timeZone: timezone,
+        weekday: 'long',
+        hour: 'numeric',
+        minute: '2-digit',
+      }),
+    });
+
+    try {
+      await smsService.sendToNumber({
+        tenantId: session.tenantId,
+        twilioNumberId: session.twilioNumberId,
+        to: log.toNumber,
+        body,
+        leadId: lead.id,
+        isAutoReply: true,
+      });
+      await this.finish(log.id, 'sent');
+    } catch (error: any) {
+      // The failed text is already in the thread; don't send it again
+      console.error('Text-back send error:', error);
+      await this.finish(log.id, 'failed', error?.message);
+    }
+
+    return true;
+  }
+
+  /**
+   * Fill {{field}} placeholders; unknown fields become empty
+   */
+  renderTemplate(template: string, values: Record<string, string>): string {
+    return template
+      .replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, key: string) => values[key] ?? '')
+      .replace(/[ \t]{2,}/g, ' ')
+      .replace(/[ \t]+([,.!?])/g, '$1')
+      .trim();
+  }
+
+  isValidTime(value?: string | null): boolean {
+    return !value || TIME_PATTERN.test(value);
+  }
+
+  /**
+   * Now, unless it's quiet hours in the tenant's timezone - then when they end
+   */
+  private async nextSendTime(tenantId: string, rule: TextBackRule): Promise<Date> {
+    const now = new Date();
+    if (!rule.quietHoursStart || !rule.quietHoursEnd || rule.quietHoursStart === rule.quietHoursEnd) {
+      return now;
+    }
+
+    const timezone = await getTenantTimezone(tenantId);
+    const zonedNow = new Date(now.toLocaleString('en-US', { timeZone: timezone }));
+    const minutes = zonedNow.getHours() * 60 + zonedNow.getMinutes();
+    const start = this.toMinutes(rule.quietHoursStart);
+    const end = this.toMinutes(rule.quietHoursEnd);
+
+    // Windows like 21:00-08:00 run past midnight
+    const quiet = start < end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+    if (!quiet) {
+      return now;
+    }
+
+    const endDay = new Date(zonedNow);
+    if (minutes >= end) {
+      endDay.setDate(endDay.getDate() + 1);
+    }
+    const date = [
+      endDay.getFullYear(),
+      String(endDay.getMonth() + 1).padStart(2, '0'),
+      String(endDay.getDate()).padStart(2, '0'),
+    ].join('-');
+
+    return zonedTimeToUtc(`${date}T${rule.quietHoursEnd}`, timezone) ?? now;
+  }
+
+  private async isOptedOut(tenantId: string, phone: string): Promise<boolean> {
+    const count = await prisma.smsConversation.count({
+      where: { tenantId, participantNumber: phone, optedOut: true },
+    });
+    return count > 0;
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private async finish(id: string, status: string, error?: string) {
+    await prisma.textBackLog.update({
+      where: { id },
+      data: { status, error, sentAt: status === 'sent' ? new Date() : undefined },
+    });
+  }
+}
+
+export const textBackService = new TextBackService();
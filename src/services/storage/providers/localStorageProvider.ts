@@ -0,0 +1,41 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { StorageProvider } from './storageProvider';
+
+/**
+ * Files on local disk under a root directory
+ */
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local' as const;
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, data);
+  }
+
+  async read(key: string): Promise<Readable> {
+    const file = this.resolve(key);
+    // Fail here, not mid-response, when the file is missing
+    await fs.promises.access(file, fs.constants.R_OK);
+    return fs.createReadStream(file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  }
+}
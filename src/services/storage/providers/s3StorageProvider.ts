@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import axios, { Method } from 'axios';
+import { Readable } from 'stream';
+import { StorageProvider } from './storageProvider';
+
+export interface S3Config {
+  endpoint?: string;   // S3-compatible server (MinIO...); AWS when unset
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+/**
+ * Objects in an S3 bucket, signed with AWS Signature Version 4. A custom
+ * endpoint uses path-style URLs, which MinIO and most S3 clones expect.
+ */
+export class S3StorageProvider implements StorageProvider {
+  readonly name = 's3' as const;
+
+  constructor(private config: S3Config) {}
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.request('PUT', key, data, { 'Content-Type': contentType });
+  }
+
+  async read(key: string): Promise<Readable> {
+    const response = await this.request('GET', key);
+    return response.data as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.request('DELETE', key);
+    } catch (error: any) {
+      if (error.response?.status !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  private async request(method: Method, key: string, body?: Buffer, headers: Record<string, string> = {}) {
+    const url = new URL(this.objectUrl(key));
+    const payloadHash = body ? crypto.createHash('sha256').update(body).digest('hex') : EMPTY_PAYLOAD_HASH;
+
+    return axios.request({
+      method,
+      url: url.toString(),
+      data: body,
+      headers: { ...headers, ...this.sign(method, url, payloadHash) },
+      responseType: method === 'GET' ? 'stream' : 'text',
+      maxBodyLength: Infinity,
+      timeout: 30000,
+    });
+  }
+
+  private objectUrl(key: string): string {
+    const path = key.split('/').map(encodeSegment).join('/');
+    const { endpoint, bucket, region } = this.config;
+
+    return endpoint
+      ? `${endpoint.replace(/\/+$/, '')}/${encodeSegment(bucket)}/${path}`
+      : `https://${bucket}.s3.${region}.amazonaws.com/${path}`;
+  }
+
+  /**
+   * Authorization headers for one request
+   */
+  private sign(method: string, url: URL, payloadHash: string): Record<string, string> {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+
+    const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+    const canonicalRequest = [
+      method.toUpperCase(),
+      url.pathname,
+      '',
+      `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      crypto.createHash('sha256').update(canonicalRequest).digest('hex'),
+    ].join('\n');
+
+    const signingKey = [dateStamp, this.config.region, 's3', 'aws4_request']
+      .reduce<Buffer | string>((key, part) => hmac(key, part), `AWS4${this.config.secretAccessKey}`);
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+  }
+}
+
+function hmac(key: Buffer | string, value: string): Buffer {
+  return crypto.createHmac('sha256', key).update(value).digest();
+}
+
+// S3 wants RFC 3986 encoding, which also escapes !'()*
+function encodeSegment(segment: string): string {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
@@ -0,0 +1,16 @@
+import { Readable } from 'stream';
+
+export const STORAGE_DRIVERS = ['local', 's3'] as const;
+export type StorageDriverName = typeof STORAGE_DRIVERS[number];
+
+/**
+ * Where call audio lives once it has been copied off Twilio, and uploaded
+ * knowledge documents. Keys are slash-separated paths such as
+ * "recordings/<tenantId>/<recordingSid>.mp3".
+ */
+export interface StorageProvider {
+  readonly name: StorageDriverName;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  read(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;   // a key that is already gone is not an error
+}
@@ -0,0 +1,224 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { Recording } from '@prisma/client';
+import prisma from '../../db/prisma';
+import { env } from '../../config/env';
+import { JobProcessor } from '../jobs/jobProcessor';
+import { twilioService } from '../twilio/twilioService';
+import { storageService } from './storageService';
+
+// Signed recording links stop working after this long
+export const RECORDING_LINK_TTL_MS = 24 * 60 * 60 * 1000;
+export const RETENTION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+// Recordings deleted per tenant per sweep; the rest wait for the next one
+const RETENTION_BATCH_SIZE = 500;
+
+export interface RecordingDeletion {
+  reason: 'manual' | 'retention';
+  userId?: string;
+  ipAddress?: string;
+  retentionDays?: number;
+}
+
+export class RecordingStorageService {
+  async queueStore(recordingId: string) {
+    await JobProcessor.createJob({
+      type: 'store_recording',
+      payload: { recordingId },
+      maxAttempts: 5,
+    });
+  }
+
+  /**
+   * Job handler: copy the audio off Twilio into storage, then delete
+   * Twilio's copy so its URL stops working
+   */
+  async store(recordingId: string): Promise<boolean> {
+    const recording = await prisma.recording.findUnique({
+      where: { id: recordingId },
+      include: { callSession: { select: { tenantId: true } } },
+    });
+
+    if (!recording || recording.storedAt) {
+      return true;
+    }
+
+    const audio = await twilioService.downloadRecording(recording.url);
+    const storageKey = `recordings/${recording.callSession.tenantId}/${recording.recordingSid}.mp3`;
+
+    await storageService.getProvider().put(storageKey, audio, 'audio/mpeg');
+    await prisma.recording.update({
+      where: { id: recording.id },
+      data: { storageKey, size: audio.length, storedAt: new Date() },
+    });
+
+    try {
+      await twilioService.deleteRecording(recording.recordingSid);
+    } catch (error) {
+      console.error('Error removing stored recording from Twilio:', error);
+    }
+
+    return true;
+  }
+
+  async find(id: string, tenantId: string) {
+    return prisma.recording.findFirst({ where: { id, callSession: { tenantId } } });
+  }
+
+  /**
+   * The audio, from storage or from Twilio until the copy job has run
+   */
+  async open(recording: Recording): Promise<{ stream: Readable; size?: number }> {
+    if (recording.storageKey) {
+      return {
+        stream: await storageService.getProvider().read(recording.storageKey),
+        size: recording.size ?? undefined,
+      };
+    }
+
+    const audio = await twilioService.downloadRecording(recording.url);
+    return { stream: Readable.from(audio), size: audio.length };
+  }
+
+  /**
+   * Delete the audio wherever it lives and the recording itself, with an
+   * audit log entry
+   */
+  async delete(id: string, tenantId: string, deletion: RecordingDeletion) {
+    const recording = await this.find(id, tenantId);
+    if (!recording) {
+      throw new Error('Recording not found');
+    }
+
+    if (recording.storageKey) {
+      await storageService.getProvider().delete(recording.storageKey);
+    } else {
+      await twilioService.deleteRecording(recording.recordingSid);
+    }
+
+    await prisma.$transaction([
+      prisma.recording.delete({ where: { id: recording.id } }),
+      prisma.callSession.updateMany({
+        where: { id: recording.callSessionId, recordingSid: recording.recordingSid },
+        data: { recordingUrl: null, recordingSid: null },
+      }),
+      prisma.auditLog.create({
+        data: {
+          tenantId,
+          userId: deletion.userId,
+          action: 'delete',
+          resource: 'recording',
+          resourceId: recording.id,
+          ipAddress: deletion.ipAddress,
+          details: JSON.stringify({
+            reason: deletion.reason,
+            retentionDays: deletion.retentionDays,
+            callSessionId: recording.callSessionId,
+            recordingSid: recording.recordingSid,
+            storageKey: recording.storageKey,
+            recordedAt: recording.createdAt,
+          }),
+        },
+      }),
+    ]);
+  }
+
+  // ============================================
+  // RETENTION
+  // ============================================
+
+  /**
+   * Delete recordings older than each tenant's retention period
+   */
+  async enforceRetention(now: Date = new Date()): Promise<number> {
+    const configs = await prisma.receptionistConfig.findMany({
+      where: { recordingRetentionDays: { not: null } },
+      select: { tenantId: true, recordingRetentionDays: true },
+    });
+
+    let deleted = 0;
+
+    for (const config of configs) {
+      const retentionDays = config.recordingRetentionDays!;
+      const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+
+      const expired = await prisma.recording.findMany({
+        where: { createdAt: { lt: cutoff }, callSession: { tenantId: config.tenantId } },
+        select: { id: true },
+        orderBy: { createdAt: 'asc' },
+        take: RETENTION_BATCH_SIZE,
+      });
+
+      for (const recording of expired) {
+        try {
+          await this.delete(recording.id, config.tenantId, { reason: 'retention', retentionDays });
+          deleted++;
+        } catch (error) {
+          console.error(`Error deleting expired recording ${recording.id}:`, error);
+        }
+      }
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Keep one retention sweep queued. Called at startup and after each sweep.
+   */
+  async scheduleRetention(delayMs = 0) {
+    const pending = await prisma.job.findFirst({
+      where: { type: 'recording_retention', status: 'PENDING' },
+    });
+    if (pending) {
+      return;
+    }
+
+    await JobProcessor.createJob({
+      type: 'recording_retention',
+      payload: {},
+      scheduledAt: new Date(Date.now() + delayMs),
+    });
+  }
+
+  // ============================================
+  // LINKS
+  // ============================================
+
+  /**
+   * Player URL for signed-in team members
+   */
+  playbackPath(recordingId: string): string {
+    return `/tenant/recordings/${recordingId}/audio`;
+  }
+
+  /**
+   * Link that plays the recording without logging in
+   */
+  signedUrl(recordingId: string, now: Date = new Date()): { url: string; expiresAt: Date } {
+    const expires = now.getTime() + RECORDING_LINK_TTL_MS;
+    return {
+      url: `${env.BASE_URL}/recordings/${recordingId}/audio?expires=${expires}&sig=${this.sign(recordingId, expires)}`,
+      expiresAt: new Date(expires),
+    };
+  }
+
+  isValidSignature(recordingId: string, expires: string, signature: string): boolean {
+    const expiresAt = parseInt(expires, 10);
+    if (!expiresAt || expiresAt < Date.now()) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(recordingId, expiresAt));
+    const given = Buffer.from(String(signature || ''));
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  }
+
+  private sign(recordingId: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', env.SESSION_SECRET)
+      .update(`recording:${recordingId}:${expires}`)
+      .digest('base64url');
+  }
+}
+
+export const recordingStorageService = new RecordingStorageService();
@@ -0,0 +1,46 @@
+import { env } from '../../config/env';
+import { StorageProvider } from './providers/storageProvider';
+import { LocalStorageProvider } from './providers/localStorageProvider';
+import { S3StorageProvider } from './providers/s3StorageProvider';
+
+/**
+ * The platform's file storage, chosen by STORAGE_DRIVER
+ */
+class StorageService {
+  private provider: StorageProvider | null = null;
+
+  /**
+   * Created on first use so an unused driver needs no configuration
+   */
+  getProvider(): StorageProvider {
+    if (!this.provider) {
+      this.provider = this.createProvider();
+    }
+    return this.provider;
+  }
+
+  /**
+   * Replace the provider, e.g. with a temporary directory
+   */
+  setProvider(provider: StorageProvider) {
+    this.provider = provider;
+  }
+
+  private createProvider(): StorageProvider {
+    switch (env.STORAGE_DRIVER) {
+      case 'local':
+        return new LocalStorageProvider(env.STORAGE_LOCAL_PATH);
+
+      case 's3':
+        return new S3StorageProvider({
+          endpoint: env.S3_ENDPOINT,
+          region: env.S3_REGION,
+          bucket: env.S3_BUCKET!,
+          accessKeyId: env.S3_ACCESS_KEY_ID!,
+          secretAccessKey: env.S3_SECRET_ACCESS_KEY!,
+        });
+    }
+  }
+}
+
+export const storageService = new StorageService();
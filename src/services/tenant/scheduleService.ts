@@ -1,3 +1,4 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../../db/prisma';
 
 export interface BusinessHourUpdate {
@@ -15,8 +16,42 @@ export interface HolidayInput {
   closeTime?: string | null;
 }
 
+export interface AppointmentSlot {
+  start: Date;
+  label: string;   // Spoken form in the tenant's timezone, e.g. "Monday, March 3 at 10:00 AM"
+}
+
 const DEFAULT_TIMEZONE = 'America/Los_Angeles';
 const CLOSED_TIME_FALLBACK = '00:00';
+const SLOT_STEP_MINUTES = 30;
+const MIN_LEAD_MINUTES = 60;
+
+/**
+ * Timezone the tenant's business hours are kept in.
+ */
+export async function getTenantTimezone(
+  tenantId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<string> {
+  const hours = await db.businessHours.findFirst({ where: { tenantId }, select: { timezone: true } });
+  return hours?.timezone || DEFAULT_TIMEZONE;
+}
+
+/**
+ * Convert a wall-clock time ("2026-03-02T14:30") in a timezone to an instant.
+ */
+export function zonedTimeToUtc(local: string, timezone: string): Date | null {
+  const match = local.match(/^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2})/);
+  if (!match) return null;
+
+  const guess = new Date(`${match[1]}T${match[2]}:00Z`);
+  if (isNaN(guess.getTime())) return null;
+
+  // Both strings parse in server time, so the difference is the zone's offset
+  const inZone = new Date(guess.toLocaleString('en-US', { timeZone: timezone }));
+  const inUtc = new Date(guess.toLocaleString('en-US', { timeZone: 'UTC' }));
+  return new Date(guess.getTime() + (inUtc.getTime() - inZone.getTime()));
+}
 
 /**
  * Persist weekly business hours for a tenant.
@@ -101,3 +136,104 @@ export async function deleteHolidayForTenant(
     },
   });
 }
+
+/**
+ * Find the next open appointment slots inside business hours,
+ * skipping closed holidays and existing meetings.
+ */
+export async function findOpenAppointmentSlots(
+  tenantId: string,
+  options: { durationMinutes: number; count: number; daysAhead: number; from?: Date; leadMinutes?: number },
+  db: Prisma.TransactionClient = prisma
+): Promise<AppointmentSlot[]> {
+  const from = options.from ?? new Date();
+  const stepMs = SLOT_STEP_MINUTES * 60 * 1000;
+  const durationMs = options.durationMinutes * 60 * 1000;
+  const windowEnd = new Date(from.getTime() + options.daysAhead * 24 * 60 * 60 * 1000);
+
+  const hours = await db.businessHours.findMany({ where: { tenantId } });
+  if (hours.length === 0) return [];
+
+  const timezone = hours[0].timezone || DEFAULT_TIMEZONE;
+  const hoursByDay = new Map(hours.map(h => [h.dayOfWeek, h]));
+
+  const holidays = await db.holidayHours.findMany({
+    // Start a day early so a tenant behind UTC still sees today's holiday
+    where: { tenantId, date: { gte: new Date(from.getTime() - 24 * 60 * 60 * 1000), lte: windowEnd } },
+  });
+  const holidaysByDate = new Map(holidays.map(h => [h.date.toISOString().slice(0, 10), h]));
+
+  const meetings = await db.task.findMany({
+    where: {
+      tenantId,
+      taskType: 'MEETING',
+      status: { not: 'CANCELLED' },
+      dueDate: { gte: new Date(from.getTime() - durationMs), lte: windowEnd },
+    },
+    select: { dueDate: true },
+  });
+
+  const slots: AppointmentSlot[] = [];
+  const leadMinutes = options.leadMinutes ?? MIN_LEAD_MINUTES;
+  let candidate = Math.ceil((from.getTime() + leadMinutes * 60 * 1000) / stepMs) * stepMs;
+
+  while (candidate < windowEnd.getTime() && slots.length < options.count) {
+    const start = new Date(candidate);
+    const zonedStart = new Date(start.toLocaleString('en-US', { timeZone: timezone }));
+    const zonedEnd = new Date(zonedStart.getTime() + durationMs);
+
+    const dateKey = new Date(Date.UTC(
+      zonedStart.getFullYear(),
+      zonedStart.getMonth(),
+      zonedStart.getDate()
+    )).toISOString().slice(0, 10);
+
+    const holiday = holidaysByDate.get(dateKey);
+    const day = hoursByDay.get(zonedStart.getDay());
+
+    let openTime: string | null = null;
+    let closeTime: string | null = null;
+
+    if (holiday) {
+      if (!holiday.isClosed && holiday.openTime && holiday.closeTime) {
+        openTime = holiday.openTime;
+        closeTime = holiday.closeTime;
+      }
+    } else if (day?.isOpen) {
+      openTime = day.openTime;
+      closeTime = day.closeTime;
+    }
+
+    const startTime = zonedStart.toTimeString().slice(0, 5);
+    const endTime = zonedEnd.toTimeString().slice(0, 5);
+    const sameDay = zonedEnd.getDate() === zonedStart.getDate();
+
+    const withinHours = openTime !== null && closeTime !== null && sameDay &&
+      startTime >= openTime && endTime <= closeTime;
+
+    const conflicts = meetings.some(m =>
+      m.dueDate && Math.abs(m.dueDate.getTime() - candidate) < durationMs
+    );
+
+    if (withinHours && !conflicts) {
+      slots.push({
+        start,
+        label: start.toLocaleString('en-US', {
+          timeZone: timezone,
+          weekday: 'long',
+          month: 'long',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: '2-digit',
+        }),
+      });
+      // Don't offer overlapping slots
+      candidate += Math.max(stepMs, Math.ceil(durationMs / stepMs) * stepMs);
+      continue;
+    }
+
+    candidate += stepMs;
+  }
+
+  return slots;
+}
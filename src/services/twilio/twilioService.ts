@@ -1,3 +1,4 @@
+import axios from 'axios';
 import twilio from 'twilio';
 import { env } from '../../config/env';
 
@@ -54,12 +55,13 @@ class TwilioService {
   /**
    * Send SMS
    */
-  async sendSMS(params: { to: string; from: string; body: string }) {
+  async sendSMS(params: { to: string; from: string; body: string; statusCallback?: string }) {
     try {
       const message = await this.client.messages.create({
         to: params.to,
         from: params.from,
         body: params.body,
+        statusCallback: params.statusCallback,
       });
 
       return message;
@@ -82,6 +84,19 @@ class TwilioService {
     }
   }
 
+  /**
+   * Replace the TwiML of a live call, e.g. to leave a media stream
+   */
+  async updateCall(callSid: string, twiml: string) {
+    try {
+      const call = await this.client.calls(callSid).update({ twiml });
+      return call;
+    } catch (error) {
+      console.error('Error updating call:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get recording
    */
@@ -95,6 +110,68 @@ class TwilioService {
     }
   }
 
+  /**
+   * Download a recording's audio as MP3
+   */
+  async downloadRecording(recordingUrl: string): Promise<Buffer> {
+    try {
+      const response = await axios.get(`${recordingUrl.replace(/\.(mp3|wav)$/, '')}.mp3`, {
+        auth: { username: env.TWILIO_ACCOUNT_SID, password: env.TWILIO_AUTH_TOKEN },
+        responseType: 'arraybuffer',
+        timeout: 30000,
+      });
+      return Buffer.from(response.data);
+    } catch (error) {
+      console.error('Error downloading recording:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Start recording a live call
+   */
+  async startCallRecording(callSid: string, recordingStatusCallback: string) {
+    try {
+      return await this.client.calls(callSid).recordings.create({
+        recordingStatusCallback,
+        recordingStatusCallbackEvent: ['completed'],
+      });
+    } catch (error) {
+      console.error('Error starting call recording:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop a live call's recording; what was recorded so far is kept
+   */
+  async stopCallRecording(callSid: string) {
+    try {
+      await this.client.calls(callSid).recordings('Twilio.CURRENT').update({ status: 'stopped' });
+    } catch (error: any) {
+      if (error.status === 404) {
+        return;
+      }
+      console.error('Error stopping call recording:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a recording from Twilio
+   */
+  async deleteRecording(recordingSid: string) {
+    try {
+      await this.client.recordings(recordingSid).remove();
+    } catch (error: any) {
+      if (error.status === 404) {
+        return;
+      }
+      console.error('Error deleting recording:', error);
+      throw error;
+    }
+  }
+
   /**
    * List recordings for a call
    */
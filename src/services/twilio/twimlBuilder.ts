@@ -36,6 +36,7 @@ export class TwiMLBuilder {
       speechTimeout: config.speechTimeout || 'auto',
       language: (config.language as any) || 'en-US',
       hints: config.hints,
+      numDigits: config.numDigits,
     });
 
     if (nestedSay) {
@@ -52,18 +53,43 @@ export class TwiMLBuilder {
     timeout?: number; 
     action?: string;
     method?: string;
+    callerId?: string;
   }): this {
     this.twiml.dial(
       {
         timeout: options?.timeout || 30,
         action: options?.action,
         method: options?.method || 'POST',
+        callerId: options?.callerId,
       },
       number
     );
     return this;
   }
 
+  /**
+   * Add a Dial element that rings several numbers at once. Each number can
+   * have a url whose TwiML plays to the answering party before connecting.
+   */
+  dialNumbers(numbers: Array<{ number: string; url?: string }>, options?: {
+    timeout?: number;
+    action?: string;
+    method?: string;
+    callerId?: string;
+  }): this {
+    const dial = this.twiml.dial({
+      timeout: options?.timeout || 30,
+      action: options?.action,
+      method: options?.method || 'POST',
+      callerId: options?.callerId,
+    });
+
+    for (const entry of numbers) {
+      dial.number(entry.url ? { url: entry.url, method: 'POST' } : {}, entry.number);
+    }
+    return this;
+  }
+
   /**
    * Add a Play element
    */
@@ -87,11 +113,15 @@ export class TwiMLBuilder {
     maxLength?: number;
     transcribe?: boolean;
     action?: string;
+    playBeep?: boolean;
+    recordingStatusCallback?: string;
   }): this {
     this.twiml.record({
       maxLength: options?.maxLength || 30,
       transcribe: options?.transcribe || false,
       action: options?.action,
+      playBeep: options?.playBeep,
+      recordingStatusCallback: options?.recordingStatusCallback,
     });
     return this;
   }
@@ -104,6 +134,17 @@ export class TwiMLBuilder {
     return this;
   }
 
+  /**
+   * Add a Connect/Stream element for a bidirectional media stream
+   */
+  stream(url: string, parameters?: Record<string, string>): this {
+    const stream = this.twiml.connect().stream({ url });
+    Object.entries(parameters || {}).forEach(([name, value]) => {
+      stream.parameter({ name, value });
+    });
+    return this;
+  }
+
   /**
    * Add a Hangup element
    */
@@ -143,7 +184,8 @@ export function createGreetingTwiML(
       {
         action: gatherUrl,
         method: 'POST',
-        input: 'speech',
+        input: 'speech dtmf',
+        numDigits: 1,   // a key press is the recording opt-out digit
         speechTimeout: 'auto',
         timeout: 3,
       },
@@ -174,6 +216,35 @@ export function createTransferTwiML(
     .build();
 }
 
+export function createVoicemailTwiML(
+  prompt: string,
+  recordingStatusCallback: string,
+  completeUrl: string,
+  maxLength: number = 120
+): string {
+  const builder = new TwiMLBuilder();
+
+  return builder
+    .say(prompt)
+    .record({
+      maxLength,
+      playBeep: true,
+      action: completeUrl,
+      recordingStatusCallback,
+    })
+    .say('Thank you for your message. Goodbye.')
+    .hangup()
+    .build();
+}
+
+/**
+ * Speak a message before the rest of a response, e.g. a recording disclosure
+ */
+export function prependSay(twiml: string, message: string): string {
+  const say = new TwiMLBuilder().say(message).build().replace(/^[\s\S]*?<Response>|<\/Response>$/g, '');
+  return twiml.replace('<Response>', `<Response>${say}`);
+}
+
 export function createEndCallTwiML(message: string): string {
   const builder = new TwiMLBuilder();
   
@@ -195,7 +266,8 @@ export function createGatherResponseTwiML(
       {
         action: gatherUrl,
         method: 'POST',
-        input: 'speech',
+        input: 'speech dtmf',
+        numDigits: 1,   // a key press is the recording opt-out digit
         speechTimeout: 'auto',
         timeout: 3,
       },
@@ -205,3 +277,17 @@ export function createGatherResponseTwiML(
     .redirect(gatherUrl)
     .build();
 }
+
+export function createMediaStreamTwiML(
+  streamUrl: string,
+  parameters: Record<string, string>,
+  fallbackUrl: string
+): string {
+  const builder = new TwiMLBuilder();
+
+  // If the stream can't be opened the call falls back to Gather/Say turns
+  return builder
+    .stream(streamUrl, parameters)
+    .redirect(fallbackUrl)
+    .build();
+}
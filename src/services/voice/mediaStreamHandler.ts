@@ -0,0 +1,392 @@
+import { IncomingMessage, Server } from 'http';
+import WebSocket, { WebSocketServer } from 'ws';
+import prisma from '../../db/prisma';
+import { env } from '../../config/env';
+import { callService } from '../call/callService';
+import { stateMachine } from '../ai/stateMachine';
+import { ringGroupService } from '../call/ringGroupService';
+import { consentService, OPT_OUT_CONFIRMATION } from '../call/consentService';
+import { JobProcessor } from '../jobs/jobProcessor';
+import { twilioService } from '../twilio/twilioService';
+import { TwiMLBuilder, createMediaStreamTwiML } from '../twilio/twimlBuilder';
+import { AIResponse, CallContext } from '../../types';
+import { TranscriptionStream } from '../ai/providers/llmProvider';
+import { speechService, TTSVoice } from './speechService';
+import { UtteranceDetector } from './utteranceDetector';
+import { decodeMulaw, FRAME_BYTES } from './mulaw';
+
+export const MEDIA_STREAM_PATH = '/twilio/media-stream';
+
+const NO_TRANSFER_MESSAGE = "I'm sorry, no one is available right now. May I take your information for a callback?";
+
+/**
+ * Messages Twilio sends over a media stream
+ */
+interface TwilioStreamMessage {
+  event: 'connected' | 'start' | 'media' | 'mark' | 'dtmf' | 'stop';
+  streamSid?: string;
+  start?: {
+    streamSid: string;
+    callSid: string;
+    customParameters?: Record<string, string>;
+  };
+  media?: { track?: string; payload: string };
+  mark?: { name: string };
+  dtmf?: { track?: string; digit: string };
+}
+
+/**
+ * One live call on a media stream: recognizes caller speech as it arrives,
+ * runs each finished turn through the state machine and streams the spoken
+ * reply back, cutting playback off when the caller talks over it.
+ */
+class MediaStreamSession {
+  private streamSid = '';
+  private callSid = '';
+  private voice: TTSVoice = 'alloy';
+  private transcriber?: TranscriptionStream;
+  // Local voice detection only drives barge-in; it reacts faster than the recognizer
+  private detector = new UtteranceDetector();
+  private turns: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  // Playback state
+  private playbackId = 0;
+  private playing = false;
+  private synthesis?: AbortController;
+  private pendingMarks = new Map<string, (completed: boolean) => void>();
+
+  constructor(private ws: WebSocket) {
+    ws.on('message', (data) => this.handleMessage(data.toString()));
+    ws.on('close', () => this.handleClose());
+    ws.on('error', (error) => console.error('Media stream socket error:', error));
+  }
+
+  private async handleMessage(raw: string) {
+    let message: TwilioStreamMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch (error) {
+      console.error('Invalid media stream message');
+      return;
+    }
+
+    try {
+      switch (message.event) {
+        case 'start':
+          await this.handleStart(message);
+          break;
+
+        case 'media':
+          this.handleMedia(message);
+          break;
+
+        case 'mark':
+          this.handleMark(message.mark?.name);
+          break;
+
+        case 'dtmf':
+          await this.handleDtmf(message.dtmf?.digit);
+          break;
+
+        case 'stop':
+          this.ws.close();
+          break;
+      }
+    } catch (error) {
+      console.error('Media stream handler error:', error);
+    }
+  }
+
+  private async handleStart(message: TwilioStreamMessage) {
+    const start = message.start;
+    if (!start) return;
+
+    const session = await callService.getCallSessionByCallSid(start.callSid);
+    const config = session
+      ? await prisma.receptionistConfig.findUnique({ where: { tenantId: session.tenantId } })
+      : null;
+
+    // The connection is signed by Twilio; also check the call is one we routed here
+    if (!session || !config?.enableMediaStreams || start.customParameters?.callSid !== start.callSid) {
+      console.error(`Rejecting media stream for call ${start.callSid}`);
+      this.ws.close();
+      return;
+    }
+
+    this.streamSid = start.streamSid;
+    this.callSid = start.callSid;
+    this.voice = speechService.resolveVoice(config.voiceModel);
+    this.transcriber = speechService.startTranscription({
+      // Words heard over a reply interrupt it even if the level detector missed them
+      onPartial: () => this.bargeIn(),
+      onFinal: (speech) => this.enqueueTurn(() => this.handleSpeech(speech)),
+    });
+
+    console.log(`🔊 Media stream started for ${this.callSid}`);
+
+    await callService.logCallEvent({
+      callSessionId: session.id,
+      eventType: 'media_stream_started',
+      state: session.state,
+      data: JSON.stringify({ streamSid: this.streamSid }),
+    });
+
+    const greeting = start.customParameters?.greeting || config.greetingMessage;
+    this.enqueueTurn(async () => {
+      await this.speak(greeting);
+    });
+  }
+
+  private handleMedia(message: TwilioStreamMessage) {
+    if (!this.callSid || !message.media?.payload) return;
+    if (message.media.track && message.media.track !== 'inbound') return;
+
+    this.transcriber?.push(message.media.payload);
+
+    const frame = decodeMulaw(Buffer.from(message.media.payload, 'base64'));
+    if (this.detector.push(frame).some(event => event.type === 'speech_start')) {
+      this.bargeIn();
+    }
+  }
+
+  private handleMark(name?: string) {
+    if (!name) return;
+    const resolve = this.pendingMarks.get(name);
+    if (resolve) {
+      this.pendingMarks.delete(name);
+      this.playing = false;
+      resolve(true);
+    }
+  }
+
+  /**
+   * Key presses only matter as the recording opt-out
+   */
+  private async handleDtmf(digit?: string) {
+    if (!this.callSid || !(await consentService.optOut(this.callSid, digit))) return;
+
+    this.enqueueTurn(async () => {
+      await this.speak(OPT_OUT_CONFIRMATION);
+    });
+  }
+
+  private handleClose() {
+    if (this.closed) return;
+    this.closed = true;
+    this.stopPlayback();
+    this.transcriber?.close();
+    if (this.callSid) {
+      console.log(`🔇 Media stream closed for ${this.callSid}`);
+    }
+  }
+
+  /**
+   * Turns run one at a time so transcript writes never interleave
+   */
+  private enqueueTurn(turn: () => Promise<void>) {
+    this.turns = this.turns
+      .then(() => (this.closed ? undefined : turn()))
+      .catch((error) => console.error('Media stream turn error:', error));
+  }
+
+  private async handleSpeech(speech: string) {
+    if (this.closed) return;
+
+    console.log(`🎤 Stream speech for ${this.callSid}: "${speech}"`);
+
+    const context = await callService.buildCallContext(this.callSid);
+    if (!context) {
+      console.error(`Context not found for call ${this.callSid}`);
+      return;
+    }
+
+    const aiResponse = await stateMachine.processInput(context, speech);
+
+    await callService.saveTranscript(context.sessionId, context.conversationHistory);
+    await callService.saveConversationState(this.callSid, context.metadata);
+    await callService.updateCallState(this.callSid, aiResponse.nextState);
+
+    await callService.logTurnEvents(context, speech, aiResponse, { source: 'media_stream' });
+
+    switch (aiResponse.action?.type) {
+      case 'transfer':
+        return this.transfer(context, aiResponse);
+
+      case 'end_call':
+        return this.endCall(context, aiResponse.message, true);
+    }
+
+    if (aiResponse.shouldGather) {
+      await this.speak(aiResponse.message);
+    } else {
+      await this.endCall(context, aiResponse.message, false);
+    }
+  }
+
+  private async transfer(context: CallContext, aiResponse: AIResponse) {
+    const target = aiResponse.action?.data;
+    const twiml = await ringGroupService.startTransfer({
+      tenantId: context.tenantId,
+      callSid: this.callSid,
+      departmentId: target?.departmentId,
+      reason: target?.reason,
+    });
+
+    if (!twiml) {
+      await callService.updateCallState(this.callSid, 'LEAD_CAPTURE');
+      await this.speak(NO_TRANSFER_MESSAGE);
+      return;
+    }
+
+    await this.speak(aiResponse.message);
+    await this.handOff(twiml);
+  }
+
+  private async endCall(context: CallContext, message: string, summarize: boolean) {
+    await this.speak(message);
+
+    if (summarize) {
+      await callService.updateCallStatus(this.callSid, 'COMPLETED', new Date());
+      await JobProcessor.createJob({
+        type: 'summarize_call',
+        payload: { callSessionId: context.sessionId },
+      });
+    }
+
+    await this.handOff(new TwiMLBuilder().hangup().build());
+  }
+
+  /**
+   * Give call control back to TwiML and drop the stream
+   */
+  private async handOff(twiml: string) {
+    try {
+      await twilioService.updateCall(this.callSid, twiml);
+    } catch (error) {
+      console.error(`Could not update call ${this.callSid}:`, error);
+    }
+    this.ws.close();
+  }
+
+  /**
+   * Stream a spoken reply. Resolves true once Twilio has played all of it,
+   * false if the caller interrupted or the stream closed first.
+   */
+  private async speak(text: string): Promise<boolean> {
+    if (!text || this.closed) return false;
+
+    const playback = ++this.playbackId;
+    const synthesis = new AbortController();
+    this.synthesis = synthesis;
+    this.playing = true;
+
+    try {
+      for await (const audio of speechService.synthesize(text, this.voice, synthesis.signal)) {
+        if (playback !== this.playbackId) return false;
+        this.sendAudio(audio);
+      }
+    } catch (error) {
+      if (!synthesis.signal.aborted) {
+        console.error('Speech synthesis error:', error);
+        this.playing = false;
+      }
+      return false;
+    }
+
+    if (playback !== this.playbackId || this.closed) return false;
+
+    // Twilio echoes the mark back once everything queued before it has played
+    const name = `reply-${playback}`;
+    this.send({ event: 'mark', streamSid: this.streamSid, mark: { name } });
+
+    return new Promise(resolve => this.pendingMarks.set(name, resolve));
+  }
+
+  /**
+   * Caller started talking: stop the reply and flush Twilio's audio buffer
+   */
+  private bargeIn() {
+    if (!this.playing) return;
+
+    console.log(`✋ Barge-in on ${this.callSid}`);
+    this.stopPlayback();
+    this.send({ event: 'clear', streamSid: this.streamSid });
+  }
+
+  private stopPlayback() {
+    this.playbackId++;
+    this.playing = false;
+    this.synthesis?.abort();
+    this.pendingMarks.forEach(resolve => resolve(false));
+    this.pendingMarks.clear();
+  }
+
+  private sendAudio(audio: Buffer) {
+    for (let offset = 0; offset < audio.length; offset += FRAME_BYTES) {
+      this.send({
+        event: 'media',
+        streamSid: this.streamSid,
+        media: { payload: audio.subarray(offset, offset + FRAME_BYTES).toString('base64') },
+      });
+    }
+  }
+
+  private send(message: Record<string, any>) {
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+}
+
+class MediaStreamServer {
+  private wss?: WebSocketServer;
+
+  /**
+   * Accept Twilio media stream connections on the HTTP server
+   */
+  attach(server: Server) {
+    this.wss = new WebSocketServer({
+      server,
+      path: MEDIA_STREAM_PATH,
+      verifyClient: ({ req }: { req: IncomingMessage }) => this.isSignedByTwilio(req),
+    });
+    this.wss.on('connection', (ws) => new MediaStreamSession(ws));
+    console.log(`🔊 Media streams accepted at ${MEDIA_STREAM_PATH}`);
+  }
+
+  close() {
+    this.wss?.clients.forEach(client => client.close());
+    this.wss?.close();
+  }
+
+  /**
+   * Twilio signs the WebSocket upgrade like a webhook: X-Twilio-Signature
+   * over the stream URL, with no parameters
+   */
+  isSignedByTwilio(req: IncomingMessage): boolean {
+    const signature = req.headers['x-twilio-signature'];
+    const url = `${env.BASE_URL.replace(/^http/, 'ws')}${req.url ?? ''}`;
+    const valid = typeof signature === 'string' &&
+      twilioService.validateRequest(env.TWILIO_AUTH_TOKEN, signature, url, {});
+
+    if (!valid) {
+      console.error('Rejecting media stream connection without a valid Twilio signature');
+    }
+    return valid;
+  }
+
+  /**
+   * TwiML that connects a call to the media stream
+   */
+  createTwiML(callSid: string, greeting?: string): string {
+    const streamUrl = `${env.BASE_URL.replace(/^http/, 'ws')}${MEDIA_STREAM_PATH}`;
+    const parameters: Record<string, string> = { callSid };
+    if (greeting) {
+      parameters.greeting = greeting;
+    }
+    return createMediaStreamTwiML(streamUrl, parameters, `${env.BASE_URL}/twilio/gather`);
+  }
+}
+
+export const mediaStreamServer = new MediaStreamServer();
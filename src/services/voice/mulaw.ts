@@ -0,0 +1,178 @@
+/**
+ * G.711 μ-law codec and WAV helpers for Twilio Media Streams.
+ * Twilio sends and expects 8kHz mono μ-law; OpenAI speech APIs work in 16-bit PCM.
+ */
+
+export const MULAW_SAMPLE_RATE = 8000;
+export const FRAME_MS = 20;
+export const FRAME_BYTES = (MULAW_SAMPLE_RATE * FRAME_MS) / 1000;
+
+const BIAS = 0x84;
+const CLIP = 32635;
+
+/**
+ * Decode one μ-law byte to a 16-bit sample
+ */
+export function decodeSample(byte: number): number {
+  const value = ~byte & 0xff;
+  const sign = value & 0x80;
+  const exponent = (value >> 4) & 0x07;
+  const mantissa = value & 0x0f;
+  const sample = (((mantissa << 3) + BIAS) << exponent) - BIAS;
+  return sign ? -sample : sample;
+}
+
+/**
+ * Encode one 16-bit sample as μ-law
+ */
+export function encodeSample(sample: number): number {
+  const sign = sample < 0 ? 0x80 : 0;
+  let magnitude = Math.min(Math.abs(sample), CLIP) + BIAS;
+
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
+
+export function decodeMulaw(payload: Buffer): Int16Array {
+  const samples = new Int16Array(payload.length);
+  for (let i = 0; i < payload.length; i++) {
+    samples[i] = decodeSample(payload[i]);
+  }
+  return samples;
+}
+
+export function encodeMulaw(samples: Int16Array): Buffer {
+  const payload = Buffer.alloc(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    payload[i] = encodeSample(samples[i]);
+  }
+  return payload;
+}
+
+/**
+ * Resample 16-bit PCM by linear interpolation
+ */
+export function resample(samples: Int16Array, fromRate: number, toRate: number): Int16Array {
+  if (fromRate === toRate) return samples;
+
+  const length = Math.floor((samples.length * toRate) / fromRate);
+  const output = new Int16Array(length);
+  const ratio = fromRate / toRate;
+
+  for (let i = 0; i < length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    const fraction = position - index;
+    output[i] = Math.round(samples[index] * (1 - fraction) + samples[next] * fraction);
+  }
+
+  return output;
+}
+
+/**
+ * Read little-endian 16-bit PCM from a buffer
+ */
+export function pcmFromBuffer(buffer: Buffer): Int16Array {
+  const samples = new Int16Array(Math.floor(buffer.length / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = buffer.readInt16LE(i * 2);
+  }
+  return samples;
+}
+
+/**
+ * Root-mean-square energy of a block of samples
+ */
+export function rms(samples: Int16Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+/**
+ * Wrap mono 16-bit PCM in a WAV container
+ */
+export function encodeWav(samples: Int16Array, sampleRate: number): Buffer {
+  const dataLength = samples.length * 2;
+  const buffer = Buffer.alloc(44 + dataLength);
+
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + dataLength, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(dataLength, 40);
+
+  for (let i = 0; i < samples.length; i++) {
+    buffer.writeInt16LE(samples[i], 44 + i * 2);
+  }
+
+  return buffer;
+}
+
+/**
+ * Read a PCM or μ-law WAV file as mono 16-bit samples.
+ * Multi-channel audio is reduced to its first channel.
+ */
+export function decodeWav(buffer: Buffer): { samples: Int16Array; sampleRate: number } {
+  if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let offset = 12;
+  let format = 0;
+  let channels = 1;
+  let sampleRate = 0;
+  let bitsPerSample = 16;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      format = buffer.readUInt16LE(body);
+      channels = buffer.readUInt16LE(body + 2);
+      sampleRate = buffer.readUInt32LE(body + 4);
+      bitsPerSample = buffer.readUInt16LE(body + 14);
+    } else if (chunkId === 'data') {
+      const data = buffer.subarray(body, Math.min(body + chunkSize, buffer.length));
+      const bytesPerSample = bitsPerSample / 8;
+      const frameCount = Math.floor(data.length / (bytesPerSample * channels));
+      const samples = new Int16Array(frameCount);
+
+      for (let i = 0; i < frameCount; i++) {
+        const position = i * bytesPerSample * channels;
+        if (format === 1 && bitsPerSample === 16) {
+          samples[i] = data.readInt16LE(position);
+        } else if (format === 7 && bitsPerSample === 8) {
+          samples[i] = decodeSample(data[position]);
+        } else {
+          throw new Error(`Unsupported WAV encoding (format ${format}, ${bitsPerSample}-bit)`);
+        }
+      }
+
+      return { samples, sampleRate };
+    }
+
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
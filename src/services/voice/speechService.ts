@@ -0,0 +1,84 @@
+import { llmService } from '../ai/llmService';
+import {
+  SPEECH_SAMPLE_RATE,
+  SpeechProvider,
+  TranscriptionHandlers,
+  TranscriptionStream,
+} from '../ai/providers/llmProvider';
+import { encodeMulaw, MULAW_SAMPLE_RATE } from './mulaw';
+
+const TTS_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'] as const;
+export type TTSVoice = typeof TTS_VOICES[number];
+
+const DEFAULT_VOICE: TTSVoice = 'alloy';
+const DOWNSAMPLE_FACTOR = SPEECH_SAMPLE_RATE / MULAW_SAMPLE_RATE;
+
+class SpeechService {
+  /**
+   * Resolved on each use; providers are created lazily, so deployments
+   * running another LLM provider without an OpenAI key can still start
+   */
+  private get provider(): SpeechProvider {
+    return llmService.getSpeechProvider();
+  }
+
+  /**
+   * Map ReceptionistConfig.voiceModel to a TTS voice
+   */
+  resolveVoice(voiceModel?: string | null): TTSVoice {
+    const voice = voiceModel?.toLowerCase();
+    return (TTS_VOICES as readonly string[]).includes(voice || '') ? voice as TTSVoice : DEFAULT_VOICE;
+  }
+
+  /**
+   * Start recognizing a call's audio as it streams in
+   */
+  startTranscription(handlers: TranscriptionHandlers): TranscriptionStream {
+    return this.provider.startTranscription(handlers);
+  }
+
+  /**
+   * Transcribe a whole recording (e.g. a voicemail). Throws on failure so
+   * the caller can retry.
+   */
+  async transcribeRecording(audio: Buffer, filename: string = 'recording.mp3'): Promise<string> {
+    return this.provider.transcribe(audio, filename);
+  }
+
+  /**
+   * Synthesize speech as 8kHz μ-law, yielding audio as it arrives
+   * so playback can start before the whole reply is rendered.
+   */
+  async *synthesize(text: string, voice: TTSVoice, signal?: AbortSignal): AsyncGenerator<Buffer> {
+    // 24kHz 16-bit PCM arrives in arbitrary chunks; carry partial samples between them
+    let pending = Buffer.alloc(0);
+
+    for await (const chunk of this.provider.synthesize(text, voice, signal)) {
+      if (signal?.aborted) return;
+
+      pending = Buffer.concat([pending, Buffer.from(chunk)]);
+      const usableSamples = Math.floor(pending.length / 2 / DOWNSAMPLE_FACTOR) * DOWNSAMPLE_FACTOR;
+      if (usableSamples === 0) continue;
+
+      yield encodeMulaw(this.downsample(pending.subarray(0, usableSamples * 2)));
+      pending = pending.subarray(usableSamples * 2);
+    }
+  }
+
+  /**
+   * Average each group of samples down to telephone rate
+   */
+  private downsample(pcm: Buffer): Int16Array {
+    const output = new Int16Array(pcm.length / 2 / DOWNSAMPLE_FACTOR);
+    for (let i = 0; i < output.length; i++) {
+      let sum = 0;
+      for (let j = 0; j < DOWNSAMPLE_FACTOR; j++) {
+        sum += pcm.readInt16LE((i * DOWNSAMPLE_FACTOR + j) * 2);
+      }
+      output[i] = Math.round(sum / DOWNSAMPLE_FACTOR);
+    }
+    return output;
+  }
+}
+
+export const speechService = new SpeechService();
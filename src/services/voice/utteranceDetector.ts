@@ -0,0 +1,106 @@
+import { FRAME_MS, rms } from './mulaw';
+
+export interface UtteranceDetectorOptions {
+  energyThreshold?: number;   // RMS level that counts as voice
+  speechStartMs?: number;     // Voiced audio needed before speech starts
+  silenceMs?: number;         // Silence that ends an utterance
+  maxUtteranceMs?: number;    // Hard cap on a single utterance
+  preRollMs?: number;         // Audio kept from before speech started
+}
+
+export type UtteranceEvent =
+  | { type: 'speech_start' }
+  | { type: 'utterance'; samples: Int16Array; durationMs: number };
+
+/**
+ * Energy-based voice activity detector. Feeds on 20ms frames and reports
+ * when the caller starts talking (for barge-in) and each finished utterance
+ * (for recognition), so a turn can be transcribed as soon as the caller pauses.
+ */
+export class UtteranceDetector {
+  private options: Required<UtteranceDetectorOptions>;
+  private speaking = false;
+  private voicedMs = 0;
+  private silenceMs = 0;
+  private frames: Int16Array[] = [];
+  private preRoll: Int16Array[] = [];
+
+  constructor(options: UtteranceDetectorOptions = {}) {
+    this.options = {
+      energyThreshold: options.energyThreshold ?? 600,
+      speechStartMs: options.speechStartMs ?? 200,
+      silenceMs: options.silenceMs ?? 700,
+      maxUtteranceMs: options.maxUtteranceMs ?? 15000,
+      preRollMs: options.preRollMs ?? 200,
+    };
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /**
+   * Process one frame of audio
+   */
+  push(frame: Int16Array): UtteranceEvent[] {
+    const events: UtteranceEvent[] = [];
+    const voiced = rms(frame) >= this.options.energyThreshold;
+
+    if (!this.speaking) {
+      this.preRoll.push(frame);
+      const maxPreRollFrames = Math.ceil((this.options.preRollMs + this.options.speechStartMs) / FRAME_MS);
+      if (this.preRoll.length > maxPreRollFrames) {
+        this.preRoll.shift();
+      }
+
+      this.voicedMs = voiced ? this.voicedMs + FRAME_MS : 0;
+
+      if (this.voicedMs >= this.options.speechStartMs) {
+        this.speaking = true;
+        this.silenceMs = 0;
+        this.frames = this.preRoll;
+        this.preRoll = [];
+        events.push({ type: 'speech_start' });
+      }
+
+      return events;
+    }
+
+    this.frames.push(frame);
+    this.silenceMs = voiced ? 0 : this.silenceMs + FRAME_MS;
+
+    const durationMs = this.frames.length * FRAME_MS;
+    if (this.silenceMs >= this.options.silenceMs || durationMs >= this.options.maxUtteranceMs) {
+      events.push(this.finish());
+    }
+
+    return events;
+  }
+
+  /**
+   * End the current utterance early, e.g. when the stream closes
+   */
+  flush(): UtteranceEvent[] {
+    return this.speaking ? [this.finish()] : [];
+  }
+
+  private finish(): UtteranceEvent {
+    // Drop the trailing silence that ended the utterance
+    const trailingFrames = Math.floor(this.silenceMs / FRAME_MS);
+    const frames = this.frames.slice(0, this.frames.length - trailingFrames);
+
+    const samples = new Int16Array(frames.reduce((total, frame) => total + frame.length, 0));
+    let offset = 0;
+    for (const frame of frames) {
+      samples.set(frame, offset);
+      offset += frame.length;
+    }
+
+    this.speaking = false;
+    this.voicedMs = 0;
+    this.silenceMs = 0;
+    this.frames = [];
+
+    return { type: 'utterance', samples, durationMs: frames.length * FRAME_MS };
+  }
+}
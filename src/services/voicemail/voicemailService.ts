@@ -0,0 +1,343 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../../db/prisma';
+import { env } from '../../config/env';
+import { JobProcessor } from '../jobs/jobProcessor';
+import { emailService } from '../jobs/emailService';
+import { twilioService } from '../twilio/twilioService';
+import { speechService } from '../voice/speechService';
+import { callService } from '../call/callService';
+import { redactionService } from '../call/redactionService';
+import { RecordingDeletion } from '../storage/recordingStorageService';
+import { callActivityService } from '../crm/callActivityService';
+import { callerIdService } from '../crm/callerIdService';
+import { toE164 } from '../crm/phoneNumber';
+import { createVoicemailTwiML } from '../twilio/twimlBuilder';
+
+export const DEFAULT_VOICEMAIL_PROMPT = 'Please leave a message after the beep, and we will get back to you soon.';
+export const VOICEMAIL_MAX_SECONDS = 120;
+
+// Playback links in notifications stop working after this long
+const PLAYBACK_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Recordings shorter than this are hang-ups, not messages
+const MIN_VOICEMAIL_SECONDS = 2;
+const SMS_TRANSCRIPT_LENGTH = 300;
+
+export interface VoicemailFilters {
+  view?: 'new' | 'mine' | 'all';
+  userId?: string;
+}
+
+export class VoicemailService {
+  /**
+   * TwiML that records a voicemail into the inbox
+   */
+  recordTwiML(prompt?: string | null): string {
+    return createVoicemailTwiML(
+      prompt || DEFAULT_VOICEMAIL_PROMPT,
+      `${env.BASE_URL}/twilio/voicemail-recording`,
+      `${env.BASE_URL}/twilio/voicemail-complete`,
+      VOICEMAIL_MAX_SECONDS
+    );
+  }
+
+  /**
+   * Save a finished voicemail recording and queue its transcription.
+   * Known callers' voicemails are assigned to their contact's owner.
+   */
+  async createFromRecording(params: {
+    callSid: string;
+    recordingSid: string;
+    recordingUrl: string;
+    duration?: number;
+  }) {
+    const session = await callService.getCallSessionByCallSid(params.callSid);
+    if (!session) {
+      return null;
+    }
+
+    if ((params.duration ?? 0) < MIN_VOICEMAIL_SECONDS) {
+      return null;
+    }
+
+    const existing = await prisma.voicemail.findUnique({ where: { recordingSid: params.recordingSid } });
+    if (existing) {
+      return existing;
+    }
+
+    const contactId = await callerIdService.findContactId(session.tenantId, session.fromNumber);
+    const contact = contactId
+      ? await prisma.contact.findUnique({ where: { id: contactId }, select: { ownerId: true } })
+      : null;
+
+    const voicemail = await prisma.voicemail.create({
+      data: {
+        tenantId: session.tenantId,
+        callSessionId: session.id,
+        contactId,
+        assignedToId: contact?.ownerId,
+        recordingSid: params.recordingSid,
+        recordingUrl: params.recordingUrl,
+        duration: params.duration,
+        fromNumber: session.fromNumber,
+      },
+    });
+
+    await callService.logCallEvent({
+      callSessionId: session.id,
+      eventType: 'voicemail',
+      data: JSON.stringify({ voicemailId: voicemail.id, duration: params.duration }),
+    });
+
+    await JobProcessor.createJob({
+      type: 'transcribe_voicemail',
+      payload: { voicemailId: voicemail.id },
+    });
+
+    return voicemail;
+  }
+
+  /**
+   * Job handler: transcribe, then put it on the timeline and notify. A
+   * transcription that keeps failing still notifies on the last attempt.
+   */
+  async transcribe(voicemailId: string, isLastAttempt: boolean): Promise<boolean> {
+    const voicemail = await prisma.voicemail.findUnique({ where: { id: voicemailId } });
+    if (!voicemail) {
+      return true;
+    }
+
+    if (voicemail.transcriptionStatus === 'PENDING') {
+      try {
+        const audio = await twilioService.downloadRecording(voicemail.recordingUrl);
+        const transcript = await speechService.transcribeRecording(audio, `${voicemail.recordingSid}.mp3`);
+        const redactor = await redactionService.forTenant(voicemail.tenantId);
+
+        await prisma.voicemail.update({
+          where: { id: voicemail.id },
+          data: {
+            transcript: transcript ? redactor.redact(transcript) : null,
+            encryptedTranscript: transcript && redactor.keepOriginals ? redactionService.encrypt(transcript) : null,
+            transcriptionStatus: 'COMPLETED',
+          },
+        });
+      } catch (error) {
+        console.error('Voicemail transcription error:', error);
+        if (!isLastAttempt) {
+          return false;
+        }
+        await prisma.voicemail.update({ where: { id: voicemail.id }, data: { transcriptionStatus: 'FAILED' } });
+      }
+    }
+
+    try {
+      await callActivityService.logVoicemail(voicemail.id);
+    } catch (error) {
+      console.error('Voicemail activity logging error:', error);
+    }
+
+    await this.notify(voicemail.id);
+    return true;
+  }
+
+  // ============================================
+  // INBOX
+  // ============================================
+
+  async list(tenantId: string, filters: VoicemailFilters = {}) {
+    const where: Prisma.VoicemailWhereInput = { tenantId };
+
+    if (filters.view === 'new') {
+      where.listenedAt = null;
+    } else if (filters.view === 'mine') {
+      where.assignedToId = filters.userId;
+    }
+
+    return prisma.voicemail.findMany({
+      where,
+      include: {
+        contact: { select: { id: true, fullName: true } },
+        assignedTo: { select: { id: true, firstName: true, lastName: true, email: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+  }
+
+  async countNew(tenantId: string) {
+    return prisma.voicemail.count({ where: { tenantId, listenedAt: null } });
+  }
+
+  async find(id: string, tenantId: string) {
+    return prisma.voicemail.findFirst({ where: { id, tenantId } });
+  }
+
+  async setListened(id: string, tenantId: string, listened: boolean) {
+    const result = await prisma.voicemail.updateMany({
+      where: { id, tenantId, ...(listened && { listenedAt: null }) },
+      data: { listenedAt: listened ? new Date() : null },
+    });
+    return result.count > 0;
+  }
+
+  async assign(id: string, tenantId: string, userId: string | null) {
+    if (userId) {
+      const user = await prisma.user.findFirst({ where: { id: userId, tenantId, isActive: true } });
+      if (!user) {
+        throw new Error('Team member not found');
+      }
+    }
+
+    const result = await prisma.voicemail.updateMany({
+      where: { id, tenantId },
+      data: { assignedToId: userId },
+    });
+    if (result.count === 0) {
+      throw new Error('Voicemail not found');
+    }
+  }
+
+  /**
+   * Delete the voicemail and its recording at Twilio, logged like a call
+   * recording deletion
+   */
+  async delete(id: string, tenantId: string, deletion: RecordingDeletion) {
+    const voicemail = await prisma.voicemail.findFirst({ where: { id, tenantId } });
+    if (!voicemail) {
+      throw new Error('Voicemail not found');
+    }
+
+    await twilioService.deleteRecording(voicemail.recordingSid);
+
+    await prisma.$transaction([
+      prisma.voicemail.delete({ where: { id: voicemail.id } }),
+      prisma.auditLog.create({
+        data: {
+          tenantId,
+          userId: deletion.userId,
+          action: 'delete',
+          resource: 'voicemail',
+          resourceId: voicemail.id,
+          ipAddress: deletion.ipAddress,
+          details: JSON.stringify({
+            reason: deletion.reason,
+            callSessionId: voicemail.callSessionId,
+            recordingSid: voicemail.recordingSid,
+            recordedAt: voicemail.createdAt,
+          }),
+        },
+      }),
+    ]);
+  }
+
+  async getAudio(voicemail: { recordingUrl: string }): Promise<Buffer> {
+    return twilioService.downloadRecording(voicemail.recordingUrl);
+  }
+
+  // ============================================
+  // PLAYBACK LINKS
+  // ============================================
+
+  /**
+   * Link that plays the voicemail without logging in, for notifications
+   */
+  playbackUrl(voicemailId: string, now: Date = new Date()): string {
+    const expires = now.getTime() + PLAYBACK_LINK_TTL_MS;
+    return `${env.BASE_URL}/voicemail/${voicemailId}/audio?expires=${expires}&sig=${this.sign(voicemailId, expires)}`;
+  }
+
+  isValidPlayback(voicemailId: string, expires: string, signature: string): boolean {
+    const expiresAt = parseInt(expires, 10);
+    if (!expiresAt || expiresAt < Date.now()) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(voicemailId, expiresAt));
+    const given = Buffer.from(String(signature || ''));
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  }
+
+  // ============================================
+  // PRIVATE
+  // ============================================
+
+  private sign(voicemailId: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', env.SESSION_SECRET)
+      .update(`voicemail:${voicemailId}:${expires}`)
+      .digest('base64url');
+  }
+
+  /**
+   * Email the assignee (or the tenant admins) and text the tenant's
+   * notification numbers. Runs once per voicemail.
+   */
+  private async notify(voicemailId: string) {
+    const voicemail = await prisma.voicemail.findUnique({
+      where: { id: voicemailId },
+      include: {
+        tenant: { include: { receptionistConfig: true } },
+        callSession: { include: { twilioNumber: true } },
+        contact: { select: { fullName: true } },
+        assignedTo: { select: { email: true, isActive: true } },
+      },
+    });
+
+    if (!voicemail || voicemail.notifiedAt) {
+      return;
+    }
+
+    await prisma.voicemail.update({ where: { id: voicemail.id }, data: { notifiedAt: new Date() } });
+
+    const config = voicemail.tenant.receptionistConfig;
+    const playbackUrl = this.playbackUrl(voicemail.id);
+    const callerName = voicemail.contact?.fullName || undefined;
+
+    if (config?.voicemailEmailNotify !== false) {
+      const recipients = voicemail.assignedTo?.isActive
+        ? [voicemail.assignedTo.email]
+        : (await prisma.user.findMany({
+            where: { tenantId: voicemail.tenantId, role: 'TENANT_ADMIN', isActive: true },
+            select: { email: true },
+          })).map(u => u.email);
+
+      for (const to of recipients) {
+        await emailService.sendVoicemailNotification({
+          tenantName: voicemail.tenant.name,
+          to,
+          callerName,
+          callerNumber: voicemail.fromNumber,
+          duration: voicemail.duration,
+          transcript: voicemail.transcript,
+          playbackUrl,
+          inboxUrl: `${env.BASE_URL}/tenant/voicemail`,
+          receivedAt: voicemail.createdAt,
+        });
+      }
+    }
+
+    const numbers = (config?.voicemailSmsNumbers || '')
+      .split(',')
+      .map(n => toE164(n.trim()))
+      .filter((n): n is string => !!n);
+
+    if (numbers.length > 0 && voicemail.callSession.twilioNumber.status === 'ACTIVE') {
+      const transcript = voicemail.transcript && voicemail.transcript.length > SMS_TRANSCRIPT_LENGTH
+        ? `${voicemail.transcript.slice(0, SMS_TRANSCRIPT_LENGTH)}...`
+        : voicemail.transcript;
+      const body = `New voicemail from ${callerName ? `${callerName} (${voicemail.fromNumber})` : voicemail.fromNumber}` +
+        (transcript ? `: "${transcript}"` : '') +
+        `\nListen: ${playbackUrl}`;
+
+      for (const to of numbers) {
+        try {
+          await twilioService.sendSMS({ to, from: voicemail.callSession.twilioNumber.phoneNumber, body });
+        } catch (error) {
+          console.error('Voicemail SMS notification error:', error);
+        }
+      }
+    }
+  }
+}
+
+export const voicemailService = new VoicemailService();
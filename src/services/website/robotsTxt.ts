@@ -0,0 +1,94 @@
+/**
+ * robots.txt parsing and the path patterns it uses, which also back the
+ * include/exclude patterns tenants set on a website. A pattern matches from
+ * the start of the path; "*" matches anything and a trailing "$" anchors
+ * the end, so "/blog/" covers the whole blog and "*.pdf$" every PDF.
+ */
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelayMs?: number;
+  sitemaps: string[];
+}
+
+export const ALLOW_ALL: RobotsRules = { allow: [], disallow: [], sitemaps: [] };
+
+function toRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+export function matchesPattern(pattern: string, path: string): boolean {
+  return toRegExp(pattern).test(path);
+}
+
+/**
+ * Rules for our crawler: the group naming its user agent if there is one,
+ * otherwise the "*" group. Sitemap lines apply whatever the group.
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const agent = userAgent.toLowerCase();
+  const groups: { agents: string[]; rules: RobotsRules }[] = [];
+  const sitemaps: string[] = [];
+  let current: { agents: string[]; rules: RobotsRules } | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: { allow: [], disallow: [], sitemaps: [] } };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === 'allow' && value) {
+      current.rules.allow.push(value);
+    } else if (field === 'disallow' && value) {
+      current.rules.disallow.push(value);
+    } else if (field === 'crawl-delay') {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds > 0) {
+        current.rules.crawlDelayMs = seconds * 1000;
+      }
+    }
+  }
+
+  const group = groups.find(g => g.agents.some(name => name !== '*' && agent.includes(name)))
+    || groups.find(g => g.agents.includes('*'));
+
+  return { ...(group?.rules || ALLOW_ALL), sitemaps };
+}
+
+/**
+ * The longest matching rule decides; an allow wins a tie
+ */
+export function isAllowed(rules: RobotsRules, path: string): boolean {
+  const longest = (patterns: string[]) =>
+    patterns.filter(pattern => matchesPattern(pattern, path)).reduce((max, pattern) => Math.max(max, pattern.length), -1);
+
+  return longest(rules.allow) >= longest(rules.disallow);
+}
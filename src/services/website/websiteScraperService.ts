@@ -1,7 +1,20 @@
+import crypto from 'crypto';
+import zlib from 'zlib';
 import axios from 'axios';
 import * as cheerio from 'cheerio';
+import { Prisma, WebsitePage, WebsiteSource } from '@prisma/client';
 import prisma from '../../db/prisma';
-import { embedText } from '../ai/embeddingService';
+import { embedTextBatch } from '../ai/embeddingService';
+import { JobProcessor } from '../jobs/jobProcessor';
+import { ALLOW_ALL, RobotsRules, isAllowed, matchesPattern, parseRobotsTxt } from './robotsTxt';
+
+export const REFRESH_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+// Websites with weekly refresh on are crawled again once their last crawl is this old
+const REFRESH_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; AIVoiceReceptionist/1.0; +https://example.com/bot)';
+// Name matched against robots.txt user-agent lines
+const ROBOTS_AGENT = 'AIVoiceReceptionist';
 
 interface ScrapedPage {
   url: string;
@@ -10,24 +23,71 @@ interface ScrapedPage {
   links: string[];
 }
 
-interface ContentChunk {
+type FetchResult =
+  | { status: 'ok'; page: ScrapedPage; etag?: string; lastModified?: string }
+  | { status: 'not_modified' }
+  | { status: 'gone' }    // 404, 410 or not a web page
+  | { status: 'error' };  // worth trying again next crawl
+
+export interface ContentChunk {
   content: string;
   tokenCount: number;
 }
 
+export interface WebsiteSettings {
+  includePatterns?: string | null;
+  excludePatterns?: string | null;
+  weeklyRefresh?: boolean;
+}
+
+/**
+ * Everything a crawl needs between batches, saved on the website source
+ */
+interface CrawlState {
+  crawlId: string;
+  startedAt: string;
+  seeded: boolean;      // robots.txt and sitemaps read
+  queue: string[];
+  visited: string[];
+  robots: RobotsRules;
+  truncated: boolean;   // stopped at MAX_PAGES, so unvisited pages may still exist
+  indexed: number;
+  changed: number;
+  removed: number;
+}
+
+interface UrlFilters {
+  include: string[];
+  exclude: string[];
+}
+
+function patternLines(text: string | null | undefined): string[] {
+  return String(text || '').split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+function pathOf(url: string): string {
+  const parsed = new URL(url);
+  return parsed.pathname + parsed.search;
+}
+
 export class WebsiteScraperService {
   private readonly MAX_PAGES = 100; // Limit pages per website
   private readonly MAX_CHUNK_TOKENS = 500; // Tokens per chunk
   private readonly CHARS_PER_TOKEN = 4; // Approximate
   private readonly CRAWL_DELAY_MS = 500; // Delay between requests
+  private readonly MAX_CRAWL_DELAY_MS = 10000; // Cap on a robots.txt Crawl-delay
   private readonly MAX_REDIRECT_DEPTH = 3; // Follow limited client-side redirects
-  private visited = new Set<string>();
-  private queue: string[] = [];
+  private readonly CRAWL_BATCH_PAGES = 20; // Pages per job, so other jobs aren't held up
+  private readonly MAX_SITEMAPS = 10; // Sitemap files read per crawl, including index files
+  private readonly MAX_PAGE_BYTES = 5 * 1024 * 1024; // Larger pages are skipped
+  private readonly MAX_SITEMAP_BYTES = 50 * 1024 * 1024; // The sitemap protocol's limit, also applied after gunzip
+  private readonly STALE_CRAWL_MS = 30 * 60 * 1000; // A crawl with no progress for this long is restarted
 
   /**
-   * Start scraping a website
+   * Start scraping a website. A website that was scanned before keeps its
+   * pages; the new crawl only re-embeds what changed.
    */
-  async scrapeWebsite(tenantId: string, websiteUrl: string): Promise<string> {
+  async scrapeWebsite(tenantId: string, websiteUrl: string, settings: WebsiteSettings = {}): Promise<string> {
     try {
       const url = new URL(websiteUrl);
       const domain = url.hostname;
@@ -38,47 +98,22 @@ export class WebsiteScraperService {
       });
 
       if (websiteSource) {
-        // Update existing source
         websiteSource = await prisma.websiteSource.update({
           where: { id: websiteSource.id },
-          data: {
-            status: 'SCRAPING',
-            url: websiteUrl,
-            pagesFound: 0,
-            pagesScraped: 0,
-            errorMessage: null,
-          },
-        });
-
-        // Delete old content
-        await prisma.websiteContent.deleteMany({
-          where: { websiteSourceId: websiteSource.id },
+          data: { url: websiteUrl, ...settings },
         });
       } else {
-        // Create new source
         websiteSource = await prisma.websiteSource.create({
           data: {
             tenantId,
             domain,
             url: websiteUrl,
-            status: 'SCRAPING',
+            ...settings,
           },
         });
       }
 
-      // Start crawling in background
-      this.crawlWebsite(websiteSource.id, tenantId, websiteUrl, domain).catch(
-        async (error) => {
-          console.error('Crawl error:', error);
-          await prisma.websiteSource.update({
-            where: { id: websiteSource!.id },
-            data: {
-              status: 'FAILED',
-              errorMessage: error instanceof Error ? error.message : String(error),
-            },
-          });
-        }
-      );
+      await this.startCrawl(websiteSource.id);
 
       return websiteSource.id;
     } catch (error) {
@@ -88,87 +123,428 @@ export class WebsiteScraperService {
   }
 
   /**
-   * Crawl website recursively
+   * Normalize include/exclude patterns, one per line. Throws with the
+   * offending line.
    */
-  private async crawlWebsite(
-    websiteSourceId: string,
-    tenantId: string,
-    startUrl: string,
-    allowedDomain: string
-  ): Promise<void> {
-    this.visited.clear();
-    this.queue = [startUrl];
+  parsePatterns(text: string | null | undefined): string | null {
+    const lines = patternLines(text);
+    for (const line of lines) {
+      if (!line.startsWith('/') && !line.startsWith('*')) {
+        throw new Error(`URL patterns must start with / or *: ${line}`);
+      }
+    }
+    return lines.length > 0 ? lines.join('\n') : null;
+  }
 
-    const allPages: ScrapedPage[] = [];
+  async updateSettings(websiteSourceId: string, settings: WebsiteSettings) {
+    return prisma.websiteSource.update({
+      where: { id: websiteSourceId },
+      data: settings,
+    });
+  }
+
+  // ============================================
+  // CRAWLING
+  // ============================================
+
+  /**
+   * Queue a crawl unless one is already running. Returns false if it is.
+   */
+  async startCrawl(websiteSourceId: string): Promise<boolean> {
+    const source = await prisma.websiteSource.findUnique({ where: { id: websiteSourceId } });
+    if (!source) {
+      return false;
+    }
 
-    while (this.queue.length > 0 && this.visited.size < this.MAX_PAGES) {
-      const url = this.queue.shift()!;
+    const running = source.status === 'SCRAPING' && source.crawlState !== null;
+    if (running && Date.now() - source.updatedAt.getTime() < this.STALE_CRAWL_MS) {
+      return false;
+    }
 
-      if (this.visited.has(url)) continue;
-      this.visited.add(url);
+    const state: CrawlState = {
+      crawlId: crypto.randomUUID(),
+      startedAt: new Date().toISOString(),
+      seeded: false,
+      queue: [source.url],
+      visited: [],
+      robots: ALLOW_ALL,
+      truncated: false,
+      indexed: 0,
+      changed: 0,
+      removed: 0,
+    };
 
-      try {
-        const page = await this.scrapePage(url, allowedDomain);
-        if (page) {
-          allPages.push(page);
-
-          // Add new links to queue
-          for (const link of page.links) {
-            if (!this.visited.has(link) && !this.queue.includes(link)) {
-              this.queue.push(link);
-            }
-          }
+    await prisma.websiteSource.update({
+      where: { id: source.id },
+      data: {
+        status: 'SCRAPING',
+        pagesFound: 0,
+        pagesScraped: 0,
+        errorMessage: null,
+        crawlState: state as unknown as Prisma.InputJsonValue,
+      },
+    });
+    await this.queueBatch(source.id, state.crawlId);
+
+    return true;
+  }
+
+  private async queueBatch(websiteSourceId: string, crawlId: string) {
+    await JobProcessor.createJob({
+      type: 'crawl_website',
+      payload: { websiteSourceId, crawlId },
+    });
+  }
+
+  /**
+   * Job handler: crawl the next batch of pages, then queue the next batch
+   * or finish. Jobs from a crawl that has since been restarted or deleted
+   * do nothing.
+   */
+  async crawlBatch(websiteSourceId: string, crawlId: string, isLastAttempt: boolean): Promise<boolean> {
+    const source = await prisma.websiteSource.findUnique({ where: { id: websiteSourceId } });
+    const state = source?.crawlState as unknown as CrawlState | null;
+    if (!source || !state || state.crawlId !== crawlId) {
+      return true;
+    }
+
+    try {
+      const filters: UrlFilters = {
+        include: patternLines(source.includePatterns),
+        exclude: patternLines(source.excludePatterns),
+      };
+
+      if (!state.seeded) {
+        await this.seed(source, state, filters);
+      }
+
+      const delay = Math.min(Math.max(state.robots.crawlDelayMs || 0, this.CRAWL_DELAY_MS), this.MAX_CRAWL_DELAY_MS);
+      let fetched = 0;
+
+      while (state.queue.length > 0 && fetched < this.CRAWL_BATCH_PAGES) {
+        if (state.visited.length >= this.MAX_PAGES) {
+          state.truncated = true;
+          break;
         }
 
-        // Update progress even if the page had no usable content
+        const url = state.queue.shift()!;
+        if (state.visited.includes(url)) continue;
+        state.visited.push(url);
+        fetched++;
+
+        await this.crawlPage(source, state, url, filters);
+
+        // Progress, which also shows the crawl is still alive
         await prisma.websiteSource.update({
-          where: { id: websiteSourceId },
+          where: { id: source.id },
           data: {
-            pagesFound: this.visited.size,
-            pagesScraped: allPages.length,
+            pagesFound: state.visited.length + state.queue.length,
+            pagesScraped: state.indexed,
           },
         });
 
         // Rate limiting
-        await this.sleep(this.CRAWL_DELAY_MS);
-      } catch (error) {
-        console.error(`Error scraping ${url}:`, error);
+        await this.sleep(delay);
+      }
+
+      if (state.queue.length > 0 && !state.truncated) {
+        await prisma.websiteSource.update({
+          where: { id: source.id },
+          data: { crawlState: state as unknown as Prisma.InputJsonValue },
+        });
+        await this.queueBatch(source.id, crawlId);
+      } else {
+        await this.finishCrawl(source, state, filters);
+      }
+
+      return true;
+    } catch (error) {
+      console.error(`Crawl error for ${source.url}:`, error);
+      if (isLastAttempt) {
+        await prisma.websiteSource.update({
+          where: { id: source.id },
+          data: {
+            status: 'FAILED',
+            errorMessage: error instanceof Error ? error.message : String(error),
+            crawlState: Prisma.DbNull,
+          },
+        });
       }
+      return false;
     }
+  }
+
+  /**
+   * Read robots.txt and queue every page the sitemaps list
+   */
+  private async seed(source: WebsiteSource, state: CrawlState, filters: UrlFilters) {
+    const origin = new URL(source.url).origin;
+    state.robots = await this.fetchRobots(origin);
+
+    const sitemaps = state.robots.sitemaps.length > 0 ? state.robots.sitemaps : [`${origin}/sitemap.xml`];
+    for (const url of await this.fetchSitemapUrls(sitemaps, source.domain)) {
+      this.enqueue(state, url, source.domain, filters);
+    }
+
+    state.seeded = true;
+  }
+
+  /**
+   * Whether a URL should be crawled at all
+   */
+  private shouldFollow(url: string, domain: string, state: CrawlState, filters: UrlFilters): boolean {
+    try {
+      const parsed = new URL(url);
+      return (
+        parsed.hostname === domain &&
+        !parsed.pathname.match(/\.(pdf|jpg|jpeg|png|gif|zip|doc|docx|xls|xlsx)$/i) &&
+        isAllowed(state.robots, pathOf(url)) &&
+        this.isIndexable(url, filters)
+      );
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Whether a page passes the website's include/exclude patterns
+   */
+  private isIndexable(url: string, filters: UrlFilters): boolean {
+    const path = pathOf(url);
+    if (filters.exclude.some(pattern => matchesPattern(pattern, path))) {
+      return false;
+    }
+    return filters.include.length === 0 || filters.include.some(pattern => matchesPattern(pattern, path));
+  }
 
-    // Process all pages and store with embeddings
-    for (const page of allPages) {
-      await this.processAndStorePage(websiteSourceId, tenantId, page);
+  private enqueue(state: CrawlState, url: string, domain: string, filters: UrlFilters) {
+    if (state.visited.includes(url) || state.queue.includes(url) || !this.shouldFollow(url, domain, state, filters)) {
+      return;
+    }
+    if (state.visited.length + state.queue.length >= this.MAX_PAGES) {
+      state.truncated = true;
+      return;
     }
+    state.queue.push(url);
+  }
+
+  /**
+   * Fetch one page and store it if it's new or changed. The start URL is
+   * fetched for its links even when the patterns leave it out of the index.
+   */
+  private async crawlPage(source: WebsiteSource, state: CrawlState, url: string, filters: UrlFilters) {
+    if (!isAllowed(state.robots, pathOf(url))) {
+      return;
+    }
+
+    const existing = await prisma.websitePage.findUnique({
+      where: { websiteSourceId_url: { websiteSourceId: source.id, url } },
+    });
+    const indexable = this.isIndexable(url, filters);
+    const result = await this.fetchPage(url, source.domain, existing);
+
+    switch (result.status) {
+      case 'gone':
+        if (existing) {
+          await prisma.websitePage.delete({ where: { id: existing.id } });
+          state.removed++;
+        }
+        return;
+
+      case 'error':
+      case 'not_modified':
+        if (existing) {
+          existing.links.forEach(link => this.enqueue(state, link, source.domain, filters));
+          // Unchanged, or unreachable for now: keep what we have
+          await prisma.websitePage.update({ where: { id: existing.id }, data: { lastSeenAt: new Date() } });
+          state.indexed++;
+        }
+        return;
+    }
+
+    const { page } = result;
+    page.links.forEach(link => this.enqueue(state, link, source.domain, filters));
+
+    if (!indexable || page.content.length < 100) {
+      if (existing) {
+        await prisma.websitePage.delete({ where: { id: existing.id } });
+        state.removed++;
+      }
+      return;
+    }
+
+    const contentHash = crypto.createHash('sha256').update(`${page.title}\n${page.content}`).digest('hex');
+    const pageData = {
+      title: page.title,
+      etag: result.etag || null,
+      lastModified: result.lastModified || null,
+      contentHash,
+      links: page.links,
+      lastSeenAt: new Date(),
+    };
+
+    if (existing?.contentHash === contentHash) {
+      await prisma.websitePage.update({ where: { id: existing.id }, data: pageData });
+    } else {
+      await this.processAndStorePage(source, page, pageData);
+      state.changed++;
+    }
+    state.indexed++;
+  }
+
+  /**
+   * Remove pages that weren't found again or are now excluded, then mark
+   * the crawl done
+   */
+  private async finishCrawl(source: WebsiteSource, state: CrawlState, filters: UrlFilters) {
+    const startedAt = new Date(state.startedAt);
+    const pages = await prisma.websitePage.findMany({
+      where: { websiteSourceId: source.id },
+      select: { id: true, url: true, lastSeenAt: true },
+    });
+
+    // A crawl cut short by MAX_PAGES can't tell a vanished page from an unvisited one
+    const gone = pages.filter(page =>
+      (!state.truncated && page.lastSeenAt < startedAt) ||
+      !isAllowed(state.robots, pathOf(page.url)) ||
+      !this.isIndexable(page.url, filters)
+    );
+
+    if (gone.length > 0) {
+      await prisma.websitePage.deleteMany({ where: { id: { in: gone.map(page => page.id) } } });
+    }
+
+    // Chunks from before pages were tracked; this crawl has replaced them
+    await prisma.websiteContent.deleteMany({
+      where: { websiteSourceId: source.id, pageId: null },
+    });
 
-    // Mark as completed
     await prisma.websiteSource.update({
-      where: { id: websiteSourceId },
+      where: { id: source.id },
       data: {
         status: 'COMPLETED',
         lastScrapedAt: new Date(),
-        pagesScraped: allPages.length,
+        pagesFound: state.visited.length,
+        pagesScraped: pages.length - gone.length,
+        pagesChanged: state.changed,
+        pagesRemoved: state.removed + gone.length,
+        crawlState: Prisma.DbNull,
       },
     });
   }
 
   /**
-   * Scrape a single page
+   * Rules for our crawler. A missing robots.txt allows everything; a server
+   * error fails the batch so it is retried rather than crawling blind.
    */
-  private async scrapePage(
+  private async fetchRobots(origin: string): Promise<RobotsRules> {
+    const response = await axios.get(`${origin}/robots.txt`, {
+      timeout: 10000,
+      headers: { 'User-Agent': USER_AGENT },
+      responseType: 'text',
+      validateStatus: () => true,
+    });
+
+    if (response.status >= 500) {
+      throw new Error(`robots.txt returned ${response.status}`);
+    }
+    if (response.status !== 200 || typeof response.data !== 'string') {
+      return ALLOW_ALL;
+    }
+
+    return parseRobotsTxt(response.data, ROBOTS_AGENT);
+  }
+
+  /**
+   * Page URLs listed in the sitemaps, following sitemap index files.
+   * Sitemaps are optional, so any that fail to load are skipped.
+   */
+  private async fetchSitemapUrls(sitemaps: string[], domain: string): Promise<string[]> {
+    const pending = [...sitemaps];
+    const seen = new Set<string>();
+    const urls: string[] = [];
+
+    while (pending.length > 0 && seen.size < this.MAX_SITEMAPS) {
+      const sitemapUrl = pending.shift()!;
+      if (seen.has(sitemapUrl)) continue;
+      seen.add(sitemapUrl);
+
+      try {
+        const response = await axios.get(sitemapUrl, {
+          timeout: 10000,
+          headers: { 'User-Agent': USER_AGENT },
+          responseType: 'arraybuffer',
+          maxContentLength: this.MAX_SITEMAP_BYTES,
+        });
+
+        let body = Buffer.from(response.data);
+        if (body[0] === 0x1f && body[1] === 0x8b) {
+          body = zlib.gunzipSync(body, { maxOutputLength: this.MAX_SITEMAP_BYTES });
+        }
+
+        const $ = cheerio.load(body.toString('utf8'), { xmlMode: true });
+        $('sitemap > loc').each((_, element) => {
+          pending.push($(element).text().trim());
+        });
+        $('url > loc').each((_, element) => {
+          try {
+            const url = new URL($(element).text().trim());
+            if (url.hostname === domain) {
+              url.hash = '';
+              urls.push(url.toString());
+            }
+          } catch (e) {
+            // Skip invalid URLs
+          }
+        });
+      } catch (error) {
+        if (!(axios.isAxiosError(error) && error.response?.status === 404)) {
+          console.error(`Error reading sitemap ${sitemapUrl}:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+
+    return urls;
+  }
+
+  /**
+   * Fetch a single page, asking the server to skip it if it hasn't changed
+   * since the last crawl
+   */
+  private async fetchPage(
     url: string,
     allowedDomain: string,
+    previous: WebsitePage | null,
     redirectDepth = 0
-  ): Promise<ScrapedPage | null> {
+  ): Promise<FetchResult> {
     try {
+      const headers: Record<string, string> = { 'User-Agent': USER_AGENT };
+      if (previous?.etag) headers['If-None-Match'] = previous.etag;
+      if (previous?.lastModified) headers['If-Modified-Since'] = previous.lastModified;
+
       const response = await axios.get(url, {
         timeout: 10000,
-        headers: {
-          'User-Agent':
-            'Mozilla/5.0 (compatible; AIVoiceReceptionist/1.0; +https://example.com/bot)',
-        },
+        headers,
+        responseType: 'text',
+        maxContentLength: this.MAX_PAGE_BYTES,
+        validateStatus: () => true,
       });
 
+      if (response.status === 304 && previous) {
+        return { status: 'not_modified' };
+      }
+      if (response.status === 404 || response.status === 410) {
+        return { status: 'gone' };
+      }
+      if (response.status >= 400) {
+        return { status: 'error' };
+      }
+
+      const contentType = String(response.headers['content-type'] || '');
+      if (contentType && !contentType.includes('html')) {
+        return { status: 'gone' };
+      }
+
       const $ = cheerio.load(response.data);
 
       const redirectTarget = this.detectClientRedirect($);
@@ -176,7 +552,7 @@ export class WebsiteScraperService {
         try {
           const nextUrl = new URL(redirectTarget, url);
           if (nextUrl.hostname === allowedDomain) {
-            return this.scrapePage(nextUrl.toString(), allowedDomain, redirectDepth + 1);
+            return this.fetchPage(nextUrl.toString(), allowedDomain, null, redirectDepth + 1);
           }
         } catch (redirectError) {
           // Ignore invalid redirect targets and continue with current page
@@ -191,10 +567,10 @@ export class WebsiteScraperService {
 
       // Extract main content
       let content = '';
-      
+
       // Try to find main content area
       const mainSelectors = ['main', 'article', '[role="main"]', '.content', '#content', 'body'];
-      
+
       for (const selector of mainSelectors) {
         const element = $(selector);
         if (element.length > 0) {
@@ -209,11 +585,6 @@ export class WebsiteScraperService {
         .replace(/\n+/g, '\n') // Collapse newlines
         .trim();
 
-      // Skip if too short
-      if (content.length < 100) {
-        return null;
-      }
-
       // Extract links
       const links: string[] = [];
       $('a[href]').each((_, element) => {
@@ -221,13 +592,10 @@ export class WebsiteScraperService {
         if (href) {
           try {
             const absoluteUrl = new URL(href, url);
-            
+
             // Only follow links within the same domain
-            if (
-              absoluteUrl.hostname === allowedDomain &&
-              !absoluteUrl.pathname.match(/\.(pdf|jpg|jpeg|png|gif|zip|doc|docx|xls|xlsx)$/i)
-            ) {
-              // Remove hash and query params for deduplication
+            if (absoluteUrl.hostname === allowedDomain) {
+              // Remove hash for deduplication
               absoluteUrl.hash = '';
               links.push(absoluteUrl.toString());
             }
@@ -238,63 +606,125 @@ export class WebsiteScraperService {
       });
 
       return {
-        url,
-        title,
-        content,
-        links: [...new Set(links)], // Deduplicate
+        status: 'ok',
+        page: {
+          url,
+          title,
+          content,
+          links: [...new Set(links)], // Deduplicate
+        },
+        etag: response.headers['etag'] ? String(response.headers['etag']) : undefined,
+        lastModified: response.headers['last-modified'] ? String(response.headers['last-modified']) : undefined,
       };
     } catch (error) {
-      if (axios.isAxiosError(error) && error.response?.status === 404) {
-        return null; // Skip 404s silently
-      }
-      throw error;
+      console.error(`Error scraping ${url}:`, error instanceof Error ? error.message : error);
+      return { status: 'error' };
     }
   }
 
   /**
-   * Process page content, chunk it, generate embeddings, and store
+   * Process page content, chunk it, generate embeddings, and store. The
+   * page's old chunks are replaced in the same transaction.
    */
   private async processAndStorePage(
-    websiteSourceId: string,
-    tenantId: string,
-    page: ScrapedPage
+    source: WebsiteSource,
+    page: ScrapedPage,
+    pageData: Omit<Prisma.WebsitePageUncheckedCreateInput, 'websiteSourceId' | 'url'>
   ): Promise<void> {
     // Chunk the content
     const chunks = this.chunkText(page.content);
 
-    // Process each chunk
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      
-      // Generate embedding
-      const embedding = await embedText(chunk.content);
-
-      // Store in database
-      await prisma.$executeRaw`
-        INSERT INTO "WebsiteContent" (
-          id, "websiteSourceId", "tenantId", url, title, content, 
-          "chunkIndex", "tokenCount", embedding, "createdAt", "updatedAt"
-        ) VALUES (
-          gen_random_uuid(), ${websiteSourceId}, ${tenantId}, ${page.url}, 
-          ${page.title}, ${chunk.content}, ${i}, ${chunk.tokenCount}, 
-          ${embedding}::vector, NOW(), NOW()
-        )
-      `;
+    // Generate embeddings
+    const embeddings = await embedTextBatch(chunks.map(chunk => chunk.content));
+
+    await prisma.$transaction(async (tx) => {
+      const row = await tx.websitePage.upsert({
+        where: { websiteSourceId_url: { websiteSourceId: source.id, url: page.url } },
+        create: { websiteSourceId: source.id, url: page.url, ...pageData },
+        update: pageData,
+      });
+
+      await tx.websiteContent.deleteMany({ where: { pageId: row.id } });
+
+      for (let i = 0; i < chunks.length; i++) {
+        const chunk = chunks[i];
+        const vector = `[${embeddings[i].join(',')}]`;
+
+        await tx.$executeRaw`
+          INSERT INTO "WebsiteContent" (
+            id, "websiteSourceId", "pageId", "tenantId", url, title, content,
+            "chunkIndex", "tokenCount", embedding, "createdAt", "updatedAt"
+          ) VALUES (
+            gen_random_uuid(), ${source.id}, ${row.id}, ${source.tenantId}, ${page.url},
+            ${page.title}, ${chunk.content}, ${i}, ${chunk.tokenCount},
+            ${vector}::vector, NOW(), NOW()
+          )
+        `;
+      }
+    });
+  }
+
+  // ============================================
+  // WEEKLY REFRESH
+  // ============================================
+
+  /**
+   * Keep one refresh check queued. Called at startup and after each check.
+   */
+  async scheduleRefresh(delayMs = 0) {
+    const pending = await prisma.job.findFirst({
+      where: { type: 'website_refresh', status: 'PENDING' },
+    });
+    if (pending) {
+      return;
     }
+
+    await JobProcessor.createJob({
+      type: 'website_refresh',
+      payload: {},
+      scheduledAt: new Date(Date.now() + delayMs),
+    });
   }
 
   /**
-   * Chunk text into smaller pieces based on token estimate
+   * Start crawls for websites with weekly refresh on whose last crawl is a
+   * week old
    */
-  private chunkText(text: string): ContentChunk[] {
+  async refreshDue(now: Date = new Date()): Promise<number> {
+    const due = await prisma.websiteSource.findMany({
+      where: {
+        weeklyRefresh: true,
+        status: { not: 'SCRAPING' },
+        OR: [
+          { lastScrapedAt: null },
+          { lastScrapedAt: { lte: new Date(now.getTime() - REFRESH_INTERVAL_MS) } },
+        ],
+      },
+      select: { id: true },
+    });
+
+    let started = 0;
+    for (const source of due) {
+      if (await this.startCrawl(source.id)) {
+        started++;
+      }
+    }
+    return started;
+  }
+
+  /**
+   * Chunk text into smaller pieces based on token estimate. Uploaded
+   * documents are chunked the same way.
+   */
+  chunkText(text: string): ContentChunk[] {
     const maxChars = this.MAX_CHUNK_TOKENS * this.CHARS_PER_TOKEN;
     const chunks: ContentChunk[] = [];
 
     // Split by paragraphs first
     const paragraphs = text.split(/\n+/).filter(p => p.trim().length > 0);
-    
+
     let currentChunk = '';
-    
+
     for (const paragraph of paragraphs) {
       // If adding this paragraph would exceed max, save current chunk
       if (currentChunk.length + paragraph.length > maxChars && currentChunk.length > 0) {
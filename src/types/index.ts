@@ -4,10 +4,14 @@ import { CallState, CallStatus, UserRole, ReceptionistConfig } from '@prisma/cli
 // AI SERVICE TYPES
 // ============================================
 
+// Where the conversation is happening; the AI adapts its tools and tone
+export type ConversationChannel = 'voice' | 'sms' | 'chat';
+
 export interface CallContext {
+  channel?: ConversationChannel;   // defaults to voice
   callSid: string;
   tenantId: string;
-  sessionId: string;
+  sessionId: string;                 // CallSession id (voice) or conversation id
   fromNumber: string;
   toNumber: string;
   state: CallState;
@@ -20,10 +24,30 @@ export interface CallContext {
     capturedData?: Partial<LeadData>;
     ivrSelection?: string;
     ivrLabel?: string;
+    caller?: CallerProfile;
     [key: string]: any;
   };
 }
 
+/**
+ * What we know about a caller from the CRM and earlier calls
+ */
+export interface CallerProfile {
+  phone: string;                 // E.164
+  contactId?: string;
+  name?: string;
+  firstName?: string;
+  email?: string;
+  company?: string;
+  lifecycle?: string;
+  ownerId?: string;
+  ownerName?: string;
+  tags: string[];
+  openDeals: Array<{ title: string; stage: string; value?: number }>;
+  previousCalls: number;
+  lastCall?: { at: string; summary?: string; intent?: string };
+}
+
 export interface ConversationTurn {
   speaker: 'user' | 'ai';
   text: string;
@@ -37,13 +61,14 @@ export interface LeadData {
   email: string;
   reason: string;
   callbackPreference: string;
+  callbackTime?: string;
 }
 
 export interface AIResponse {
   message: string;
   nextState: CallState;
   action?: {
-    type: 'transfer' | 'capture_lead' | 'end_call';
+    type: 'transfer' | 'capture_lead' | 'end_call' | 'handoff';
     data?: any;
   };
   shouldGather: boolean;
@@ -78,6 +103,7 @@ export interface TwiMLGatherConfig {
   speechTimeout?: string;
   language?: string;
   hints?: string;
+  numDigits?: number;
 }
 
 // ============================================
@@ -93,6 +119,7 @@ export interface EmailJobPayload extends JobPayload {
   subject: string;
   text?: string;
   html?: string;
+  headers?: Record<string, string>;
 }
 
 export interface CallSummaryJobPayload extends JobPayload {
@@ -104,6 +131,41 @@ export interface LeadNotificationJobPayload extends JobPayload {
   leadId: string;
 }
 
+export interface SmsAutoReplyJobPayload extends JobPayload {
+  conversationId: string;
+  messageId: string;   // the inbound text being answered
+}
+
+export interface TextBackJobPayload extends JobPayload {
+  textBackLogId: string;
+}
+
+export interface EmailCampaignBatchJobPayload extends JobPayload {
+  campaignId: string;
+  scheduleToken?: string;
+}
+
+export interface LeadCallbackJobPayload extends JobPayload {
+  callbackId: string;
+}
+
+export interface VoicemailTranscriptionJobPayload extends JobPayload {
+  voicemailId: string;
+}
+
+export interface StoreRecordingJobPayload extends JobPayload {
+  recordingId: string;
+}
+
+export interface DocumentProcessingJobPayload extends JobPayload {
+  documentId: string;
+}
+
+export interface WebsiteCrawlJobPayload extends JobPayload {
+  websiteSourceId: string;
+  crawlId: string;
+}
+
 // ============================================
 // API TYPES
 // ============================================
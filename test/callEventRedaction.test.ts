@@ -0,0 +1,73 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import prisma from '../src/db/prisma';
+import { handleGather } from '../src/controllers/twilioController';
+import { callService } from '../src/services/call/callService';
+import { stateMachine } from '../src/services/ai/stateMachine';
+import { fakeCallStore, fakeResponse } from './fakes';
+
+const CARD = '4111 1111 1111 1111';
+
+describe('call events', () => {
+  let store: ReturnType<typeof fakeCallStore>;
+  let session: any;
+
+  const context = (config: any) => ({
+    callSid: 'CA400',
+    tenantId: 'tenant-1',
+    sessionId: session.id,
+    fromNumber: '+15185550123',
+    toNumber: '+15550001111',
+    state: 'LEAD_CAPTURE',
+    conversationHistory: [],
+    config,
+    metadata: { intent: 'book_appointment', intentConfidence: 0.9 },
+  });
+
+  const gather = async (speech: string) => {
+    const res = fakeResponse();
+    await handleGather({ body: { CallSid: 'CA400', SpeechResult: speech, Confidence: '0.93' } } as any, res);
+    return res;
+  };
+
+  beforeEach(async () => {
+    store = fakeCallStore();
+    session = await prisma.callSession.create({
+      data: { tenantId: 'tenant-1', callSid: 'CA400', fromNumber: '+15185550123' } as any,
+    });
+
+    mock.method(stateMachine, 'processInput', async () => ({
+      message: `Got it, the card ending ${CARD.slice(-4)} is ${CARD}. Anything else?`,
+      nextState: 'LEAD_CAPTURE',
+      shouldGather: true,
+    }));
+    mock.method(callService, 'saveTranscript', async () => undefined);
+    mock.method(callService, 'saveConversationState', async () => undefined);
+    mock.method(callService, 'updateCallState', async () => undefined);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('masks PII in what the caller said and the reply', async () => {
+    mock.method(callService, 'buildCallContext', async () => context({ redactPii: true, redactionPatterns: null }));
+
+    await gather(`My card is ${CARD}`);
+
+    const [input, reply] = store.events;
+    assert.deepEqual(store.eventTypes(), ['user_input', 'ai_response']);
+    assert.equal(input.data.input, 'My card is [CARD NUMBER]');
+    assert.equal(input.data.confidence, '0.93');
+    assert.equal(input.data.intent, 'book_appointment');
+    assert.equal(reply.data.message, 'Got it, the card ending 1111 is [CARD NUMBER]. Anything else?');
+  });
+
+  it('keeps the text when the tenant turned redaction off', async () => {
+    mock.method(callService, 'buildCallContext', async () => context({ redactPii: false, redactionPatterns: null }));
+
+    await gather(`My card is ${CARD}`);
+
+    assert.equal(store.events[0].data.input, `My card is ${CARD}`);
+  });
+});
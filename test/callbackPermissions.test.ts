@@ -0,0 +1,57 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import prisma from '../src/db/prisma';
+import tenantRoutes from '../src/routes/tenant.routes';
+import { fakeResponse } from './fakes';
+
+/**
+ * The permission check on a tenant route, run as the given user
+ */
+async function checkPermission(method: string, path: string, user: any) {
+  const layer = (tenantRoutes as any).stack.find((entry: any) =>
+    entry.route?.path === path && entry.route.methods[method]);
+  assert.ok(layer, `${method.toUpperCase()} ${path} is routed`);
+
+  const [requirePermission] = layer.route.stack.map((entry: any) => entry.handle);
+  const res = fakeResponse();
+  let allowed = false;
+  await requirePermission({ user, params: {}, body: {} }, res, () => { allowed = true; });
+  return allowed;
+}
+
+describe('callback routes', () => {
+  let customRole: any;
+
+  beforeEach(() => {
+    customRole = null;
+    (prisma as any).user = {
+      findUnique: async ({ where }: any) => ({ id: where.id, role: 'TENANT_USER', customRole }),
+    };
+  });
+
+  const grant = (...permissions: string[]) => {
+    customRole = {
+      permissions: permissions.map(name => {
+        const [resource, action] = name.split(':');
+        return { permission: { resource, action } };
+      }),
+    };
+  };
+
+  it('lets voice viewers see the queue but not place or stop calls', async () => {
+    grant('voice:view');
+
+    assert.equal(await checkPermission('get', '/callbacks', { id: 'user-1' }), true);
+    for (const path of ['/callbacks', '/callbacks/:id/cancel', '/callbacks/:id/retry']) {
+      assert.equal(await checkPermission('post', path, { id: 'user-1' }), false, path);
+    }
+  });
+
+  it('lets roles with voice:callbacks manage callbacks', async () => {
+    grant('voice:view', 'voice:callbacks');
+
+    for (const path of ['/callbacks', '/callbacks/:id/cancel', '/callbacks/:id/retry']) {
+      assert.equal(await checkPermission('post', path, { id: 'user-1' }), true, path);
+    }
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import prisma from '../src/db/prisma';
+import { campaignService } from '../src/services/email/campaignService';
+import { emailService } from '../src/services/jobs/emailService';
+
+const contact = { id: 'contact-1', firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com', status: 'ACTIVE', emailOptOut: false };
+
+describe('email campaign batches', () => {
+  let campaign: any;
+  let recipients: any[];
+  let jobs: any[];
+  let sent: string[];
+
+  const matches = (recipient: any, where: any) =>
+    (!where.id || recipient.id === where.id)
+    && (!where.campaignId || recipient.campaignId === where.campaignId)
+    && (typeof where.status !== 'string' || recipient.status === where.status)
+    && (!where.status?.in || where.status.in.includes(recipient.status))
+    && (!where.claimedAt || (recipient.claimedAt && recipient.claimedAt < where.claimedAt.lt));
+
+  const recipient = (id: string, fields: Record<string, unknown>) => ({
+    id, campaignId: 'campaign-1', contactId: contact.id, email: contact.email, token: `token-${id}`,
+    status: 'QUEUED', claimedAt: null, createdAt: new Date(), ...fields,
+  });
+
+  beforeEach(() => {
+    campaign = {
+      id: 'campaign-1', tenantId: 'tenant-1', status: 'SENDING', subject: 'News', body: '<p>Hi {{firstName}}</p>',
+      sendRate: 10, segmentId: 'segment-1', segment: { filters: {} }, tenant: { name: 'Acme' }, scheduleToken: null,
+    };
+    recipients = [];
+    jobs = [];
+    sent = [];
+
+    (prisma as any).emailCampaign = {
+      findUnique: async () => campaign,
+      findFirst: async () => campaign,
+      update: async ({ data }: any) => Object.assign(campaign, data),
+      updateMany: async ({ where, data }: any) => {
+        if (campaign.status !== where.status) return { count: 0 };
+        Object.assign(campaign, data);
+        return { count: 1 };
+      },
+    };
+    (prisma as any).emailRecipient = {
+      findMany: async ({ where, take }: any) =>
+        recipients.filter(r => matches(r, where)).slice(0, take).map(r => ({ ...r, contact })),
+      updateMany: async ({ where, data }: any) => {
+        const found = recipients.filter(r => matches(r, where));
+        found.forEach(r => Object.assign(r, data));
+        return { count: found.length };
+      },
+      update: async ({ where, data }: any) => Object.assign(recipients.find(r => r.id === where.id), data),
+      count: async ({ where }: any) => recipients.filter(r => matches(r, where)).length,
+      createMany: async ({ data }: any) => {
+        data.forEach((fields: any) => recipients.push(recipient(`r${recipients.length + 1}`, fields)));
+        return { count: data.length };
+      },
+    };
+    (prisma as any).contact = { findMany: async () => [{ id: contact.id, email: contact.email }] };
+    (prisma as any).job = {
+      create: async ({ data }: any) => {
+        jobs.push(data);
+        return data;
+      },
+    };
+    mock.method(emailService, 'sendEmail', async ({ to }: any) => {
+      sent.push(to);
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('requeues recipients left mid-send by a crashed batch and finishes the campaign', async () => {
+    recipients.push(recipient('r1', { status: 'SENDING', claimedAt: new Date(Date.now() - 60 * 60 * 1000) }));
+
+    await campaignService.sendBatch('campaign-1');
+
+    assert.deepEqual(sent, [contact.email]);
+    assert.equal(recipients[0].status, 'SENT');
+    assert.equal(campaign.status, 'SENT');
+  });
+
+  it('keeps the campaign open while another batch is still sending', async () => {
+    recipients.push(recipient('r1', { status: 'SENDING', claimedAt: new Date() }));
+
+    await campaignService.sendBatch('campaign-1');
+
+    assert.deepEqual(sent, []);
+    assert.equal(campaign.status, 'SENDING');
+    assert.equal(jobs.filter(job => job.type === 'email_campaign_batch').length, 1);
+  });
+
+  it('ignores the batch job of a schedule that was canceled', async () => {
+    campaign.status = 'DRAFT';
+
+    await campaignService.scheduleCampaign('campaign-1', 'tenant-1');
+    await campaignService.cancelCampaign('campaign-1', 'tenant-1');
+    await campaignService.scheduleCampaign('campaign-1', 'tenant-1');
+    const [stale, current] = jobs.map(job => JSON.parse(job.payload));
+
+    await campaignService.sendBatch(stale.campaignId, stale.scheduleToken);
+    assert.equal(campaign.status, 'SCHEDULED');
+    assert.deepEqual(sent, []);
+
+    await campaignService.sendBatch(current.campaignId, current.scheduleToken);
+    assert.deepEqual(sent, [contact.email]);
+    assert.equal(campaign.status, 'SENT');
+    assert.equal(jobs.length, 2);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import prisma from '../src/db/prisma';
+import { postChatMessage, requestChatHandoff } from '../src/controllers/chatbotController';
+import { chatbotService } from '../src/services/chatbot/chatbotService';
+import { fakeResponse } from './fakes';
+
+const VISITOR_ID = 'visitor-0123456789';
+
+const config: any = { tenantId: 'tenant-1', allowedOrigins: ['https://shop.example.com'], handoffEmail: 'team@example.com' };
+
+function recent(createdAt: Date, where: any) {
+  return !where.createdAt && !where.handoffAt
+    || (where.createdAt && createdAt >= where.createdAt.gte)
+    || (where.handoffAt && createdAt >= where.handoffAt.gte);
+}
+
+describe('chat widget', () => {
+  let messages: any[];
+  let conversations: any[];
+  let jobs: any[];
+
+  const call = async (handler: (req: any, res: any) => Promise<unknown>, body: Record<string, string>, ip = '203.0.113.5') => {
+    const res = fakeResponse();
+    await handler({ body: { visitorId: VISITOR_ID, ...body }, ip, tenant: { id: 'tenant-1' }, params: {}, query: {} }, res);
+    return res;
+  };
+
+  beforeEach(() => {
+    messages = [];
+    conversations = [];
+    jobs = [];
+
+    (prisma as any).chatMessage = {
+      count: async ({ where }: any) => messages.filter(message =>
+        message.sender === where.sender
+        && (!where.ipAddress || message.ipAddress === where.ipAddress)
+        && (!where.conversation?.tenantId || message.tenantId === where.conversation.tenantId)
+        && (!where.conversation?.visitorId || message.visitorId === where.conversation.visitorId)
+        && recent(message.createdAt, where)
+      ).length,
+      create: async ({ data }: any) => ({ id: `message-${messages.length + 1}`, body: data.body, sender: data.sender, createdAt: new Date() }),
+    };
+    (prisma as any).chatConversation = {
+      count: async ({ where }: any) => conversations.filter(conversation =>
+        conversation.handoffAt
+        && (!where.ipAddress || conversation.ipAddress === where.ipAddress)
+        && (!where.tenantId || conversation.tenantId === where.tenantId)
+        && recent(conversation.handoffAt, where)
+      ).length,
+      upsert: async ({ create }: any) => ({ id: 'conversation-new', status: 'AI', leadId: null, ...create }),
+      update: async ({ where }: any) => ({ id: where.id, status: 'AI', tenantId: 'tenant-1', leadId: null }),
+    };
+    (prisma as any).chatbotConfig = { findUnique: async () => config };
+    (prisma as any).businessHours = { findMany: async () => [], findUnique: async () => null };
+    (prisma as any).holidayHours = { findFirst: async () => null };
+    (prisma as any).job = {
+      create: async ({ data }: any) => {
+        jobs.push(data);
+        return data;
+      },
+    };
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  const visitorMessages = (count: number, fields: Record<string, string>) => {
+    for (let i = 0; i < count; i++) {
+      messages.push({ sender: 'VISITOR', tenantId: 'tenant-1', visitorId: `other-${i}`, createdAt: new Date(), ...fields });
+    }
+  };
+
+  const handoffs = (count: number, fields: Record<string, string>) => {
+    for (let i = 0; i < count; i++) {
+      conversations.push({ tenantId: 'tenant-1', handoffAt: new Date(), ...fields });
+    }
+  };
+
+  it('only allows listed sites and our own dashboard', () => {
+    assert.equal(chatbotService.isOriginAllowed(config, 'https://shop.example.com'), true);
+    assert.equal(chatbotService.isOriginAllowed(config, 'https://evil.example.com'), false);
+    assert.equal(chatbotService.isOriginAllowed({ ...config, allowedOrigins: [] }, 'https://shop.example.com'), false);
+    assert.equal(chatbotService.isOriginAllowed({ ...config, allowedOrigins: [] }, process.env.BASE_URL!), true);
+  });
+
+  it('limits messages per IP across visitor ids', async () => {
+    visitorMessages(30, { ipAddress: '203.0.113.5' });
+    const reply = mock.method(chatbotService, 'handleVisitorMessage', async () => ({ status: 'AI', messages: [] }));
+
+    assert.equal((await call(postChatMessage, { message: 'Hello' })).statusCode, 429);
+    assert.equal((await call(postChatMessage, { message: 'Hello' }, '198.51.100.7')).statusCode, 200);
+    assert.equal(reply.mock.callCount(), 1);
+  });
+
+  it('limits messages per tenant', async () => {
+    visitorMessages(120, { ipAddress: '198.51.100.7' });
+    mock.method(chatbotService, 'handleVisitorMessage', async () => ({ status: 'AI', messages: [] }));
+
+    assert.equal((await call(postChatMessage, { message: 'Hello' }, '192.0.2.1')).statusCode, 429);
+  });
+
+  it('limits handoff requests per IP', async () => {
+    handoffs(3, { ipAddress: '203.0.113.5' });
+    const handoff = mock.method(chatbotService, 'requestHandoff', async () => ({ status: 'HANDOFF', messages: [] }));
+
+    assert.equal((await call(requestChatHandoff, { reason: 'Help' })).statusCode, 429);
+    assert.equal(handoff.mock.callCount(), 0);
+  });
+
+  it('stops emailing handoffs once the tenant has had its share this hour', async () => {
+    const sendEmails = () => jobs.filter(job => job.type === 'send_email').length;
+
+    assert.equal((await call(requestChatHandoff, { reason: 'Help' })).statusCode, 200);
+    assert.equal(sendEmails(), 1);
+
+    handoffs(10, { ipAddress: '198.51.100.7' });
+    assert.equal((await call(requestChatHandoff, { reason: 'Help' })).statusCode, 200);
+    assert.equal(sendEmails(), 1);
+  });
+});
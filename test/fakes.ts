@@ -0,0 +1,61 @@
+import prisma from '../src/db/prisma';
+
+export interface FakeCallEvent {
+  callSessionId: string;
+  eventType: string;
+  data: any;
+}
+
+/**
+ * In-memory call sessions and call events in place of the Prisma models
+ */
+export function fakeCallStore() {
+  const sessions = new Map<string, any>();
+  const events: FakeCallEvent[] = [];
+
+  const find = (where: { id?: string; callSid?: string }) =>
+    [...sessions.values()].find(session => (where.id ? session.id === where.id : session.callSid === where.callSid));
+
+  (prisma as any).callSession = {
+    create: async ({ data }: any) => {
+      const session = { id: `session-${sessions.size + 1}`, metadata: null, ...data };
+      sessions.set(session.id, session);
+      return session;
+    },
+    findUnique: async ({ where }: any) => {
+      const session = find(where);
+      return session ? { ...session, tenant: { id: session.tenantId }, twilioNumber: null } : null;
+    },
+    update: async ({ where, data }: any) => {
+      const session = find(where);
+      Object.assign(session, JSON.parse(JSON.stringify(data)));
+      return session;
+    },
+  };
+
+  (prisma as any).callEvent = {
+    create: async ({ data }: any) => {
+      const event = { callSessionId: data.callSessionId, eventType: data.eventType, data: JSON.parse(data.data) };
+      events.push(event);
+      return event;
+    },
+  };
+
+  return {
+    sessions,
+    events,
+    eventTypes: () => events.map(event => event.eventType),
+  };
+}
+
+/**
+ * Just enough of an Express response for a webhook handler
+ */
+export function fakeResponse() {
+  const res: any = { statusCode: 200, body: undefined as any };
+  res.type = () => res;
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.send = (body: any) => { res.body = body; return res; };
+  res.json = (body: any) => { res.body = body; return res; };
+  return res;
+}
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateCondition, matchPatternProblem, ConditionContext } from '../src/services/call/flowConditions';
+import { validateFlowConfig } from '../src/services/call/flowValidator';
+
+function conditionalFlow(pattern: string) {
+  return {
+    entryPoint: 'check',
+    steps: [
+      {
+        id: 'check',
+        type: 'conditional',
+        branches: [{ when: { fact: 'variables.reason', op: 'matches', value: pattern }, target: 'done' }],
+        defaultTarget: 'done',
+      },
+      { id: 'done', type: 'message', prompt: 'Thanks.' },
+    ],
+  };
+}
+
+describe('"matches" conditions', () => {
+  it('accepts ordinary patterns', () => {
+    for (const pattern of ['^(sales|support)$', 'quote', '\\d{3}-\\d{4}', '(ab)+c', '[a-z]+@example\\.com', '(a+)?b']) {
+      assert.equal(matchPatternProblem(pattern), null, pattern);
+    }
+  });
+
+  it('rejects patterns that can backtrack exponentially', () => {
+    for (const pattern of ['(a+)+$', '(a*)*b', '(a|aa)*c', '((ab)+)+', '(\\w+\\s?){2,}$', '(a)\\1', '(x+x+)+y']) {
+      assert.notEqual(matchPatternProblem(pattern), null, pattern);
+    }
+    assert.notEqual(matchPatternProblem('a'.repeat(201)), null);
+    assert.notEqual(matchPatternProblem('(unclosed'), null);
+  });
+
+  it('fails validation for unsafe patterns', () => {
+    const result = validateFlowConfig(conditionalFlow('(a+)+$'));
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some(error => error.code === 'invalid_condition'));
+    assert.equal(validateFlowConfig(conditionalFlow('^(sales|support)$')).valid, true);
+  });
+
+  it('never runs an unsafe pattern, and only matches the start of long input', async () => {
+    const context = new ConditionContext('tenant-1', 'CA400');
+    const variables = (reason: string) => {
+      context.getFact = async () => reason;
+    };
+
+    variables('a'.repeat(40) + '!');
+    const started = Date.now();
+    assert.equal(await evaluateCondition({ fact: 'variables.reason', op: 'matches', value: '^(a+)+$' }, context), false);
+    assert.ok(Date.now() - started < 100);
+
+    variables('x'.repeat(600) + 'quote');
+    assert.equal(await evaluateCondition({ fact: 'variables.reason', op: 'matches', value: 'quote' }, context), false);
+    variables('need a QUOTE');
+    assert.equal(await evaluateCondition({ fact: 'variables.reason', op: 'matches', value: 'quote' }, context), true);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import prisma from '../src/db/prisma';
+import { handleCollectLeadResponse, handleConfirmLeadResponse, handleFlowGather } from '../src/controllers/twilioController';
+import { flowExecutor, FlowConfig } from '../src/services/call/flowExecutor';
+import { fakeCallStore, fakeResponse } from './fakes';
+
+const flow: FlowConfig = {
+  entryPoint: 'menu',
+  steps: [
+    {
+      id: 'menu',
+      type: 'menu',
+      prompt: 'Press 1 to leave your details.',
+      options: [{ digit: '1', label: 'Details', action: 'goto', target: 'lead' }],
+    },
+    {
+      id: 'lead',
+      type: 'collect_lead',
+      leadQuestions: [
+        { id: 'q1', label: 'Name', question: 'What is your name?', order: 1 },
+        { id: 'q2', label: 'Reason', question: 'Why are you calling?', order: 2 },
+      ],
+    },
+  ],
+};
+
+describe('flow webhooks', () => {
+  let store: ReturnType<typeof fakeCallStore>;
+  let leads: any[];
+  let jobs: any[];
+
+  const webhook = async (handler: (req: any, res: any) => Promise<unknown>, body: Record<string, string>) => {
+    const res = fakeResponse();
+    await handler({ body: { CallSid: 'CA200', ...body }, params: {}, query: {} }, res);
+    return res.body as string;
+  };
+
+  beforeEach(async () => {
+    store = fakeCallStore();
+    leads = [];
+    jobs = [];
+
+    (prisma as any).receptionistConfig = { findUnique: async () => null };
+    (prisma as any).lead = {
+      create: async ({ data }: any) => {
+        const lead = { id: `lead-${leads.length + 1}`, ...data, fields: [] as any[] };
+        leads.push(lead);
+        return lead;
+      },
+    };
+    (prisma as any).leadField = {
+      create: async ({ data }: any) => leads.find(lead => lead.id === data.leadId).fields.push(data),
+    };
+    (prisma as any).user = { findMany: async () => [{ id: 'admin-1' }] };
+    (prisma as any).job = {
+      create: async ({ data }: any) => {
+        jobs.push(data);
+        return data;
+      },
+    };
+    mock.method(flowExecutor, 'getActiveFlow', async () => flow);
+
+    await prisma.callSession.create({
+      data: {
+        tenantId: 'tenant-1',
+        callSid: 'CA200',
+        fromNumber: '+15185550123',
+        metadata: { flowType: 'MAIN', currentStepId: 'menu', recording: { status: 'off', optOutDigit: null } },
+      } as any,
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('keeps the menu selection and moves to the chosen step', async () => {
+    const twiml = await webhook(handleFlowGather, { Digits: '1' });
+
+    assert.match(twiml, /What is your name\?/);
+    const [session] = store.sessions.values();
+    assert.equal(session.metadata.lastSelection, '1');
+    assert.equal(session.metadata.currentStepId, 'lead');
+    assert.equal(session.metadata.recording.status, 'off');
+  });
+
+  it('collects confirmed answers into a lead and queues its notification', async () => {
+    await webhook(handleFlowGather, { Digits: '1' });
+
+    assert.match(await webhook(handleCollectLeadResponse, { SpeechResult: 'Dana' }), /Dana/);
+    // Anything but a yes asks again
+    assert.match(await webhook(handleConfirmLeadResponse, { SpeechResult: 'no' }), /What is your name\?/);
+
+    await webhook(handleCollectLeadResponse, { SpeechResult: 'Dana Reyes' });
+    assert.match(await webhook(handleConfirmLeadResponse, { SpeechResult: 'yes' }), /Why are you calling\?/);
+    await webhook(handleCollectLeadResponse, { SpeechResult: 'A quote' });
+    await webhook(handleConfirmLeadResponse, { SpeechResult: 'yes that is right' });
+
+    assert.equal(leads.length, 1);
+    assert.equal(leads[0].phone, '+15185550123');
+    assert.deepEqual(leads[0].fields.map((field: any) => [field.label, field.value]), [['Name', 'Dana Reyes'], ['Reason', 'A quote']]);
+    assert.deepEqual(jobs.map(job => [job.type, JSON.parse(job.payload)]), [['lead_notification', { leadId: 'lead-1' }]]);
+
+    const [session] = store.sessions.values();
+    assert.equal(session.leadCaptured, true);
+    assert.equal(session.metadata.leadCaptured, true);
+    assert.equal(session.metadata.leadResponses.length, 2);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { flowExecutor, FlowConfig } from '../src/services/call/flowExecutor';
+import { assertPublicUrl, isPublicAddress } from '../src/services/call/outboundAddress';
+
+function webhookFlow(webhookUrl: string): FlowConfig {
+  return {
+    entryPoint: 'hook',
+    steps: [
+      { id: 'hook', type: 'webhook', webhookUrl, nextStep: 'done', failureStep: 'failed' },
+      { id: 'done', type: 'message', prompt: 'Done.' },
+      { id: 'failed', type: 'message', prompt: 'Failed.' },
+    ],
+  };
+}
+
+const session: any = {
+  id: 'session-1',
+  tenantId: 'tenant-1',
+  callSid: 'CA300',
+  fromNumber: '+15185550123',
+  toNumber: '+15550001111',
+  metadata: {},
+};
+
+describe('flow webhook addresses', () => {
+  it('tells public addresses from private ones', () => {
+    for (const address of ['8.8.8.8', '93.184.216.34', '2606:4700::1111']) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1', '::ffff:169.254.169.254',
+    ]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it('rejects URLs that resolve to private addresses', async () => {
+    for (const url of ['http://localhost:3000/hook', 'http://169.254.169.254/latest/meta-data/', 'http://[::1]/', 'ftp://example.com/']) {
+      await assert.rejects(assertPublicUrl(url), url);
+    }
+  });
+
+  it('sends a webhook step to a private address down the failure branch without calling it', async () => {
+    const flow = webhookFlow('http://169.254.169.254/latest/meta-data/');
+    const result = await flowExecutor.performAction(flow, 'hook', { ...session });
+
+    assert.deepEqual(result.effect, {
+      type: 'webhook',
+      stepId: 'hook',
+      url: 'http://169.254.169.254/latest/meta-data/',
+      status: null,
+      ok: false,
+    });
+    assert.match(result.twiml, /flow-step\/failed/);
+  });
+});
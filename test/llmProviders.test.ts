@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EMBEDDING_DIMENSIONS } from '../src/services/ai/providers/llmProvider';
+import { MockLLMProvider } from '../src/services/ai/providers/mockProvider';
+import { OpenAIProvider } from '../src/services/ai/providers/openAIProvider';
+import { speechService } from '../src/services/voice/speechService';
+
+function providerReturning(dimensions: number) {
+  const provider = new OpenAIProvider({
+    name: 'local',
+    baseURL: 'http://127.0.0.1:11434/v1',
+    defaultModel: 'llama3.1',
+    embeddingModel: 'nomic-embed-text',
+  });
+  (provider as any).client = {
+    embeddings: {
+      create: async ({ input }: { input: string[] }) => ({
+        data: input.map(() => ({ embedding: new Array(dimensions).fill(0.1) })),
+      }),
+    },
+  };
+  return provider;
+}
+
+describe('LLM providers', () => {
+  it('refuses embeddings that do not fit the stored vectors', async () => {
+    await assert.rejects(
+      providerReturning(768).embed(['hello']),
+      /nomic-embed-text returns 768-dimensional vectors, but stored embeddings are 1536-dimensional/
+    );
+
+    const [embedding] = await providerReturning(EMBEDDING_DIMENSIONS).embed(['hello']);
+    assert.equal(embedding.length, EMBEDDING_DIMENSIONS);
+  });
+
+  it('keeps only the latest mock requests', async () => {
+    const provider = new MockLLMProvider();
+    for (let i = 0; i < 120; i++) {
+      await provider.chat({ model: 'mock', messages: [{ role: 'user', content: `question ${i}` }] });
+    }
+
+    assert.equal(provider.requests.length, 50);
+    assert.equal(provider.requests[49].messages[0].content, 'question 119');
+  });
+
+  it('routes speech through the mock provider under LLM_PROVIDER=mock', async () => {
+    assert.equal(await speechService.transcribeRecording(Buffer.alloc(10), 'RE1.mp3'), 'Mock transcript of RE1.mp3');
+
+    let bytes = 0;
+    for await (const audio of speechService.synthesize('Hello there', 'alloy')) {
+      bytes += audio.length;
+    }
+    // 11 characters at 60ms each, as 8kHz μ-law
+    assert.equal(bytes, Math.round(0.66 * 8000));
+  });
+});
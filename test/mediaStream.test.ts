@@ -0,0 +1,50 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import twilio from 'twilio';
+import WebSocket from 'ws';
+import { env } from '../src/config/env';
+import { mediaStreamServer, MEDIA_STREAM_PATH } from '../src/services/voice/mediaStreamHandler';
+
+// The URL Twilio is told to connect to, and so the one it signs
+const STREAM_URL = `${env.BASE_URL.replace(/^http/, 'ws')}${MEDIA_STREAM_PATH}`;
+
+describe('media stream connections', () => {
+  const server = http.createServer();
+  let localUrl: string;
+
+  before(async () => {
+    mediaStreamServer.attach(server);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    localUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}${MEDIA_STREAM_PATH}`;
+  });
+
+  after(async () => {
+    mediaStreamServer.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const connect = (signature?: string) => new Promise<'open' | number>((resolve) => {
+    const ws = new WebSocket(localUrl, { headers: signature ? { 'X-Twilio-Signature': signature } : {} });
+    ws.on('open', () => {
+      ws.close();
+      resolve('open');
+    });
+    ws.on('unexpected-response', (_req, res) => resolve(res.statusCode ?? 0));
+    ws.on('error', () => undefined);
+  });
+
+  it('refuses upgrades without a Twilio signature', async () => {
+    assert.equal(await connect(), 401);
+  });
+
+  it('refuses upgrades signed with another token or for another URL', async () => {
+    assert.equal(await connect(twilio.getExpectedTwilioSignature('not-the-token', STREAM_URL, {})), 401);
+    assert.equal(await connect(twilio.getExpectedTwilioSignature(env.TWILIO_AUTH_TOKEN, 'wss://elsewhere.test/twilio/media-stream', {})), 401);
+  });
+
+  it('accepts upgrades Twilio signed', async () => {
+    assert.equal(await connect(twilio.getExpectedTwilioSignature(env.TWILIO_AUTH_TOKEN, STREAM_URL, {})), 'open');
+  });
+});
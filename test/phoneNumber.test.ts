@@ -0,0 +1,20 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { toE164 } from '../src/services/crm/phoneNumber';
+
+describe('toE164', () => {
+  it('assumes US/Canada without a country code', () => {
+    assert.equal(toE164('(555) 123-4567'), '+15551234567');
+    assert.equal(toE164('1 555 123 4567'), '+15551234567');
+  });
+
+  it('keeps international numbers that have a country code', () => {
+    assert.equal(toE164('+44 20 7946 0958'), '+442079460958');
+  });
+
+  it('rejects what cannot be a phone number', () => {
+    for (const value of ['', null, undefined, '12345', '555 1234', '+12']) {
+      assert.equal(toE164(value), null, String(value));
+    }
+  });
+});
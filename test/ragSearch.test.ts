@@ -0,0 +1,69 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import prisma from '../src/db/prisma';
+import { RAGService } from '../src/services/ai/ragService';
+
+const row = (id: string, distance: number) => ({
+  id, documentId: null, url: `https://example.com/${id}`, title: id, content: id, chunkIndex: 0, tokenCount: 10, distance,
+});
+
+describe('indexed website search', () => {
+  let statements: string[];
+  let queries: string[];
+  let version: string;
+  let indexedRows: any[];
+
+  beforeEach(() => {
+    statements = [];
+    queries = [];
+    version = '0.8.0';
+    indexedRows = [];
+
+    // A tenant with 20,000 chunks in a table of millions: the index scan
+    // mostly finds other tenants' rows
+    (prisma as any).websiteContent = { count: async () => 20000 };
+    (prisma as any).$executeRawUnsafe = async (sql: string) => {
+      statements.push(sql);
+      return 0;
+    };
+    (prisma as any).$queryRaw = async (strings: TemplateStringsArray) => {
+      const sql = strings.join('?');
+      queries.push(sql);
+      if (sql.includes('pg_extension')) return [{ extversion: version }];
+      if (sql.includes('tenant_chunks')) return Array.from({ length: 8 }, (_, i) => row(`exact-${i}`, i / 10));
+      return indexedRows;
+    };
+    (prisma as any).$transaction = async (operations: Promise<unknown>[]) => Promise.all(operations);
+  });
+
+  const search = () => new RAGService().semanticSearch('', 'tenant-1', 8, [0.1, 0.2]);
+
+  it('keeps scanning the index for the tenant on pgvector 0.8', async () => {
+    indexedRows = Array.from({ length: 8 }, (_, i) => row(`indexed-${i}`, i / 10));
+
+    const results = await search();
+
+    assert.ok(statements.includes('SET LOCAL hnsw.iterative_scan = relaxed_order'));
+    assert.deepEqual(results.map(r => r.id), indexedRows.map(r => r.id));
+  });
+
+  it('leaves the setting out on older pgvector', async () => {
+    version = '0.7.4';
+    indexedRows = Array.from({ length: 8 }, (_, i) => row(`indexed-${i}`, i / 10));
+
+    await search();
+
+    assert.equal(statements.some(sql => sql.includes('iterative_scan')), false);
+  });
+
+  it('falls back to an exact search when the index comes back short', async () => {
+    version = '0.7.4';
+    indexedRows = [row('indexed-0', 0.1)];
+
+    const results = await search();
+
+    assert.equal(results.length, 8);
+    assert.ok(results.every(r => r.id.startsWith('exact-')));
+    assert.ok(queries.some(sql => sql.includes('tenant_chunks')));
+  });
+});
@@ -0,0 +1,306 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import prisma from '../src/db/prisma';
+import {
+  handleCollectLeadResponse,
+  handleFlowAppointment,
+  handleFlowGatherInfo,
+  handleIncomingCall,
+  handleRecordingConsent,
+} from '../src/controllers/twilioController';
+import { consentService } from '../src/services/call/consentService';
+import { flowExecutor } from '../src/services/call/flowExecutor';
+import { validateFlowConfig } from '../src/services/call/flowValidator';
+import { callerIdService } from '../src/services/crm/callerIdService';
+import { twilioService } from '../src/services/twilio/twilioService';
+import * as scheduleService from '../src/services/tenant/scheduleService';
+import { fakeCallStore, fakeResponse } from './fakes';
+
+const MENU_TWIML = '<Response><Gather numDigits="1"><Say>Press 1 for sales.</Say></Gather></Response>';
+
+const config = {
+  enableRecording: true,
+  recordingDisclosure: 'This call is recorded.',
+  discloseToAllCallers: true,
+  recordTwoPartyCallers: true,
+  recordingOptOutDigit: '9',
+  routeReturningCallers: false,
+};
+
+function incomingCall(from: string) {
+  return { body: { CallSid: 'CA100', From: from, To: '+15550001111', Direction: 'inbound' } } as any;
+}
+
+describe('recording consent on inbound calls', () => {
+  let store: ReturnType<typeof fakeCallStore>;
+  let startCallRecording: ReturnType<typeof mock.fn>;
+
+  beforeEach(() => {
+    store = fakeCallStore();
+    (prisma as any).twilioNumber = {
+      findUnique: async () => ({
+        id: 'number-1',
+        tenantId: 'tenant-1',
+        recordCalls: null,
+        recordingDisclosure: null,
+        tenant: { id: 'tenant-1', receptionistConfig: { ...config } },
+      }),
+    };
+    (prisma as any).blockedCaller = { count: async () => 0 };
+
+    mock.method(callerIdService, 'identify', async (_tenantId: string, phone: string) => ({
+      phone,
+      name: 'Dana Reyes',
+      firstName: 'Dana',
+      tags: [],
+      openDeals: [],
+      previousCalls: 2,
+    }));
+    mock.method(flowExecutor, 'determineFlowType', async () => 'MAIN');
+    mock.method(flowExecutor, 'getActiveFlow', async () => ({ entryPoint: 'menu', steps: {} }));
+    mock.method(flowExecutor, 'executeStep', async () => MENU_TWIML);
+    startCallRecording = mock.method(twilioService, 'startCallRecording', async () => ({ sid: 'RE100' }));
+    mock.method(twilioService, 'stopCallRecording', async () => undefined);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('keeps the recording plan next to the flow state and discloses before the flow', async () => {
+    const res = fakeResponse();
+    await handleIncomingCall(incomingCall('+13105550123'), res);
+
+    const [session] = store.sessions.values();
+    assert.equal(session.metadata.flowType, 'MAIN');
+    assert.equal(session.metadata.currentStepId, 'menu');
+    assert.equal(session.metadata.conversation.caller.firstName, 'Dana');
+    assert.equal(session.metadata.recording.status, 'pending');
+    assert.equal(session.metadata.recording.optOutDigit, '9');
+
+    // The disclosure plays first; the menu waits behind the redirect
+    assert.match(res.body, /<Say[^>]*>This call is recorded\. To opt out of recording, press 9 at any time\.<\/Say>/);
+    assert.match(res.body, /<Redirect method="POST">https:\/\/receptionist\.test\/twilio\/recording-consent<\/Redirect>/);
+    assert.doesNotMatch(res.body, /Press 1 for sales/);
+
+    // Nothing is recorded or logged as disclosed until the disclosure has played
+    assert.equal(startCallRecording.mock.callCount(), 0);
+    assert.ok(!store.eventTypes().includes('recording_disclosed'));
+  });
+
+  it('starts recording once the disclosure has played, then runs the flow', async () => {
+    await handleIncomingCall(incomingCall('+13105550123'), fakeResponse());
+
+    const res = fakeResponse();
+    await handleRecordingConsent({ body: { CallSid: 'CA100' } } as any, res);
+
+    assert.equal(res.body, MENU_TWIML);
+    assert.equal(startCallRecording.mock.callCount(), 1);
+    assert.deepEqual(
+      store.eventTypes().filter(type => type.startsWith('recording_')),
+      ['recording_disclosed', 'recording_started']
+    );
+
+    const [session] = store.sessions.values();
+    assert.equal(session.metadata.recording.status, 'recording');
+    assert.equal(session.metadata.recording.continueTwiml, undefined);
+    assert.equal(session.metadata.currentStepId, 'menu');
+  });
+
+  it('stops recording when the caller presses the disclosed opt-out key', async () => {
+    await handleIncomingCall(incomingCall('+13105550123'), fakeResponse());
+    await handleRecordingConsent({ body: { CallSid: 'CA100' } } as any, fakeResponse());
+
+    assert.equal(await consentService.optOut('CA100', '1'), false);
+    assert.equal(await consentService.optOut('CA100', '9'), true);
+
+    const [session] = store.sessions.values();
+    assert.equal(session.metadata.recording.status, 'opted_out');
+    assert.equal(session.metadata.flowType, 'MAIN');
+    assert.ok(store.eventTypes().includes('recording_opt_out'));
+  });
+
+  it('gives callers who heard no disclosure no opt-out key', async () => {
+    (prisma as any).twilioNumber.findUnique = async () => ({
+      id: 'number-1',
+      tenantId: 'tenant-1',
+      recordCalls: null,
+      recordingDisclosure: null,
+      tenant: { id: 'tenant-1', receptionistConfig: { ...config, discloseToAllCallers: false } },
+    });
+
+    // 518 is New York, a one-party consent state
+    const res = fakeResponse();
+    await handleIncomingCall(incomingCall('+15185550123'), res);
+    assert.doesNotMatch(res.body, /<Say/);
+
+    await handleRecordingConsent({ body: { CallSid: 'CA100' } } as any, fakeResponse());
+
+    const [session] = store.sessions.values();
+    assert.equal(session.metadata.recording.status, 'recording');
+    assert.equal(session.metadata.recording.optOutDigit, null);
+    assert.ok(!store.eventTypes().includes('recording_disclosed'));
+
+    // 9 is an ordinary key press for this caller
+    assert.equal(await consentService.optOut('CA100', '9'), false);
+    assert.equal(session.metadata.recording.status, 'recording');
+  });
+});
+
+describe('flow validation against the opt-out key', () => {
+  const flow = {
+    entryPoint: 'menu',
+    steps: [
+      {
+        id: 'menu',
+        type: 'menu',
+        prompt: 'Press 1 for sales or 9 for support.',
+        options: [
+          { digit: '1', label: 'Sales', action: 'goto', target: 'bye' },
+          { digit: '9', label: 'Support', action: 'goto', target: 'bye' },
+        ],
+      },
+      { id: 'bye', type: 'message', prompt: 'Goodbye.' },
+    ],
+  };
+
+  it('rejects a menu option on the opt-out key', () => {
+    const result = validateFlowConfig(flow, { optOutDigit: '9' });
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some(error => error.code === 'reserved_digit' && error.stepId === 'menu'));
+  });
+
+  it('accepts the same menu when the tenant has no opt-out key', () => {
+    const result = validateFlowConfig(flow, { optOutDigit: null });
+    assert.deepEqual(result.errors, []);
+  });
+
+  it('rejects an appointment step offering more times than there are keys besides the opt-out key', () => {
+    const booking = (slotCount: number) => ({
+      entryPoint: 'book',
+      steps: [{ id: 'book', type: 'book_appointment', slotCount }],
+    });
+
+    assert.ok(validateFlowConfig(booking(9), { optOutDigit: '9' }).errors.some(error =>
+      error.code === 'reserved_digit' && error.path === 'slotCount'));
+    assert.deepEqual(validateFlowConfig(booking(8), { optOutDigit: '9' }).errors, []);
+    assert.deepEqual(validateFlowConfig(booking(9), { optOutDigit: '#' }).errors, []);
+  });
+});
+
+describe('recording opt-out while choosing an appointment', () => {
+  let store: ReturnType<typeof fakeCallStore>;
+  let stopCallRecording: ReturnType<typeof mock.fn>;
+
+  beforeEach(async () => {
+    store = fakeCallStore();
+    mock.method(flowExecutor, 'getActiveFlow', async () => ({
+      entryPoint: 'book',
+      steps: [{ id: 'book', type: 'book_appointment', prompt: 'Pick a time.', slotCount: 8 }],
+    }));
+    mock.method(scheduleService, 'findOpenAppointmentSlots', async (_tenantId: string, options: { count: number }) =>
+      Array.from({ length: options.count }, (_, i) => ({
+        start: new Date(Date.UTC(2030, 0, 7, 16 + i)),
+        label: `slot ${i + 1}`,
+      })));
+    stopCallRecording = mock.method(twilioService, 'stopCallRecording', async () => undefined);
+
+    await prisma.callSession.create({
+      data: {
+        tenantId: 'tenant-1',
+        callSid: 'CA500',
+        fromNumber: '+13105550123',
+        metadata: { flowType: 'MAIN', currentStepId: 'book', recording: { status: 'recording', optOutDigit: '9' } },
+      } as any,
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('numbers the slots around the opt-out key and stops recording instead of booking', async () => {
+    const res = fakeResponse();
+    await handleFlowAppointment({ body: { CallSid: 'CA500', Digits: '9' } } as any, res);
+
+    const twiml = res.body as string;
+    assert.match(twiml, /Recording has been stopped\./);
+    assert.equal(twiml.match(/Press \d/g)?.length, 8);
+    assert.doesNotMatch(twiml, /Press 9/);
+    assert.equal(stopCallRecording.mock.callCount(), 1);
+
+    const [session] = store.sessions.values();
+    assert.equal(session.metadata.recording.status, 'opted_out');
+    assert.deepEqual(session.metadata.appointmentSlots.map((slot: any) => slot.digit), ['1', '2', '3', '4', '5', '6', '7', '8']);
+    assert.deepEqual(store.eventTypes(), ['recording_opt_out']);
+  });
+});
+
+describe('recording opt-out on spoken flow answers', () => {
+  let store: ReturnType<typeof fakeCallStore>;
+
+  const post = async (handler: (req: any, res: any) => Promise<unknown>, body: Record<string, string>) => {
+    const res = fakeResponse();
+    await handler({ body: { CallSid: 'CA600', ...body } } as any, res);
+    return res.body as string;
+  };
+
+  const session = () => [...store.sessions.values()][0];
+
+  beforeEach(async () => {
+    store = fakeCallStore();
+    mock.method(flowExecutor, 'getActiveFlow', async () => ({
+      entryPoint: 'get_name',
+      steps: [
+        { id: 'get_name', type: 'gather_info', prompt: 'What is your name?', gatherType: 'name', nextStep: 'lead' },
+        { id: 'lead', type: 'collect_lead', leadQuestions: [{ id: 'q1', label: 'Reason', question: 'Why are you calling?', order: 1 }] },
+      ],
+    }));
+    mock.method(twilioService, 'stopCallRecording', async () => undefined);
+
+    await prisma.callSession.create({
+      data: {
+        tenantId: 'tenant-1',
+        callSid: 'CA600',
+        fromNumber: '+13105550123',
+        metadata: { flowType: 'MAIN', currentStepId: 'get_name', recording: { status: 'recording', optOutDigit: '9' } },
+      } as any,
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('lets callers press the opt-out key where they would speak', () => {
+    const twiml = flowExecutor.generateCollectLeadTwiML(
+      { id: 'lead', type: 'collect_lead', leadQuestions: [{ id: 'q1', label: 'Reason', question: 'Why?', order: 1 }] } as any,
+      'CA600',
+      0
+    );
+
+    assert.match(twiml, /<Gather input="speech dtmf" numDigits="1"/);
+  });
+
+  it('stops recording and asks again instead of saving the key as the answer', async () => {
+    const twiml = await post(handleFlowGatherInfo, { Digits: '9' });
+
+    assert.match(twiml, /Recording has been stopped\.[\s\S]*What is your name\?/);
+    assert.equal(session().metadata.recording.status, 'opted_out');
+    assert.equal(session().metadata.variables, undefined);
+    assert.equal(session().metadata.currentStepId, 'get_name');
+  });
+
+  it('saves a spoken answer as a flow variable and moves on', async () => {
+    const twiml = await post(handleFlowGatherInfo, { SpeechResult: 'Ada Lovelace' });
+
+    assert.match(twiml, /Why are you calling\?/);
+    assert.deepEqual(session().metadata.variables, { name: 'Ada Lovelace' });
+    assert.equal(session().metadata.currentStepId, 'lead');
+
+    const replay = await post(handleCollectLeadResponse, { Digits: '9' });
+    assert.match(replay, /Recording has been stopped\.[\s\S]*Why are you calling\?/);
+    assert.equal(session().metadata.recording.status, 'opted_out');
+    assert.equal(session().metadata.pendingLeadResponse, undefined);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { redactionService } from '../src/services/call/redactionService';
+
+describe('tenant redaction patterns', () => {
+  it('rejects patterns that backtrack exponentially', () => {
+    for (const pattern of ['(a+)+$', '(\\d|\\d\\d)*x', '(\\w+\\s?)*$', '(a)\\1']) {
+      assert.throws(() => redactionService.parsePatterns(pattern), /Invalid redaction pattern/, pattern);
+    }
+  });
+
+  it('masks matches of the patterns that are allowed', () => {
+    const redactor = redactionService.redactor({ redactPii: true, redactionPatterns: 'ACCT-\\d{8}', keepPiiOriginals: false });
+    assert.equal(redactor.redact('My account is acct-12345678.'), 'My account is [REDACTED].');
+  });
+
+  it('skips unsafe patterns saved before they were checked, keeping the others', () => {
+    const redactor = redactionService.redactor({
+      redactPii: true,
+      redactionPatterns: '(a+)+$\nACCT-\\d{8}',
+      keepPiiOriginals: false,
+    });
+    assert.equal(redactor.redact(`ACCT-12345678 ${'a'.repeat(40)}!`), `[REDACTED] ${'a'.repeat(40)}!`);
+  });
+
+  it('runs patterns over long text a slice at a time', () => {
+    const filler = 'word '.repeat(300);
+    const redactor = redactionService.redactor({ redactPii: true, redactionPatterns: 'ACCT-\\d{8}', keepPiiOriginals: false });
+    assert.equal(redactor.redact(`${filler}ACCT-12345678 ${filler}`), `${filler}[REDACTED] ${filler}`);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import prisma from '../src/db/prisma';
+import { handleTransferAccept, handleTransferStatus, handleTransferWhisper } from '../src/controllers/twilioController';
+import { callService } from '../src/services/call/callService';
+import { fakeCallStore, fakeResponse } from './fakes';
+
+const plan = {
+  departmentId: 'department-1',
+  department: 'Sales',
+  reason: 'a quote',
+  hops: [
+    [{ id: 'target-1', name: 'Grace', phoneNumber: '+15550000001' }],
+    [{ id: 'target-2', name: 'Alan', phoneNumber: '+15550000002' }],
+  ],
+  hop: 0,
+  timeout: 20,
+  fallback: 'VOICEMAIL',
+  whisper: 'Call from {{callerName}}, about {{reason}}.',
+};
+
+describe('ring group whisper', () => {
+  let store: ReturnType<typeof fakeCallStore>;
+
+  const post = async (handler: (req: any, res: any) => Promise<unknown>, body: Record<string, string>, query: Record<string, string> = {}) => {
+    const res = fakeResponse();
+    await handler({ body, query } as any, res);
+    return res.body as string;
+  };
+
+  const session = () => [...store.sessions.values()][0];
+
+  beforeEach(async () => {
+    store = fakeCallStore();
+    mock.method(callService, 'updateCallStatus', async () => undefined);
+
+    await prisma.callSession.create({
+      data: { tenantId: 'tenant-1', callSid: 'CA700', fromNumber: '+13105550123', metadata: { transfer: plan } } as any,
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('asks whoever answers to press 1 and hangs up their leg otherwise', async () => {
+    const twiml = await post(handleTransferWhisper, {}, { callSid: 'CA700' });
+
+    const gather = twiml.match(/<Gather [^>]*>/)![0];
+    assert.match(gather, /input="dtmf"/);
+    assert.match(gather, /numDigits="1"/);
+    assert.match(gather, /action="[^"]*\/twilio\/transfer-accept\?callSid=CA700"/);
+    assert.match(twiml, /Call from a caller, about a quote\. Press 1 to accept\./);
+    assert.match(twiml, /<\/Gather><Hangup\/><\/Response>$/);
+  });
+
+  it('rings the next member when the leg ended without a 1', async () => {
+    assert.match(await post(handleTransferAccept, { Digits: '2' }, { callSid: 'CA700' }), /<Hangup\/>/);
+
+    const twiml = await post(handleTransferStatus, { CallSid: 'CA700', DialCallStatus: 'completed' }, { screened: '1' });
+
+    assert.match(twiml, /\+15550000002/);
+    assert.equal(session().transferSuccess, false);
+    assert.equal(session().metadata.transfer.hop, 1);
+  });
+
+  it('connects the caller once the member pressed 1', async () => {
+    assert.doesNotMatch(await post(handleTransferAccept, { Digits: '1' }, { callSid: 'CA700' }), /<Hangup\/>/);
+
+    await post(handleTransferStatus, { CallSid: 'CA700', DialCallStatus: 'completed' }, { screened: '1' });
+
+    assert.equal(session().transferSuccess, true);
+    assert.equal(session().metadata.transfer.hop, 0);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import prisma from '../src/db/prisma';
+import { voicemailService } from '../src/services/voicemail/voicemailService';
+import { twilioService } from '../src/services/twilio/twilioService';
+
+describe('deleting a voicemail', () => {
+  let voicemails: any[];
+  let auditLogs: any[];
+  let deleteRecording: ReturnType<typeof mock.fn>;
+
+  beforeEach(() => {
+    voicemails = [{ id: 'voicemail-1', tenantId: 'tenant-1', callSessionId: 'session-1', recordingSid: 'RE100', createdAt: new Date() }];
+    auditLogs = [];
+
+    (prisma as any).voicemail = {
+      findFirst: async ({ where }: any) => voicemails.find(v => v.id === where.id && v.tenantId === where.tenantId) ?? null,
+      delete: async ({ where }: any) => {
+        voicemails = voicemails.filter(v => v.id !== where.id);
+      },
+    };
+    (prisma as any).auditLog = {
+      create: async ({ data }: any) => {
+        auditLogs.push(data);
+        return data;
+      },
+    };
+    (prisma as any).$transaction = async (operations: Promise<unknown>[]) => Promise.all(operations);
+    deleteRecording = mock.method(twilioService, 'deleteRecording', async () => undefined);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('deletes the recording at Twilio and logs who deleted it', async () => {
+    await voicemailService.delete('voicemail-1', 'tenant-1', { reason: 'manual', userId: 'user-1', ipAddress: '203.0.113.5' });
+
+    assert.deepEqual(voicemails, []);
+    assert.deepEqual(deleteRecording.mock.calls.map(call => call.arguments), [['RE100']]);
+    assert.equal(auditLogs.length, 1);
+    assert.equal(auditLogs[0].resource, 'voicemail');
+    assert.equal(auditLogs[0].userId, 'user-1');
+    assert.equal(JSON.parse(auditLogs[0].details).recordingSid, 'RE100');
+  });
+
+  it("leaves other tenants' voicemails alone", async () => {
+    await assert.rejects(voicemailService.delete('voicemail-1', 'tenant-2', { reason: 'manual' }), /Voicemail not found/);
+
+    assert.equal(voicemails.length, 1);
+    assert.equal(deleteRecording.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import zlib from 'zlib';
+import { AddressInfo } from 'net';
+import { WebsiteScraperService } from '../src/services/website/websiteScraperService';
+
+const LIMIT = 64 * 1024;
+
+function sitemap(paths: string[]) {
+  return `<?xml version="1.0"?><urlset>${paths.map(path => `<url><loc>http://127.0.0.1${path}</loc></url>`).join('')}</urlset>`;
+}
+
+describe('website crawl size limits', () => {
+  const pages: Record<string, { type: string; body: Buffer }> = {
+    '/sitemap.xml': { type: 'application/xml', body: Buffer.from(sitemap(['/small'])) },
+    '/sitemap.xml.gz': { type: 'application/gzip', body: zlib.gzipSync(sitemap(['/zipped'])) },
+    // Compresses to a few hundred bytes, well past the limit once inflated
+    '/bomb.xml.gz': { type: 'application/gzip', body: zlib.gzipSync(sitemap(['/bomb']) + ' '.repeat(LIMIT * 4)) },
+    '/huge.xml': { type: 'application/xml', body: Buffer.from(sitemap(['/huge']) + ' '.repeat(LIMIT * 2)) },
+    '/small': { type: 'text/html', body: Buffer.from('<html><head><title>Small</title></head><body><p>Hello</p></body></html>') },
+    '/huge': { type: 'text/html', body: Buffer.from(`<html><body><p>${'x'.repeat(LIMIT * 2)}</p></body></html>`) },
+  };
+  const server = http.createServer((req, res) => {
+    const page = pages[req.url!];
+    if (!page) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': page.type }).end(page.body);
+  });
+  const scraper: any = new WebsiteScraperService();
+  let base: string;
+
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    scraper.MAX_PAGE_BYTES = LIMIT;
+    scraper.MAX_SITEMAP_BYTES = LIMIT;
+    mock.method(console, 'error', () => undefined);
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('reads sitemaps within the limit, gzipped or not', async () => {
+    const urls = await scraper.fetchSitemapUrls([`${base}/sitemap.xml`, `${base}/sitemap.xml.gz`], '127.0.0.1');
+    assert.deepEqual(urls, ['http://127.0.0.1/small', 'http://127.0.0.1/zipped']);
+  });
+
+  it('skips sitemaps over the limit before or after gunzip', async () => {
+    const urls = await scraper.fetchSitemapUrls([`${base}/huge.xml`, `${base}/bomb.xml.gz`], '127.0.0.1');
+    assert.deepEqual(urls, []);
+  });
+
+  it('skips pages over the limit', async () => {
+    assert.equal((await scraper.fetchPage(`${base}/small`, '127.0.0.1', null)).status, 'ok');
+    assert.equal((await scraper.fetchPage(`${base}/huge`, '127.0.0.1', null)).status, 'error');
+  });
+});